@@ -2,7 +2,7 @@
 'use strict';
 
 import { createState, statusKey, buildFlatList, MODE } from '../src/lib/state';
-import { clearScreen, renderListView, renderLogView, renderExecView } from '../src/lib/renderer';
+import { DEFAULT_COLUMNS, clearScreen, renderListView, renderLogView, renderExecView } from '../src/lib/renderer';
 import type { Killable } from '../src/lib/types';
 
 // --- Mock terminal dimensions ---
@@ -36,6 +36,17 @@ const config = {
   cpuDangerThreshold: 100,
   memWarnThreshold: 512,
   memDangerThreshold: 1024,
+  reconcileInterval: 30000,
+  dockerConcurrency: 4,
+  bulkConcurrency: 2,
+  cascadeConcurrency: 4,
+  healthGateTimeout: 120000,
+  backend: 'cli' as const,
+  runtime: 'docker' as const,
+  profiles: [],
+  columns: DEFAULT_COLUMNS,
+  worktreeDir: null,
+  worktreeIsolation: 'directory' as const,
 };
 
 // --- Build mock state ---
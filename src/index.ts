@@ -4,10 +4,19 @@
 import fs from 'fs';
 import path from 'path';
 import type { ChildProcess } from 'child_process';
-import { listServices, getStatuses, rebuildService, restartService, stopService, startService, tailLogs, fetchServiceLogs, getContainerId, tailContainerLogs, fetchContainerLogs, fetchContainerStats, parseStatsLine, isWatchAvailable, watchService, parseDependencyGraph, execInContainer, getGitRoot, listGitWorktrees, validateServiceInComposeFile } from './lib/docker';
-import { MODE, createState, statusKey, buildFlatList, moveCursor, selectedEntry, getEffectiveFile } from './lib/state';
-import { clearScreen, showCursor, renderListView, renderLogView, renderExecView, CLEAR_EOL, CLEAR_EOS } from './lib/renderer';
-import type { Config, AppState, ServiceGroup, Killable, StatsHistory, CascadeStep, CascadeOperation, GitWorktree } from './lib/types';
+import { listServicesAsync, getStatusesAsync, rebuildService, restartService, stopService, startService, tailLogs, fetchServiceLogs, getContainerIdAsync, tailContainerLogs, fetchContainerLogs, fetchContainerStatsAsync, isWatchAvailableAsync, watchService, parseDependencyGraphAsync, execInContainer, getGitRootAsync, resolveGitWorktreeAsync, listGitWorktreesAsync, getGitWorktreeStatusAsync, listGitBranchesAsync, addGitWorktreeAsync, removeGitWorktreeAsync, validateServiceInComposeFileAsync, scaleService, upServices, listServiceProfilesAsync, useProfiles, registerComposeProject, composeProjectFor, getServiceEnvironmentAsync, getComposeConfigAsync, getServiceDefinitionAsync, getServicePortsAsync, composeProjectName, streamContainerEvents, parseContainerEvent, setExecConcurrency, useEngineApi, useRuntime, detectRuntimeAsync } from './lib/docker';
+import { isRuntimeName } from './lib/runtime';
+import { resolveEngineEndpoint, pingEngine } from './lib/engine';
+import { MODE, createState, statusKey, replicaKey, entryKey, buildFlatList, refreshFlatList, moveCursor, selectedEntry, selectedReplica, failedCascade, serviceStatusFromReplicas, inactiveProfile, getEffectiveFile } from './lib/state';
+import { paletteMatches } from './lib/palette';
+import { branchPromptOptions, worktreePathFor, worktreeUsers, worktreeProjectName } from './lib/worktree';
+import { findPortConflicts } from './lib/ports';
+import { normalizeDefinition, diffDefinitions } from './lib/definition';
+import { cascadeSteps, cascadePlanSteps, prerequisiteSteps, serviceImage, buildsFrom } from './lib/cascade';
+import { graphRows } from './lib/graph';
+import { SORT_FIELDS, EXEC_HISTORY_LIMIT, loadSession, saveSession, sessionSnapshot } from './lib/session';
+import { clearScreen, showCursor, renderListView, renderLogView, renderExecView, renderGraphView, CLEAR_EOL, CLEAR_EOS, DEFAULT_COLUMNS } from './lib/renderer';
+import type { Config, ColumnConfig, ComposeFileEntry, ComposeProjectConfig, ComposeProject, AppState, ServiceGroup, Killable, StatsHistory, CascadeStep, CascadeOperation, GitWorktree, ContainerEvent, ContainerStatus, ReplicaStatus, FlatEntry, OutputChild, PaletteItem, BulkAction, Session, SessionWorktreeOverride, WorktreeSwitchScope, StackSwitch, StackSwitchItem, BranchOption, PortConflict, PortPreflightAction, WorktreeIsolation, WorktreePreview, CascadePlan, ServiceBuild, CascadeDirection } from './lib/types';
 
 // --- Module-level mutable state ---
 
@@ -17,6 +26,16 @@ export interface ModuleState {
   lastRenderTime: number;
   pendingRender: ReturnType<typeof setTimeout> | null;
   logFetchTimer: ReturnType<typeof setTimeout> | null;
+  lastReconcileTime: number;
+  statusPoll: Promise<void> | null;
+  statusPollQueued: boolean;
+  // Status polls begun, and the last one whose statuses were stored
+  statusPollStarted: number;
+  statusPollApplied: number;
+  discoveryGeneration: number;
+  abortController: AbortController;
+  // Container working dirs (keyed with the status key) that map to no worktree of the group
+  uninferableWorkingDirs: Set<string>;
 }
 
 export function createModuleState(): ModuleState {
@@ -26,6 +45,14 @@ export function createModuleState(): ModuleState {
     lastRenderTime: 0,
     pendingRender: null,
     logFetchTimer: null,
+    lastReconcileTime: 0,
+    statusPoll: null,
+    statusPollQueued: false,
+    statusPollStarted: 0,
+    statusPollApplied: 0,
+    discoveryGeneration: 0,
+    abortController: new AbortController(),
+    uninferableWorkingDirs: new Set(),
   };
 }
 
@@ -48,20 +75,51 @@ export function loadConfig(): Config {
     cpuDangerThreshold: 100,
     memWarnThreshold: 512,
     memDangerThreshold: 1024,
+    reconcileInterval: 30000,
+    dockerConcurrency: 4,
+    bulkConcurrency: 2,
+    cascadeConcurrency: 4,
+    healthGateTimeout: 120000,
+    backend: 'cli',
+    runtime: 'auto',
+    profiles: [],
+    columns: DEFAULT_COLUMNS,
+    worktreeDir: null,
+    worktreeIsolation: 'directory',
   };
 
   const configPath = path.join(process.cwd(), 'recomposable.json');
   if (fs.existsSync(configPath)) {
     const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
     if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
-      if (Array.isArray(raw.composeFiles) && raw.composeFiles.every((f: unknown) => typeof f === 'string')) {
-        defaults.composeFiles = raw.composeFiles;
+      if (Array.isArray(raw.composeFiles)) {
+        const entries = raw.composeFiles.map(parseComposeFileEntry);
+        if (entries.every((e: ComposeFileEntry | null) => e !== null)) defaults.composeFiles = entries;
       }
       if (Array.isArray(raw.logScanPatterns) && raw.logScanPatterns.every((p: unknown) =>
         typeof p === 'string' || (Array.isArray(p) && p.length > 0 && p.every((s: unknown) => typeof s === 'string'))
       )) {
         defaults.logScanPatterns = raw.logScanPatterns;
       }
+      if (Array.isArray(raw.profiles) && raw.profiles.every((p: unknown) => typeof p === 'string' && p !== '')) {
+        defaults.profiles = raw.profiles;
+      }
+      if (raw.columns !== undefined) {
+        const columns = parseColumns(raw.columns);
+        if (columns) defaults.columns = columns;
+      }
+      if (typeof raw.worktreeDir === 'string' && raw.worktreeDir !== '') {
+        defaults.worktreeDir = path.resolve(raw.worktreeDir);
+      }
+      if (raw.worktreeIsolation === 'directory' || raw.worktreeIsolation === 'shared' || raw.worktreeIsolation === 'branch') {
+        defaults.worktreeIsolation = raw.worktreeIsolation;
+      }
+      if (raw.backend === 'cli' || raw.backend === 'api') {
+        defaults.backend = raw.backend;
+      }
+      if (raw.runtime === 'auto' || isRuntimeName(raw.runtime)) {
+        defaults.runtime = raw.runtime;
+      }
       const numericFields: Array<{ key: keyof Config; min: number; max: number }> = [
         { key: 'pollInterval', min: 500, max: 300000 },
         { key: 'logTailLines', min: 1, max: 50000 },
@@ -74,6 +132,11 @@ export function loadConfig(): Config {
         { key: 'cpuDangerThreshold', min: 0, max: 10000 },
         { key: 'memWarnThreshold', min: 0, max: 1048576 },
         { key: 'memDangerThreshold', min: 0, max: 1048576 },
+        { key: 'reconcileInterval', min: 1000, max: 3600000 },
+        { key: 'dockerConcurrency', min: 1, max: 32 },
+        { key: 'bulkConcurrency', min: 1, max: 16 },
+        { key: 'cascadeConcurrency', min: 1, max: 16 },
+        { key: 'healthGateTimeout', min: 1000, max: 3600000 },
       ];
       for (const { key, min, max } of numericFields) {
         if (typeof raw[key] === 'number' && isFinite(raw[key]) && raw[key] >= min && raw[key] <= max) {
@@ -102,29 +165,120 @@ export function loadConfig(): Config {
   return defaults;
 }
 
+// A composeFiles entry is a path, a list of paths merged into one project, or
+// { files, projectName?, envFile?, envFiles?, environment? }
+export function parseComposeFileEntry(raw: unknown): ComposeFileEntry | null {
+  const isPathList = (v: unknown): v is string[] => Array.isArray(v) && v.length > 0 && v.every(f => typeof f === 'string' && f !== '');
+  if (typeof raw === 'string') return raw;
+  if (isPathList(raw)) return { files: raw };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const obj = raw as Record<string, unknown>;
+  if (!isPathList(obj.files)) return null;
+  if (obj.projectName !== undefined && (typeof obj.projectName !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(obj.projectName))) return null;
+  if (obj.envFile !== undefined && (typeof obj.envFile !== 'string' || obj.envFile === '')) return null;
+  if (obj.envFiles !== undefined && !isPathList(obj.envFiles)) return null;
+  const env = obj.environment;
+  if (env !== undefined && (!env || typeof env !== 'object' || Array.isArray(env))) return null;
+  const entry: ComposeProjectConfig = { files: obj.files };
+  if (obj.projectName !== undefined) entry.projectName = obj.projectName as string;
+  if (obj.envFile !== undefined) entry.envFile = obj.envFile as string;
+  if (obj.envFiles !== undefined) entry.envFiles = obj.envFiles;
+  if (env !== undefined) {
+    const environment: Record<string, string> = {};
+    for (const [key, value] of Object.entries(env as Record<string, unknown>)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) return null;
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return null;
+      environment[key] = String(value);
+    }
+    entry.environment = environment;
+  }
+  return entry;
+}
+
+// columns is a list of column ids or { id, width } objects; the service column is required
+export function parseColumns(raw: unknown): ColumnConfig[] | null {
+  if (!Array.isArray(raw)) return null;
+  const columns: ColumnConfig[] = [];
+  for (const item of raw) {
+    const id = typeof item === 'string' ? item : item && typeof item === 'object' ? (item as Record<string, unknown>).id : undefined;
+    const known = DEFAULT_COLUMNS.find(c => c.id === id);
+    if (!known || columns.some(c => c.id === id)) return null;
+    const width = typeof item === 'string' ? known.width : (item as Record<string, unknown>).width ?? known.width;
+    if (typeof width !== 'number' || !Number.isInteger(width) || width < 1 || width > 200) return null;
+    columns.push({ id: known.id, width });
+  }
+  return columns.some(c => c.id === 'service') ? columns : null;
+}
+
+export function groupLabel(file: string): string {
+  return path.basename(file, path.extname(file)).replace(/^docker-compose\.?/, '') || path.basename(file);
+}
+
 // --- Service Discovery ---
 
-export function discoverServices(config: Config): ServiceGroup[] {
-  const groups: ServiceGroup[] = [];
-  for (const file of config.composeFiles) {
+export async function discoverServices(config: Config): Promise<ServiceGroup[]> {
+  return Promise.all(config.composeFiles.map(async (entry): Promise<ServiceGroup> => {
+    let project: ComposeProject | undefined;
+    if (typeof entry !== 'string') {
+      project = {
+        files: entry.files.map(f => path.resolve(f)),
+        projectName: entry.projectName || null,
+        projectDirectory: null,
+        envFiles: [...(entry.envFile ? [entry.envFile] : []), ...(entry.envFiles || [])].map(f => path.resolve(f)),
+        environment: entry.environment || {},
+      };
+      await registerComposeProject(project);
+    }
+    const file = typeof entry === 'string' ? entry : entry.files[0];
     const resolved = path.resolve(file);
-    const label = path.basename(file, path.extname(file)).replace(/^docker-compose\.?/, '') || path.basename(file);
+    const label = project?.projectName || groupLabel(file);
+    const signal = moduleState.abortController.signal;
     let services: string[] = [];
+    let profiles = new Map<string, string[]>();
     let error: string | null = null;
     try {
-      services = listServices(resolved);
+      [services, profiles] = await Promise.all([listServicesAsync(resolved, { signal }), listServiceProfilesAsync(resolved, { signal })]);
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
       error = msg.split('\n')[0].substring(0, 60);
     }
-    groups.push({ file: resolved, label, services, error });
-  }
-  return groups;
+    // Services behind inactive profiles go last, grouped by the profile they're listed under
+    const group: ServiceGroup = { file: resolved, label, services, error, profiles };
+    if (project) group.project = project;
+    const gated = [...profiles.keys()]
+      .filter(svc => !services.includes(svc))
+      .sort((a, b) => inactiveProfile(group, a, [])!.localeCompare(inactiveProfile(group, b, [])!));
+    group.services = [...services, ...gated];
+    return group;
+  }));
 }
 
 // --- Status Polling ---
 
-export function pollStatuses(state: AppState): void {
+export function pollStatuses(state: AppState): Promise<void> {
+  // Coalesce overlapping requests into one follow-up poll
+  if (moduleState.statusPoll) {
+    moduleState.statusPollQueued = true;
+    return moduleState.statusPoll;
+  }
+  const signal = moduleState.abortController.signal;
+  const poll = runStatusPoll(state, signal).catch(() => {
+    // Cancelled on cleanup, or docker went away mid-poll
+  }).then((): Promise<void> | void => {
+    moduleState.statusPoll = null;
+    if (signal.aborted) return;
+    if (moduleState.statusPollQueued) {
+      moduleState.statusPollQueued = false;
+      return pollStatuses(state);
+    }
+    if (state.mode === MODE.LIST) throttledRender(state);
+  });
+  moduleState.statusPoll = poll;
+  return poll;
+}
+
+async function runStatusPoll(state: AppState, signal: AbortSignal): Promise<void> {
+  const generation = ++moduleState.statusPollStarted;
   // Collect services by their effective file (may differ from group file due to worktree overrides)
   const fileToServices = new Map<string, Array<{ sk: string; service: string }>>();
   for (const group of state.groups) {
@@ -136,18 +290,31 @@ export function pollStatuses(state: AppState): void {
       fileToServices.get(file)!.push({ sk, service });
     }
   }
-  for (const [file, services] of fileToServices) {
-    const statuses = getStatuses(file);
-    const serviceSet = new Set(services.map(s => s.service));
-    for (const [svc, st] of statuses) {
-      if (serviceSet.has(svc)) {
-        // Store under the original statusKey (group.file based)
-        const match = services.find(s => s.service === svc);
-        if (match) state.statuses.set(match.sk, st);
-      }
+  const results = await Promise.all([...fileToServices].map(async ([file, services]) => ({
+    services,
+    statuses: await getStatusesAsync(file, { signal }),
+  })));
+  for (const { services, statuses } of results) {
+    for (const { sk, service } of services) {
+      // Store under the original statusKey (group.file based). A container missing from
+      // the listing is gone, even if the events stream never said so.
+      const st = statuses.get(service);
+      if (st) state.statuses.set(sk, st);
+      else state.statuses.delete(sk);
     }
   }
+  moduleState.statusPollApplied = generation;
+  await inferWorktreeOverrides(state, signal);
   detectMultipleWorktrees(state);
+  detectProjects(state);
+  if (state.expandedServices.size > 0) refreshFlatList(state);
+  moduleState.lastReconcileTime = Date.now();
+}
+
+export function needsReconcile(state: AppState): boolean {
+  // While the events stream is live, the full poll only runs to catch missed events
+  if (!state.eventsChild) return true;
+  return Date.now() - moduleState.lastReconcileTime >= (state.config.reconcileInterval || 30000);
 }
 
 export function detectMultipleWorktrees(state: AppState): void {
@@ -157,7 +324,205 @@ export function detectMultipleWorktrees(state: AppState): void {
       worktrees.add(st.worktree);
     }
   }
-  state.showWorktreeColumn = worktrees.size > 1;
+  // Inferred overrides are marked in the worktree column, so it has to show
+  state.showWorktreeColumn = worktrees.size > 1 || state.inferredOverrides.size > 0;
+}
+
+// The compose project each service runs in. The project column shows once one of them
+// is outside its group's own project.
+export function detectProjects(state: AppState): void {
+  state.serviceProjects.clear();
+  state.showProjectColumn = false;
+  for (const group of state.groups) {
+    const own = composeProjectName(group.file);
+    for (const service of group.services) {
+      const name = composeProjectName(getEffectiveFile(state, group.file, service));
+      state.serviceProjects.set(statusKey(group.file, service), { name, own: name === own });
+      if (name !== own) state.showProjectColumn = true;
+    }
+  }
+}
+
+// Containers started from another worktree of the group's repository (by an earlier
+// session, or by hand) make that worktree's compose file the effective one, so logs,
+// exec and rebuilds go to the right project. Overrides the user set are left alone;
+// inferred ones follow the container and are dropped once it runs from the group's own
+// directory again.
+export async function inferWorktreeOverrides(state: AppState, signal?: AbortSignal): Promise<void> {
+  for (const group of state.groups) {
+    if (group.error) continue;
+    const ownDir = path.dirname(path.resolve(group.file));
+    for (const service of group.services) {
+      const sk = statusKey(group.file, service);
+      const st = state.statuses.get(sk);
+      if (!st || !st.workingDir || serviceBusy(state, sk)) continue;
+      if (state.worktreeOverrides.has(sk) && !state.inferredOverrides.has(sk)) continue;
+      const workingDir = path.resolve(st.workingDir);
+      if (workingDir === path.dirname(path.resolve(getEffectiveFile(state, group.file, service)))) continue;
+      if (workingDir === ownDir) {
+        state.worktreeOverrides.delete(sk);
+        state.inferredOverrides.delete(sk);
+        continue;
+      }
+      const missKey = `${sk}@${workingDir}`;
+      if (moduleState.uninferableWorkingDirs.has(missKey)) continue;
+      const worktreeRoot = await getGitRootAsync(workingDir, { signal });
+      // The container is in the group's own project, whatever worktreeIsolation says
+      const newFile = worktreeRoot ? await mapGroupToWorktree(state, group.file, { path: worktreeRoot, branch: null }, 'shared', signal) : null;
+      if (!newFile || path.dirname(path.resolve(newFile)) !== workingDir) {
+        moduleState.uninferableWorkingDirs.add(missKey);
+        continue;
+      }
+      state.worktreeOverrides.set(sk, newFile);
+      state.inferredOverrides.add(sk);
+    }
+  }
+}
+
+// --- Status Events ---
+
+function findEventTarget(state: AppState, ev: ContainerEvent): { sk: string; groupFile: string; service: string } | null {
+  const service = ev.service;
+  if (!service) return null;
+  const candidates: Array<{ sk: string; groupFile: string; file: string; service: string }> = [];
+  for (const group of state.groups) {
+    if (group.error || !group.services.includes(service)) continue;
+    candidates.push({ sk: statusKey(group.file, service), groupFile: group.file, file: getEffectiveFile(state, group.file, service), service });
+  }
+  // Prefer the exact compose file; several files in one directory share a project name
+  const byFile = candidates.find(c => ev.configFiles.includes(c.file));
+  if (byFile) return byFile;
+  const byProject = candidates.find(c => ev.project !== null && ev.project === composeProjectName(c.file));
+  return byProject || null;
+}
+
+function sameContainerId(a: string, b: string): boolean {
+  return a.startsWith(b) || b.startsWith(a);
+}
+
+function applyReplicaEvent(
+  state: AppState, rk: string, sk: string, st: ContainerStatus, replica: ReplicaStatus, ev: ContainerEvent, at: string | null,
+): boolean {
+  let replicas = st.replicas!;
+  switch (ev.action) {
+    case 'start':
+      replica.state = 'running';
+      if (replica.health) replica.health = 'starting';
+      if (at) replica.startedAt = at;
+      break;
+    case 'die':
+      replica.state = 'exited';
+      replica.health = '';
+      state.containerStatsHistory.delete(rk);
+      state.containerStats.delete(rk);
+      break;
+    case 'health_status':
+      replica.health = ev.health || '';
+      break;
+    case 'destroy':
+      replicas = replicas.filter(r => r !== replica);
+      state.containerStatsHistory.delete(rk);
+      state.containerStats.delete(rk);
+      break;
+    default:
+      return false;
+  }
+  state.statuses.set(sk, serviceStatusFromReplicas(replicas, st.workingDir, st.worktree));
+  if (state.expandedServices.has(sk)) refreshFlatList(state);
+  return true;
+}
+
+export function applyContainerEvent(state: AppState, ev: ContainerEvent): boolean {
+  const target = findEventTarget(state, ev);
+  if (!target) return false;
+  const { sk } = target;
+
+  const st = state.statuses.get(sk);
+  const sameContainer = !!(st && st.id && sameContainerId(st.id, ev.id));
+  const at = ev.time !== null ? new Date(ev.time * 1000).toISOString() : null;
+
+  const replica = st?.replicas?.find(r => r.id !== null && sameContainerId(r.id, ev.id));
+  if (st && replica) return applyReplicaEvent(state, replicaKey(target.groupFile, target.service, replica.number), sk, st, replica, ev, at);
+  if ((st && st.replicas) || (ev.replica !== null && ev.replica > 1)) {
+    // Scaled up or down — the next reconcile rebuilds the replica set
+    if (ev.action === 'start' || ev.action === 'destroy') moduleState.lastReconcileTime = 0;
+    return false;
+  }
+
+  switch (ev.action) {
+    case 'start':
+      if (st && sameContainer) {
+        st.state = 'running';
+        if (st.health) st.health = 'starting';
+        if (at) st.startedAt = at;
+      } else {
+        // Recreated container — ports and labels are filled in by the next reconcile
+        state.statuses.set(sk, {
+          state: 'running', health: '', createdAt: at, startedAt: at, id: ev.id, ports: [],
+          workingDir: ev.workingDir, worktree: st ? st.worktree : null,
+        });
+        moduleState.lastReconcileTime = 0;
+      }
+      return true;
+    case 'die':
+      if (!st || !sameContainer) return false;
+      st.state = 'exited';
+      st.health = '';
+      state.containerStatsHistory.delete(sk);
+      state.containerStats.delete(sk);
+      return true;
+    case 'health_status':
+      if (!st || !sameContainer) return false;
+      st.health = ev.health || '';
+      return true;
+    case 'destroy':
+      if (!st || !sameContainer) return false;
+      state.statuses.delete(sk);
+      state.containerStatsHistory.delete(sk);
+      state.containerStats.delete(sk);
+      return true;
+  }
+  return false;
+}
+
+export function stopEventStream(state: AppState): void {
+  if (state.eventsChild) {
+    state.eventsChild.kill('SIGTERM');
+    state.eventsChild = null;
+  }
+}
+
+export function syncEventStream(state: AppState): void {
+  if (state.eventsChild) return;
+
+  // Events for other compose projects are dropped by applyContainerEvent's file/project match
+  const child = streamContainerEvents();
+  // Runtimes without a usable events stream stay on interval polling
+  if (!child) return;
+  state.eventsChild = child;
+
+  let lineBuf = '';
+  child.stdout!.on('data', (data: Buffer) => {
+    lineBuf += data.toString();
+    const parts = lineBuf.split('\n');
+    lineBuf = parts.pop()!;
+    let changed = false;
+    for (const line of parts) {
+      if (!line.trim()) continue;
+      const ev = parseContainerEvent(line);
+      if (ev && applyContainerEvent(state, ev)) changed = true;
+    }
+    if (!changed) return;
+    detectMultipleWorktrees(state);
+    if (state.mode === MODE.LIST) throttledRender(state);
+  });
+  child.stderr!.on('data', () => {});
+  const onExit = (): void => {
+    // Falls back to interval polling until the next sync respawns the stream
+    if (state.eventsChild === child) state.eventsChild = null;
+  };
+  child.on('close', onExit);
+  child.on('error', onExit);
 }
 
 // --- Log Pattern Scanning ---
@@ -168,23 +533,50 @@ export function pollLogCounts(state: AppState): void {
   if (scanPatterns.length === 0) return;
   const tailLines = state.config.logScanLines || 1000;
 
-  const toScan: Array<{ sk: string; containerId: string }> = [];
+  const toScan: Array<{ sk: string; containerId: string; file: string }> = [];
+  // Multi-replica services are scanned per container and summed into the service row
+  const replicaKeys = new Map<string, string[]>();
   for (const group of state.groups) {
     if (group.error) continue;
     for (const service of group.services) {
       const sk = statusKey(group.file, service);
       const st = state.statuses.get(sk);
       if (!st || st.state !== 'running' || !st.id) continue;
-      toScan.push({ sk, containerId: st.id });
+      const file = getEffectiveFile(state, group.file, service);
+      if (!st.replicas) {
+        toScan.push({ sk, containerId: st.id, file });
+        continue;
+      }
+      const keys: string[] = [];
+      for (const r of st.replicas) {
+        if (r.state !== 'running' || !r.id) continue;
+        const rk = replicaKey(group.file, service, r.number);
+        keys.push(rk);
+        toScan.push({ sk: rk, containerId: r.id, file });
+      }
+      replicaKeys.set(sk, keys);
     }
   }
 
   if (toScan.length === 0) return;
   moduleState.logScanActive = true;
   let remaining = toScan.length;
+  const finishScan = (): void => {
+    moduleState.logScanActive = false;
+    for (const [sk, keys] of replicaKeys) {
+      const total = new Map<string, number>();
+      for (const rk of keys) {
+        for (const [pattern, count] of state.logCounts.get(rk) || []) {
+          total.set(pattern, (total.get(pattern) || 0) + count);
+        }
+      }
+      state.logCounts.set(sk, total);
+    }
+    if (state.mode === MODE.LIST) throttledRender(state);
+  };
 
-  for (const { sk, containerId } of toScan) {
-    const child = fetchContainerLogs(containerId, tailLines);
+  for (const { sk, containerId, file } of toScan) {
+    const child = fetchContainerLogs(containerId, tailLines, file);
     let output = '';
     child.stdout!.on('data', (d: Buffer) => { output += d.toString(); });
     child.stderr!.on('data', (d: Buffer) => { output += d.toString(); });
@@ -205,17 +597,11 @@ export function pollLogCounts(state: AppState): void {
       }
       state.logCounts.set(sk, counts);
       remaining--;
-      if (remaining === 0) {
-        moduleState.logScanActive = false;
-        if (state.mode === MODE.LIST) throttledRender(state);
-      }
+      if (remaining === 0) finishScan();
     });
     child.on('error', () => {
       remaining--;
-      if (remaining === 0) {
-        moduleState.logScanActive = false;
-        if (state.mode === MODE.LIST) throttledRender(state);
-      }
+      if (remaining === 0) finishScan();
     });
   }
 }
@@ -226,13 +612,25 @@ export function pollContainerStats(state: AppState): void {
   if (moduleState.statsPollActive) return;
 
   const idToKey = new Map<string, string>();
+  const replicaKeys = new Map<string, string[]>();
   for (const group of state.groups) {
     if (group.error) continue;
     for (const service of group.services) {
       const sk = statusKey(group.file, service);
       const st = state.statuses.get(sk);
       if (!st || st.state !== 'running' || !st.id) continue;
-      idToKey.set(st.id, sk);
+      if (!st.replicas) {
+        idToKey.set(st.id, sk);
+        continue;
+      }
+      const keys: string[] = [];
+      for (const r of st.replicas) {
+        if (r.state !== 'running' || !r.id) continue;
+        const rk = replicaKey(group.file, service, r.number);
+        keys.push(rk);
+        idToKey.set(r.id, rk);
+      }
+      replicaKeys.set(sk, keys);
     }
   }
 
@@ -240,19 +638,11 @@ export function pollContainerStats(state: AppState): void {
   if (ids.length === 0) return;
 
   moduleState.statsPollActive = true;
-  const child = fetchContainerStats(ids);
-  let output = '';
-  child.stdout!.on('data', (d: Buffer) => { output += d.toString(); });
-  child.stderr!.on('data', () => {});
-  child.on('close', () => {
+  fetchContainerStatsAsync(ids, { signal: moduleState.abortController.signal }).then(results => {
     moduleState.statsPollActive = false;
     const bufferSize = state.config.statsBufferSize || 6;
 
-    for (const line of output.trim().split('\n')) {
-      if (!line.trim()) continue;
-      const parsed = parseStatsLine(line);
-      if (!parsed) continue;
-
+    for (const parsed of results) {
       let sk: string | null = null;
       for (const [id, key] of idToKey) {
         if (parsed.id.startsWith(id) || id.startsWith(parsed.id)) {
@@ -282,9 +672,21 @@ export function pollContainerStats(state: AppState): void {
       });
     }
 
+    // Collapsed multi-replica rows show the total across their running replicas
+    for (const [sk, keys] of replicaKeys) {
+      let cpuPercent = 0, memUsageBytes = 0, seen = 0;
+      for (const rk of keys) {
+        const stats = state.containerStats.get(rk);
+        if (!stats) continue;
+        cpuPercent += stats.cpuPercent;
+        memUsageBytes += stats.memUsageBytes;
+        seen++;
+      }
+      if (seen > 0) state.containerStats.set(sk, { cpuPercent, memUsageBytes });
+    }
+
     if (state.mode === MODE.LIST) throttledRender(state);
-  });
-  child.on('error', () => {
+  }, () => {
     moduleState.statsPollActive = false;
   });
 }
@@ -292,6 +694,7 @@ export function pollContainerStats(state: AppState): void {
 // --- Rendering ---
 
 export function render(state: AppState): void {
+  if (state.mode === MODE.LIST && (state.filterQuery || state.sortField !== 'default')) applyFilterAndSort(state);
   let view = '';
   if (state.mode === MODE.LIST) {
     view = renderListView(state);
@@ -299,6 +702,8 @@ export function render(state: AppState): void {
     view = renderLogView(state);
   } else if (state.mode === MODE.EXEC) {
     view = renderExecView(state);
+  } else if (state.mode === MODE.GRAPH) {
+    view = renderGraphView(state);
   }
   // View functions already embed CLEAR_EOL per line; just clear below last line
   process.stdout.write(clearScreen() + view + CLEAR_EOL + CLEAR_EOS);
@@ -335,8 +740,10 @@ export function throttledRender(state: AppState): void {
 export function updateSelectedLogs(state: AppState): void {
   const entry = selectedEntry(state);
   if (!entry) return;
+  // Every cursor move lands here, so the env panel follows the selection too
+  if (state.envPanelActive) loadEnvPanel(state);
 
-  const sk = statusKey(entry.file, entry.service);
+  const sk = entryKey(entry);
 
   if (state.selectedLogKey === sk) return;
 
@@ -366,26 +773,46 @@ export function updateSelectedLogs(state: AppState): void {
 
   if (state.bottomLogLines.has(sk)) return;
 
-  state.bottomLogLines.set(sk, { action: 'logs', service: entry.service, lines: [] });
+  state.bottomLogLines.set(sk, { action: 'logs', service: entryLabel(entry), lines: [] });
 
   const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
+  const replicaId = selectedReplica(state, entry)?.id || null;
   moduleState.logFetchTimer = setTimeout(() => {
     moduleState.logFetchTimer = null;
-    startBottomLogTail(state, sk, effectiveFile, entry.service);
+    startBottomLogTail(state, sk, effectiveFile, entry.service, replicaId);
   }, 500);
 }
 
-function startBottomLogTail(state: AppState, sk: string, file: string, service: string): void {
+function entryLabel(entry: FlatEntry): string {
+  return entry.replica !== undefined ? `${entry.service} #${entry.replica}` : entry.service;
+}
+
+// Replica rows read their own container's logs; service rows read compose logs (all replicas)
+function openEntryLogs(state: AppState, entry: FlatEntry, tailLines: number | 'all', follow: boolean): OutputChild {
+  const replicaId = selectedReplica(state, entry)?.id;
+  const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
+  if (replicaId) return follow ? tailContainerLogs(replicaId, tailLines, effectiveFile) : fetchContainerLogs(replicaId, tailLines, effectiveFile);
+  return follow ? tailLogs(effectiveFile, entry.service, tailLines) : fetchServiceLogs(effectiveFile, entry.service, tailLines);
+}
+
+async function startBottomLogTail(state: AppState, sk: string, file: string, service: string, knownContainerId: string | null = null): Promise<void> {
   if (state.bottomLogTails.has(sk)) {
     state.bottomLogTails.get(sk)!.kill('SIGTERM');
     state.bottomLogTails.delete(sk);
   }
 
-  const containerId = getContainerId(file, service);
+  const containerId = knownContainerId
+    || await getContainerIdAsync(file, service, { signal: moduleState.abortController.signal }).catch(() => null);
   if (!containerId) return;
+  // The panel may have been cleared or retargeted while docker answered
+  if (!state.bottomLogLines.has(sk)) return;
+  if (state.bottomLogTails.has(sk)) {
+    state.bottomLogTails.get(sk)!.kill('SIGTERM');
+    state.bottomLogTails.delete(sk);
+  }
 
   const maxLines = state.config.bottomLogCount || 10;
-  const logChild = tailContainerLogs(containerId, maxLines);
+  const logChild = tailContainerLogs(containerId, maxLines, file);
   state.bottomLogTails.set(sk, logChild as Killable);
 
   let buf = '';
@@ -406,8 +833,7 @@ function startBottomLogTail(state: AppState, sk: string, file: string, service:
   logChild.stderr!.on('data', onData);
 }
 
-export function doRebuild(state: AppState): void {
-  const entry = selectedEntry(state);
+export function doRebuild(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
   if (!entry) return;
 
   const sk = statusKey(entry.file, entry.service);
@@ -469,8 +895,7 @@ export function doRebuild(state: AppState): void {
   });
 }
 
-export function doRestart(state: AppState): void {
-  const entry = selectedEntry(state);
+export function doRestart(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
   if (!entry) return;
 
   const sk = statusKey(entry.file, entry.service);
@@ -512,15 +937,35 @@ export function doRestart(state: AppState): void {
   });
 }
 
-export function doStop(state: AppState): void {
+export function toggleReplicas(state: AppState): void {
   const entry = selectedEntry(state);
   if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (!state.statuses.get(sk)?.replicas && !state.expandedServices.has(sk)) return;
+
+  if (state.expandedServices.has(sk)) {
+    state.expandedServices.delete(sk);
+    // Collapse onto the service row
+    const idx = state.flatList.findIndex(e => e.file === entry.file && e.service === entry.service && e.replica === undefined);
+    if (idx !== -1) state.cursor = idx;
+  } else {
+    state.expandedServices.add(sk);
+  }
+  refreshFlatList(state);
+  updateSelectedLogs(state);
+  render(state);
+}
+
+export function doScale(state: AppState, delta: number, entry: FlatEntry | null = selectedEntry(state)): void {
+  if (!entry) return;
 
   const sk = statusKey(entry.file, entry.service);
-  if (state.stopping.has(sk) || state.rebuilding.has(sk) || state.restarting.has(sk)) return;
+  if (state.scaling.has(sk) || state.rebuilding.has(sk) || state.restarting.has(sk) || state.stopping.has(sk) || state.starting.has(sk)) return;
 
   const st = state.statuses.get(sk);
-  if (!st || st.state !== 'running') return;
+  const current = st ? (st.replicas ? st.replicas.length : 1) : 0;
+  const target = Math.max(0, current + delta);
+  if (target === current) return;
 
   if (state.bottomLogTails.has(sk)) {
     state.bottomLogTails.get(sk)!.kill('SIGTERM');
@@ -528,26 +973,72 @@ export function doStop(state: AppState): void {
   }
 
   const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
-  const child = stopService(effectiveFile, entry.service);
-  state.stopping.set(sk, child as Killable);
-  state.bottomLogLines.set(sk, { action: 'stopping', service: entry.service, lines: [] });
+  const child = scaleService(effectiveFile, entry.service, target);
+  state.scaling.set(sk, child as Killable);
+
+  const label = `${entry.service} \u00D7${target}`;
+  state.bottomLogLines.set(sk, { action: 'scaling', service: label, lines: [] });
   render(state);
 
+  let stderr = '';
+  child.stderr!.on('data', (d: Buffer) => { stderr += d.toString(); });
   child.on('close', (code: number | null) => {
-    state.stopping.delete(sk);
-    if (code !== 0 && code !== null) {
-      const info = state.bottomLogLines.get(sk);
-      if (info) info.action = 'stop_failed';
-    } else {
-      state.bottomLogLines.delete(sk);
-    }
+    state.scaling.delete(sk);
     pollStatuses(state);
+
+    const info = state.bottomLogLines.get(sk);
+    if (info) {
+      const failed = code !== 0 && code !== null;
+      info.action = failed ? 'scale_failed' : 'scaled';
+      info.lines = failed ? stderr.split('\n').filter(l => l.trim()).map(stripAnsi) : [];
+    }
     if (state.mode === MODE.LIST) render(state);
   });
 }
 
-export function doStart(state: AppState): void {
-  const entry = selectedEntry(state);
+export function doStop(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
+  if (!entry) return;
+
+  const sk = statusKey(entry.file, entry.service);
+  if (state.stopping.has(sk) || state.rebuilding.has(sk) || state.restarting.has(sk)) return;
+
+  void stopAndWait(state, entry.file, entry.service);
+}
+
+// Resolves once the service has stopped, or failed to
+function stopAndWait(state: AppState, file: string, service: string): Promise<void> {
+  const sk = statusKey(file, service);
+  const st = state.statuses.get(sk);
+  if (!st || st.state !== 'running') return Promise.resolve();
+
+  if (state.bottomLogTails.has(sk)) {
+    state.bottomLogTails.get(sk)!.kill('SIGTERM');
+    state.bottomLogTails.delete(sk);
+  }
+
+  const effectiveFile = getEffectiveFile(state, file, service);
+  const child = stopService(effectiveFile, service);
+  state.stopping.set(sk, child as Killable);
+  state.bottomLogLines.set(sk, { action: 'stopping', service, lines: [] });
+  render(state);
+
+  return new Promise(resolve => {
+    child.on('close', (code: number | null) => {
+      state.stopping.delete(sk);
+      if (code !== 0 && code !== null) {
+        const info = state.bottomLogLines.get(sk);
+        if (info) info.action = 'stop_failed';
+      } else {
+        state.bottomLogLines.delete(sk);
+      }
+      pollStatuses(state);
+      if (state.mode === MODE.LIST) render(state);
+      resolve();
+    });
+  });
+}
+
+export function doStart(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
   if (!entry) return;
 
   const sk = statusKey(entry.file, entry.service);
@@ -557,7 +1048,8 @@ export function doStart(state: AppState): void {
   if (st && st.state === 'running') return;
 
   const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
-  const child = startService(effectiveFile, entry.service);
+  // No container yet (e.g. a profile-gated service that was never up): create it
+  const child = st ? startService(effectiveFile, entry.service) : upServices(effectiveFile, [entry.service]);
   state.starting.set(sk, child as Killable);
   state.bottomLogLines.set(sk, { action: 'starting', service: entry.service, lines: [] });
   render(state);
@@ -583,179 +1075,1043 @@ export function doStart(state: AppState): void {
   });
 }
 
-// --- Worktree Switching ---
-
-export function mapComposeFileToWorktree(composeFile: string, targetWorktreePath: string): string | null {
-  const resolved = path.resolve(composeFile);
-  const dir = path.dirname(resolved);
-  const gitRoot = getGitRoot(dir);
-  if (!gitRoot) return null;
+// --- Port Preflight ---
 
-  const relPath = path.relative(gitRoot, resolved);
-  const newFile = path.join(targetWorktreePath, relPath);
+// Checks the host ports the service would publish from targetFile. Resolves true when none
+// is taken; otherwise the conflicts wait in the bottom panel for resolvePortConflict. A
+// compose config that can't be read is left for the action itself to fail on.
+async function portPreflight(state: AppState, entry: FlatEntry, targetFile: string, action: PortPreflightAction): Promise<boolean> {
+  const signal = moduleState.abortController.signal;
+  let conflicts: PortConflict[];
   try {
-    fs.accessSync(newFile);
-    return newFile;
+    const ports = await getServicePortsAsync(targetFile, entry.service, { signal });
+    conflicts = await findPortConflicts(state, entry.file, entry.service, ports);
   } catch {
-    return null;
+    return !signal.aborted;
   }
+  if (conflicts.length === 0) return true;
+  state.portConflict = { entry, action, conflicts };
+  state.showBottomLogs = true;
+  render(state);
+  return false;
 }
 
-export function openWorktreePicker(state: AppState): void {
-  const entry = selectedEntry(state);
-  if (!entry) return;
-
-  const sk = statusKey(entry.file, entry.service);
-  if (state.rebuilding.has(sk) || state.restarting.has(sk) || state.stopping.has(sk) || state.starting.has(sk) || state.cascading.has(sk)) return;
+// The host ports each service would publish from its target file, checked one service at a
+// time so the host probes don't trip over each other, and marked with the service that
+// wants them. Ports held by the services themselves don't count: their containers are
+// replaced along the way.
+async function portConflictsOf(state: AppState, services: Array<{ file: string; service: string; target: string }>): Promise<PortConflict[]> {
+  const signal = moduleState.abortController.signal;
+  const replaced = new Set(services.map(s => statusKey(s.file, s.service)));
+  const conflicts: PortConflict[] = [];
+  for (const { file, service, target } of services) {
+    let found: PortConflict[];
+    try {
+      const ports = await getServicePortsAsync(target, service, { signal });
+      found = await findPortConflicts(state, file, service, ports);
+    } catch {
+      if (signal.aborted) return [];
+      continue;
+    }
+    for (const c of found) {
+      if (c.file && c.service && replaced.has(statusKey(c.file, c.service))) continue;
+      conflicts.push({ ...c, wantedBy: service });
+    }
+  }
+  return conflicts;
+}
 
-  const composeDir = path.dirname(path.resolve(entry.file));
-  const worktrees = listGitWorktrees(composeDir);
+function portConflictLine(c: PortConflict): string {
+  return c.service ? `port ${c.port} is published by ${c.service}` : `port ${c.port} is in use on this host`;
+}
 
-  if (worktrees.length <= 1) {
-    state.bottomLogLines.set(sk, { action: 'switch_failed', service: entry.service, lines: ['no other worktrees available — use `git worktree add` to create one'] });
-    state.showBottomLogs = true;
-    render(state);
+// Bulk starts don't stop to ask: a service whose ports are taken is left out, with the
+// ports in its panel line
+async function startIfPortsFree(state: AppState, entry: FlatEntry): Promise<void> {
+  const conflicts = await portConflictsOf(state, [{ file: entry.file, service: entry.service, target: getEffectiveFile(state, entry.file, entry.service) }]);
+  if (moduleState.abortController.signal.aborted) return;
+  if (conflicts.length === 0) {
+    doStart(state, entry);
     return;
   }
+  state.bottomLogLines.set(statusKey(entry.file, entry.service), { action: 'start_failed', service: entry.service, lines: conflicts.map(portConflictLine) });
+}
 
-  const gitRoot = getGitRoot(composeDir);
+export async function startWithPortCheck(state: AppState, entry: FlatEntry | null = selectedEntry(state)): Promise<void> {
+  if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (state.starting.has(sk) || state.rebuilding.has(sk) || state.restarting.has(sk) || state.stopping.has(sk)) return;
+  if (await portPreflight(state, entry, getEffectiveFile(state, entry.file, entry.service), { kind: 'start' })) {
+    doStart(state, entry);
+  }
+}
 
-  state.worktreePickerEntries = worktrees;
-  state.worktreePickerActive = true;
-  state.worktreePickerCurrentPath = gitRoot;
+// Goes ahead with the start or switch, after stopping the services in the way if asked to
+export async function resolvePortConflict(state: AppState, stopConflicting: boolean): Promise<void> {
+  const prompt = state.portConflict;
+  if (!prompt) return;
+  state.portConflict = null;
+  render(state);
+  if (stopConflicting) {
+    const owners = new Map<string, { file: string; service: string }>();
+    for (const { file, service } of prompt.conflicts) {
+      if (file && service) owners.set(statusKey(file, service), { file, service });
+    }
+    await Promise.all([...owners.values()].map(o => stopAndWait(state, o.file, o.service)));
+  }
+  const { entry, action } = prompt;
+  if (action.kind === 'start') doStart(state, entry);
+  else if (action.kind === 'switch') switchServiceFile(state, entry.file, entry.service, action.newFile, action.where);
+  else if (action.kind === 'prerequisites') {
+    if (!serviceBusy(state, statusKey(entry.file, entry.service))) startCascade(state, entry, action.file, action.steps, 'prerequisites');
+  } else await startStackSwitch(state, entry, action.stackSwitch);
+}
 
-  // Pre-select first non-current worktree
-  const currentIdx = gitRoot ? worktrees.findIndex(w => w.path === gitRoot) : -1;
-  const firstOther = worktrees.findIndex((_, i) => i !== currentIdx);
-  state.worktreePickerCursor = firstOther >= 0 ? firstOther : 0;
+export function cancelPortConflict(state: AppState): void {
+  const prompt = state.portConflict;
+  if (!prompt) return;
+  state.portConflict = null;
+  // Drop the switch's "checking ..." line
+  if (prompt.action.kind === 'switch' || prompt.action.kind === 'stack') state.bottomLogLines.delete(statusKey(prompt.entry.file, prompt.entry.service));
+  render(state);
+}
 
-  state.showBottomLogs = true;
+// --- Environment Panel ---
+
+export function toggleEnvPanel(state: AppState): void {
+  state.envPanelActive = !state.envPanelActive;
+  state.envPanelKey = null;
+  state.envPanelVars = null;
+  state.envPanelError = null;
+  if (state.envPanelActive) loadEnvPanel(state);
   render(state);
 }
 
-export function doWorktreeSwitch(state: AppState, targetWorktree: GitWorktree): void {
+export function loadEnvPanel(state: AppState): void {
   const entry = selectedEntry(state);
   if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (state.envPanelKey === sk) return;
+  state.envPanelKey = sk;
+  state.envPanelVars = null;
+  state.envPanelError = null;
+
+  const file = getEffectiveFile(state, entry.file, entry.service);
+  getServiceEnvironmentAsync(file, entry.service, { signal: moduleState.abortController.signal }).then(vars => {
+    if (state.envPanelKey !== sk) return;
+    state.envPanelVars = vars;
+    if (state.mode === MODE.LIST) throttledRender(state);
+  }).catch((err: unknown) => {
+    if (state.envPanelKey !== sk || moduleState.abortController.signal.aborted) return;
+    const msg = err instanceof Error ? err.message : String(err);
+    state.envPanelError = msg.split('\n')[0];
+    if (state.mode === MODE.LIST) throttledRender(state);
+  });
+}
 
-  const service = entry.service;
-  const sk = statusKey(entry.file, service);
-
-  // Close picker
-  state.worktreePickerActive = false;
-  state.worktreePickerEntries = [];
-  state.worktreePickerCursor = 0;
+// --- Compose Profiles ---
 
-  // Compute new file from the original group file
-  const newFile = mapComposeFileToWorktree(entry.file, targetWorktree.path);
-  if (!newFile) {
-    state.bottomLogLines.set(sk, {
-      action: 'switch_failed', service,
-      lines: [`compose file not found in worktree "${targetWorktree.branch}" (${targetWorktree.path})`],
-    });
-    render(state);
-    return;
+export function openProfilePicker(state: AppState): void {
+  const profiles = new Set(state.activeProfiles);
+  for (const group of state.groups) {
+    for (const list of group.profiles?.values() || []) {
+      for (const p of list) profiles.add(p);
+    }
   }
+  state.profilePickerEntries = [...profiles].sort();
+  state.profilePickerCursor = 0;
+  state.profilePickerActive = true;
+  state.showBottomLogs = true;
+  render(state);
+}
 
-  // If target is the same as current effective file, nothing to do
-  const currentEffective = getEffectiveFile(state, entry.file, service);
-  if (newFile === currentEffective) {
-    render(state);
-    return;
-  }
+export function closeProfilePicker(state: AppState): void {
+  state.profilePickerActive = false;
+  state.profilePickerEntries = [];
+  state.profilePickerCursor = 0;
+  render(state);
+}
 
-  // Validate service exists in target compose file
-  if (!validateServiceInComposeFile(newFile, service)) {
-    state.bottomLogLines.set(sk, {
-      action: 'switch_failed', service,
-      lines: [`service "${service}" not found in ${path.basename(newFile)} on branch "${targetWorktree.branch}"`],
-    });
-    render(state);
-    return;
-  }
+export function toggleProfile(state: AppState, profile: string): Promise<void> {
+  state.activeProfiles = state.activeProfiles.includes(profile)
+    ? state.activeProfiles.filter(p => p !== profile)
+    : [...state.activeProfiles, profile];
+  render(state);
+  return applyProfiles(state);
+}
 
-  // Show switching progress
-  state.bottomLogLines.set(sk, { action: 'switching', service, lines: [`switching to worktree "${targetWorktree.branch}"...`] });
+// Re-runs discovery with the new --profile set; a later toggle supersedes one still in flight
+export async function applyProfiles(state: AppState): Promise<void> {
+  useProfiles(state.activeProfiles);
+  const generation = ++moduleState.discoveryGeneration;
+  const groups = await discoverServices(state.config);
+  if (generation !== moduleState.discoveryGeneration || moduleState.abortController.signal.aborted) return;
+  state.groups = groups;
+  refreshFlatList(state);
+  state.depGraphs.clear();
+  initDepGraphs(state);
+  pollStatuses(state);
+  updateSelectedLogs(state);
   render(state);
+}
 
-  const performSwitch = (): void => {
-    // Store the worktree override (or remove if switching back to original)
-    if (newFile === entry.file) {
-      state.worktreeOverrides.delete(sk);
-    } else {
-      state.worktreeOverrides.set(sk, newFile);
+export function profileServices(state: AppState, profile: string): FlatEntry[] {
+  return state.flatList.filter(e => e.replica === undefined && state.groups[e.groupIdx].profiles?.get(e.service)?.includes(profile));
+}
+
+// Brings up every service of a profile without activating it; compose enables
+// the profile for services that are named explicitly
+export function startProfile(state: AppState, profile: string): void {
+  const byFile = new Map<string, FlatEntry[]>();
+  for (const entry of profileServices(state, profile)) {
+    const sk = statusKey(entry.file, entry.service);
+    if (state.starting.has(sk) || state.rebuilding.has(sk) || state.restarting.has(sk) || state.stopping.has(sk)) continue;
+    const file = getEffectiveFile(state, entry.file, entry.service);
+    if (!byFile.has(file)) byFile.set(file, []);
+    byFile.get(file)!.push(entry);
+  }
+
+  for (const [file, entries] of byFile) {
+    const child = upServices(file, entries.map(e => e.service));
+    for (const entry of entries) {
+      const sk = statusKey(entry.file, entry.service);
+      state.starting.set(sk, child as Killable);
+      state.bottomLogLines.set(sk, { action: 'starting', service: entry.service, lines: [] });
     }
+    child.on('close', (code: number | null) => {
+      for (const entry of entries) {
+        const sk = statusKey(entry.file, entry.service);
+        state.starting.delete(sk);
+        const info = state.bottomLogLines.get(sk);
+        if (info) info.action = code !== 0 && code !== null ? 'start_failed' : 'started';
+      }
+      pollStatuses(state);
+      if (state.mode === MODE.LIST) render(state);
+    });
+  }
+  render(state);
+}
 
-    // Update bottomLogLines to show rebuild
-    state.bottomLogLines.set(sk, { action: 'switching', service, lines: [`rebuilding in worktree "${targetWorktree.branch}"...`] });
+// --- List Filter and Sort ---
 
-    // Rebuild in new worktree
-    const child = rebuildService(newFile, service, { noCache: state.noCache, noDeps: state.noDeps });
-    state.rebuilding.set(sk, child as Killable);
+// Statuses, stats and log counts feed the structured filter terms and the sort order, so
+// both are re-applied on every frame; the log panel follows when the selected row drops out
+export function applyFilterAndSort(state: AppState): void {
+  const before = selectedEntry(state);
+  refreshFlatList(state);
+  const after = selectedEntry(state);
+  if (after && (!before || entryKey(after) !== entryKey(before))) updateSelectedLogs(state);
+}
 
-    let lineBuf = '';
-    const onData = (data: Buffer): void => {
-      const info = state.bottomLogLines.get(sk);
-      if (!info) return;
-      lineBuf += data.toString();
-      const parts = lineBuf.split(/\r?\n|\r/);
-      lineBuf = parts.pop()!;
-      const newLines = parts.filter(l => l.trim().length > 0).map(stripAnsi).filter(Boolean);
-      if (newLines.length === 0) return;
-      info.lines.push(...newLines);
-      if (state.mode === MODE.LIST) throttledRender(state);
-    };
+export function cycleSort(state: AppState): void {
+  state.sortField = SORT_FIELDS[(SORT_FIELDS.indexOf(state.sortField) + 1) % SORT_FIELDS.length];
+  applyFilterAndSort(state);
+  saveSession({ sortField: state.sortField });
+  render(state);
+}
 
-    child.stdout!.on('data', onData);
-    child.stderr!.on('data', onData);
+export function openFilter(state: AppState): void {
+  state.filterActive = true;
+  render(state);
+}
+
+export function clearFilter(state: AppState): void {
+  state.filterActive = false;
+  state.filterQuery = '';
+  applyFilterAndSort(state);
+  render(state);
+}
+
+// --- Multi-select ---
+
+export function toggleMark(state: AppState): void {
+  const entry = selectedEntry(state);
+  if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (state.marked.has(sk)) state.marked.delete(sk);
+  else state.marked.add(sk);
+  moveCursor(state, 1);
+  updateSelectedLogs(state);
+  render(state);
+}
+
+// Marks every service of the selected group, or unmarks them when all are marked already
+export function toggleGroupMark(state: AppState): void {
+  const entry = selectedEntry(state);
+  if (!entry) return;
+  // Only the rows the filter left visible
+  const keys = state.flatList
+    .filter(e => e.groupIdx === entry.groupIdx && e.replica === undefined)
+    .map(e => statusKey(e.file, e.service));
+  const allMarked = keys.every(k => state.marked.has(k));
+  for (const k of keys) {
+    if (allMarked) state.marked.delete(k);
+    else state.marked.add(k);
+  }
+  render(state);
+}
+
+export function markedEntries(state: AppState): FlatEntry[] {
+  return state.flatList.filter(e => e.replica === undefined && state.marked.has(statusKey(e.file, e.service)));
+}
+
+// --- Bulk Operations ---
+
+const BULK_KEYS: Record<string, BulkAction> = {
+  b: 'rebuild',
+  d: 'cascade',
+  s: 'start',
+  p: 'stop',
+  '+': 'scale_up',
+  '-': 'scale_down',
+};
+
+function serviceBusy(state: AppState, sk: string): boolean {
+  return state.rebuilding.has(sk) || state.restarting.has(sk) || state.stopping.has(sk)
+    || state.starting.has(sk) || state.scaling.has(sk) || state.cascading.has(sk);
+}
+
+function operationFailed(state: AppState, sk: string): boolean {
+  const action = state.bottomLogLines.get(sk)?.action;
+  return action !== undefined && action.endsWith('_failed');
+}
+
+function launchBulkItem(state: AppState, action: BulkAction, entry: FlatEntry): void | Promise<void> {
+  switch (action) {
+    case 'rebuild': return doRebuild(state, entry);
+    case 'cascade': return doCascadeRebuild(state, entry);
+    case 'start': {
+      const st = state.statuses.get(statusKey(entry.file, entry.service));
+      return st && st.state === 'running' ? doRestart(state, entry) : startIfPortsFree(state, entry);
+    }
+    case 'stop': return doStop(state, entry);
+    case 'scale_up': return doScale(state, 1, entry);
+    case 'scale_down': return doScale(state, -1, entry);
+  }
+}
+
+export function startBulk(state: AppState, action: BulkAction): void {
+  if (state.bulk && state.bulk.items.some(i => i.status === 'queued' || i.status === 'running')) return;
+  const entries = markedEntries(state);
+  if (entries.length === 0) return;
+
+  state.bulk = {
+    action,
+    items: entries.map(e => ({ file: e.file, service: e.service, status: 'queued', launched: false })),
+  };
+  if (state.bulkTimer) clearInterval(state.bulkTimer);
+  // Operations report completion through the in-flight maps, so check on them periodically
+  state.bulkTimer = setInterval(() => pumpBulk(state), 250);
+  pumpBulk(state);
+}
+
+export function pumpBulk(state: AppState): void {
+  const bulk = state.bulk;
+  if (!bulk) return;
+
+  for (const item of bulk.items) {
+    const sk = statusKey(item.file, item.service);
+    if (item.status === 'running' && item.launched && !serviceBusy(state, sk)) {
+      item.status = operationFailed(state, sk) ? 'failed' : 'done';
+    }
+  }
+
+  let running = bulk.items.filter(i => i.status === 'running').length;
+  for (const item of bulk.items) {
+    if (running >= state.config.bulkConcurrency) break;
+    if (item.status !== 'queued') continue;
+    const sk = statusKey(item.file, item.service);
+    const entry = state.flatList.find(e => e.file === item.file && e.service === item.service && e.replica === undefined);
+    if (!entry) {
+      item.status = 'skipped';
+      continue;
+    }
+    item.status = 'running';
+    running++;
+    Promise.resolve(launchBulkItem(state, bulk.action, entry)).then(() => {
+      item.launched = true;
+      if (!serviceBusy(state, sk)) item.status = 'skipped';
+      pumpBulk(state);
+    });
+  }
+
+  if (!bulk.items.some(i => i.status === 'queued' || i.status === 'running') && state.bulkTimer) {
+    clearInterval(state.bulkTimer);
+    state.bulkTimer = undefined;
+  }
+  if (state.mode === MODE.LIST) throttledRender(state);
+}
+
+// Watch toggles instantly, so a bulk toggle needs no queue: start it on every marked
+// service, or stop it everywhere when all of them are watched already
+export function doBulkWatch(state: AppState): void {
+  const entries = markedEntries(state);
+  const allWatched = entries.every(e => state.watching.has(statusKey(e.file, e.service)));
+  for (const entry of entries) {
+    if (allWatched === state.watching.has(statusKey(entry.file, entry.service))) doWatch(state, entry);
+  }
+}
+
+// --- Command Palette ---
+
+export function openPalette(state: AppState): void {
+  state.paletteActive = true;
+  state.paletteQuery = '';
+  state.paletteCursor = 0;
+  render(state);
+}
+
+export function closePalette(state: AppState): void {
+  state.paletteActive = false;
+  state.paletteQuery = '';
+  state.paletteCursor = 0;
+  render(state);
+}
+
+function selectEntry(state: AppState, entry: FlatEntry): void {
+  state.cursor = state.flatList.indexOf(entry);
+  updateSelectedLogs(state);
+}
+
+export function runPaletteItem(state: AppState, item: PaletteItem): void {
+  closePalette(state);
+  let entry: FlatEntry | null = null;
+  if (item.action.perService) {
+    entry = state.flatList.find(e => e.file === item.file && e.service === item.service && e.replica === undefined) || null;
+    if (!entry) return;
+  }
+
+  switch (item.action.id) {
+    // Background operations run on the matched service and leave the cursor alone
+    case 'start': startWithPortCheck(state, entry); break;
+    case 'restart': doRestart(state, entry); break;
+    case 'stop': doStop(state, entry); break;
+    case 'rebuild': doRebuild(state, entry); break;
+    case 'cascade': doCascadeRebuild(state, entry); break;
+    case 'cascade_rebuild': openCascadePlan(state, entry); break;
+    case 'up_deps': doUpWithPrerequisites(state, entry); break;
+    case 'cascade_retry': retryCascade(state, entry); break;
+    case 'cascade_skip': skipCascadeStep(state, entry); break;
+    case 'cascade_abort': abortCascade(state, entry); break;
+    case 'watch': doWatch(state, entry); break;
+    case 'scale_up': doScale(state, 1, entry); break;
+    case 'scale_down': doScale(state, -1, entry); break;
+    // Views and pickers work on the selection, so move there first
+    case 'goto': selectEntry(state, entry!); render(state); break;
+    case 'exec': selectEntry(state, entry!); enterExecInline(state); break;
+    case 'exec_full': selectEntry(state, entry!); enterExec(state); break;
+    case 'logs': selectEntry(state, entry!); enterLogs(state); break;
+    case 'worktree': selectEntry(state, entry!); openWorktreePicker(state); break;
+    case 'replicas': selectEntry(state, entry!); toggleReplicas(state); break;
+    case 'no_cache': state.noCache = !state.noCache; render(state); break;
+    case 'no_deps': state.noDeps = !state.noDeps; render(state); break;
+    case 'log_panel': state.showBottomLogs = !state.showBottomLogs; render(state); break;
+    case 'env_panel': toggleEnvPanel(state); break;
+    case 'profiles': openProfilePicker(state); break;
+    case 'filter': openFilter(state); break;
+    case 'sort': cycleSort(state); break;
+    case 'rollback_switch': rollbackStackSwitch(state); break;
+    case 'graph': enterGraph(state); break;
+    case 'quit':
+      cleanup(state);
+      process.exit(0);
+  }
+}
+
+// --- Worktree Switching ---
+
+export async function mapComposeFileToWorktree(composeFile: string, targetWorktreePath: string, signal?: AbortSignal): Promise<string | null> {
+  const resolved = path.resolve(composeFile);
+  const dir = path.dirname(resolved);
+  const gitRoot = await getGitRootAsync(dir, { signal });
+  if (!gitRoot) return null;
+
+  const relPath = path.relative(gitRoot, resolved);
+  const newFile = path.join(targetWorktreePath, relPath);
+  try {
+    await fs.promises.access(newFile);
+    return newFile;
+  } catch {
+    return null;
+  }
+}
+
+// Maps every file of a multi-file group into the target worktree. Env files outside the
+// repository (shared secrets, say) are kept as is.
+export async function mapComposeProjectToWorktree(project: ComposeProject, targetWorktreePath: string, signal?: AbortSignal): Promise<ComposeProject | null> {
+  const files: string[] = [];
+  for (const file of project.files) {
+    const mapped = await mapComposeFileToWorktree(file, targetWorktreePath, signal);
+    if (!mapped) return null;
+    files.push(mapped);
+  }
+  const envFiles = await Promise.all(project.envFiles.map(async f => (await mapComposeFileToWorktree(f, targetWorktreePath, signal)) || f));
+  return { files, projectName: project.projectName, projectDirectory: project.projectDirectory, envFiles, environment: project.environment };
+}
+
+// The group's files in another worktree, in the compose project worktreeIsolation picks.
+// Null when one of the files is missing there.
+async function mapGroupProject(file: string, worktree: { path: string; branch: string | null }, isolation: WorktreeIsolation, signal?: AbortSignal): Promise<ComposeProject | null> {
+  const project = composeProjectFor(file);
+  let mapped: ComposeProject | null;
+  if (project) {
+    mapped = await mapComposeProjectToWorktree(project, worktree.path, signal);
+  } else {
+    const mappedFile = await mapComposeFileToWorktree(file, worktree.path, signal);
+    mapped = mappedFile ? { files: [mappedFile], projectName: null, projectDirectory: null, envFiles: [], environment: {} } : null;
+  }
+  if (!mapped) return null;
+  const projectName = worktreeProjectName(isolation, composeProjectName(file), worktree.branch || path.basename(worktree.path));
+  if (projectName) {
+    mapped.projectName = projectName;
+    mapped.projectDirectory = path.dirname(mapped.files[0]);
+  }
+  return mapped;
+}
+
+// Compose commands on an override need its project registered when the group has several
+// files or the project is named; a plain file is enough otherwise
+async function registerMappedProject(file: string, mapped: ComposeProject): Promise<void> {
+  if (composeProjectFor(file) || mapped.projectName) await registerComposeProject(mapped);
+}
+
+// The override file for a group in another worktree
+async function mapGroupToWorktree(state: AppState, file: string, worktree: { path: string; branch: string | null }, isolation: WorktreeIsolation = state.config.worktreeIsolation, signal?: AbortSignal): Promise<string | null> {
+  const mapped = await mapGroupProject(file, worktree, isolation, signal);
+  if (!mapped) return null;
+  await registerMappedProject(file, mapped);
+  return mapped.files[0];
+}
+
+// Whether the service's compose files in the worktree differ from the ones it runs from
+// now. A worktree without them counts as different; unreadable files as unknown.
+async function composeChangedIn(state: AppState, file: string, service: string, worktreeRoot: string): Promise<boolean | undefined> {
+  const effective = getEffectiveFile(state, file, service);
+  const current = composeProjectFor(effective)?.files ?? [effective];
+  const project = composeProjectFor(file);
+  const signal = moduleState.abortController.signal;
+  const mapped = project ? (await mapComposeProjectToWorktree(project, worktreeRoot, signal))?.files : [await mapComposeFileToWorktree(file, worktreeRoot, signal)];
+  if (!mapped || mapped.some(f => f === null) || mapped.length !== current.length) return true;
+  const read = (f: string): Promise<string> => fs.promises.readFile(f, 'utf8');
+  try {
+    const [before, after] = await Promise.all([Promise.all(current.map(read)), Promise.all((mapped as string[]).map(read))]);
+    return before.some((content, i) => content !== after[i]);
+  } catch {
+    return undefined;
+  }
+}
+
+// Fills in each worktree's git status as it arrives, re-rendering the picker every time
+function loadWorktreeDetails(state: AppState, file: string, service: string): Promise<void> {
+  const signal = moduleState.abortController.signal;
+  return Promise.all(state.worktreePickerEntries.map(async wt => {
+    const [status, composeChanged] = await Promise.all([getGitWorktreeStatusAsync(wt.path, { signal }), composeChangedIn(state, file, service, wt.path)]);
+    Object.assign(wt, status, { composeChanged });
+    if (state.worktreePickerActive && state.worktreePickerEntries.includes(wt)) render(state);
+  })).then(() => undefined, () => undefined);
+}
+
+export async function openWorktreePicker(state: AppState): Promise<void> {
+  const entry = selectedEntry(state);
+  if (!entry) return;
+
+  const sk = statusKey(entry.file, entry.service);
+  if (state.rebuilding.has(sk) || state.restarting.has(sk) || state.stopping.has(sk) || state.starting.has(sk) || state.cascading.has(sk)) return;
+
+  const composeDir = path.dirname(path.resolve(entry.file));
+  const signal = moduleState.abortController.signal;
+  let worktrees: GitWorktree[];
+  let gitRoot: string | null;
+  try {
+    [worktrees, gitRoot] = await Promise.all([listGitWorktreesAsync(composeDir, { signal }), getGitRootAsync(composeDir, { signal })]);
+  } catch {
+    return;
+  }
+  // Cursor moved while git was answering — the picker would target the wrong service
+  if (selectedEntry(state) !== entry) return;
+
+  if (worktrees.length === 0) {
+    state.bottomLogLines.set(sk, { action: 'switch_failed', service: entry.service, lines: [`${composeDir} is not in a git repository`] });
+    state.showBottomLogs = true;
     render(state);
+    return;
+  }
 
-    child.on('close', (code: number | null) => {
-      state.rebuilding.delete(sk);
-      state.containerStatsHistory.delete(sk);
-      state.containerStats.delete(sk);
-      pollStatuses(state);
+  state.worktreePickerEntries = worktrees;
+  state.worktreePickerActive = true;
+  state.worktreePickerCurrentPath = gitRoot;
+  state.worktreePickerScope = state.marked.size > 0 ? 'marked' : 'service';
+  state.worktreePickerMessage = worktrees.length === 1 ? 'no other worktrees yet — create one from a branch below' : null;
 
-      const info = state.bottomLogLines.get(sk);
-      if (code !== 0 && code !== null) {
-        if (info) info.action = 'build_failed';
+  // Pre-select first non-current worktree, or the new worktree row when there is none
+  const currentIdx = gitRoot ? worktrees.findIndex(w => w.path === gitRoot) : -1;
+  const firstOther = worktrees.findIndex((_, i) => i !== currentIdx);
+  state.worktreePickerCursor = firstOther >= 0 ? firstOther : worktrees.length;
+
+  state.showBottomLogs = true;
+  render(state);
+  void loadWorktreeDetails(state, entry.file, entry.service);
+}
+
+export async function doWorktreeSwitch(state: AppState, targetWorktree: GitWorktree): Promise<void> {
+  const entry = selectedEntry(state);
+  if (!entry) return;
+
+  const service = entry.service;
+  const sk = statusKey(entry.file, service);
+
+  closeWorktreePicker(state);
+
+  // Compute new file from the original group file; multi-file groups move all their files
+  const mappedProject = await mapGroupProject(entry.file, targetWorktree, state.config.worktreeIsolation, moduleState.abortController.signal);
+  if (!mappedProject) {
+    state.bottomLogLines.set(sk, {
+      action: 'switch_failed', service,
+      lines: [`compose file not found in worktree "${targetWorktree.branch}" (${targetWorktree.path})`],
+    });
+    render(state);
+    return;
+  }
+  const newFile = mappedProject.files[0];
+
+  // If target is the same as current effective file, nothing to do
+  const currentEffective = getEffectiveFile(state, entry.file, service);
+  if (newFile === currentEffective) {
+    render(state);
+    return;
+  }
+
+  await registerMappedProject(entry.file, mappedProject);
+
+  // Validate service exists in target compose file
+  state.bottomLogLines.set(sk, { action: 'switching', service, lines: [`checking ${path.basename(newFile)} on branch "${targetWorktree.branch}"...`] });
+  render(state);
+  let valid: boolean;
+  try {
+    valid = await validateServiceInComposeFileAsync(newFile, service, { signal: moduleState.abortController.signal });
+  } catch {
+    return;
+  }
+  if (!valid) {
+    state.bottomLogLines.set(sk, {
+      action: 'switch_failed', service,
+      lines: [`service "${service}" not found in ${path.basename(newFile)} on branch "${targetWorktree.branch}"`],
+    });
+    render(state);
+    return;
+  }
+
+  const where = `worktree "${targetWorktree.branch}"`;
+  if (!await portPreflight(state, entry, newFile, { kind: 'switch', newFile, where })) return;
+  switchServiceFile(state, entry.file, service, newFile, where);
+}
+
+// Stops the service if it runs, points its override at newFile (or drops the override when
+// newFile is the group's own file) and rebuilds it there. Resolves with whether the
+// rebuild succeeded.
+function switchServiceFile(state: AppState, file: string, service: string, newFile: string, where: string): Promise<boolean> {
+  const sk = statusKey(file, service);
+  const currentEffective = getEffectiveFile(state, file, service);
+
+  // Show switching progress
+  state.bottomLogLines.set(sk, { action: 'switching', service, lines: [`switching to ${where}...`] });
+  render(state);
+
+  return new Promise(resolve => {
+    const performSwitch = (): void => {
+      // Store the worktree override (or remove if switching back to original)
+      state.inferredOverrides.delete(sk);
+      if (newFile === file) {
+        state.worktreeOverrides.delete(sk);
+      } else {
+        state.worktreeOverrides.set(sk, newFile);
+      }
+      detectProjects(state);
+
+      // Update bottomLogLines to show rebuild
+      state.bottomLogLines.set(sk, { action: 'switching', service, lines: [`rebuilding in ${where}...`] });
+
+      // Rebuild in new worktree
+      const child = rebuildService(newFile, service, { noCache: state.noCache, noDeps: state.noDeps });
+      state.rebuilding.set(sk, child as Killable);
+
+      let lineBuf = '';
+      const onData = (data: Buffer): void => {
+        const info = state.bottomLogLines.get(sk);
+        if (!info) return;
+        lineBuf += data.toString();
+        const parts = lineBuf.split(/\r?\n|\r/);
+        lineBuf = parts.pop()!;
+        const newLines = parts.filter(l => l.trim().length > 0).map(stripAnsi).filter(Boolean);
+        if (newLines.length === 0) return;
+        info.lines.push(...newLines);
+        if (state.mode === MODE.LIST) throttledRender(state);
+      };
+
+      child.stdout!.on('data', onData);
+      child.stderr!.on('data', onData);
+      render(state);
+
+      child.on('close', (code: number | null) => {
+        state.rebuilding.delete(sk);
+        state.containerStatsHistory.delete(sk);
+        state.containerStats.delete(sk);
+        pollStatuses(state);
+
+        const info = state.bottomLogLines.get(sk);
+        if (code !== 0 && code !== null) {
+          if (info) info.action = 'build_failed';
+          if (state.mode === MODE.LIST) render(state);
+          resolve(false);
+          return;
+        }
+
+        if (info) {
+          info.action = 'started';
+          info.lines = [];
+        }
+
+        startBottomLogTail(state, sk, newFile, service);
         if (state.mode === MODE.LIST) render(state);
-        return;
+        resolve(true);
+      });
+    };
+
+    // If service is running, stop it first (using current effective file)
+    const st = state.statuses.get(sk);
+    if (st && st.state === 'running') {
+      if (state.bottomLogTails.has(sk)) {
+        state.bottomLogTails.get(sk)!.kill('SIGTERM');
+        state.bottomLogTails.delete(sk);
       }
+      const stopChild = stopService(currentEffective, service);
+      state.stopping.set(sk, stopChild as Killable);
+      render(state);
+
+      stopChild.on('close', () => {
+        state.stopping.delete(sk);
+        performSwitch();
+      });
+    } else {
+      performSwitch();
+    }
+  });
+}
+
+// --- Worktree Management ---
+
+export function closeWorktreePicker(state: AppState): void {
+  state.worktreePickerActive = false;
+  state.worktreePickerEntries = [];
+  state.worktreePickerCursor = 0;
+  state.worktreePickerCurrentPath = null;
+  state.worktreePickerMessage = null;
+  state.worktreeRemoveConfirm = null;
+  state.worktreePreviewActive = false;
+  state.worktreePreview = null;
+  state.branchPromptActive = false;
+  render(state);
+}
+
+// Worktree commands run in the selected group's own repository
+function pickerRepoDir(state: AppState): string | null {
+  const entry = selectedEntry(state);
+  return entry ? path.dirname(path.resolve(entry.file)) : null;
+}
+
+// git's own message is on the last line of the failed command's output
+function gitErrorMessage(err: unknown): string {
+  const lines = (err instanceof Error ? err.message : String(err)).split('\n').map(l => l.trim()).filter(Boolean);
+  return (lines[lines.length - 1] || 'unknown error').replace(/^fatal: /, '');
+}
+
+async function refreshWorktreePicker(state: AppState, selectBranch: string | null): Promise<void> {
+  const entry = selectedEntry(state);
+  const dir = pickerRepoDir(state);
+  if (!entry || !dir) return;
+  const worktrees = await listGitWorktreesAsync(dir, { signal: moduleState.abortController.signal });
+  if (!state.worktreePickerActive) return;
+  state.worktreePickerEntries = worktrees;
+  const idx = selectBranch ? worktrees.findIndex(w => w.branch === selectBranch) : -1;
+  state.worktreePickerCursor = idx !== -1 ? idx : Math.min(state.worktreePickerCursor, worktrees.length);
+  void loadWorktreeDetails(state, entry.file, entry.service);
+  if (state.worktreePreviewActive) void loadWorktreePreview(state);
+}
+
+export async function openBranchPrompt(state: AppState): Promise<void> {
+  const dir = pickerRepoDir(state);
+  if (!dir) return;
+  state.branchPromptActive = true;
+  state.branchPromptQuery = '';
+  state.branchPromptCursor = 0;
+  state.worktreePickerMessage = null;
+  render(state);
+  try {
+    state.branchPromptBranches = await listGitBranchesAsync(dir, { signal: moduleState.abortController.signal });
+  } catch {
+    return;
+  }
+  if (state.branchPromptActive) render(state);
+}
+
+// Adds the worktree and leaves the picker on it, so Enter switches the service there
+export async function createWorktree(state: AppState, option: BranchOption): Promise<void> {
+  const dir = pickerRepoDir(state);
+  const main = state.worktreePickerEntries[0];
+  if (!dir || !main) return;
+  const worktreePath = worktreePathFor(state.config, main.path, option.branch);
+  state.branchPromptActive = false;
+  state.worktreePickerBusy = true;
+  state.worktreePickerMessage = `creating worktree "${option.branch}" in ${worktreePath}...`;
+  render(state);
+  try {
+    await addGitWorktreeAsync(dir, worktreePath, option.branch, { create: option.create, startPoint: option.startPoint, signal: moduleState.abortController.signal });
+    await refreshWorktreePicker(state, option.branch);
+    state.worktreePickerMessage = `created worktree "${option.branch}" — Enter switches to it`;
+  } catch (err) {
+    if (moduleState.abortController.signal.aborted) return;
+    state.worktreePickerMessage = `git worktree add failed: ${gitErrorMessage(err)}`;
+  }
+  state.worktreePickerBusy = false;
+  if (state.worktreePickerActive) render(state);
+}
+
+// Only worktrees nothing runs from; the first press asks for a second one
+export async function removeWorktree(state: AppState): Promise<void> {
+  const dir = pickerRepoDir(state);
+  const wt = state.worktreePickerEntries[state.worktreePickerCursor];
+  if (!dir || !wt) return;
+  const users = worktreeUsers(state, wt.path);
+  if (state.worktreePickerCursor === 0) {
+    state.worktreePickerMessage = 'the main worktree can\'t be removed';
+  } else if (users.length > 0) {
+    state.worktreePickerMessage = `"${wt.branch}" is in use by ${users.join(', ')}`;
+  } else if (state.worktreeRemoveConfirm !== wt.path) {
+    state.worktreeRemoveConfirm = wt.path;
+    state.worktreePickerMessage = `press x again to remove ${wt.path}`;
+  } else {
+    state.worktreeRemoveConfirm = null;
+    state.worktreePickerBusy = true;
+    state.worktreePickerMessage = `removing worktree "${wt.branch}"...`;
+    render(state);
+    try {
+      await removeGitWorktreeAsync(dir, wt.path, { signal: moduleState.abortController.signal });
+      await refreshWorktreePicker(state, null);
+      state.worktreePickerMessage = `removed worktree "${wt.branch}"`;
+    } catch (err) {
+      if (moduleState.abortController.signal.aborted) return;
+      state.worktreePickerMessage = `git worktree remove failed: ${gitErrorMessage(err)}`;
+    }
+    state.worktreePickerBusy = false;
+    if (!state.worktreePickerActive) return;
+  }
+  render(state);
+}
+
+// --- Worktree Preview ---
+
+export function toggleWorktreePreview(state: AppState): void {
+  state.worktreePreviewActive = !state.worktreePreviewActive;
+  state.worktreePreview = null;
+  if (state.worktreePreviewActive) void loadWorktreePreview(state);
+  render(state);
+}
+
+// The preview follows the picker's cursor
+function moveWorktreePickerCursor(state: AppState, cursor: number): void {
+  state.worktreePickerCursor = cursor;
+  if (state.worktreePreviewActive) void loadWorktreePreview(state);
+  render(state);
+}
+
+// Diffs the selected service's definition in the file it runs from against the highlighted
+// worktree's. Answers for a worktree that is no longer highlighted are dropped.
+export async function loadWorktreePreview(state: AppState): Promise<void> {
+  const entry = selectedEntry(state);
+  const wt = state.worktreePickerEntries[state.worktreePickerCursor];
+  if (!entry || !wt) {
+    state.worktreePreview = null;
+    return;
+  }
+  if (state.worktreePreview && state.worktreePreview.path === wt.path) return;
+  const preview: WorktreePreview = { path: wt.path, changes: null, error: null };
+  state.worktreePreview = preview;
+
+  const signal = moduleState.abortController.signal;
+  const current = getEffectiveFile(state, entry.file, entry.service);
+  try {
+    const mapped = await mapGroupProject(entry.file, wt, state.config.worktreeIsolation, signal);
+    if (!mapped) throw new Error(`compose file not found in worktree "${wt.branch}"`);
+    const target = mapped.files[0];
+    if (target !== current) await registerMappedProject(entry.file, mapped);
+    const [currentRoot, before, after] = await Promise.all([
+      getGitRootAsync(path.dirname(current), { signal }),
+      getServiceDefinitionAsync(current, entry.service, { signal }),
+      getServiceDefinitionAsync(target, entry.service, { signal }),
+    ]);
+    preview.changes = diffDefinitions(normalizeDefinition(before, currentRoot || path.dirname(current)), normalizeDefinition(after, wt.path));
+  } catch (err) {
+    if (signal.aborted) return;
+    preview.error = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+  }
+  if (state.worktreePickerActive && state.worktreePreview === preview) render(state);
+}
 
-      if (info) {
-        info.action = 'started';
-        info.lines = [];
+// --- Stack Worktree Switch ---
+
+const SWITCH_SCOPES: WorktreeSwitchScope[] = ['service', 'group', 'marked'];
+
+export function cycleWorktreePickerScope(state: AppState): void {
+  const scopes = SWITCH_SCOPES.filter(s => s !== 'marked' || state.marked.size > 0);
+  state.worktreePickerScope = scopes[(scopes.indexOf(state.worktreePickerScope) + 1) % scopes.length];
+  render(state);
+}
+
+// The services the picker's scope covers. Services behind inactive profiles stay where they are.
+export function worktreeSwitchEntries(state: AppState): Array<{ file: string; service: string }> {
+  const entry = selectedEntry(state);
+  if (!entry) return [];
+  if (state.worktreePickerScope === 'marked') return markedEntries(state);
+  if (state.worktreePickerScope === 'service') return [{ file: entry.file, service: entry.service }];
+  const group = state.groups[entry.groupIdx];
+  return group.services
+    .filter(service => inactiveProfile(group, service, state.activeProfiles) === null)
+    .map(service => ({ file: group.file, service }));
+}
+
+// Prerequisites first, per group, using the dependency graph of the file each service
+// moves to. Services in a dependency cycle keep their list order at the end.
+async function dependencyOrder(state: AppState, items: StackSwitchItem[], fileOf: (item: StackSwitchItem) => string): Promise<StackSwitchItem[]> {
+  const ordered: StackSwitchItem[] = [];
+  for (const group of state.groups) {
+    const inGroup = items.filter(i => i.file === group.file);
+    if (inGroup.length === 0) continue;
+    const file = fileOf(inGroup[0]);
+    let graph = state.depGraphs.get(file);
+    if (!graph) {
+      try {
+        graph = await parseDependencyGraphAsync(file, { signal: moduleState.abortController.signal });
+        state.depGraphs.set(file, graph);
+      } catch {
+        ordered.push(...inGroup);
+        continue;
       }
+    }
+    const sorted = topoSortDependents(graph, inGroup.map(i => i.service), '');
+    const rest = inGroup.filter(i => !sorted.includes(i.service));
+    ordered.push(...sorted.map(service => inGroup.find(i => i.service === service)!), ...rest);
+  }
+  return ordered;
+}
 
-      startBottomLogTail(state, sk, newFile, service);
-      if (state.mode === MODE.LIST) render(state);
-    });
-  };
+// Switches one service at a time; a failed rebuild leaves the rest queued as skipped so
+// the stack isn't spread over even more branches
+async function runStackSwitch(state: AppState, sw: StackSwitch): Promise<void> {
+  const signal = moduleState.abortController.signal;
+  for (const item of sw.items) {
+    if (signal.aborted) return;
+    item.status = 'running';
+    const where = sw.rollback ? 'the previous worktree' : `worktree "${sw.branch}"`;
+    const ok = await switchServiceFile(state, item.file, item.service, sw.rollback ? item.from : item.to, where);
+    item.status = ok ? 'done' : 'failed';
+    if (!ok) {
+      for (const rest of sw.items) if (rest.status === 'queued') rest.status = 'skipped';
+      break;
+    }
+  }
+  sw.running = false;
+  if (state.mode === MODE.LIST) render(state);
+}
 
-  // If service is running, stop it first (using current effective file)
-  const st = state.statuses.get(sk);
-  if (st && st.state === 'running') {
-    if (state.bottomLogTails.has(sk)) {
-      state.bottomLogTails.get(sk)!.kill('SIGTERM');
-      state.bottomLogTails.delete(sk);
+export async function doStackWorktreeSwitch(state: AppState, targetWorktree: GitWorktree, entries: Array<{ file: string; service: string }>): Promise<void> {
+  const sel = selectedEntry(state);
+  closeWorktreePicker(state);
+  if (!sel || (state.stackSwitch && state.stackSwitch.running)) {
+    render(state);
+    return;
+  }
+
+  // Check every service up front, so a missing service doesn't leave the stack half switched
+  const errors: string[] = [];
+  const items: StackSwitchItem[] = [];
+  for (const { file, service } of entries) {
+    const sk = statusKey(file, service);
+    if (serviceBusy(state, sk)) {
+      errors.push(`${service}: an operation is still running`);
+      continue;
     }
-    const stopChild = stopService(currentEffective, service);
-    state.stopping.set(sk, stopChild as Killable);
+    const from = getEffectiveFile(state, file, service);
+    const mapped = await mapGroupProject(file, targetWorktree, state.config.worktreeIsolation, moduleState.abortController.signal);
+    if (!mapped) {
+      errors.push(`${service}: compose file not found in worktree "${targetWorktree.branch}" (${targetWorktree.path})`);
+    } else if (mapped.files[0] !== from) {
+      await registerMappedProject(file, mapped);
+      items.push({ file, service, from, to: mapped.files[0], status: 'queued' });
+    }
+  }
+  const selSk = statusKey(sel.file, sel.service);
+  state.bottomLogLines.set(selSk, { action: 'switching', service: sel.service, lines: [`checking ${items.length} services on branch "${targetWorktree.branch}"...`] });
+  state.showBottomLogs = true;
+  render(state);
+  let valid: boolean[];
+  try {
+    valid = await Promise.all(items.map(i => validateServiceInComposeFileAsync(i.to, i.service, { signal: moduleState.abortController.signal })));
+  } catch {
+    return;
+  }
+  items.forEach((item, i) => {
+    if (!valid[i]) errors.push(`${item.service}: not found in ${path.basename(item.to)} on branch "${targetWorktree.branch}"`);
+  });
+  if (errors.length > 0) {
+    state.bottomLogLines.set(selSk, { action: 'switch_failed', service: sel.service, lines: ['nothing was switched', ...errors] });
+    render(state);
+    return;
+  }
+  if (items.length === 0) {
+    state.bottomLogLines.delete(selSk);
     render(state);
+    return;
+  }
 
-    stopChild.on('close', () => {
-      state.stopping.delete(sk);
-      performSwitch();
-    });
-  } else {
-    performSwitch();
+  const conflicts = await portConflictsOf(state, items.map(i => ({ file: i.file, service: i.service, target: i.to })));
+  if (moduleState.abortController.signal.aborted) return;
+  const sw: StackSwitch = { branch: targetWorktree.branch, items: await dependencyOrder(state, items, i => i.to), rollback: false, running: true };
+  if (conflicts.length > 0) {
+    state.portConflict = { entry: sel, action: { kind: 'stack', stackSwitch: sw, where: `worktree "${targetWorktree.branch}"` }, conflicts };
+    render(state);
+    return;
+  }
+  await startStackSwitch(state, sel, sw);
+}
+
+// Runs a checked stack switch, unless another one got going in the meantime
+async function startStackSwitch(state: AppState, sel: FlatEntry, sw: StackSwitch): Promise<void> {
+  state.bottomLogLines.delete(statusKey(sel.file, sel.service));
+  if (state.stackSwitch && state.stackSwitch.running) {
+    render(state);
+    return;
   }
+  state.stackSwitch = sw;
+  await runStackSwitch(state, sw);
+}
+
+// Moves every service the last stack switch touched back to the file it ran from
+export async function rollbackStackSwitch(state: AppState): Promise<void> {
+  const last = state.stackSwitch;
+  if (!last || last.running || last.rollback) return;
+  const touched = last.items.filter(i => i.status === 'done' || i.status === 'failed');
+  if (touched.length === 0 || touched.some(i => serviceBusy(state, statusKey(i.file, i.service)))) return;
+  const items = touched.map(i => ({ ...i, status: 'queued' as const }));
+  const sw: StackSwitch = { branch: last.branch, items: [], rollback: true, running: true };
+  state.stackSwitch = sw;
+  sw.items = await dependencyOrder(state, items, i => i.from);
+  state.showBottomLogs = true;
+  await runStackSwitch(state, sw);
 }
 
 // --- Watch ---
 
-export function doWatch(state: AppState): void {
-  const entry = selectedEntry(state);
+export function doWatch(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
   if (!entry) return;
 
   const sk = statusKey(entry.file, entry.service);
@@ -772,9 +2128,13 @@ export function doWatch(state: AppState): void {
     return;
   }
 
-  // Check availability on first use
+  // Check availability on first use, then carry on
   if (state.watchAvailable === null) {
-    state.watchAvailable = isWatchAvailable();
+    void isWatchAvailableAsync().then(available => {
+      state.watchAvailable = available;
+      if (!state.watching.has(sk)) doWatch(state, entry);
+    });
+    return;
   }
   if (!state.watchAvailable) {
     state.bottomLogLines.set(sk, { action: 'watching', service: entry.service, lines: ['docker compose watch is not available (requires Docker Compose v2.22+)'] });
@@ -816,15 +2176,15 @@ export function doWatch(state: AppState): void {
 
 // --- Dependency-Aware Rebuild ---
 
-export function initDepGraphs(state: AppState): void {
-  for (const group of state.groups) {
-    if (group.error) continue;
+export async function initDepGraphs(state: AppState): Promise<void> {
+  const signal = moduleState.abortController.signal;
+  await Promise.all(state.groups.filter(g => !g.error).map(async group => {
     try {
-      state.depGraphs.set(group.file, parseDependencyGraph(group.file));
+      state.depGraphs.set(group.file, await parseDependencyGraphAsync(group.file, { signal }));
     } catch {
       // Ignore — no dep info for this file
     }
-  }
+  }));
 }
 
 function getTransitiveDependents(graph: { dependedBy: Map<string, string[]> }, service: string): string[] {
@@ -843,6 +2203,11 @@ function getTransitiveDependents(graph: { dependedBy: Map<string, string[]> }, s
   return [...visited];
 }
 
+// The same walk along dependsOn: everything the service needs running
+function getTransitivePrerequisites(graph: { dependsOn: Map<string, string[]> }, service: string): string[] {
+  return getTransitiveDependents({ dependedBy: graph.dependsOn }, service);
+}
+
 function topoSortDependents(graph: { dependsOn: Map<string, string[]> }, services: string[], root: string): string[] {
   // Topological sort of the dependent services, so prerequisites come first
   const serviceSet = new Set(services);
@@ -880,74 +2245,126 @@ function topoSortDependents(graph: { dependsOn: Map<string, string[]> }, service
   return sorted;
 }
 
-export function doCascadeRebuild(state: AppState): void {
-  const entry = selectedEntry(state);
-  if (!entry) return;
-
-  const sk = statusKey(entry.file, entry.service);
-  if (state.rebuilding.has(sk) || state.cascading.has(sk)) return;
+// Services in dependency levels: each service comes after all of its prerequisites among
+// them, so the services of one level can restart side by side. Services in a dependency
+// cycle are left out, as compose refuses those anyway.
+function dependencyLevels(graph: { dependsOn: Map<string, string[]> }, services: string[]): string[][] {
+  const remaining = new Set(services);
+  const levels: string[][] = [];
+  while (remaining.size > 0) {
+    const level = [...remaining].filter(svc => !(graph.dependsOn.get(svc) || []).some(d => remaining.has(d)));
+    if (level.length === 0) break;
+    for (const svc of level) remaining.delete(svc);
+    levels.push(level);
+  }
+  return levels;
+}
 
-  const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
-  let graph = state.depGraphs.get(effectiveFile);
+// The service's dependents by dependency level, loading the file's dependency graph first
+// if needed. Null without a graph or dependents.
+async function cascadeLevels(state: AppState, file: string, service: string): Promise<string[][] | null> {
+  let graph = state.depGraphs.get(file);
   if (!graph) {
     // Try to parse dep graph for the effective file (may differ from original)
     try {
-      graph = parseDependencyGraph(effectiveFile);
-      state.depGraphs.set(effectiveFile, graph);
+      graph = await parseDependencyGraphAsync(file, { signal: moduleState.abortController.signal });
+      state.depGraphs.set(file, graph);
     } catch {
-      // No graph available, fall back to regular rebuild
-      doRebuild(state);
-      return;
+      return null;
     }
   }
-  if (!graph) {
-    doRebuild(state);
-    return;
-  }
+  const dependents = getTransitiveDependents(graph, service);
+  return dependents.length > 0 ? dependencyLevels(graph, dependents) : null;
+}
+
+export async function doCascadeRebuild(state: AppState, entry: FlatEntry | null = selectedEntry(state)): Promise<void> {
+  if (!entry) return;
+
+  const sk = statusKey(entry.file, entry.service);
+  if (state.rebuilding.has(sk) || state.cascading.has(sk)) return;
 
-  const dependents = getTransitiveDependents(graph, entry.service);
-  if (dependents.length === 0) {
-    // No dependents, fall back to regular rebuild
-    doRebuild(state);
+  const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
+  const levels = await cascadeLevels(state, effectiveFile, entry.service);
+  // Other work may have started on the service while the graph was loading
+  if (state.rebuilding.has(sk) || state.cascading.has(sk)) return;
+  if (!levels) {
+    // No graph or no dependents, fall back to regular rebuild
+    doRebuild(state, entry);
     return;
   }
 
-  const sorted = topoSortDependents(graph, dependents, entry.service);
-
-  const steps: CascadeStep[] = [
-    { action: 'rebuild', service: entry.service, status: 'pending' },
-    ...sorted.map(svc => ({ action: 'restart' as const, service: svc, status: 'pending' as const })),
-  ];
+  startCascade(state, entry, effectiveFile, cascadeSteps(entry.service, levels, []));
+}
 
-  const cascade: CascadeOperation = { steps, currentStepIdx: 0, child: null };
+function startCascade(state: AppState, entry: FlatEntry, file: string, steps: CascadeStep[], direction: CascadeDirection = 'dependents'): void {
+  const sk = statusKey(entry.file, entry.service);
+  const cascade: CascadeOperation = { direction, steps, level: 0, children: new Map() };
   state.cascading.set(sk, cascade);
+  state.failedCascades.delete(sk);
 
   state.bottomLogLines.set(sk, { action: 'cascading', service: entry.service, lines: [] });
   state.showBottomLogs = true;
 
-  executeCascadeStep(state, effectiveFile, sk, cascade);
+  runCascade(state, entry, file, cascade);
   render(state);
 }
 
-function executeCascadeStep(state: AppState, file: string, sk: string, cascade: CascadeOperation): void {
-  const step = cascade.steps[cascade.currentStepIdx];
-  if (!step) {
+// Starts the lowest unfinished level's pending steps, at most cascadeConcurrency at a time.
+// After a failure nothing new starts; once the steps still running have finished, the
+// cascade stops and waits in failedCascades.
+function runCascade(state: AppState, entry: FlatEntry, file: string, cascade: CascadeOperation): void {
+  const sk = statusKey(entry.file, entry.service);
+  if (cascade.steps.some(s => s.status === 'failed')) {
+    if (cascade.children.size === 0) {
+      state.cascading.delete(sk);
+      state.failedCascades.set(sk, cascade);
+      const info = state.bottomLogLines.get(sk);
+      if (info) info.action = 'cascade_failed';
+      pollStatuses(state);
+    }
+    return;
+  }
+
+  const unfinished = cascade.steps.filter(s => s.status !== 'completed' && s.status !== 'skipped');
+  if (unfinished.length === 0) {
     // All done
     state.cascading.delete(sk);
     pollStatuses(state);
-    if (state.mode === MODE.LIST) render(state);
+    const info = state.bottomLogLines.get(sk);
+    if (info) {
+      info.action = 'started';
+      info.lines = [];
+    }
+    startBottomLogTail(state, sk, file, entry.service);
     return;
   }
 
+  cascade.level = Math.min(...unfinished.map(s => s.level));
+  const levelSize = cascade.steps.filter(s => s.level === cascade.level).length;
+  for (const step of unfinished) {
+    if (cascade.children.size >= state.config.cascadeConcurrency) break;
+    if (step.level !== cascade.level || step.status !== 'pending') continue;
+    if (step.action === 'health') executeHealthGate(state, entry, file, cascade, step);
+    else executeCascadeStep(state, entry, file, cascade, step, levelSize > 1);
+  }
+}
+
+// Output of steps running side by side is prefixed with their service
+function executeCascadeStep(state: AppState, entry: FlatEntry, file: string, cascade: CascadeOperation, step: CascadeStep, prefixed: boolean): void {
+  const sk = statusKey(entry.file, entry.service);
   step.status = 'in_progress';
 
   let child: ChildProcess | Killable;
   if (step.action === 'rebuild') {
-    child = rebuildService(file, step.service, { noCache: state.noCache, noDeps: state.noDeps });
+    // Dependents' prerequisites are the cascade's own earlier steps
+    child = rebuildService(file, step.service, { noCache: state.noCache, noDeps: state.noDeps || step.level > 0 });
+  } else if (step.action === 'start') {
+    // `start` needs an existing container, `up` creates one
+    child = state.statuses.has(statusKey(entry.file, step.service)) ? startService(file, step.service) : upServices(file, [step.service]);
   } else {
     child = restartService(file, step.service);
   }
-  cascade.child = child as ChildProcess;
+  cascade.children.set(step.service, child as Killable);
 
   let lineBuf = '';
   const onData = (data: Buffer): void => {
@@ -956,7 +2373,8 @@ function executeCascadeStep(state: AppState, file: string, sk: string, cascade:
     lineBuf += data.toString();
     const parts = lineBuf.split(/\r?\n|\r/);
     lineBuf = parts.pop()!;
-    const newLines = parts.filter(l => l.trim().length > 0).map(stripAnsi).filter(Boolean);
+    const newLines = parts.filter(l => l.trim().length > 0).map(stripAnsi).filter(Boolean)
+      .map(l => prefixed ? `${step.service} | ${l}` : l);
     if (newLines.length === 0) return;
     info.lines.push(...newLines);
     if (state.mode === MODE.LOGS && state.logBuildKey === sk) {
@@ -970,39 +2388,258 @@ function executeCascadeStep(state: AppState, file: string, sk: string, cascade:
   childProcess.stdout.on('data', onData);
   childProcess.stderr.on('data', onData);
   childProcess.on('close', (code: number | null) => {
+    cascade.children.delete(step.service);
     if (code !== 0 && code !== null) {
       step.status = 'failed';
-      state.cascading.delete(sk);
-      pollStatuses(state);
-      if (state.mode === MODE.LIST) render(state);
-      return;
+    } else {
+      step.status = 'completed';
+      // Reset stats for rebuilt/restarted service
+      const stepSk = statusKey(file, step.service);
+      state.containerStatsHistory.delete(stepSk);
+      state.containerStats.delete(stepSk);
+      // A health gate may come next; it reads the statuses
+      if (step.action === 'start') pollStatuses(state);
     }
+    runCascade(state, entry, file, cascade);
+    if (state.mode === MODE.LIST) render(state);
+  });
+}
 
-    step.status = 'completed';
-    cascade.currentStepIdx++;
-    cascade.child = null;
-
-    // Reset stats for rebuilt/restarted service
-    const stepSk = statusKey(file, step.service);
-    state.containerStatsHistory.delete(stepSk);
-    state.containerStats.delete(stepSk);
+// Waits, as compose does for condition: service_healthy, until the status poll or the event
+// stream reports the prerequisite healthy. Unhealthy, no healthcheck or healthGateTimeout
+// passing fails the step.
+function executeHealthGate(state: AppState, entry: FlatEntry, file: string, cascade: CascadeOperation, step: CascadeStep): void {
+  step.status = 'in_progress';
+  step.startedAt = Date.now();
+  const timeout = state.config.healthGateTimeout;
+
+  // A fresh container has no health yet, so an empty one only means "no healthcheck" once
+  // the compose config has none and a status poll begun after this (it inspects the
+  // container, which knows about the image's own healthcheck) still reports none
+  let configured: boolean | null = null;
+  getComposeConfigAsync(file, { signal: moduleState.abortController.signal }).then(config => {
+    const healthcheck = config.services?.[step.service]?.healthcheck as { disable?: boolean } | undefined;
+    configured = healthcheck !== undefined && !healthcheck.disable;
+  }, () => {
+    configured = false;
+  });
+  const poll = moduleState.statusPollStarted;
+  pollStatuses(state);
 
-    if (cascade.currentStepIdx < cascade.steps.length) {
-      executeCascadeStep(state, file, sk, cascade);
-    } else {
-      state.cascading.delete(sk);
-      pollStatuses(state);
-      const info = state.bottomLogLines.get(sk);
-      if (info) {
-        info.action = 'started';
-        info.lines = [];
-      }
-      startBottomLogTail(state, sk, file, state.flatList[state.cursor]?.service || '');
+  const check = (): void => {
+    const st = state.statuses.get(statusKey(entry.file, step.service));
+    const running = st !== undefined && st.state === 'running';
+    let error: string | null = null;
+    if (running && st.health === 'healthy') error = null;
+    else if (running && st.health === 'unhealthy') error = 'unhealthy';
+    else if (running && !st.health && configured === false && moduleState.statusPollApplied > poll) error = 'no healthcheck';
+    else if (Date.now() - step.startedAt! >= timeout) error = `not healthy after ${Math.round(timeout / 1000)}s`;
+    else {
+      // Still waiting; the elapsed time is on screen
+      if (state.mode === MODE.LIST) throttledRender(state);
+      return;
     }
+    clearInterval(timer);
+    cascade.children.delete(step.service);
+    step.status = error ? 'failed' : 'completed';
+    if (error) step.error = error;
+    runCascade(state, entry, file, cascade);
     if (state.mode === MODE.LIST) render(state);
+  };
+  const timer = setInterval(check, 1000);
+  cascade.children.set(step.service, { kill: () => clearInterval(timer) });
+}
+
+// A failed cascade goes on with `r`, which runs its failed steps again, or `c`, which skips
+// them. `a` drops the steps left; the failure's output stays in the panel.
+function resumeCascade(state: AppState, entry: FlatEntry | null, resume: (step: CascadeStep) => void): void {
+  if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  const cascade = failedCascade(state, sk);
+  if (!cascade) return;
+  for (const step of cascade.steps) {
+    if (step.status === 'failed') resume(step);
+  }
+  state.failedCascades.delete(sk);
+  state.cascading.set(sk, cascade);
+  state.bottomLogLines.get(sk)!.action = 'cascading';
+  runCascade(state, entry, getEffectiveFile(state, entry.file, entry.service), cascade);
+  render(state);
+}
+
+export function retryCascade(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
+  resumeCascade(state, entry, step => {
+    step.status = 'pending';
+    delete step.startedAt;
+    delete step.error;
   });
 }
 
+export function skipCascadeStep(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
+  resumeCascade(state, entry, step => { step.status = 'skipped'; });
+}
+
+export function abortCascade(state: AppState, entry: FlatEntry | null = selectedEntry(state)): void {
+  if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (!failedCascade(state, sk)) return;
+  state.failedCascades.delete(sk);
+  render(state);
+}
+
+// --- Prerequisites ---
+
+// `u` starts what the service depends on first, level by level, waiting for the ones a
+// service of the chain needs healthy, and then the service itself
+export async function doUpWithPrerequisites(state: AppState, entry: FlatEntry | null = selectedEntry(state)): Promise<void> {
+  if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (serviceBusy(state, sk)) return;
+
+  const file = getEffectiveFile(state, entry.file, entry.service);
+  let graph = state.depGraphs.get(file);
+  if (!graph) {
+    try {
+      graph = await parseDependencyGraphAsync(file, { signal: moduleState.abortController.signal });
+      state.depGraphs.set(file, graph);
+    } catch {
+      graph = undefined;
+    }
+    if (serviceBusy(state, sk)) return;
+  }
+
+  const prerequisites = graph ? getTransitivePrerequisites(graph, entry.service) : [];
+  const steps = graph ? prerequisiteSteps(graph, entry.service, dependencyLevels(graph, prerequisites), svc => {
+    const st = state.statuses.get(statusKey(entry.file, svc));
+    return { running: st !== undefined && st.state === 'running', healthy: st !== undefined && st.health === 'healthy' };
+  }) : [];
+  // Nothing to bring up first: a plain start, with its port check
+  if (steps.length <= 1) {
+    startWithPortCheck(state, entry);
+    return;
+  }
+  // Every service the chain starts goes through the port check up front
+  const starts = steps.filter(s => s.action === 'start').map(s => ({ file: entry.file, service: s.service, target: file }));
+  const conflicts = await portConflictsOf(state, starts);
+  if (moduleState.abortController.signal.aborted || serviceBusy(state, sk)) return;
+  if (conflicts.length > 0) {
+    state.portConflict = { entry, action: { kind: 'prerequisites', file, steps }, conflicts };
+    state.showBottomLogs = true;
+    render(state);
+    return;
+  }
+  startCascade(state, entry, file, steps, 'prerequisites');
+}
+
+// --- Cascade Plan ---
+
+// `D` shows the steps of a cascade that rebuilds the dependents as well, and which of them
+// are built from the service's image, before anything runs
+export async function openCascadePlan(state: AppState, entry: FlatEntry | null = selectedEntry(state)): Promise<void> {
+  if (!entry) return;
+  const sk = statusKey(entry.file, entry.service);
+  if (state.rebuilding.has(sk) || state.cascading.has(sk)) return;
+
+  const file = getEffectiveFile(state, entry.file, entry.service);
+  const levels = await cascadeLevels(state, file, entry.service);
+  if (state.rebuilding.has(sk) || state.cascading.has(sk)) return;
+  if (!levels) {
+    doRebuild(state, entry);
+    return;
+  }
+
+  const plan: CascadePlan = { entry, file, levels, scope: 'all', buildable: [], affected: [], loading: true, error: null };
+  state.cascadePlan = plan;
+  state.showBottomLogs = true;
+  render(state);
+
+  const signal = moduleState.abortController.signal;
+  try {
+    const config = await getComposeConfigAsync(file, { signal });
+    const services = config.services || {};
+    const image = serviceImage(config.name || composeProjectName(file), entry.service, services[entry.service] || {});
+    for (const service of levels.flat()) {
+      const build = services[service]?.build as ServiceBuild | undefined;
+      if (!build) continue;
+      plan.buildable.push(service);
+      if (buildsFrom(build, await readDockerfile(build), entry.service, image)) plan.affected.push(service);
+    }
+  } catch (err) {
+    if (signal.aborted) return;
+    plan.error = (err instanceof Error ? err.message : String(err)).split('\n')[0];
+  }
+  plan.loading = false;
+  if (state.cascadePlan === plan) render(state);
+}
+
+// Inline Dockerfiles as they are; null for remote build contexts and unreadable files
+async function readDockerfile(build: ServiceBuild): Promise<string | null> {
+  if (build.dockerfile_inline) return build.dockerfile_inline;
+  if (!build.context || !path.isAbsolute(build.context)) return null;
+  try {
+    return await fs.promises.readFile(path.resolve(build.context, build.dockerfile || 'Dockerfile'), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+export function toggleCascadePlanScope(state: AppState): void {
+  const plan = state.cascadePlan;
+  if (!plan) return;
+  plan.scope = plan.scope === 'all' ? 'affected' : 'all';
+  render(state);
+}
+
+export function runCascadePlan(state: AppState): void {
+  const plan = state.cascadePlan;
+  if (!plan || plan.loading || plan.error) return;
+  state.cascadePlan = null;
+  const sk = statusKey(plan.entry.file, plan.entry.service);
+  if (state.rebuilding.has(sk) || state.cascading.has(sk)) {
+    render(state);
+    return;
+  }
+  startCascade(state, plan.entry, plan.file, cascadePlanSteps(plan));
+}
+
+export function closeCascadePlan(state: AppState): void {
+  state.cascadePlan = null;
+  render(state);
+}
+
+// --- Dependency Graph View ---
+
+// The list entry of the service under the graph cursor; null when the filter hides it
+function graphEntry(state: AppState): FlatEntry | null {
+  const row = graphRows(state)[state.graphCursor];
+  if (!row) return null;
+  return state.flatList.find(e => e.file === row.file && e.service === row.service && e.replica === undefined) || null;
+}
+
+export function enterGraph(state: AppState): void {
+  const entry = selectedEntry(state);
+  const rows = graphRows(state);
+  state.graphCursor = Math.max(0, entry ? rows.findIndex(r => r.file === entry.file && r.service === entry.service && !r.repeated) : 0);
+  state.mode = MODE.GRAPH;
+  render(state);
+}
+
+export function exitGraph(state: AppState): void {
+  state.mode = MODE.LIST;
+  updateSelectedLogs(state);
+  render(state);
+}
+
+// The list cursor follows the graph's, so leaving the graph lands on the service
+export function moveGraphCursor(state: AppState, delta: number): void {
+  const rows = graphRows(state);
+  if (rows.length === 0) return;
+  state.graphCursor = Math.max(0, Math.min(rows.length - 1, state.graphCursor + delta));
+  const entry = graphEntry(state);
+  if (entry) state.cursor = state.flatList.indexOf(entry);
+  render(state);
+}
+
 // --- Exec ---
 
 function initExecState(state: AppState): boolean {
@@ -1010,14 +2647,15 @@ function initExecState(state: AppState): boolean {
   if (!entry) return false;
 
   const sk = statusKey(entry.file, entry.service);
-  const st = state.statuses.get(sk);
+  const st = entry.replica !== undefined ? selectedReplica(state, entry) : state.statuses.get(sk);
   if (!st || st.state !== 'running' || !st.id) return false;
 
   state.execInput = '';
   state.execOutputLines = [];
   state.execHistoryIdx = -1;
   state.execContainerId = st.id;
-  state.execService = entry.service;
+  state.execFile = getEffectiveFile(state, entry.file, entry.service);
+  state.execService = entryLabel(entry);
   state.execChild = null;
   state.execCwd = null;
   return true;
@@ -1051,6 +2689,7 @@ export function exitExec(state: AppState): void {
   state.execOutputLines = [];
   state.execHistoryIdx = -1;
   state.execContainerId = null;
+  state.execFile = null;
   state.execService = null;
   state.execCwd = null;
   if (wasFullscreen) pollStatuses(state);
@@ -1071,10 +2710,10 @@ export function runExecCommand(state: AppState): void {
   const cmd = state.execInput.trim();
   if (!cmd || !state.execContainerId) return;
 
-  // Add to history (capped at 1000 entries)
+  // Add to history (capped at EXEC_HISTORY_LIMIT entries)
   if (state.execHistory.length === 0 || state.execHistory[state.execHistory.length - 1] !== cmd) {
     state.execHistory.push(cmd);
-    if (state.execHistory.length > 1000) state.execHistory.shift();
+    if (state.execHistory.length > EXEC_HISTORY_LIMIT) state.execHistory.shift();
   }
   state.execHistoryIdx = -1;
   state.execInput = '';
@@ -1091,7 +2730,7 @@ export function runExecCommand(state: AppState): void {
   const cdTarget = isCdCommand(cmd);
   if (cdTarget !== null) {
     const resolveCmd = cdTarget ? `cd ${shellEscape(cdTarget)} && pwd` : 'cd && pwd';
-    const child = execInContainer(state.execContainerId, resolveCmd, state.execCwd || undefined);
+    const child = execInContainer(state.execContainerId, resolveCmd, state.execCwd || undefined, state.execFile || undefined);
     state.execChild = child;
 
     let stdout = '';
@@ -1118,7 +2757,7 @@ export function runExecCommand(state: AppState): void {
     return;
   }
 
-  const child = execInContainer(state.execContainerId, cmd, state.execCwd || undefined);
+  const child = execInContainer(state.execContainerId, cmd, state.execCwd || undefined, state.execFile || undefined);
   state.execChild = child;
 
   let lineBuf = '';
@@ -1168,7 +2807,7 @@ export function enterLogs(state: AppState): void {
   const sk = statusKey(entry.file, entry.service);
   const info = state.bottomLogLines.get(sk);
   const isBuilding = state.rebuilding.has(sk) || state.cascading.has(sk);
-  const isBuildFailed = info && info.action === 'build_failed';
+  const isBuildFailed = info && (info.action === 'build_failed' || info.action === 'cascade_failed');
 
   state.mode = MODE.LOGS;
   state.logLines = [];
@@ -1194,8 +2833,7 @@ export function enterLogs(state: AppState): void {
   } else {
     state.logBuildKey = null;
 
-    const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
-    const child = tailLogs(effectiveFile, entry.service, 200);
+    const child = openEntryLogs(state, entry, 200, true);
     state.logChild = child;
 
     let lineBuf = '';
@@ -1266,8 +2904,7 @@ export function loadMoreLogHistory(state: AppState): void {
   state.logHistoryLoading = true;
   const snapshotLen = state.logLines.length;
 
-  const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
-  const child = fetchServiceLogs(effectiveFile, entry.service, nextTail);
+  const child = openEntryLogs(state, entry, nextTail, false);
   state.logHistoryChild = child;
 
   let output = '';
@@ -1357,7 +2994,7 @@ export function executeBottomSearch(state: AppState): void {
   const entry = selectedEntry(state);
   if (!entry || !state.bottomSearchQuery) return;
 
-  const sk = statusKey(entry.file, entry.service);
+  const sk = entryKey(entry);
   const info = state.bottomLogLines.get(sk);
   if (!info) return;
 
@@ -1376,8 +3013,7 @@ export function executeBottomSearch(state: AppState): void {
   state.bottomSearchTotalMatches = 0;
   render(state);
 
-  const effectiveFile = getEffectiveFile(state, entry.file, entry.service);
-  const child = fetchServiceLogs(effectiveFile, entry.service, 'all');
+  const child = openEntryLogs(state, entry, 'all', false);
   state.bottomSearchChild = child;
 
   let output = '';
@@ -1488,6 +3124,37 @@ export function handleKeypress(state: AppState, key: string): void {
     return;
   }
 
+  if (state.mode === MODE.GRAPH) {
+    switch (key) {
+      case 'j':
+      case '\x1b[B':
+        moveGraphCursor(state, 1);
+        break;
+      case 'k':
+      case '\x1b[A':
+        moveGraphCursor(state, -1);
+        break;
+      case 'b':
+        doRebuild(state, graphEntry(state));
+        break;
+      case 'd':
+        doCascadeRebuild(state, graphEntry(state));
+        break;
+      case 'p':
+        doStop(state, graphEntry(state));
+        break;
+      case 'm':
+      case '\r':
+      case '\x1b':
+        exitGraph(state);
+        break;
+      case 'q':
+        cleanup(state);
+        process.exit(0);
+    }
+    return;
+  }
+
   if (state.mode === MODE.LOGS) {
     if (state.logSearchActive) {
       if (key === '\x1b') {
@@ -1598,25 +3265,158 @@ export function handleKeypress(state: AppState, key: string): void {
     return;
   }
 
+  // LIST mode - port conflict prompt
+  if (state.portConflict) {
+    if (key === 'y' && state.portConflict.conflicts.some(c => c.service)) {
+      resolvePortConflict(state, true);
+    } else if (key === 'c') {
+      resolvePortConflict(state, false);
+    } else if (key === '\x1b' || key === 'n') {
+      cancelPortConflict(state);
+    }
+    return;
+  }
+
+  // LIST mode - cascade plan
+  if (state.cascadePlan) {
+    if (key === '\r') {
+      runCascadePlan(state);
+    } else if (key === 'a') {
+      toggleCascadePlanScope(state);
+    } else if (key === '\x1b' || key === 'n') {
+      closeCascadePlan(state);
+    }
+    return;
+  }
+
   // LIST mode - worktree picker
-  if (state.worktreePickerActive) {
+  if (state.worktreePickerActive && state.branchPromptActive) {
+    const options = branchPromptOptions(state);
     if (key === '\x1b') {
-      state.worktreePickerActive = false;
-      state.worktreePickerEntries = [];
-      state.worktreePickerCursor = 0;
-      state.worktreePickerCurrentPath = null;
+      state.branchPromptActive = false;
+      render(state);
+    } else if (key === '\r') {
+      const option = options[state.branchPromptCursor];
+      if (option) createWorktree(state, option);
+    } else if (key === '\x1b[B' || key === '\x1b[A') {
+      const delta = key === '\x1b[B' ? 1 : -1;
+      state.branchPromptCursor = Math.max(0, Math.min(options.length - 1, state.branchPromptCursor + delta));
+      render(state);
+    } else if (key === '\x7f' || key === '\b') {
+      state.branchPromptQuery = state.branchPromptQuery.slice(0, -1);
+      state.branchPromptCursor = 0;
+      render(state);
+    } else if (key.length === 1 && key >= ' ') {
+      state.branchPromptQuery += key;
+      state.branchPromptCursor = 0;
       render(state);
+    }
+    return;
+  }
+
+  if (state.worktreePickerActive) {
+    // The last row is "new worktree from branch"
+    const lastRow = state.worktreePickerEntries.length;
+    if (key !== 'x' && state.worktreeRemoveConfirm) {
+      state.worktreeRemoveConfirm = null;
+      state.worktreePickerMessage = null;
+    }
+    if (key === '\x1b' && state.worktreePreviewActive) {
+      toggleWorktreePreview(state);
+    } else if (key === '\x1b') {
+      closeWorktreePicker(state);
+    } else if (state.worktreePickerBusy) {
+      // git is still adding or removing a worktree
+    } else if (key === '\r' && state.worktreePickerCursor === lastRow) {
+      openBranchPrompt(state);
     } else if (key === '\r') {
       const target = state.worktreePickerEntries[state.worktreePickerCursor];
-      if (target) doWorktreeSwitch(state, target);
+      if (target && state.worktreePickerScope === 'service') doWorktreeSwitch(state, target);
+      else if (target) doStackWorktreeSwitch(state, target, worktreeSwitchEntries(state));
+    } else if (key === 'x') {
+      removeWorktree(state);
+    } else if (key === 'd') {
+      toggleWorktreePreview(state);
+    } else if (key === '\t') {
+      cycleWorktreePickerScope(state);
+    } else if (key === 'j' || key === '\x1b[B') {
+      moveWorktreePickerCursor(state, Math.min(lastRow, state.worktreePickerCursor + 1));
+    } else if (key === 'k' || key === '\x1b[A') {
+      moveWorktreePickerCursor(state, Math.max(0, state.worktreePickerCursor - 1));
+    } else if (key === 'G') {
+      moveWorktreePickerCursor(state, lastRow);
+    }
+    return;
+  }
+
+  // LIST mode - profile picker
+  if (state.profilePickerActive) {
+    const profile = state.profilePickerEntries[state.profilePickerCursor];
+    if (key === '\x1b' || key === 'P') {
+      closeProfilePicker(state);
+    } else if ((key === '\r' || key === ' ') && profile) {
+      toggleProfile(state, profile);
+    } else if (key === 's' && profile) {
+      startProfile(state, profile);
     } else if (key === 'j' || key === '\x1b[B') {
-      state.worktreePickerCursor = Math.min(state.worktreePickerEntries.length - 1, state.worktreePickerCursor + 1);
+      state.profilePickerCursor = Math.min(state.profilePickerEntries.length - 1, state.profilePickerCursor + 1);
       render(state);
     } else if (key === 'k' || key === '\x1b[A') {
-      state.worktreePickerCursor = Math.max(0, state.worktreePickerCursor - 1);
+      state.profilePickerCursor = Math.max(0, state.profilePickerCursor - 1);
       render(state);
-    } else if (key === 'G') {
-      state.worktreePickerCursor = state.worktreePickerEntries.length - 1;
+    }
+    return;
+  }
+
+  // LIST mode - filter input
+  if (state.filterActive) {
+    if (key === '\x1b') {
+      clearFilter(state);
+    } else if (key === '\r') {
+      state.filterActive = false;
+      render(state);
+    } else if (key === '\x1b[B' || key === '\x1b[A') {
+      moveCursor(state, key === '\x1b[B' ? 1 : -1);
+      updateSelectedLogs(state);
+      render(state);
+    } else if (key === '\x7f' || key === '\b') {
+      state.filterQuery = state.filterQuery.slice(0, -1);
+      applyFilterAndSort(state);
+      render(state);
+    } else if (key.length === 1 && key >= ' ') {
+      state.filterQuery += key;
+      applyFilterAndSort(state);
+      render(state);
+    }
+    return;
+  }
+
+  // LIST mode - command palette
+  if (state.paletteActive) {
+    const matches = paletteMatches(state);
+    if (key === '\x1b') {
+      closePalette(state);
+    } else if (key === '\r') {
+      const match = matches[state.paletteCursor];
+      if (match) runPaletteItem(state, match.item);
+      else closePalette(state);
+    } else if (key === '\x1b[B' || key === '\x0e') { // Down / Ctrl+N
+      state.paletteCursor = Math.max(0, Math.min(matches.length - 1, state.paletteCursor + 1));
+      render(state);
+    } else if (key === '\x1b[A' || key === '\x10') { // Up / Ctrl+P
+      state.paletteCursor = Math.max(0, state.paletteCursor - 1);
+      render(state);
+    } else if (key === '\x7f' || key === '\b') {
+      if (!state.paletteQuery) {
+        closePalette(state);
+        return;
+      }
+      state.paletteQuery = state.paletteQuery.slice(0, -1);
+      state.paletteCursor = 0;
+      render(state);
+    } else if (key.length === 1 && key >= ' ') {
+      state.paletteQuery += key;
+      state.paletteCursor = 0;
       render(state);
     }
     return;
@@ -1694,6 +3494,17 @@ export function handleKeypress(state: AppState, key: string): void {
     return;
   }
 
+  // LIST mode - marked services take the lifecycle actions
+  const bulkAction = state.marked.size > 0 ? BULK_KEYS[key] : undefined;
+  if (bulkAction) {
+    startBulk(state, bulkAction);
+    return;
+  }
+  if (state.marked.size > 0 && key === 'w') {
+    doBulkWatch(state);
+    return;
+  }
+
   // LIST mode
   switch (key) {
     case 'j':
@@ -1714,6 +3525,24 @@ export function handleKeypress(state: AppState, key: string): void {
     case 'd':
       doCascadeRebuild(state);
       break;
+    case 'D':
+      openCascadePlan(state);
+      break;
+    case 'u':
+      doUpWithPrerequisites(state);
+      break;
+    case 'r':
+      retryCascade(state);
+      break;
+    case 'c':
+      skipCascadeStep(state);
+      break;
+    case 'a':
+      abortCascade(state);
+      break;
+    case 'm':
+      enterGraph(state);
+      break;
     case 'w':
       doWatch(state);
       break;
@@ -1731,7 +3560,7 @@ export function handleKeypress(state: AppState, key: string): void {
         if (sSt && sSt.state === 'running') {
           doRestart(state);
         } else {
-          doStart(state);
+          startWithPortCheck(state);
         }
       }
       break;
@@ -1747,6 +3576,15 @@ export function handleKeypress(state: AppState, key: string): void {
       state.noDeps = !state.noDeps;
       render(state);
       break;
+    case 'z':
+      toggleReplicas(state);
+      break;
+    case '+':
+      doScale(state, 1);
+      break;
+    case '-':
+      doScale(state, -1);
+      break;
     case 'f':
     case '\r':
       enterLogs(state);
@@ -1758,6 +3596,37 @@ export function handleKeypress(state: AppState, key: string): void {
     case 't':
       openWorktreePicker(state);
       break;
+    case 'P':
+      openProfilePicker(state);
+      break;
+    case 'E':
+      toggleEnvPanel(state);
+      break;
+    case ':':
+      openPalette(state);
+      break;
+    case 'v':
+    case ' ':
+      toggleMark(state);
+      break;
+    case 'V':
+      toggleGroupMark(state);
+      break;
+    case '\\':
+      openFilter(state);
+      break;
+    case 'S':
+      cycleSort(state);
+      break;
+    case 'R':
+      rollbackStackSwitch(state);
+      break;
+    case '\x1b':
+      state.marked.clear();
+      if (state.bulk && !state.bulkTimer) state.bulk = null;
+      if (state.stackSwitch && !state.stackSwitch.running) state.stackSwitch = null;
+      render(state);
+      break;
     case 'q':
       cleanup(state);
       process.exit(0);
@@ -1819,7 +3688,7 @@ export function createInputHandler(state: AppState): (data: Buffer | string) =>
       const ch = buf[0];
       buf = buf.slice(1);
 
-      if (state.logSearchActive || state.bottomSearchActive || state.worktreePickerActive || state.mode === MODE.EXEC || state.execActive) {
+      if (state.logSearchActive || state.bottomSearchActive || state.worktreePickerActive || state.portConflict || state.cascadePlan || state.profilePickerActive || state.paletteActive || state.filterActive || state.mode === MODE.EXEC || state.mode === MODE.GRAPH || state.execActive) {
         handleKeypress(state, ch);
         continue;
       }
@@ -1860,9 +3729,60 @@ export function createInputHandler(state: AppState): (data: Buffer | string) =>
   };
 }
 
+// --- Session Restore ---
+
+// Re-applies a saved override.
+// Returns false when the group, service or worktree file is gone.
+async function applySavedOverride(state: AppState, saved: SessionWorktreeOverride): Promise<boolean> {
+  const group = state.groups.find(g => g.file === saved.file);
+  if (!group || group.error || !group.services.includes(saved.service)) return false;
+  const signal = moduleState.abortController.signal;
+  const worktreeRoot = await getGitRootAsync(path.dirname(path.resolve(saved.override)), { signal });
+  const branch = worktreeRoot ? await resolveGitWorktreeAsync(worktreeRoot, { signal }) : null;
+  const newFile = worktreeRoot ? await mapGroupToWorktree(state, saved.file, { path: worktreeRoot, branch }, state.config.worktreeIsolation, signal) : null;
+  if (!newFile || path.resolve(newFile) !== path.resolve(saved.override)) return false;
+  state.worktreeOverrides.set(statusKey(saved.file, saved.service), newFile);
+  return true;
+}
+
+// Saved overrides are only trusted when a container of the service was created from the
+// override's directory. Anything else (the stack was brought down, or rebuilt from the
+// default worktree outside recomposable) falls back to the group's own file.
+export async function restoreWorktreeOverrides(state: AppState, saved: SessionWorktreeOverride[]): Promise<void> {
+  const applied: SessionWorktreeOverride[] = [];
+  for (const o of saved) {
+    if (await applySavedOverride(state, o)) applied.push(o);
+  }
+  if (applied.length === 0) return;
+  await pollStatuses(state);
+  for (const { file, service } of applied) {
+    const sk = statusKey(file, service);
+    const override = state.worktreeOverrides.get(sk);
+    const st = state.statuses.get(sk);
+    if (!override || (st && st.workingDir && path.resolve(st.workingDir) === path.dirname(path.resolve(override)))) continue;
+    state.worktreeOverrides.delete(sk);
+    state.statuses.delete(sk);
+  }
+}
+
+export async function restoreSession(state: AppState, session: Session): Promise<void> {
+  if (session.sortField) state.sortField = session.sortField;
+  if (session.noCache !== undefined) state.noCache = session.noCache;
+  if (session.noDeps !== undefined) state.noDeps = session.noDeps;
+  if (session.showBottomLogs !== undefined) state.showBottomLogs = session.showBottomLogs;
+  if (session.execHistory) state.execHistory = [...session.execHistory];
+  if (session.selected) {
+    const { file, service } = session.selected;
+    const idx = state.flatList.findIndex(e => e.file === file && e.service === service && e.replica === undefined);
+    if (idx !== -1) state.cursor = idx;
+  }
+  if (session.worktreeOverrides) await restoreWorktreeOverrides(state, session.worktreeOverrides);
+}
+
 // --- Cleanup ---
 
 export function cleanup(state: AppState): void {
+  saveSession(sessionSnapshot(state));
   if (state.logChild) {
     state.logChild.kill('SIGTERM');
     state.logChild = null;
@@ -1883,14 +3803,24 @@ export function cleanup(state: AppState): void {
     child.kill('SIGTERM');
   }
   state.starting.clear();
+  for (const [, child] of state.scaling) {
+    child.kill('SIGTERM');
+  }
+  state.scaling.clear();
   for (const [, child] of state.watching) {
     child.kill('SIGTERM');
   }
   state.watching.clear();
   for (const [, cascade] of state.cascading) {
-    if (cascade.child) cascade.child.kill('SIGTERM');
+    for (const child of cascade.children.values()) child.kill('SIGTERM');
   }
   state.cascading.clear();
+  state.failedCascades.clear();
+  stopEventStream(state);
+  moduleState.abortController.abort();
+  moduleState.abortController = new AbortController();
+  moduleState.statusPoll = null;
+  moduleState.statusPollQueued = false;
   if (state.execChild) {
     state.execChild.kill('SIGTERM');
     state.execChild = null;
@@ -1921,6 +3851,9 @@ export function cleanup(state: AppState): void {
   if (state.statsTimer) {
     clearInterval(state.statsTimer);
   }
+  if (state.bulkTimer) {
+    clearInterval(state.bulkTimer);
+  }
   process.stdout.write('\x1b[r' + showCursor() + '\x1b[0m\x1b[?1049l');
 }
 
@@ -1935,13 +3868,35 @@ export function _setModuleState(ms: ModuleState): void {
 
 // --- Main ---
 
-function main(): void {
+async function selectRuntime(config: Config): Promise<void> {
+  if (config.runtime !== 'auto') {
+    useRuntime(config.runtime);
+    return;
+  }
+  const detected = await detectRuntimeAsync();
+  if (!detected) {
+    throw new Error('No container runtime found. Install docker compose, docker-compose, podman compose or nerdctl compose, or set "runtime" in recomposable.json.');
+  }
+  useRuntime(detected);
+}
+
+async function connectEngineApi(): Promise<void> {
+  // Without a reachable socket everything keeps working through the CLI
+  const endpoint = resolveEngineEndpoint();
+  if (endpoint && await pingEngine(endpoint)) useEngineApi(endpoint);
+}
+
+async function main(): Promise<void> {
   // Enter alternate screen buffer so pre-launch output (e.g. npx install) is hidden
   process.stdout.write('\x1b[?1049h');
   const config = loadConfig();
+  setExecConcurrency(config.dockerConcurrency);
+  await selectRuntime(config);
+  if (config.backend === 'api') await connectEngineApi();
+  useProfiles(config.profiles);
   const state = createState(config);
 
-  state.groups = discoverServices(config);
+  state.groups = await discoverServices(config);
   state.flatList = buildFlatList(state.groups);
 
   if (state.flatList.length === 0) {
@@ -1949,7 +3904,9 @@ function main(): void {
     process.exit(1);
   }
 
-  pollStatuses(state);
+  await restoreSession(state, loadSession());
+  await pollStatuses(state);
+  syncEventStream(state);
   initDepGraphs(state);
 
   if (process.stdin.isTTY) {
@@ -1965,8 +3922,10 @@ function main(): void {
   render(state);
 
   state.pollTimer = setInterval(() => {
-    if (state.mode === MODE.LIST) {
-      pollStatuses(state);
+    // The graph view colors services by status too
+    if (state.mode === MODE.LIST || state.mode === MODE.GRAPH) {
+      if (needsReconcile(state)) pollStatuses(state);
+      syncEventStream(state);
       render(state);
     }
   }, config.pollInterval);
@@ -2001,5 +3960,9 @@ function main(): void {
 
 // Only run main when executed directly (not when imported for testing)
 if (require.main === module) {
-  main();
+  main().catch((err: unknown) => {
+    process.stdout.write(showCursor() + '\x1b[?1049l');
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+    process.exit(1);
+  });
 }
@@ -0,0 +1,88 @@
+import type { CascadePlan, CascadeStep, DependencyGraph, ServiceBuild } from './types';
+
+// The steps of a cascade: down to the dependents for `d`/`D` (and, for `D`, which of them
+// are built from the image the cascade rebuilds), up to the prerequisites for `u`.
+// index.ts reads the compose config and the Dockerfiles and runs the steps.
+
+// The root's rebuild, then every level's dependents: rebuilt when listed, restarted otherwise
+export function cascadeSteps(service: string, levels: string[][], rebuilds: string[]): CascadeStep[] {
+  return [
+    { action: 'rebuild', service, level: 0, status: 'pending' },
+    ...levels.flatMap((services, i) => services.map(svc => ({
+      action: rebuilds.includes(svc) ? 'rebuild' as const : 'restart' as const, service: svc, level: i + 1, status: 'pending' as const,
+    }))),
+  ];
+}
+
+// `u`: the prerequisites that aren't running are started level by level. After each level
+// come health gates for the ones a service of the chain waits for with service_healthy and
+// that aren't healthy yet. The service itself starts last.
+export function prerequisiteSteps(
+  graph: DependencyGraph, service: string, levels: string[][],
+  status: (svc: string) => { running: boolean; healthy: boolean },
+): CascadeStep[] {
+  const gated = new Set([service, ...levels.flat()].flatMap(svc =>
+    [...graph.conditions.get(svc) || []].filter(([, condition]) => condition === 'service_healthy').map(([dep]) => dep)));
+  const steps: CascadeStep[] = [];
+  levels.forEach((services, i) => {
+    for (const svc of services) {
+      if (!status(svc).running) steps.push({ action: 'start', service: svc, level: 2 * i, status: 'pending' });
+    }
+    for (const svc of services) {
+      const st = status(svc);
+      if (gated.has(svc) && !(st.running && st.healthy)) steps.push({ action: 'health', service: svc, level: 2 * i + 1, status: 'pending' });
+    }
+  });
+  steps.push({ action: 'start', service, level: 2 * levels.length, status: 'pending' });
+  return steps;
+}
+
+export function cascadePlanSteps(plan: CascadePlan): CascadeStep[] {
+  return cascadeSteps(plan.entry.service, plan.levels, plan.scope === 'all' ? plan.buildable : plan.affected);
+}
+
+// The image compose tags a service's build with: its `image`, or <project>-<service>
+export function serviceImage(project: string, service: string, def: { image?: unknown }): string {
+  return typeof def.image === 'string' ? def.image : `${project}-${service}`;
+}
+
+// repository:tag without docker.io/library, so `docker.io/library/node` and `node:latest` compare equal
+export function normalizeImage(ref: string): string {
+  const name = ref.split('@')[0].replace(/^docker\.io\//, '').replace(/^library\//, '');
+  return name.lastIndexOf(':') > name.lastIndexOf('/') ? name : `${name}:latest`;
+}
+
+// The images a Dockerfile's stages build FROM, with the build args substituted. Earlier
+// stages referenced by name and `scratch` are left out.
+export function dockerfileBaseImages(content: string, args: Record<string, string | null> = {}): string[] {
+  // Only ARGs declared before the first FROM apply to FROM lines
+  const values: Record<string, string> = {};
+  const stages: string[] = [];
+  const images: string[] = [];
+  const expand = (s: string): string =>
+    s.replace(/\$\{(\w+)(?::?-([^}]*))?\}|\$(\w+)/g, (_, braced: string | undefined, def: string | undefined, bare: string | undefined) =>
+      values[(braced ?? bare)!] ?? def ?? '');
+  for (const line of content.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+    const arg = /^\s*ARG\s+(\w+)(?:=(\S*))?/i.exec(line);
+    if (arg && stages.length === 0 && images.length === 0) {
+      const value = args[arg[1]] ?? arg[2]?.replace(/^["']|["']$/g, '');
+      if (value != null) values[arg[1]] = value;
+      continue;
+    }
+    const from = /^\s*FROM\s+(?:--\S+\s+)*(\S+)(?:\s+AS\s+(\S+))?/i.exec(line);
+    if (!from) continue;
+    const image = expand(from[1]);
+    if (image && image !== 'scratch' && !stages.includes(image.toLowerCase())) images.push(image);
+    stages.push(from[2] ? from[2].toLowerCase() : '');
+  }
+  return images;
+}
+
+// Whether a dependent's build uses the rebuilt service's image: in a FROM of its Dockerfile
+// or as a `service:` build context
+export function buildsFrom(build: ServiceBuild, dockerfile: string | null, rootService: string, rootImage: string): boolean {
+  if (Object.values(build.additional_contexts || {}).includes(`service:${rootService}`)) return true;
+  if (!dockerfile) return false;
+  const image = normalizeImage(rootImage);
+  return dockerfileBaseImages(dockerfile, build.args).some(ref => normalizeImage(ref) === image);
+}
@@ -0,0 +1,50 @@
+import path from 'path';
+import type { DefinitionChange } from './types';
+
+// Diffing a service's definition (as `docker compose config` resolves it) between the
+// compose file in use and a worktree's, for the worktree picker's preview.
+
+// compose config resolves build contexts, volume sources and env files to absolute paths,
+// which differ between any two worktrees. Paths inside the worktree become relative to it,
+// so only real changes show up.
+export function normalizeDefinition(value: unknown, root: string): unknown {
+  if (typeof value === 'string') {
+    if (value !== root && !value.startsWith(root + path.sep)) return value;
+    return path.relative(root, value) || '.';
+  }
+  if (Array.isArray(value)) return value.map(v => normalizeDefinition(v, root));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, normalizeDefinition(v, root)]));
+  }
+  return value;
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || typeof value !== 'object';
+}
+
+// Leaf values by key path. Lists of plain values (command, entrypoint, profiles) stay one
+// value; lists of objects (ports, volumes) are split per item.
+export function flattenDefinition(value: unknown, prefix = '', out = new Map<string, string>()): Map<string, string> {
+  if (Array.isArray(value) && !value.every(isScalar)) {
+    value.forEach((item, i) => flattenDefinition(item, `${prefix}[${i}]`, out));
+  } else if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) flattenDefinition(item, prefix ? `${prefix}.${key}` : key, out);
+  } else {
+    out.set(prefix, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return out;
+}
+
+export function diffDefinitions(before: unknown, after: unknown): DefinitionChange[] {
+  const a = flattenDefinition(before);
+  const b = flattenDefinition(after);
+  const paths = [...new Set([...a.keys(), ...b.keys()])].sort((x, y) => x.localeCompare(y, undefined, { numeric: true }));
+  const changes: DefinitionChange[] = [];
+  for (const p of paths) {
+    const from = a.get(p) ?? null;
+    const to = b.get(p) ?? null;
+    if (from !== to) changes.push({ path: p, before: from, after: to });
+  }
+  return changes;
+}
@@ -1,44 +1,419 @@
-import { execFileSync, spawn, type ChildProcess } from 'child_process';
+import { execFile, spawn, type ChildProcess } from 'child_process';
+import fs from 'fs';
 import path from 'path';
 import { EventEmitter } from 'events';
 import { PassThrough } from 'stream';
 import type {
   ContainerStatus,
   PortMapping,
+  PublishedPort,
   DockerComposePsEntry,
   DockerInspectEntry,
   DockerStatsJson,
+  DockerEventJson,
+  ContainerEvent,
   ParsedStatsLine,
   RebuildChild,
   RebuildEmitter,
   RebuildOptions,
   DependencyGraph,
   GitWorktree,
+  GitWorktreeStatus,
+  GitBranches,
+  AsyncExecOptions,
+  EngineEndpoint,
+  OutputChild,
+  Runtime,
+  RuntimeName,
+  RuntimeCommand,
+  ComposeProject,
+  EnvVar,
+  PodmanPort,
+  ReplicaStatus,
 } from './types';
+import { serviceStatusFromReplicas } from './state';
+import { RUNTIMES, RUNTIME_ORDER, composeCommand, composeVersionCommand, composeWatchProbeCommand, engineCommand, statsCommand, eventsCommand, execCommand } from './runtime';
+import { abortError, engineComposeStatuses, engineContainerStats, engineLogs, engineExec, engineEvents } from './engine';
 
-export function listServices(file: string): string[] {
+// --- Async exec (bounded concurrency, cancellable) ---
+
+let execConcurrency = 4;
+let execRunning = 0;
+const execQueue: Array<() => void> = [];
+
+export function setExecConcurrency(limit: number): void {
+  execConcurrency = Math.max(1, Math.floor(limit));
+  drainExecQueue();
+}
+
+function drainExecQueue(): void {
+  while (execRunning < execConcurrency && execQueue.length > 0) {
+    execRunning++;
+    execQueue.shift()!();
+  }
+}
+
+function rethrowIfAborted(err: unknown, opts: AsyncExecOptions): void {
+  if (opts.signal?.aborted || (err instanceof Error && err.name === 'AbortError')) throw err;
+}
+
+// --- Runtime selection ---
+
+let runtime: Runtime = RUNTIMES.docker;
+
+export function useRuntime(name: RuntimeName): void {
+  runtime = RUNTIMES[name];
+  watchAvailableCache = null;
+}
+
+export function currentRuntime(): Runtime {
+  return runtime;
+}
+
+export async function detectRuntimeAsync(opts: AsyncExecOptions = {}): Promise<RuntimeName | null> {
+  for (const name of RUNTIME_ORDER) {
+    const { cmd, args } = composeVersionCommand(RUNTIMES[name]);
+    try {
+      await execFileAsync(cmd, args, { timeout: 5000, signal: opts.signal });
+      return name;
+    } catch (err) {
+      rethrowIfAborted(err, opts);
+    }
+  }
+  return null;
+}
+
+// --- Compose profiles ---
+
+// Profiles passed as --profile to every compose command; services behind any other
+// profile are left out of config/up unless they're targeted by name
+let composeProfiles: string[] = [];
+
+export function useProfiles(profiles: string[]): void {
+  composeProfiles = [...profiles];
+}
+
+export function activeProfiles(): string[] {
+  return composeProfiles;
+}
+
+// --- Compose projects ---
+
+// Groups made of several files (or with a project name / env files / environment) are
+// registered under their primary file, which stays the group's identity; every command
+// for that file then passes the whole set to compose
+const composeProjects = new Map<string, ComposeProject>();
+
+// Resolves once the project's env files are read
+export function registerComposeProject(project: ComposeProject): Promise<void> {
+  const envFiles = project.envFiles.map(f => path.resolve(f));
+  composeProjects.set(path.resolve(project.files[0]), {
+    files: project.files.map(f => path.resolve(f)),
+    projectName: project.projectName,
+    projectDirectory: project.projectDirectory ? path.resolve(project.projectDirectory) : null,
+    envFiles,
+    environment: { ...project.environment },
+  });
+  return Promise.all(envFiles.map(loadEnvFile)).then(() => undefined);
+}
+
+export function composeProjectFor(file: string): ComposeProject | null {
+  return composeProjects.get(path.resolve(file)) || null;
+}
+
+// KEY=VALUE lines of a dotenv file. Comments, blank lines and `export ` are skipped, and
+// quotes around a value are dropped.
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const m = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!m) continue;
+    const quoted = /^(["'])(.*)\1$/.exec(m[2]);
+    env[m[1]] = quoted ? quoted[2] : m[2].replace(/\s+#.*$/, '');
+  }
+  return env;
+}
+
+// Parsed env files, read once per file and again whenever it changes on disk, so building
+// a command's environment never touches the disk
+const envFileCache = new Map<string, Record<string, string>>();
+const envFileLoads = new Map<string, Promise<void>>();
+
+async function readEnvFile(file: string): Promise<void> {
+  try {
+    envFileCache.set(file, parseEnvFile(await fs.promises.readFile(file, 'utf8')));
+  } catch {
+    // A missing env file is compose's to report
+    envFileCache.delete(file);
+  }
+}
+
+function loadEnvFile(file: string): Promise<void> {
+  let load = envFileLoads.get(file);
+  if (load) return load;
+  load = readEnvFile(file);
+  envFileLoads.set(file, load);
+  // The directory is watched, as editors tend to replace the file rather than write to it
+  try {
+    fs.watch(path.dirname(file), { persistent: false }, (_event, name) => {
+      if (name === path.basename(file)) void readEnvFile(file);
+    }).on('error', () => {});
+  } catch {
+    // No directory to watch; compose reports the file missing
+  }
+  return load;
+}
+
+function envFileValues(files: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const file of files) Object.assign(env, envFileCache.get(file));
+  return env;
+}
+
+// Environment for every command run on behalf of a group: the user's own, then the group's
+// env files and its `environment`. Compose lets the shell win over --env-file, so the
+// files are layered here as well.
+export function composeEnv(file: string): NodeJS.ProcessEnv {
+  const project = composeProjects.get(path.resolve(file));
+  return { ...process.env, ...envFileValues(project?.envFiles || []), ...project?.environment };
+}
+
+// Builds only see these from the user's shell, plus the runtime's own (podman socket etc.)
+const BUILD_PASSTHROUGH_ENV = [
+  'PATH', 'HOME', 'USER', 'LANG',
+  'DOCKER_HOST', 'DOCKER_CONTEXT', 'DOCKER_CONFIG', 'DOCKER_TLS_VERIFY', 'DOCKER_CERT_PATH',
+  'COMPOSE_FILE', 'COMPOSE_PROJECT_NAME',
+];
+
+function buildEnv(file: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of [...BUILD_PASSTHROUGH_ENV, ...runtime.env]) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  const project = composeProjects.get(path.resolve(file));
+  return { ...env, ...envFileValues(project?.envFiles || []), ...project?.environment, BUILDKIT_PROGRESS: 'plain' };
+}
+
+function compose(file: string, args: string[], profiles: string[] = composeProfiles): RuntimeCommand & { env: NodeJS.ProcessEnv } {
+  const env = composeEnv(file);
+  const project = composeProjects.get(path.resolve(file));
+  if (!project) return { ...composeCommand(runtime, file, args, { profiles }), env };
+  return { ...composeCommand(runtime, project.files, args, { profiles, projectName: project.projectName, projectDirectory: project.projectDirectory, envFiles: project.envFiles }), env };
+}
+
+// --- Engine API backend ---
+
+// When set, container-level queries and streams go straight to the daemon socket;
+// compose operations (up/build/restart/config) always go through the CLI
+let engineEndpoint: EngineEndpoint | null = null;
+
+export function useEngineApi(endpoint: EngineEndpoint | null): void {
+  engineEndpoint = endpoint;
+}
+
+export function execFileAsync(cmd: string, args: string[], opts: { cwd?: string; env?: NodeJS.ProcessEnv; timeout?: number; signal?: AbortSignal } = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const { signal } = opts;
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    let started = false;
+    const run = (): void => {
+      started = true;
+      signal?.removeEventListener('abort', onQueuedAbort);
+      if (signal?.aborted) {
+        execRunning--;
+        drainExecQueue();
+        reject(abortError());
+        return;
+      }
+      execFile(cmd, args, {
+        cwd: opts.cwd, env: opts.env, encoding: 'utf8', timeout: opts.timeout, killSignal: 'SIGKILL', signal, maxBuffer: 64 * 1024 * 1024,
+      }, (err, stdout) => {
+        execRunning--;
+        drainExecQueue();
+        if (err) reject(signal?.aborted ? abortError() : err);
+        else resolve(stdout);
+      });
+    };
+    // Drop queued (not yet spawned) calls as soon as they are cancelled
+    const onQueuedAbort = (): void => {
+      if (started) return;
+      const idx = execQueue.indexOf(run);
+      if (idx !== -1) execQueue.splice(idx, 1);
+      reject(abortError());
+    };
+
+    signal?.addEventListener('abort', onQueuedAbort, { once: true });
+    execQueue.push(run);
+    drainExecQueue();
+  });
+}
+
+export async function listServicesAsync(file: string, opts: AsyncExecOptions = {}): Promise<string[]> {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'config', '--services'];
-  const out = execFileSync('docker', args, { cwd, encoding: 'utf8', timeout: 10000, killSignal: 'SIGKILL', stdio: ['pipe', 'pipe', 'pipe'] });
+  const { cmd, args, env } = compose(file, ['config', '--services']);
+  const out = await execFileAsync(cmd, args, { cwd, env, timeout: 10000, signal: opts.signal });
+  return parseServiceList(out);
+}
+
+function parseServiceList(out: string): string[] {
   return out.trim().split('\n').filter(Boolean);
 }
 
-export function getStatuses(file: string): Map<string, ContainerStatus> {
+// Maps every profile-gated service in the file to its profiles, whether or not those
+// profiles are active. Runtimes without `config --profiles` report no gated services.
+export async function listServiceProfilesAsync(file: string, opts: AsyncExecOptions = {}): Promise<Map<string, string[]>> {
+  const cwd = path.dirname(path.resolve(file));
+  const result = new Map<string, string[]>();
+  try {
+    const list = compose(file, ['config', '--profiles'], []);
+    const allProfiles = parseServiceList(await execFileAsync(list.cmd, list.args, { cwd, env: list.env, timeout: 10000, signal: opts.signal }));
+    if (allProfiles.length === 0) return result;
+    // With every profile enabled the model includes all services and their profiles: lists
+    const { cmd, args, env } = compose(file, ['config', '--format', 'json'], allProfiles);
+    const config = JSON.parse(await execFileAsync(cmd, args, { cwd, env, timeout: 10000, signal: opts.signal }));
+    for (const [name, def] of Object.entries((config.services || {}) as Record<string, { profiles?: unknown }>)) {
+      if (Array.isArray(def.profiles) && def.profiles.length > 0) {
+        result.set(name, def.profiles.filter((p): p is string => typeof p === 'string'));
+      }
+    }
+  } catch (err) {
+    rethrowIfAborted(err, opts);
+  }
+  return result;
+}
+
+// The project as compose resolves it: interpolated, with env files, extends and the
+// group's other files merged in
+export async function getComposeConfigAsync(file: string, opts: AsyncExecOptions = {}): Promise<{ name?: string; services?: Record<string, Record<string, unknown>> }> {
+  const cwd = path.dirname(path.resolve(file));
+  const { cmd, args, env } = compose(file, ['config', '--format', 'json']);
+  return JSON.parse(await execFileAsync(cmd, args, { cwd, env, timeout: 10000, signal: opts.signal }));
+}
+
+export async function getServiceDefinitionAsync(file: string, service: string, opts: AsyncExecOptions = {}): Promise<Record<string, unknown>> {
+  const def = (await getComposeConfigAsync(file, opts)).services?.[service];
+  if (!def) throw new Error(`service "${service}" not found`);
+  return def;
+}
+
+// The service's environment as compose resolves it (env files, interpolation and the
+// group's overrides applied), sorted by name
+export async function getServiceEnvironmentAsync(file: string, service: string, opts: AsyncExecOptions = {}): Promise<EnvVar[]> {
+  return parseServiceEnvironment((await getServiceDefinitionAsync(file, service, opts)).environment);
+}
+
+export function parseServiceEnvironment(raw: unknown): EnvVar[] {
+  const vars: EnvVar[] = [];
+  if (Array.isArray(raw)) {
+    for (const item of raw) {
+      if (typeof item !== 'string') continue;
+      const eq = item.indexOf('=');
+      vars.push(eq === -1 ? { key: item, value: null } : { key: item.slice(0, eq), value: item.slice(eq + 1) });
+    }
+  } else if (raw && typeof raw === 'object') {
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      vars.push({ key, value: value === null || value === undefined ? null : String(value) });
+    }
+  }
+  return vars.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// The host ports the service publishes as compose resolves them. Ports without a fixed
+// host port (`"80"`) are left out: docker picks a free one.
+export async function getServicePortsAsync(file: string, service: string, opts: AsyncExecOptions = {}): Promise<PublishedPort[]> {
+  return parseServicePorts((await getServiceDefinitionAsync(file, service, opts)).ports);
+}
+
+// Long syntax entries; `published` is a number, a string or a range like "8000-8002"
+export function parseServicePorts(raw: unknown): PublishedPort[] {
+  const ports: PublishedPort[] = [];
+  if (!Array.isArray(raw)) return ports;
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const { published, target, protocol, host_ip: hostIp } = item as Record<string, unknown>;
+    const range = String(published ?? '').match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) continue;
+    const first = Number(range[1]);
+    const last = range[2] ? Number(range[2]) : first;
+    for (let port = first; port <= last; port++) {
+      ports.push({
+        published: port,
+        target: Number(target) + (port - first),
+        protocol: typeof protocol === 'string' ? protocol : 'tcp',
+        hostIp: typeof hostIp === 'string' && hostIp ? hostIp : null,
+      });
+    }
+  }
+  return ports;
+}
+
+export async function getStatusesAsync(file: string, opts: AsyncExecOptions = {}): Promise<Map<string, ContainerStatus>> {
+  if (engineEndpoint) {
+    try {
+      const statuses = await engineComposeStatuses(engineEndpoint, composeProjectName(file), opts);
+      await resolveStatusWorktrees(statuses, opts);
+      return statuses;
+    } catch (err) {
+      // Socket trouble — fall through to the CLI for this poll
+      rethrowIfAborted(err, opts);
+    }
+  }
+
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'ps', '--format', 'json'];
+  const { cmd, args, env } = compose(file, ['ps', '--format', 'json']);
   let out: string;
   try {
-    out = execFileSync('docker', args, { cwd, encoding: 'utf8', timeout: 10000, killSignal: 'SIGKILL', stdio: ['pipe', 'pipe', 'pipe'] });
-  } catch {
+    out = await execFileAsync(cmd, args, { cwd, env, timeout: 10000, signal: opts.signal });
+  } catch (err) {
+    rethrowIfAborted(err, opts);
     return new Map();
   }
 
+  const parsed = parseComposePs(out);
+
+  const ids = [...parsed.idToService.keys()];
+  if (ids.length > 0) {
+    try {
+      const inspect = engineCommand(runtime, ['inspect', ...ids]);
+      const inspectOut = await execFileAsync(inspect.cmd, inspect.args, { env, timeout: 10000, signal: opts.signal });
+      applyInspectOutput(parsed, inspectOut);
+    } catch (err) {
+      rethrowIfAborted(err, opts);
+    }
+  }
+
+  const statuses = buildServiceStatuses(parsed);
+  await resolveStatusWorktrees(statuses, opts);
+  return statuses;
+}
+
+async function resolveStatusWorktrees(statuses: Map<string, ContainerStatus>, opts: AsyncExecOptions): Promise<void> {
+  await Promise.all([...statuses.values()].map(async status => {
+    if (status.workingDir) {
+      status.worktree = await resolveGitWorktreeAsync(status.workingDir, opts);
+    }
+  }));
+}
+
+interface ParsedComposePs {
+  replicas: Map<string, ReplicaStatus[]>;
+  idToService: Map<string, string>;
+  workingDirs: Map<string, string | null>;
+}
+
+function parseComposePs(out: string): ParsedComposePs {
+  const replicas = new Map<string, ReplicaStatus[]>();
+  const idToService = new Map<string, string>();
+  const parsed = { replicas, idToService, workingDirs: new Map<string, string | null>() };
+
   const trimmed = out.trim();
-  if (!trimmed) return new Map();
+  if (!trimmed) return parsed;
 
-  const statuses = new Map<string, ContainerStatus>();
   let containers: DockerComposePsEntry[];
-
   try {
     if (trimmed.startsWith('[')) {
       containers = JSON.parse(trimmed) as DockerComposePsEntry[];
@@ -46,17 +421,17 @@ export function getStatuses(file: string): Map<string, ContainerStatus> {
       containers = trimmed.split('\n').filter(Boolean).map(line => JSON.parse(line) as DockerComposePsEntry);
     }
   } catch {
-    return new Map();
+    return parsed;
   }
 
-  const idToService = new Map<string, string>();
-
   for (const c of containers) {
-    const name = c.Service || c.Name || '';
+    // podman-compose reports `podman ps` entries: service in a label map, Id/Names, port objects
+    const labels = parsePsLabels(c.Labels);
+    const name = c.Service || labels['com.docker.compose.service'] || c.Name || c.Names?.[0] || '';
     const state = (c.State || '').toLowerCase();
     const health = (c.Health || '').toLowerCase();
     const createdAt = c.CreatedAt || null;
-    const id = c.ID || null;
+    const id = c.ID || c.Id || null;
 
     let ports: PortMapping[] = [];
     if (Array.isArray(c.Publishers)) {
@@ -65,6 +440,12 @@ export function getStatuses(file: string): Map<string, ContainerStatus> {
           ports.push({ published: p.PublishedPort, target: p.TargetPort });
         }
       }
+    } else if (Array.isArray(c.Ports)) {
+      for (const p of c.Ports as PodmanPort[]) {
+        if (p.host_port && p.host_port > 0) {
+          ports.push({ published: p.host_port, target: p.container_port || 0 });
+        }
+      }
     } else if (c.Ports) {
       const portMatches = c.Ports.matchAll(/(\d+)->(\d+)/g);
       for (const m of portMatches) {
@@ -78,57 +459,66 @@ export function getStatuses(file: string): Map<string, ContainerStatus> {
       return true;
     });
 
-    statuses.set(name, { state, health, createdAt, startedAt: null, id: id || null, ports, workingDir: null, worktree: null });
+    // Replica number from the compose label, else the `-N` suffix of the container name
+    const list = replicas.get(name) || [];
+    const nameNumber = (c.Name || c.Names?.[0] || '').match(/[-_](\d+)$/);
+    const number = parseInt(labels['com.docker.compose.container-number'] || (nameNumber ? nameNumber[1] : ''), 10) || list.length + 1;
+    list.push({ number, state, health, createdAt, startedAt: null, id: id || null, ports });
+    replicas.set(name, list);
     if (id) idToService.set(id, name);
   }
 
-  const ids = [...idToService.keys()];
-  if (ids.length > 0) {
-    try {
-      const inspectOut = execFileSync('docker', ['inspect', ...ids], {
-        encoding: 'utf8', timeout: 10000, killSignal: 'SIGKILL', stdio: ['pipe', 'pipe', 'pipe']
-      });
-      const inspected = JSON.parse(inspectOut) as DockerInspectEntry[];
-      for (const info of inspected) {
-        for (const [id, svc] of idToService) {
-          if (info.Id && info.Id.startsWith(id)) {
-            const status = statuses.get(svc);
-            if (status) {
-              if (info.State) {
-                status.startedAt = info.State.StartedAt || null;
-              }
-              status.workingDir = info.Config?.Labels?.['com.docker.compose.project.working_dir'] || null;
-            }
-            break;
-          }
+  return parsed;
+}
+
+function parsePsLabels(labels: DockerComposePsEntry['Labels']): Record<string, string> {
+  if (!labels) return {};
+  if (typeof labels === 'object') return labels;
+  // docker compose ps flattens labels to "k=v,k=v"
+  const result: Record<string, string> = {};
+  for (const pair of labels.split(',')) {
+    const eq = pair.indexOf('=');
+    if (eq > 0) result[pair.substring(0, eq)] = pair.substring(eq + 1);
+  }
+  return result;
+}
+
+function applyInspectOutput(parsed: ParsedComposePs, inspectOut: string): void {
+  const inspected = JSON.parse(inspectOut) as DockerInspectEntry[];
+  for (const info of inspected) {
+    for (const [id, svc] of parsed.idToService) {
+      if (info.Id && info.Id.startsWith(id)) {
+        const replica = parsed.replicas.get(svc)?.find(r => r.id === id);
+        if (replica && info.State) {
+          replica.startedAt = info.State.StartedAt || null;
+          if (!replica.health && info.State.Health?.Status) replica.health = info.State.Health.Status.toLowerCase();
         }
+        parsed.workingDirs.set(svc, info.Config?.Labels?.['com.docker.compose.project.working_dir'] || null);
+        break;
       }
-    } catch {
-      // Ignore inspect errors
     }
   }
+}
 
-  for (const status of statuses.values()) {
-    if (status.workingDir) {
-      status.worktree = resolveGitWorktree(status.workingDir);
-    }
+function buildServiceStatuses(parsed: ParsedComposePs): Map<string, ContainerStatus> {
+  const statuses = new Map<string, ContainerStatus>();
+  for (const [svc, list] of parsed.replicas) {
+    statuses.set(svc, serviceStatusFromReplicas(list, parsed.workingDirs.get(svc) || null));
   }
-
   return statuses;
 }
 
 const worktreeCache = new Map<string, string | null>();
 
-export function resolveGitWorktree(workingDir: string): string | null {
+export async function resolveGitWorktreeAsync(workingDir: string, opts: AsyncExecOptions = {}): Promise<string | null> {
   if (worktreeCache.has(workingDir)) return worktreeCache.get(workingDir)!;
   try {
-    const branch = execFileSync('git', ['-C', workingDir, 'rev-parse', '--abbrev-ref', 'HEAD'], {
-      encoding: 'utf8', timeout: 3000, killSignal: 'SIGKILL' as NodeJS.Signals, stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim();
+    const branch = (await execFileAsync('git', ['-C', workingDir, 'rev-parse', '--abbrev-ref', 'HEAD'], { timeout: 3000, signal: opts.signal })).trim();
     const result = branch || null;
     worktreeCache.set(workingDir, result);
     return result;
-  } catch {
+  } catch (err) {
+    rethrowIfAborted(err, opts);
     worktreeCache.set(workingDir, null);
     return null;
   }
@@ -139,20 +529,7 @@ export function rebuildService(file: string, service: string, opts: RebuildOptio
   const resolvedFile = path.resolve(file);
   const spawnOpts = {
     cwd, stdio: ['ignore', 'pipe', 'pipe'] as ['ignore', 'pipe', 'pipe'], detached: false,
-    env: {
-      PATH: process.env.PATH,
-      HOME: process.env.HOME,
-      USER: process.env.USER,
-      LANG: process.env.LANG,
-      DOCKER_HOST: process.env.DOCKER_HOST,
-      DOCKER_CONTEXT: process.env.DOCKER_CONTEXT,
-      DOCKER_CONFIG: process.env.DOCKER_CONFIG,
-      DOCKER_TLS_VERIFY: process.env.DOCKER_TLS_VERIFY,
-      DOCKER_CERT_PATH: process.env.DOCKER_CERT_PATH,
-      COMPOSE_FILE: process.env.COMPOSE_FILE,
-      COMPOSE_PROJECT_NAME: process.env.COMPOSE_PROJECT_NAME,
-      BUILDKIT_PROGRESS: 'plain',
-    },
+    env: buildEnv(resolvedFile),
   };
 
   if (opts.noCache) {
@@ -162,7 +539,8 @@ export function rebuildService(file: string, service: string, opts: RebuildOptio
     emitter.stdout = stdout;
     emitter.stderr = stderr;
 
-    const buildChild = spawn('docker', ['compose', '-f', resolvedFile, 'build', '--no-cache', service], spawnOpts);
+    const build = compose(resolvedFile, ['build', '--no-cache', service]);
+    const buildChild = spawn(build.cmd, build.args, spawnOpts);
     buildChild.stdout.pipe(stdout, { end: false });
     buildChild.stderr.pipe(stderr, { end: false });
 
@@ -173,10 +551,11 @@ export function rebuildService(file: string, service: string, opts: RebuildOptio
         emitter.emit('close', code);
         return;
       }
-      const upArgs = ['compose', '-f', resolvedFile, 'up', '-d', '--force-recreate'];
+      const upArgs = ['up', '-d', '--force-recreate'];
       if (opts.noDeps) upArgs.push('--no-deps');
       upArgs.push(service);
-      const upChild = spawn('docker', upArgs, spawnOpts);
+      const up = compose(resolvedFile, upArgs);
+      const upChild = spawn(up.cmd, up.args, spawnOpts);
       upChild.stdout.pipe(stdout);
       upChild.stderr.pipe(stderr);
       upChild.on('close', (upCode: number | null) => emitter.emit('close', upCode));
@@ -187,46 +566,54 @@ export function rebuildService(file: string, service: string, opts: RebuildOptio
     return emitter;
   }
 
-  const args = ['compose', '-f', resolvedFile, 'up', '-d', '--build'];
-  if (opts.noDeps) args.push('--no-deps');
-  args.push(service);
-  const child = spawn('docker', args, spawnOpts);
+  const upArgs = ['up', '-d', '--build'];
+  if (opts.noDeps) upArgs.push('--no-deps');
+  upArgs.push(service);
+  const { cmd, args } = compose(resolvedFile, upArgs);
+  const child = spawn(cmd, args, spawnOpts);
   return child;
 }
 
 export function tailLogs(file: string, service: string, tailLines: number | 'all'): ChildProcess {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'logs', '-f', '--tail', String(tailLines), service];
-  const child = spawn('docker', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+  const { cmd, args, env } = compose(file, ['logs', '-f', '--tail', String(tailLines), service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'] });
   return child;
 }
 
 export function fetchServiceLogs(file: string, service: string, tailLines: number | 'all'): ChildProcess {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'logs', '--tail', String(tailLines), service];
-  const child = spawn('docker', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+  const { cmd, args, env } = compose(file, ['logs', '--tail', String(tailLines), service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'] });
   return child;
 }
 
-export function getContainerId(file: string, service: string): string | null {
+export async function getContainerIdAsync(file: string, service: string, opts: AsyncExecOptions = {}): Promise<string | null> {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'ps', '-q', service];
+  const { cmd, args, env } = compose(file, ['ps', '-q', service]);
   try {
-    const out = execFileSync('docker', args, { cwd, encoding: 'utf8', timeout: 5000, killSignal: 'SIGKILL' as NodeJS.Signals, stdio: ['pipe', 'pipe', 'pipe'] });
+    const out = await execFileAsync(cmd, args, { cwd, env, timeout: 5000, signal: opts.signal });
     return out.trim() || null;
-  } catch {
+  } catch (err) {
+    rethrowIfAborted(err, opts);
     return null;
   }
 }
 
-export function tailContainerLogs(containerId: string, tailLines: number): ChildProcess {
-  const args = ['logs', '-f', '--tail', String(tailLines), containerId];
-  const child = spawn('docker', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+// Container-level commands take the owning group's file so they run with its environment
+// (a group can point DOCKER_HOST or DOCKER_CONTEXT elsewhere)
+export function tailContainerLogs(containerId: string, tailLines: number | 'all', file?: string): OutputChild {
+  if (engineEndpoint) return engineLogs(engineEndpoint, containerId, { follow: true, tail: tailLines });
+  const { cmd, args } = engineCommand(runtime, ['logs', '-f', '--tail', String(tailLines), containerId]);
+  const child = spawn(cmd, args, { env: file ? composeEnv(file) : undefined, stdio: ['ignore', 'pipe', 'pipe'] });
   return child;
 }
 
-export function fetchContainerLogs(containerId: string, tailLines: number): ChildProcess {
-  const child = spawn('docker', ['logs', '--tail', String(tailLines), containerId], {
+export function fetchContainerLogs(containerId: string, tailLines: number | 'all', file?: string): OutputChild {
+  if (engineEndpoint) return engineLogs(engineEndpoint, containerId, { follow: false, tail: tailLines });
+  const { cmd, args } = engineCommand(runtime, ['logs', '--tail', String(tailLines), containerId]);
+  const child = spawn(cmd, args, {
+    env: file ? composeEnv(file) : undefined,
     stdio: ['ignore', 'pipe', 'pipe'],
   });
   return child;
@@ -234,31 +621,70 @@ export function fetchContainerLogs(containerId: string, tailLines: number): Chil
 
 export function restartService(file: string, service: string): ChildProcess {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'restart', service];
-  const child = spawn('docker', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
+  const { cmd, args, env } = compose(file, ['restart', service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
   return child;
 }
 
 export function stopService(file: string, service: string): ChildProcess {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'stop', service];
-  const child = spawn('docker', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
+  const { cmd, args, env } = compose(file, ['stop', service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
   return child;
 }
 
 export function startService(file: string, service: string): ChildProcess {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'start', service];
-  const child = spawn('docker', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
+  const { cmd, args, env } = compose(file, ['start', service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
+  return child;
+}
+
+// Creates and starts services that have no container yet (`start` only works on existing
+// ones); naming a profile-gated service enables its profile for this command
+export function upServices(file: string, services: string[]): ChildProcess {
+  const cwd = path.dirname(path.resolve(file));
+  const { cmd, args, env } = compose(file, ['up', '-d', ...services]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
   return child;
 }
 
-export function fetchContainerStats(containerIds: string[]): ChildProcess {
-  const args = ['stats', '--no-stream', '--format', '{{json .}}', ...containerIds];
-  const child = spawn('docker', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+export function scaleService(file: string, service: string, replicas: number): ChildProcess {
+  const cwd = path.dirname(path.resolve(file));
+  // --no-recreate leaves the running replicas alone; only the difference is created or removed
+  const { cmd, args, env } = compose(file, ['up', '-d', '--no-recreate', '--no-deps', '--scale', `${service}=${replicas}`, service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
   return child;
 }
 
+export async function fetchContainerStatsAsync(containerIds: string[], opts: AsyncExecOptions = {}): Promise<ParsedStatsLine[]> {
+  if (engineEndpoint) {
+    const endpoint = engineEndpoint;
+    const results = await Promise.all(containerIds.map(id =>
+      engineContainerStats(endpoint, id, opts).catch((err: unknown) => {
+        rethrowIfAborted(err, opts);
+        return null;
+      })));
+    return results.filter((r): r is ParsedStatsLine => r !== null);
+  }
+
+  const { cmd, args } = statsCommand(runtime, containerIds);
+  let out: string;
+  try {
+    out = await execFileAsync(cmd, args, { timeout: 15000, signal: opts.signal });
+  } catch (err) {
+    rethrowIfAborted(err, opts);
+    return [];
+  }
+  const parsed: ParsedStatsLine[] = [];
+  for (const line of out.trim().split('\n')) {
+    if (!line.trim()) continue;
+    const stats = parseStatsLine(line);
+    if (stats) parsed.push(stats);
+  }
+  return parsed;
+}
+
 export function parseMemString(str: string | null | undefined): number {
   if (!str) return 0;
   const match = str.match(/^([\d.]+)\s*(B|KiB|MiB|GiB|TiB|kB|MB|GB|TB)$/i);
@@ -283,160 +709,312 @@ export function parseStatsLine(jsonStr: string): ParsedStatsLine | null {
   }
 }
 
-// --- Watch ---
+// --- Events ---
 
-let watchAvailableCache: boolean | null = null;
+export function composeProjectName(file: string): string {
+  const configured = composeProjects.get(path.resolve(file))?.projectName;
+  if (configured) return configured;
+  // Mirrors compose's default: COMPOSE_PROJECT_NAME, else the normalized project directory name
+  if (process.env.COMPOSE_PROJECT_NAME) return process.env.COMPOSE_PROJECT_NAME;
+  return path.basename(path.dirname(path.resolve(file))).toLowerCase().replace(/[^a-z0-9_-]/g, '');
+}
 
-export function isWatchAvailable(): boolean {
-  if (watchAvailableCache !== null) return watchAvailableCache;
+export function streamContainerEvents(): OutputChild | null {
+  if (engineEndpoint) return engineEvents(engineEndpoint);
+  const command = eventsCommand(runtime);
+  if (!command) return null;
+  const child = spawn(command.cmd, command.args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  return child;
+}
+
+export function parseContainerEvent(jsonStr: string): ContainerEvent | null {
+  let obj: DockerEventJson;
   try {
-    execFileSync('docker', ['compose', 'watch', '--help'], {
-      encoding: 'utf8', timeout: 5000, killSignal: 'SIGKILL' as NodeJS.Signals, stdio: ['pipe', 'pipe', 'pipe'],
-    });
-    watchAvailableCache = true;
+    obj = JSON.parse(jsonStr) as DockerEventJson;
   } catch {
-    watchAvailableCache = false;
+    return null;
+  }
+  if (obj.Type && obj.Type !== 'container') return null;
+  const rawAction = obj.Action || obj.status || obj.Status || '';
+  const id = obj.Actor?.ID || obj.id || obj.ID || '';
+  if (!rawAction || !id) return null;
+
+  // Health events arrive as "health_status: healthy"
+  let action = rawAction;
+  let health: string | null = null;
+  const healthMatch = rawAction.match(/^health_status:\s*(.+)$/);
+  if (healthMatch) {
+    action = 'health_status';
+    health = healthMatch[1].trim().toLowerCase();
+  } else if (rawAction === 'health_status' && obj.HealthStatus) {
+    // podman reports the new health in a separate field
+    health = obj.HealthStatus.toLowerCase();
+  }
+
+  const attrs = obj.Actor?.Attributes || obj.Attributes || {};
+  const configFiles = (attrs['com.docker.compose.project.config_files'] || '').split(',').map(f => f.trim()).filter(Boolean);
+  return {
+    action,
+    id,
+    service: attrs['com.docker.compose.service'] || null,
+    project: attrs['com.docker.compose.project'] || null,
+    configFiles,
+    workingDir: attrs['com.docker.compose.project.working_dir'] || null,
+    health,
+    replica: parseInt(attrs['com.docker.compose.container-number'] || '', 10) || null,
+    time: typeof obj.time === 'number' ? obj.time : null,
+  };
+}
+
+// --- Watch ---
+
+let watchAvailableCache: Promise<boolean> | null = null;
+
+// Probed once per runtime; callers share the answer, so the probe isn't cancellable
+export function isWatchAvailableAsync(): Promise<boolean> {
+  if (!watchAvailableCache) {
+    const { cmd, args } = composeWatchProbeCommand(runtime);
+    watchAvailableCache = execFileAsync(cmd, args, { timeout: 5000 }).then(() => true, () => false);
   }
   return watchAvailableCache;
 }
 
 export function watchService(file: string, service: string): ChildProcess {
   const cwd = path.dirname(path.resolve(file));
-  const args = ['compose', '-f', path.resolve(file), 'watch', service];
-  const child = spawn('docker', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
+  const { cmd, args, env } = compose(file, ['watch', service]);
+  const child = spawn(cmd, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'], detached: false });
   return child;
 }
 
 // --- Dependency Graph ---
 
-export function parseDependencyGraph(file: string): DependencyGraph {
+export async function parseDependencyGraphAsync(file: string, opts: AsyncExecOptions = {}): Promise<DependencyGraph> {
   const cwd = path.dirname(path.resolve(file));
   const resolvedFile = path.resolve(file);
-  const dependsOn = new Map<string, string[]>();
-  const dependedBy = new Map<string, string[]>();
 
   try {
-    const out = execFileSync('docker', ['compose', '-f', resolvedFile, 'config', '--format', 'json'], {
-      cwd, encoding: 'utf8', timeout: 10000, killSignal: 'SIGKILL', stdio: ['pipe', 'pipe', 'pipe'],
-    });
-    const config = JSON.parse(out);
-    const services = config.services || {};
-    for (const [name, def] of Object.entries(services)) {
-      const deps: string[] = [];
-      const svcDef = def as Record<string, unknown>;
-      if (svcDef.depends_on) {
-        if (Array.isArray(svcDef.depends_on)) {
-          deps.push(...(svcDef.depends_on as string[]));
-        } else if (typeof svcDef.depends_on === 'object') {
-          deps.push(...Object.keys(svcDef.depends_on as Record<string, unknown>));
-        }
-      }
-      dependsOn.set(name, deps);
-      for (const dep of deps) {
-        if (!dependedBy.has(dep)) dependedBy.set(dep, []);
-        dependedBy.get(dep)!.push(name);
-      }
-    }
-  } catch {
-    // Fallback: try plain docker compose config and regex-parse YAML
+    const { cmd, args, env } = compose(resolvedFile, ['config', '--format', 'json']);
+    const out = await execFileAsync(cmd, args, { cwd, env, timeout: 10000, signal: opts.signal });
+    return parseConfigJsonDeps(out);
+  } catch (err) {
+    rethrowIfAborted(err, opts);
     try {
-      const out = execFileSync('docker', ['compose', '-f', resolvedFile, 'config'], {
-        cwd, encoding: 'utf8', timeout: 10000, killSignal: 'SIGKILL', stdio: ['pipe', 'pipe', 'pipe'],
-      });
-      let currentService: string | null = null;
-      let inDependsOn = false;
-      for (const line of out.split('\n')) {
-        // Top-level service name (2-space indent under services:)
-        const svcMatch = line.match(/^  (\S+):$/);
-        if (svcMatch) {
-          currentService = svcMatch[1];
-          inDependsOn = false;
-          if (!dependsOn.has(currentService)) dependsOn.set(currentService, []);
-          continue;
-        }
-        if (currentService && line.match(/^\s{4}depends_on:/)) {
-          inDependsOn = true;
-          continue;
-        }
-        if (inDependsOn && currentService) {
-          const depMatch = line.match(/^\s{6}(\S+):/);
-          if (depMatch) {
-            dependsOn.get(currentService)!.push(depMatch[1]);
-            if (!dependedBy.has(depMatch[1])) dependedBy.set(depMatch[1], []);
-            dependedBy.get(depMatch[1])!.push(currentService);
-            continue;
-          }
-          if (!line.match(/^\s{6,}/)) inDependsOn = false;
-        }
+      const { cmd, args, env } = compose(resolvedFile, ['config']);
+      const out = await execFileAsync(cmd, args, { cwd, env, timeout: 10000, signal: opts.signal });
+      return parseConfigYamlDeps(out);
+    } catch (yamlErr) {
+      rethrowIfAborted(yamlErr, opts);
+    }
+  }
+
+  return { dependsOn: new Map(), dependedBy: new Map(), conditions: new Map() };
+}
+
+function parseConfigJsonDeps(out: string): DependencyGraph {
+  const dependsOn = new Map<string, string[]>();
+  const dependedBy = new Map<string, string[]>();
+  const config = JSON.parse(out);
+  const services = config.services || {};
+  const conditions = new Map<string, Map<string, string>>();
+  for (const [name, def] of Object.entries(services)) {
+    const deps: string[] = [];
+    const svcDef = def as Record<string, unknown>;
+    if (svcDef.depends_on) {
+      if (Array.isArray(svcDef.depends_on)) {
+        deps.push(...(svcDef.depends_on as string[]));
+      } else if (typeof svcDef.depends_on === 'object') {
+        const entries = Object.entries(svcDef.depends_on as Record<string, { condition?: string } | null>);
+        deps.push(...entries.map(([dep]) => dep));
+        const withCondition = entries.flatMap(([dep, opts]) => opts?.condition ? [[dep, opts.condition] as const] : []);
+        if (withCondition.length > 0) conditions.set(name, new Map(withCondition));
       }
-    } catch {
-      // No dependency info available
+    }
+    dependsOn.set(name, deps);
+    for (const dep of deps) {
+      if (!dependedBy.has(dep)) dependedBy.set(dep, []);
+      dependedBy.get(dep)!.push(name);
     }
   }
+  return { dependsOn, dependedBy, conditions };
+}
 
-  return { dependsOn, dependedBy };
+function parseConfigYamlDeps(out: string): DependencyGraph {
+  const dependsOn = new Map<string, string[]>();
+  const dependedBy = new Map<string, string[]>();
+  const conditions = new Map<string, Map<string, string>>();
+  let currentService: string | null = null;
+  let currentDep: string | null = null;
+  let inDependsOn = false;
+  for (const line of out.split('\n')) {
+    // Top-level service name (2-space indent under services:)
+    const svcMatch = line.match(/^  (\S+):$/);
+    if (svcMatch) {
+      currentService = svcMatch[1];
+      currentDep = null;
+      inDependsOn = false;
+      if (!dependsOn.has(currentService)) dependsOn.set(currentService, []);
+      continue;
+    }
+    if (currentService && line.match(/^\s{4}depends_on:/)) {
+      inDependsOn = true;
+      continue;
+    }
+    if (inDependsOn && currentService) {
+      const depMatch = line.match(/^\s{6}(\S+):/);
+      if (depMatch) {
+        currentDep = depMatch[1];
+        dependsOn.get(currentService)!.push(depMatch[1]);
+        if (!dependedBy.has(depMatch[1])) dependedBy.set(depMatch[1], []);
+        dependedBy.get(depMatch[1])!.push(currentService);
+        continue;
+      }
+      const conditionMatch = currentDep ? line.match(/^\s{8}condition: (\S+)\s*$/) : null;
+      if (conditionMatch) {
+        if (!conditions.has(currentService)) conditions.set(currentService, new Map());
+        conditions.get(currentService)!.set(currentDep!, conditionMatch[1]);
+        continue;
+      }
+      if (!line.match(/^\s{6,}/)) inDependsOn = false;
+    }
+  }
+  return { dependsOn, dependedBy, conditions };
 }
 
 // --- Exec ---
 
-export function execInContainer(containerId: string, command: string, cwd?: string): ChildProcess {
-  const args = ['exec'];
-  if (cwd) args.push('-w', cwd);
-  args.push(containerId, 'sh', '-c', command);
-  const child = spawn('docker', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+export function execInContainer(containerId: string, command: string, cwd?: string, file?: string): OutputChild {
+  if (engineEndpoint) return engineExec(engineEndpoint, containerId, ['sh', '-c', command], cwd);
+  const { cmd, args } = execCommand(runtime, containerId, command, cwd);
+  const child = spawn(cmd, args, { env: file ? composeEnv(file) : undefined, stdio: ['ignore', 'pipe', 'pipe'] });
   return child;
 }
 
 // --- Git Worktree ---
 
-export function getGitRoot(dir: string): string | null {
+export async function getGitRootAsync(dir: string, opts: AsyncExecOptions = {}): Promise<string | null> {
   try {
-    return execFileSync('git', ['-C', dir, 'rev-parse', '--show-toplevel'], {
-      encoding: 'utf8', timeout: 3000, killSignal: 'SIGKILL' as NodeJS.Signals, stdio: ['pipe', 'pipe', 'pipe'],
-    }).trim() || null;
-  } catch {
+    return (await execFileAsync('git', ['-C', dir, 'rev-parse', '--show-toplevel'], { timeout: 3000, signal: opts.signal })).trim() || null;
+  } catch (err) {
+    rethrowIfAborted(err, opts);
     return null;
   }
 }
 
-export function listGitWorktrees(dir: string): GitWorktree[] {
+export async function listGitWorktreesAsync(dir: string, opts: AsyncExecOptions = {}): Promise<GitWorktree[]> {
   try {
-    const out = execFileSync('git', ['-C', dir, 'worktree', 'list', '--porcelain'], {
-      encoding: 'utf8', timeout: 5000, killSignal: 'SIGKILL' as NodeJS.Signals, stdio: ['pipe', 'pipe', 'pipe'],
-    });
-    const result: GitWorktree[] = [];
-    const blocks = out.split('\n\n');
-    for (const block of blocks) {
-      const lines = block.trim().split('\n');
-      if (lines.length === 0) continue;
-      let wtPath = '';
-      let branch = '';
-      let isBare = false;
-      for (const line of lines) {
-        if (line.startsWith('worktree ')) {
-          wtPath = line.substring('worktree '.length);
-        } else if (line.startsWith('branch refs/heads/')) {
-          branch = line.substring('branch refs/heads/'.length);
-        } else if (line === 'bare') {
-          isBare = true;
-        }
-      }
-      if (wtPath && branch && !isBare) {
-        result.push({ path: wtPath, branch });
+    const out = await execFileAsync('git', ['-C', dir, 'worktree', 'list', '--porcelain'], { timeout: 5000, signal: opts.signal });
+    return parseWorktreeList(out);
+  } catch (err) {
+    rethrowIfAborted(err, opts);
+    return [];
+  }
+}
+
+export async function listGitBranchesAsync(dir: string, opts: AsyncExecOptions = {}): Promise<GitBranches> {
+  try {
+    const out = await execFileAsync('git', ['-C', dir, 'for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes'], { timeout: 5000, signal: opts.signal });
+    return parseBranchList(out);
+  } catch (err) {
+    rethrowIfAborted(err, opts);
+    return { local: [], remote: [] };
+  }
+}
+
+export function parseBranchList(out: string): GitBranches {
+  const branches: GitBranches = { local: [], remote: [] };
+  for (const ref of out.split('\n').map(l => l.trim())) {
+    if (ref.startsWith('refs/heads/')) branches.local.push(ref.substring('refs/heads/'.length));
+    else if (ref.startsWith('refs/remotes/') && !ref.endsWith('/HEAD')) branches.remote.push(ref.substring('refs/remotes/'.length));
+  }
+  return branches;
+}
+
+// Checks out an existing local branch, or with `create` a new branch from `startPoint`
+// (HEAD of dir when null). Rejects with git's error.
+export async function addGitWorktreeAsync(dir: string, worktreePath: string, branch: string, opts: AsyncExecOptions & { create?: boolean; startPoint?: string | null } = {}): Promise<void> {
+  const args = opts.create
+    ? ['-C', dir, 'worktree', 'add', ...(opts.startPoint ? ['--track'] : []), '-b', branch, worktreePath, ...(opts.startPoint ? [opts.startPoint] : [])]
+    : ['-C', dir, 'worktree', 'add', worktreePath, branch];
+  await execFileAsync('git', args, { timeout: 120000, signal: opts.signal });
+}
+
+// Without --force, so git refuses worktrees with uncommitted changes
+export async function removeGitWorktreeAsync(dir: string, worktreePath: string, opts: AsyncExecOptions = {}): Promise<void> {
+  await execFileAsync('git', ['-C', dir, 'worktree', 'remove', worktreePath], { timeout: 60000, signal: opts.signal });
+}
+
+// Null when the worktree can't be read (deleted behind git's back, not a repository)
+export async function getGitWorktreeStatusAsync(worktreePath: string, opts: AsyncExecOptions = {}): Promise<GitWorktreeStatus | null> {
+  try {
+    const [status, log] = await Promise.all([
+      execFileAsync('git', ['-C', worktreePath, 'status', '--porcelain=v2', '--branch'], { timeout: 10000, signal: opts.signal }),
+      // A branch without commits has no log
+      execFileAsync('git', ['-C', worktreePath, 'log', '-1', '--format=%ct%x09%s'], { timeout: 5000, signal: opts.signal }).catch((err: unknown) => {
+        rethrowIfAborted(err, opts);
+        return '';
+      }),
+    ]);
+    return { ...parseGitStatus(status), lastCommit: parseLastCommit(log) };
+  } catch (err) {
+    rethrowIfAborted(err, opts);
+    return null;
+  }
+}
+
+export function parseGitStatus(out: string): Pick<GitWorktreeStatus, 'dirty' | 'ahead' | 'behind'> {
+  const result: Pick<GitWorktreeStatus, 'dirty' | 'ahead' | 'behind'> = { dirty: false, ahead: null, behind: null };
+  for (const line of out.split('\n')) {
+    if (!line.trim()) continue;
+    const ab = line.match(/^# branch\.ab \+(\d+) -(\d+)/);
+    if (ab) {
+      result.ahead = Number(ab[1]);
+      result.behind = Number(ab[2]);
+    } else if (!line.startsWith('# ')) {
+      result.dirty = true;
+    }
+  }
+  return result;
+}
+
+export function parseLastCommit(out: string): GitWorktreeStatus['lastCommit'] {
+  const line = out.trim();
+  const tab = line.indexOf('\t');
+  const time = Number(tab === -1 ? line : line.substring(0, tab));
+  if (!line || !Number.isFinite(time)) return null;
+  return { subject: tab === -1 ? '' : line.substring(tab + 1), time };
+}
+
+function parseWorktreeList(out: string): GitWorktree[] {
+  const result: GitWorktree[] = [];
+  const blocks = out.split('\n\n');
+  for (const block of blocks) {
+    const lines = block.trim().split('\n');
+    if (lines.length === 0) continue;
+    let wtPath = '';
+    let branch = '';
+    let isBare = false;
+    for (const line of lines) {
+      if (line.startsWith('worktree ')) {
+        wtPath = line.substring('worktree '.length);
+      } else if (line.startsWith('branch refs/heads/')) {
+        branch = line.substring('branch refs/heads/'.length);
+      } else if (line === 'bare') {
+        isBare = true;
       }
     }
-    return result;
-  } catch {
-    return [];
+    if (wtPath && branch && !isBare) {
+      result.push({ path: wtPath, branch });
+    }
   }
+  return result;
 }
 
-export function validateServiceInComposeFile(file: string, service: string): boolean {
+export async function validateServiceInComposeFileAsync(file: string, service: string, opts: AsyncExecOptions = {}): Promise<boolean> {
   try {
-    const services = listServices(file);
+    const services = await listServicesAsync(file, opts);
     return services.includes(service);
-  } catch {
+  } catch (err) {
+    rethrowIfAborted(err, opts);
     return false;
   }
 }
-
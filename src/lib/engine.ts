@@ -0,0 +1,323 @@
+import http from 'http';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import type {
+  AsyncExecOptions,
+  ContainerStatus,
+  EngineContainerInspect,
+  EngineContainerSummary,
+  EngineEndpoint,
+  EngineStatsJson,
+  ParsedStatsLine,
+  PortMapping,
+  RebuildEmitter,
+  ReplicaStatus,
+} from './types';
+import { serviceStatusFromReplicas } from './state';
+
+// Minimal Docker Engine API client over the daemon socket. Only the handful of
+// endpoints recomposable needs: ps/inspect, stats, logs, exec and events.
+
+export function resolveEngineEndpoint(dockerHost: string | undefined = process.env.DOCKER_HOST): EngineEndpoint | null {
+  if (!dockerHost) return { socketPath: '/var/run/docker.sock' };
+  if (dockerHost.startsWith('unix://')) return { socketPath: dockerHost.substring('unix://'.length) };
+  const tcp = dockerHost.match(/^tcp:\/\/([^:/]+)(?::(\d+))?/);
+  if (tcp) {
+    // TLS daemons need client certificates — leave those to the CLI
+    if (process.env.DOCKER_TLS_VERIFY) return null;
+    return { host: tcp[1], port: tcp[2] ? parseInt(tcp[2], 10) : 2375 };
+  }
+  // ssh://, npipe:// etc. are only reachable through the CLI
+  return null;
+}
+
+export function abortError(): Error {
+  const err = new Error('The operation was aborted');
+  err.name = 'AbortError';
+  return err;
+}
+
+function requestOptions(endpoint: EngineEndpoint, method: string, reqPath: string, payload?: string): http.RequestOptions {
+  const headers: Record<string, string | number> = {};
+  if (payload !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    headers['Content-Length'] = Buffer.byteLength(payload);
+  }
+  if (endpoint.socketPath) return { socketPath: endpoint.socketPath, path: reqPath, method, headers };
+  return { host: endpoint.host, port: endpoint.port, path: reqPath, method, headers };
+}
+
+export function engineRequest(
+  endpoint: EngineEndpoint, method: string, reqPath: string, body?: unknown, opts: AsyncExecOptions & { timeout?: number } = {},
+): Promise<{ statusCode: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const { signal } = opts;
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const req = http.request(requestOptions(endpoint, method, reqPath, payload), res => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve({ statusCode: res.statusCode || 0, body: Buffer.concat(chunks).toString('utf8') });
+      });
+      res.on('error', reject);
+    });
+    const onAbort = (): void => { req.destroy(abortError()); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    req.setTimeout(opts.timeout ?? 10000, () => req.destroy(new Error(`Docker Engine API ${method} ${reqPath} timed out`)));
+    req.on('error', err => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(err);
+    });
+    if (payload !== undefined) req.write(payload);
+    req.end();
+  });
+}
+
+async function engineJson<T>(endpoint: EngineEndpoint, method: string, reqPath: string, body?: unknown, opts: AsyncExecOptions & { timeout?: number } = {}): Promise<T> {
+  const res = await engineRequest(endpoint, method, reqPath, body, opts);
+  if (res.statusCode < 200 || res.statusCode >= 300) {
+    let message = res.body.trim();
+    try {
+      message = (JSON.parse(res.body) as { message?: string }).message || message;
+    } catch {
+      // Plain-text error body
+    }
+    throw new Error(`Docker Engine API ${method} ${reqPath}: ${res.statusCode} ${message}`);
+  }
+  return (res.body ? JSON.parse(res.body) : undefined) as T;
+}
+
+export async function pingEngine(endpoint: EngineEndpoint, opts: AsyncExecOptions = {}): Promise<boolean> {
+  try {
+    const res = await engineRequest(endpoint, 'GET', '/_ping', undefined, { ...opts, timeout: 3000 });
+    return res.statusCode === 200;
+  } catch {
+    return false;
+  }
+}
+
+// --- ps / inspect ---
+
+const COMPOSE_FILTER = encodeURIComponent(JSON.stringify({ label: ['com.docker.compose.project'] }));
+
+export async function engineComposeStatuses(endpoint: EngineEndpoint, projectName: string, opts: AsyncExecOptions = {}): Promise<Map<string, ContainerStatus>> {
+  const containers = await engineJson<EngineContainerSummary[]>(endpoint, 'GET', `/containers/json?all=1&filters=${COMPOSE_FILTER}`, undefined, opts);
+
+  // Same selection as `docker compose ps`: the project's containers, minus one-off `run`s
+  const mine = containers.filter(c => {
+    const labels = c.Labels || {};
+    if (labels['com.docker.compose.oneoff'] === 'True') return false;
+    return labels['com.docker.compose.project'] === projectName;
+  });
+
+  const replicas = new Map<string, ReplicaStatus[]>();
+  const workingDirs = new Map<string, string | null>();
+  const inspected = await Promise.all(mine.map(c => engineJson<EngineContainerInspect>(endpoint, 'GET', `/containers/${c.Id}/json`, undefined, opts)));
+  for (let i = 0; i < mine.length; i++) {
+    const summary = mine[i];
+    const info = inspected[i];
+    const labels = info.Config?.Labels || summary.Labels || {};
+    const service = labels['com.docker.compose.service'] || (summary.Names?.[0] || '').replace(/^\//, '');
+
+    const seen = new Set<number>();
+    const ports: PortMapping[] = [];
+    for (const p of summary.Ports || []) {
+      if (!p.PublicPort || seen.has(p.PublicPort)) continue;
+      seen.add(p.PublicPort);
+      ports.push({ published: p.PublicPort, target: p.PrivatePort });
+    }
+
+    const list = replicas.get(service) || [];
+    list.push({
+      number: parseInt(labels['com.docker.compose.container-number'] || '', 10) || list.length + 1,
+      state: (info.State?.Status || summary.State || '').toLowerCase(),
+      health: (info.State?.Health?.Status || '').toLowerCase(),
+      createdAt: info.Created || null,
+      startedAt: info.State?.StartedAt || null,
+      id: info.Id,
+      ports,
+    });
+    replicas.set(service, list);
+    workingDirs.set(service, labels['com.docker.compose.project.working_dir'] || null);
+  }
+
+  const statuses = new Map<string, ContainerStatus>();
+  for (const [service, list] of replicas) {
+    statuses.set(service, serviceStatusFromReplicas(list, workingDirs.get(service) || null));
+  }
+  return statuses;
+}
+
+// --- stats ---
+
+export function parseEngineStats(id: string, stats: EngineStatsJson): ParsedStatsLine {
+  const cpu = stats.cpu_stats || {};
+  const precpu = stats.precpu_stats || {};
+  const cpuDelta = (cpu.cpu_usage?.total_usage || 0) - (precpu.cpu_usage?.total_usage || 0);
+  const systemDelta = (cpu.system_cpu_usage || 0) - (precpu.system_cpu_usage || 0);
+  const onlineCpus = cpu.online_cpus || cpu.cpu_usage?.percpu_usage?.length || 1;
+  const cpuPercent = cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+  // Like `docker stats`: usage minus reclaimable page cache (cgroup v2, then v1 keys)
+  const mem = stats.memory_stats || {};
+  const memStats = mem.stats || {};
+  const cache = memStats.inactive_file ?? memStats.total_inactive_file ?? memStats.cache ?? 0;
+  const usage = mem.usage || 0;
+  const memUsageBytes = cache < usage ? usage - cache : usage;
+
+  return { id, name: (stats.name || '').replace(/^\//, ''), cpuPercent, memUsageBytes };
+}
+
+export async function engineContainerStats(endpoint: EngineEndpoint, id: string, opts: AsyncExecOptions = {}): Promise<ParsedStatsLine> {
+  // stream=false waits for a second sample so precpu_stats is populated
+  const stats = await engineJson<EngineStatsJson>(endpoint, 'GET', `/containers/${id}/stats?stream=false`, undefined, { ...opts, timeout: 15000 });
+  return parseEngineStats(id, stats);
+}
+
+// --- Streams (logs / exec / events) ---
+
+function createOutputEmitter(): RebuildEmitter {
+  const emitter = new EventEmitter() as RebuildEmitter;
+  emitter.stdout = new PassThrough();
+  emitter.stderr = new PassThrough();
+  emitter.kill = () => {};
+  return emitter;
+}
+
+// Splits the multiplexed stdout/stderr framing used for non-TTY containers:
+// [stream, 0, 0, 0, size (uint32 BE)] followed by `size` bytes of payload.
+// TTY containers send raw bytes, detected from the first header.
+export function createDemuxer(stdout: PassThrough, stderr: PassThrough): (chunk: Buffer) => void {
+  let pending = Buffer.alloc(0);
+  let raw: boolean | null = null;
+  return (chunk: Buffer): void => {
+    if (raw) {
+      stdout.write(chunk);
+      return;
+    }
+    pending = Buffer.concat([pending, chunk]);
+    if (raw === null) {
+      if (pending.length < 8) return;
+      raw = pending[0] > 2 || pending[1] !== 0 || pending[2] !== 0 || pending[3] !== 0;
+      if (raw) {
+        stdout.write(pending);
+        pending = Buffer.alloc(0);
+        return;
+      }
+    }
+    while (pending.length >= 8) {
+      const size = pending.readUInt32BE(4);
+      if (pending.length < 8 + size) break;
+      const payload = pending.subarray(8, 8 + size);
+      (pending[0] === 2 ? stderr : stdout).write(payload);
+      pending = pending.subarray(8 + size);
+    }
+  };
+}
+
+function streamRequest(
+  emitter: RebuildEmitter, endpoint: EngineEndpoint, method: string, reqPath: string, body: unknown,
+  onEnd: () => void,
+): http.ClientRequest {
+  const payload = body === undefined ? undefined : JSON.stringify(body);
+  const req = http.request(requestOptions(endpoint, method, reqPath, payload), res => {
+    if ((res.statusCode || 0) >= 300) {
+      res.on('data', (d: Buffer) => emitter.stderr.write(d));
+      res.on('end', () => finishEmitter(emitter, 1));
+      return;
+    }
+    const demux = createDemuxer(emitter.stdout, emitter.stderr);
+    res.on('data', demux);
+    res.on('end', onEnd);
+    res.on('error', () => finishEmitter(emitter, 1));
+  });
+  req.on('error', (err: Error) => {
+    emitter.stderr.write(`${err.message}\n`);
+    finishEmitter(emitter, 1);
+  });
+  if (payload !== undefined) req.write(payload);
+  req.end();
+  return req;
+}
+
+const finishedEmitters = new WeakSet<RebuildEmitter>();
+
+function finishEmitter(emitter: RebuildEmitter, code: number | null): void {
+  if (finishedEmitters.has(emitter)) return;
+  finishedEmitters.add(emitter);
+  emitter.stdout.end();
+  emitter.stderr.end();
+  emitter.emit('close', code);
+}
+
+export function engineLogs(endpoint: EngineEndpoint, id: string, opts: { follow: boolean; tail: number | 'all' }): RebuildEmitter {
+  const emitter = createOutputEmitter();
+  const query = `stdout=1&stderr=1&follow=${opts.follow ? 1 : 0}&tail=${opts.tail}`;
+  const req = streamRequest(emitter, endpoint, 'GET', `/containers/${id}/logs?${query}`, undefined, () => finishEmitter(emitter, 0));
+  emitter.kill = () => {
+    req.destroy();
+    finishEmitter(emitter, null);
+  };
+  return emitter;
+}
+
+export function engineExec(endpoint: EngineEndpoint, id: string, cmd: string[], cwd?: string): RebuildEmitter {
+  const emitter = createOutputEmitter();
+  let req: http.ClientRequest | null = null;
+  let killed = false;
+  emitter.kill = () => {
+    killed = true;
+    if (req) req.destroy();
+    finishEmitter(emitter, null);
+  };
+
+  engineJson<{ Id: string }>(endpoint, 'POST', `/containers/${id}/exec`, {
+    AttachStdout: true, AttachStderr: true, Tty: false, Cmd: cmd, ...(cwd ? { WorkingDir: cwd } : {}),
+  }).then(created => {
+    if (killed) return;
+    req = streamRequest(emitter, endpoint, 'POST', `/exec/${created.Id}/start`, { Detach: false, Tty: false }, () => {
+      engineJson<{ ExitCode?: number | null }>(endpoint, 'GET', `/exec/${created.Id}/json`)
+        .then(info => finishEmitter(emitter, info.ExitCode ?? 0), (err: Error) => {
+          emitter.stderr.write(`${err.message}\n`);
+          finishEmitter(emitter, 1);
+        });
+    });
+  }, (err: Error) => {
+    emitter.stderr.write(`${err.message}\n`);
+    finishEmitter(emitter, 1);
+  });
+
+  return emitter;
+}
+
+export function engineEvents(endpoint: EngineEndpoint): RebuildEmitter {
+  const emitter = createOutputEmitter();
+  const filters = encodeURIComponent(JSON.stringify({ type: ['container'], label: ['com.docker.compose.project'] }));
+  // Events are newline-delimited JSON, not multiplexed — pipe the body straight through
+  const req = http.request(requestOptions(endpoint, 'GET', `/events?filters=${filters}`), res => {
+    const statusCode = res.statusCode || 0;
+    if (statusCode < 200 || statusCode >= 300) {
+      res.on('data', (d: Buffer) => emitter.stderr.write(d));
+      res.on('end', () => finishEmitter(emitter, 1));
+      return;
+    }
+    res.on('data', (d: Buffer) => emitter.stdout.write(d));
+    res.on('end', () => finishEmitter(emitter, 0));
+    res.on('error', () => finishEmitter(emitter, 1));
+  });
+  req.on('error', (err: Error) => {
+    emitter.stderr.write(`${err.message}\n`);
+    finishEmitter(emitter, 1);
+  });
+  req.end();
+  emitter.kill = () => {
+    req.destroy();
+    finishEmitter(emitter, null);
+  };
+  return emitter;
+}
@@ -0,0 +1,56 @@
+import { fuzzyMatch } from './fuzzy';
+import type { ServiceFilter, FilterField, FilterComparison, FilterSubject } from './types';
+
+// The list filter: plain words fuzzy-match the service name, `field:value` terms match
+// the container state (prefix), health (prefix), worktree branch or group label
+// (substring), and `metric<op>number` terms compare cpu (%), mem (MB) or a log pattern
+// count by its label, e.g. `err>0`.
+
+const FIELDS: FilterField[] = ['state', 'health', 'worktree', 'group'];
+const COMPARISON_RE = /^([a-z][a-z0-9_-]*)(>=|<=|>|<|=)(\d+(?:\.\d+)?)$/;
+
+export function parseFilter(query: string): ServiceFilter {
+  const filter: ServiceFilter = { text: '', fields: [], comparisons: [] };
+  const words: string[] = [];
+  for (const term of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const colon = term.indexOf(':');
+    const field = term.slice(0, colon) as FilterField;
+    if (colon > 0 && colon < term.length - 1 && FIELDS.includes(field)) {
+      filter.fields.push({ field, value: term.slice(colon + 1) });
+      continue;
+    }
+    const cmp = term.match(COMPARISON_RE);
+    if (cmp) {
+      filter.comparisons.push({ metric: cmp[1], op: cmp[2] as FilterComparison['op'], value: Number(cmp[3]) });
+      continue;
+    }
+    words.push(term);
+  }
+  filter.text = words.join(' ');
+  return filter;
+}
+
+function compare(actual: number, { op, value }: FilterComparison): boolean {
+  switch (op) {
+    case '>': return actual > value;
+    case '<': return actual < value;
+    case '>=': return actual >= value;
+    case '<=': return actual <= value;
+    case '=': return actual === value;
+  }
+}
+
+export function matchesFilter(filter: ServiceFilter, subject: FilterSubject): boolean {
+  if (filter.text && !fuzzyMatch(filter.text, subject.service)) return false;
+  for (const { field, value } of filter.fields) {
+    const actual = subject[field].toLowerCase();
+    const ok = field === 'state' || field === 'health' ? actual.startsWith(value) : actual.includes(value);
+    if (!ok) return false;
+  }
+  for (const cmp of filter.comparisons) {
+    // Unknown metrics (a typo, a pattern that isn't configured) match nothing
+    const actual = subject.metrics.get(cmp.metric);
+    if (actual === undefined || !compare(actual, cmp)) return false;
+  }
+  return true;
+}
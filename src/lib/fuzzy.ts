@@ -0,0 +1,53 @@
+import type { FuzzyMatch } from './types';
+
+// Subsequence matching in the style of editor pickers: every query character must
+// appear in order, and matches at word starts or in consecutive runs score higher.
+// Whitespace splits the query into terms that must all match.
+
+const WORD_SEPARATORS = ' -_./:@';
+
+function scorePositions(text: string, positions: number[]): number {
+  let score = 0;
+  for (let i = 0; i < positions.length; i++) {
+    const p = positions[i];
+    score += 1;
+    if (p === 0 || WORD_SEPARATORS.includes(text[p - 1])) score += 5;
+    if (i > 0) {
+      const gap = p - positions[i - 1] - 1;
+      if (gap === 0) score += 4;
+      else score -= Math.min(3, gap);
+    }
+  }
+  return score;
+}
+
+function matchTerm(term: string, lower: string): FuzzyMatch | null {
+  let best: FuzzyMatch | null = null;
+  // Try every occurrence of the first character; a greedy scan from an early start
+  // can miss the tighter run further along ("api" in "rapid api")
+  for (let start = lower.indexOf(term[0]); start !== -1; start = lower.indexOf(term[0], start + 1)) {
+    const positions = [start];
+    for (let i = start + 1; i < lower.length && positions.length < term.length; i++) {
+      if (lower[i] === term[positions.length]) positions.push(i);
+    }
+    // Later starts have even less text left to match in
+    if (positions.length < term.length) break;
+    const score = scorePositions(lower, positions);
+    if (!best || score > best.score) best = { score, positions };
+  }
+  return best;
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const lower = text.toLowerCase();
+  let score = 0;
+  const positions = new Set<number>();
+  for (const term of terms) {
+    const m = matchTerm(term, lower);
+    if (!m) return null;
+    score += m.score;
+    for (const p of m.positions) positions.add(p);
+  }
+  return { score, positions: [...positions].sort((a, b) => a - b) };
+}
@@ -0,0 +1,38 @@
+import type { AppState, GraphRow } from './types';
+
+// The dependency graph view: each group's services as trees, a service above what it
+// depends on. index.ts moves the cursor over the rows and renderer.ts draws them.
+
+export function graphRows(state: AppState): GraphRow[] {
+  const rows: GraphRow[] = [];
+  state.groups.forEach((group, groupIdx) => {
+    if (group.error) return;
+    const graph = state.depGraphs.get(group.file);
+    const dependsOn = (svc: string): string[] => graph?.dependsOn.get(svc) || [];
+    const expanded = new Set<string>();
+
+    const visit = (service: string, prefix: string, childPrefix: string, condition: string | null, path: string[]): void => {
+      // Cycles are cut where they close, like a service seen before
+      const repeated = expanded.has(service) || path.includes(service);
+      rows.push({ groupIdx, file: group.file, service, prefix, condition, repeated });
+      if (repeated) return;
+      expanded.add(service);
+      const deps = dependsOn(service);
+      deps.forEach((dep, i) => {
+        const last = i === deps.length - 1;
+        visit(dep, `${childPrefix}${last ? '\u2514\u2500 ' : '\u251C\u2500 '}`, `${childPrefix}${last ? '   ' : '\u2502  '}`,
+          graph?.conditions.get(service)?.get(dep) ?? null, [...path, service]);
+      });
+    };
+
+    // Trees start at the services nothing depends on; what only a cycle reaches comes last
+    const dependedOn = new Set(group.services.flatMap(dependsOn));
+    for (const service of group.services) {
+      if (!dependedOn.has(service)) visit(service, '', '', null, []);
+    }
+    for (const service of group.services) {
+      if (!expanded.has(service)) visit(service, '', '', null, []);
+    }
+  });
+  return rows;
+}
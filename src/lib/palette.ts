@@ -0,0 +1,72 @@
+import { fuzzyMatch } from './fuzzy';
+import { selectedEntry } from './state';
+import type { AppState, PaletteAction, PaletteItem, PaletteMatch } from './types';
+
+// Everything the list view can do, for the `:` command palette. index.ts maps the
+// ids onto the same handlers the single-key bindings use.
+export const PALETTE_ACTIONS: PaletteAction[] = [
+  { id: 'goto', label: 'go to', key: 'j/k', perService: true },
+  { id: 'start', label: 'start', key: 's', perService: true },
+  { id: 'restart', label: 'restart', key: 's', perService: true },
+  { id: 'stop', label: 'stop', key: 'p', perService: true },
+  { id: 'rebuild', label: 'rebuild', key: 'b', perService: true },
+  { id: 'cascade', label: 'rebuild with dependents', key: 'd', perService: true },
+  { id: 'cascade_rebuild', label: 'rebuild with dependents, rebuilding them too', key: 'D', perService: true },
+  { id: 'up_deps', label: 'start with prerequisites', key: 'u', perService: true },
+  { id: 'cascade_retry', label: 'retry failed cascade step', key: 'r', perService: true },
+  { id: 'cascade_skip', label: 'skip failed cascade step', key: 'c', perService: true },
+  { id: 'cascade_abort', label: 'abort failed cascade', key: 'a', perService: true },
+  { id: 'watch', label: 'toggle watch', key: 'w', perService: true },
+  { id: 'exec', label: 'exec', key: 'e', perService: true },
+  { id: 'exec_full', label: 'exec full screen', key: 'x', perService: true },
+  { id: 'logs', label: 'full logs', key: 'f', perService: true },
+  { id: 'worktree', label: 'switch worktree', key: 't', perService: true },
+  { id: 'scale_up', label: 'scale up', key: '+', perService: true },
+  { id: 'scale_down', label: 'scale down', key: '-', perService: true },
+  { id: 'replicas', label: 'toggle replicas', key: 'z', perService: true },
+  { id: 'no_cache', label: 'toggle no cache', key: 'n', perService: false },
+  { id: 'no_deps', label: 'toggle no deps', key: 'o', perService: false },
+  { id: 'log_panel', label: 'toggle log panel', key: 'l', perService: false },
+  { id: 'env_panel', label: 'toggle env panel', key: 'E', perService: false },
+  { id: 'profiles', label: 'compose profiles', key: 'P', perService: false },
+  { id: 'filter', label: 'filter services', key: '\\', perService: false },
+  { id: 'sort', label: 'cycle sort order', key: 'S', perService: false },
+  { id: 'graph', label: 'dependency graph', key: 'm', perService: false },
+  { id: 'rollback_switch', label: 'roll back worktree switch', key: 'R', perService: false },
+  { id: 'quit', label: 'quit', key: 'q', perService: false },
+];
+
+export const PALETTE_ROWS = 10;
+
+function serviceItems(file: string, service: string): PaletteItem[] {
+  return PALETTE_ACTIONS.filter(a => a.perService).map(action => ({
+    action, file, service, text: `${action.label} ${service}`,
+  }));
+}
+
+// Empty-query order: the selected service's actions, the global toggles, then every
+// other service. Matching keeps this order among equal scores.
+export function paletteItems(state: AppState): PaletteItem[] {
+  const sel = selectedEntry(state);
+  const items: PaletteItem[] = sel ? serviceItems(sel.file, sel.service) : [];
+  for (const action of PALETTE_ACTIONS) {
+    if (!action.perService) items.push({ action, file: null, service: null, text: action.label });
+  }
+  for (const group of state.groups) {
+    for (const service of group.services) {
+      if (sel && sel.file === group.file && sel.service === service) continue;
+      items.push(...serviceItems(group.file, service));
+    }
+  }
+  return items;
+}
+
+export function paletteMatches(state: AppState): PaletteMatch[] {
+  const scored: Array<PaletteMatch & { score: number }> = [];
+  for (const item of paletteItems(state)) {
+    const m = fuzzyMatch(state.paletteQuery, item.text);
+    if (m) scored.push({ item, positions: m.positions, score: m.score });
+  }
+  scored.sort((a, b) => b.score - a.score);
+  return scored.map(({ item, positions }) => ({ item, positions }));
+}
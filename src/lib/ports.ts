@@ -0,0 +1,48 @@
+import net from 'net';
+import { statusKey } from './state';
+import type { AppState, PortConflict, PublishedPort } from './types';
+
+// Pre-flight for starting a service or switching it to another worktree: the host ports it
+// would publish, checked against the other services' containers and then the host's sockets.
+
+// Ports a running service in the list (other than the service itself) publishes already
+export function serviceConflicts(state: AppState, file: string, service: string, ports: PublishedPort[]): PortConflict[] {
+  const own = statusKey(file, service);
+  const conflicts: PortConflict[] = [];
+  for (const port of ports) {
+    for (const group of state.groups) {
+      for (const other of group.services) {
+        const sk = statusKey(group.file, other);
+        const st = state.statuses.get(sk);
+        if (sk === own || !st || st.state !== 'running') continue;
+        if (st.ports.some(p => p.published === port.published)) conflicts.push({ port: port.published, file: group.file, service: other });
+      }
+    }
+  }
+  return conflicts;
+}
+
+// Whether something listens on the port. Ports that can't be bound for other reasons
+// (privileged ports, an address this host doesn't have) are left for docker to report.
+export function hostPortInUse(port: number, hostIp: string | null): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', (err: NodeJS.ErrnoException) => resolve(err.code === 'EADDRINUSE'));
+    server.listen({ port, host: hostIp ?? '0.0.0.0', exclusive: true }, () => server.close(() => resolve(false)));
+  });
+}
+
+export async function findPortConflicts(state: AppState, file: string, service: string, ports: PublishedPort[]): Promise<PortConflict[]> {
+  const unique = ports.filter((p, i) => ports.findIndex(q => q.published === p.published) === i);
+  const conflicts = serviceConflicts(state, file, service, unique);
+  const own = state.statuses.get(statusKey(file, service));
+  for (const port of unique) {
+    // The service's own container holds its ports until it is replaced
+    if (conflicts.some(c => c.port === port.published)) continue;
+    if (own && own.state === 'running' && own.ports.some(p => p.published === port.published)) continue;
+    if (port.protocol === 'tcp' && await hostPortInUse(port.published, port.hostIp)) {
+      conflicts.push({ port: port.published, file: null, service: null });
+    }
+  }
+  return conflicts;
+}
@@ -1,5 +1,10 @@
-import { statusKey, MODE, worktreeLabel } from './state';
-import type { AppState, LegendOptions, DisplayLine } from './types';
+import path from 'path';
+import { statusKey, entryKey, bottomPanelKey, selectedReplica, selectedEntry, failedCascade, inactiveProfile, patternLabel, errorPatternKeys, MODE, worktreeLabel } from './state';
+import { paletteMatches, PALETTE_ROWS } from './palette';
+import { branchPromptOptions } from './worktree';
+import { cascadePlanSteps } from './cascade';
+import { graphRows } from './graph';
+import type { AppState, LegendOptions, DisplayLine, ColumnConfig, SortField, BulkItemStatus, GitWorktree, CascadeStep } from './types';
 
 const ESC = '\x1b[';
 const RESET = `${ESC}0m`;
@@ -32,6 +37,12 @@ export function padVisible(str: string, width: number): string {
   return str + ' '.repeat(pad);
 }
 
+// Pads to width, cutting overlong text with an ellipsis
+function fitCell(str: string, width: number): string {
+  if (visLen(str) > width) str = truncateLine(str, width - 1) + '\u2026';
+  return padVisible(str, width);
+}
+
 export function padVisibleStart(str: string, width: number): string {
   const pad = Math.max(0, width - visLen(str));
   return ' '.repeat(pad) + str;
@@ -40,6 +51,18 @@ export function padVisibleStart(str: string, width: number): string {
 export const CLEAR_EOL = `${ESC}K`;
 export const CLEAR_EOS = `${ESC}J`;
 
+export const DEFAULT_COLUMNS: ColumnConfig[] = [
+  { id: 'service', width: 24 },
+  { id: 'status', width: 22 },
+  { id: 'built', width: 12 },
+  { id: 'restarted', width: 12 },
+  { id: 'counts', width: 5 },
+  { id: 'stats', width: 16 },
+  { id: 'ports', width: 14 },
+  { id: 'worktree', width: 15 },
+  { id: 'project', width: 16 },
+];
+
 const PATTERN_COLORS = [FG_YELLOW, FG_RED, FG_CYAN, FG_WHITE];
 
 function logLineColor(line: string, patterns: (string | string[])[]): string | null {
@@ -57,10 +80,6 @@ function logLineColor(line: string, patterns: (string | string[])[]): string | n
 let cachedSepColumns = 0;
 let cachedSepLine = '';
 
-function patternLabel(pattern: string): string {
-  return pattern.replace(/^[\[\(\{<]/, '').replace(/[\]\)\}>]$/, '');
-}
-
 function parseTimestamp(ts: string | null | undefined): Date | null {
   if (!ts) return null;
   const cleaned = ts.replace(/ [A-Z]{2,5}$/, '');
@@ -68,6 +87,68 @@ function parseTimestamp(ts: string | null | undefined): Date | null {
   return isNaN(d.getTime()) ? null : d;
 }
 
+// Dirty state, distance to the upstream and last commit of a picker entry, as far as git
+// has answered yet, then the warning that the service's compose files differ there
+function worktreeDetails(wt: GitWorktree): string {
+  const parts: string[] = [];
+  if (wt.dirty !== undefined) parts.push(wt.dirty ? `${FG_YELLOW}* dirty${RESET}` : `${DIM}clean${RESET}`);
+  if (wt.ahead != null && wt.behind != null) {
+    const ab = [wt.ahead > 0 ? `\u2191${wt.ahead}` : '', wt.behind > 0 ? `\u2193${wt.behind}` : ''].filter(Boolean).join(' ');
+    parts.push(ab ? `${FG_CYAN}${ab}${RESET}` : `${DIM}up to date${RESET}`);
+  }
+  if (wt.lastCommit) parts.push(`${wt.lastCommit.subject} ${relativeTime(new Date(wt.lastCommit.time * 1000).toISOString())}`);
+  if (wt.composeChanged) parts.push(`${FG_YELLOW}\u26a0 compose file differs${RESET}`);
+  return parts.join('  ');
+}
+
+// Cascade steps in order. The steps of a level run side by side; they are indented under a header.
+function cascadeStepLines(steps: CascadeStep[], label: (step: CascadeStep) => string): string[] {
+  const lines: string[] = [];
+  for (let si = 0; si < steps.length; si++) {
+    const step = steps[si];
+    const levelSize = steps.filter(s => s.level === step.level).length;
+    if (levelSize > 1 && steps[si - 1]?.level !== step.level) lines.push(`  ${DIM}${levelSize} in parallel${RESET}`);
+    lines.push(`${levelSize > 1 ? '    ' : '  '}${label(step)}`);
+  }
+  return lines;
+}
+
+// Re-apply BG after every RESET so highlight spans the full row;
+// promote dim/gray text to white so it's readable on the highlight background
+function highlightRow(row: string, width: number): string {
+  const text = row.replace(/\x1b\[2m/g, FG_WHITE).replace(/\x1b\[90m/g, FG_WHITE);
+  return `${BG_HIGHLIGHT}${text.replace(/\x1b\[0m/g, `${RESET}${BG_HIGHLIGHT}`)}${' '.repeat(Math.max(0, width - visLen(text)))}${RESET}`;
+}
+
+const DEFINITION_CHANGE_MARKS = {
+  added: `${FG_GREEN}+`,
+  removed: `${FG_RED}-`,
+  changed: `${FG_YELLOW}~`,
+};
+
+// The `d` pane under the worktree picker: the keys of the service's definition that the
+// switch would change, as many as the bottom panel has rows for
+function worktreePreviewLines(state: AppState, service: string, columns: number): string[] {
+  const preview = state.worktreePreview;
+  const wt = preview && state.worktreePickerEntries.find(w => w.path === preview.path);
+  if (!preview || !wt) return [`  ${DIM}pick a worktree to diff ${service}'s definition against${RESET}`];
+  const lines = [` ${FG_CYAN}${service} in worktree ${BOLD}${wt.branch}${RESET}`];
+  if (preview.error) return [...lines, truncateLine(`  ${FG_RED}${preview.error}${RESET}`, columns)];
+  if (!preview.changes) return [...lines, `  ${DIM}loading compose config...${RESET}`];
+  if (preview.changes.length === 0) return [...lines, `  ${DIM}same definition${RESET}`];
+  const maxRows = Math.max(1, state.config.bottomLogCount || 10);
+  const shown = preview.changes.length > maxRows ? preview.changes.slice(0, maxRows - 1) : preview.changes;
+  const pathWidth = Math.min(40, Math.max(...shown.map(c => c.path.length))) + 2;
+  for (const change of shown) {
+    const kind = change.before === null ? 'added' : change.after === null ? 'removed' : 'changed';
+    const value = kind === 'added' ? change.after : kind === 'removed' ? `${DIM}${change.before}${RESET}` : `${DIM}${change.before}${RESET} \u2192 ${change.after}`;
+    lines.push(truncateLine(`  ${DEFINITION_CHANGE_MARKS[kind]} ${padVisible(change.path, pathWidth)}${RESET}${value}`, columns));
+  }
+  const hidden = preview.changes.length - shown.length;
+  if (hidden > 0) lines.push(`  ${DIM}\u2026 ${hidden} more change${hidden !== 1 ? 's' : ''}${RESET}`);
+  return lines;
+}
+
 export function relativeTime(ts: string | null | undefined): string {
   const date = parseTimestamp(ts);
   if (!date) return `${FG_GRAY}-${RESET}`;
@@ -98,20 +179,21 @@ export function showCursor(): string {
   return `${ESC}?25h`;
 }
 
-export function statusIcon(status: { state: string; health: string } | null | undefined, isRebuilding: boolean, isRestarting: boolean, isStopping: boolean, isStarting: boolean): string {
-  if (isRebuilding || isRestarting || isStopping || isStarting) return `${FG_YELLOW}\u25CF${RESET}`;
-  if (!status) return `${FG_GRAY}\u25CB${RESET}`;
+// The color of the status icon, which the graph view also gives the service's name
+function statusColor(status: { state: string; health: string } | null | undefined, isBusy: boolean): string {
+  if (isBusy) return FG_YELLOW;
+  if (!status) return FG_GRAY;
+  if (status.state === 'running') return status.health === 'unhealthy' ? FG_RED : FG_GREEN;
+  return status.state === 'restarting' ? FG_YELLOW : FG_GRAY;
+}
 
-  const { state, health } = status;
-  if (state === 'running') {
-    if (health === 'unhealthy') return `${FG_RED}\u25CF${RESET}`;
-    return `${FG_GREEN}\u25CF${RESET}`;
-  }
-  if (state === 'restarting') return `${FG_YELLOW}\u25CF${RESET}`;
-  return `${FG_GRAY}\u25CB${RESET}`;
+export function statusIcon(status: { state: string; health: string } | null | undefined, isRebuilding: boolean, isRestarting: boolean, isStopping: boolean, isStarting: boolean, isScaling = false): string {
+  const color = statusColor(status, isRebuilding || isRestarting || isStopping || isStarting || isScaling);
+  return `${color}${color === FG_GRAY ? '\u25CB' : '\u25CF'}${RESET}`;
 }
 
-export function statusText(status: { state: string; health: string } | null | undefined, isRebuilding: boolean, isRestarting: boolean, isStopping: boolean, isStarting: boolean): string {
+export function statusText(status: { state: string; health: string } | null | undefined, isRebuilding: boolean, isRestarting: boolean, isStopping: boolean, isStarting: boolean, isScaling = false): string {
+  if (isScaling) return `${FG_YELLOW}SCALING...${RESET}`;
   if (isStopping) return `${FG_YELLOW}STOPPING...${RESET}`;
   if (isStarting) return `${FG_YELLOW}STARTING...${RESET}`;
   if (isRestarting) return `${FG_YELLOW}RESTARTING...${RESET}`;
@@ -141,15 +223,71 @@ export function formatMem(bytes: number): string {
 }
 
 export function renderLegend(opts: LegendOptions = {}): string {
-  const { logPanelActive = false, logsScrollMode = false, noCacheActive = false, noDepsActive = false, watchActive = false, execMode = false, execInline = false, worktreePickerActive = false } = opts;
+  const { logPanelActive = false, logsScrollMode = false, noCacheActive = false, noDepsActive = false, watchActive = false, execMode = false, execInline = false, worktreePickerActive = false, worktreePreviewActive = false, branchPromptActive = false, portConflictActive = false, portConflictStoppable = false, cascadePlanActive = false, cascadeFailedActive = false, graphMode = false, profilePickerActive = false, envPanelActive = false, paletteActive = false, markedCount = 0, filterActive = false, filterApplied = false, sortField = 'default' } = opts;
   const item = (text: string, active: boolean): string => {
     if (active) return `${BG_HIGHLIGHT} ${text} ${RESET}`;
     return `${DIM}${text}${RESET}`;
   };
+  if (portConflictActive) {
+    return [
+      item('[Esc] cancel', false),
+      ...(portConflictStoppable ? [item('[y] stop them and continue', false)] : []),
+      item('[c] continue anyway', false),
+    ].join('  ');
+  }
+  if (cascadePlanActive) {
+    return [
+      item('[Esc] cancel', false),
+      item('[Enter] run', false),
+      item('[a] all/affected dependents', false),
+    ].join('  ');
+  }
+  if (graphMode) {
+    return [
+      item('[Esc] back', false),
+      item('[j/k] navigate', false),
+      item('Re[B]uild', false),
+      item('[D]ep rebuild', false),
+      item('Sto[P]', false),
+      item('[Q]uit', false),
+    ].join('  ');
+  }
+  if (branchPromptActive) {
+    return [
+      item('[Esc] back', false),
+      item('[Enter] create worktree', false),
+      item('[Up/Down] select', false),
+    ].join('  ');
+  }
   if (worktreePickerActive) {
     return [
       item('[Esc] cancel', false),
       item('[Enter] switch', false),
+      item('[Tab] service/group/marked', false),
+      item('[d] diff', worktreePreviewActive),
+      item('[x] remove', false),
+      item('[j/k] navigate', false),
+    ].join('  ');
+  }
+  if (filterActive) {
+    return [
+      item('[Esc] clear', false),
+      item('[Enter] apply', false),
+      item('[Up/Down] move', false),
+    ].join('  ');
+  }
+  if (paletteActive) {
+    return [
+      item('[Esc] close', false),
+      item('[Enter] run', false),
+      item('[Up/Down] select', false),
+    ].join('  ');
+  }
+  if (profilePickerActive) {
+    return [
+      item('[Esc] close', false),
+      item('[Space/Enter] toggle', false),
+      item('[s]tart services', false),
       item('[j/k] navigate', false),
     ].join('  ');
   }
@@ -185,17 +323,29 @@ export function renderLegend(opts: LegendOptions = {}): string {
     ].join('  ');
   }
   return [
+    ...(cascadeFailedActive ? [item('[r]etry step', false), item('[c] skip step', false), item('[a]bort cascade', false)] : []),
     item('Re[B]uild', false),
     item('[D]ep rebuild', false),
+    item('[D] rebuild dependents', false),
     item('[S]tart/restart', false),
+    item('[u]p with prerequisites', false),
     item('Sto[P]', false),
     item('[W]atch', watchActive),
     item('[N]o cache', noCacheActive),
     item('n[O] deps', noDepsActive),
+    item('[+/-] scale', false),
+    item('[z] replicas', false),
     item('[e]xec', false),
     item('[F]ull logs', false),
     item('[L]og panel', logPanelActive),
     item('Switch [t]ree', false),
+    item('[m] dep graph', false),
+    item('[P] profiles', false),
+    item('[E]nv', envPanelActive),
+    item('[\\] filter', filterApplied),
+    item(sortField === 'default' ? '[S]ort' : `[S]ort: ${sortField}`, sortField !== 'default'),
+    item(markedCount > 0 ? `[v] ${markedCount} marked` : '[v/V] mark', markedCount > 0),
+    item('[:] commands', false),
     item('[Q]uit', false),
   ].join('  ');
 }
@@ -211,41 +361,181 @@ export function renderListView(state: AppState): string {
     buf.push(line);
   }
   const watchActive = state.watching.size > 0;
-  const help = state.execActive
+  const selected = selectedEntry(state);
+  const help = state.portConflict
+    ? renderLegend({ portConflictActive: true, portConflictStoppable: state.portConflict.conflicts.some(c => c.service) })
+    : state.cascadePlan
+    ? renderLegend({ cascadePlanActive: true })
+    : state.filterActive
+    ? renderLegend({ filterActive: true })
+    : state.paletteActive
+    ? renderLegend({ paletteActive: true })
+    : state.execActive
     ? renderLegend({ execInline: true })
     : state.worktreePickerActive
-    ? renderLegend({ worktreePickerActive: true })
-    : renderLegend({ logPanelActive: state.showBottomLogs, noCacheActive: state.noCache, noDepsActive: state.noDeps, watchActive });
+    ? renderLegend({ worktreePickerActive: true, worktreePreviewActive: state.worktreePreviewActive, branchPromptActive: state.branchPromptActive })
+    : state.profilePickerActive
+    ? renderLegend({ profilePickerActive: true })
+    : renderLegend({ cascadeFailedActive: selected !== null && failedCascade(state, statusKey(selected.file, selected.service)) !== null, logPanelActive: state.showBottomLogs, noCacheActive: state.noCache, noDepsActive: state.noDeps, watchActive, envPanelActive: state.envPanelActive, markedCount: state.marked.size, filterApplied: state.filterQuery !== '', sortField: state.sortField });
   buf.push(sep);
   buf.push(` ${help}`);
 
+  if (state.filterActive || state.filterQuery) {
+    const total = state.groups.reduce((n, g) => n + g.services.length, 0);
+    const shown = state.flatList.filter(e => e.replica === undefined).length;
+    const inputCursor = state.filterActive ? `${BOLD}_${RESET}` : '';
+    buf.push(` ${FG_CYAN}\\${RESET}${state.filterQuery}${inputCursor}  ${DIM}${shown} of ${total} services${RESET}`);
+  }
+
   // Single column header row (not repeated per group)
-  let colHeader = `${DIM}     ${'SERVICE'.padEnd(24)} `;
-  colHeader += `${'STATUS'.padEnd(22)} ${'BUILT'.padEnd(12)} ${'RESTARTED'.padEnd(12)}`;
-  for (const p of patterns) colHeader += patternLabel(Array.isArray(p) ? p[0] : p).padStart(5) + ' ';
-  colHeader += `   ${'CPU/MEM'.padStart(16)} ${'PORTS'.padEnd(14)}`;
-  if (state.showWorktreeColumn) colHeader += ` ${'WORKTREE'.padEnd(15)}`;
+  const listColumns = state.config.columns.filter(c =>
+    (c.id !== 'worktree' || state.showWorktreeColumn) && (c.id !== 'project' || state.showProjectColumn) && (c.id !== 'counts' || patterns.length > 0));
+  const sortedBy = (label: string, field: SortField): string => state.sortField === field ? `${label}\u2193` : label;
+  const errorKeys = errorPatternKeys(patterns);
+  const headerCells = listColumns.map(({ id, width }) => {
+    switch (id) {
+      case 'service': return sortedBy('SERVICE', 'name').padEnd(width);
+      case 'status': return 'STATUS'.padEnd(width);
+      case 'built': return 'BUILT'.padEnd(width);
+      case 'restarted': return sortedBy('RESTARTED', 'uptime').padEnd(width);
+      case 'counts': return patterns.map(p => {
+        const key = Array.isArray(p) ? p[0] : p;
+        const label = patternLabel(key);
+        return (errorKeys.includes(key) ? sortedBy(label, 'errors') : label).padStart(width);
+      }).join(' ');
+      case 'stats': return `${sortedBy('CPU', 'cpu')}/${sortedBy('MEM', 'mem')}`.padStart(width);
+      case 'ports': return 'PORTS'.padEnd(width);
+      case 'worktree': return 'WORKTREE'.padEnd(width);
+      case 'project': return 'PROJECT'.padEnd(width);
+    }
+  });
+  const colHeader = `${DIM}     ${headerCells.join(' ')}`;
   buf.push(colHeader + RESET);
 
   const headerHeight = buf.length;
+  // The env side panel takes the right-hand side of the service rows
+  const panelWidth = state.envPanelActive ? Math.min(60, Math.floor(columns * 0.4)) : 0;
+  const listWidth = columns - panelWidth;
 
   const bottomBuf: string[] = [];
-  if (state.worktreePickerActive) {
+  if (state.portConflict) {
+    const { entry, action, conflicts } = state.portConflict;
+    const what = action.kind === 'start' ? 'starting' : action.kind === 'prerequisites' ? 'starting with its prerequisites' : `switching to ${action.where}`;
+    const who = action.kind === 'stack' ? `${action.stackSwitch.items.length} services` : `${BOLD}${entry.service}${RESET}${FG_YELLOW}`;
+    bottomBuf.push(sep);
+    bottomBuf.push(` ${FG_YELLOW}ports in use \u2014 ${who} ${action.kind === 'stack' ? 'are' : 'is'} not ${what} yet${RESET}`);
+    for (const c of conflicts) {
+      const group = c.file && state.groups.length > 1 ? state.groups.find(g => g.file === c.file) : undefined;
+      const owner = c.service ? `published by ${BOLD}${c.service}${RESET}${group ? `  ${DIM}${group.label}${RESET}` : ''}` : `${DIM}in use by another process on this host${RESET}`;
+      const wanted = c.wantedBy ? `  ${DIM}wanted by ${c.wantedBy}${RESET}` : '';
+      bottomBuf.push(truncateLine(`  ${FG_RED}${String(c.port).padStart(5)}${RESET}  ${owner}${wanted}`, columns));
+    }
+  } else if (state.cascadePlan) {
+    const plan = state.cascadePlan;
+    const scope = plan.scope === 'all' ? 'every dependent with a build' : `dependents built from ${plan.entry.service}'s image`;
+    bottomBuf.push(sep);
+    bottomBuf.push(` ${FG_CYAN}rebuild ${BOLD}${plan.entry.service}${RESET}${FG_CYAN} and ${scope}${RESET}`);
+    if (plan.loading) bottomBuf.push(`  ${DIM}reading the compose config and Dockerfiles...${RESET}`);
+    if (plan.error) bottomBuf.push(truncateLine(`  ${FG_RED}${plan.error}${RESET}`, columns));
+    if (!plan.loading && !plan.error) {
+      bottomBuf.push(...cascadeStepLines(cascadePlanSteps(plan), step => {
+        const why = step.level === 0 || step.action === 'rebuild' ? ''
+          : !plan.buildable.includes(step.service) ? `  ${DIM}no build section${RESET}`
+          : `  ${DIM}not built from ${plan.entry.service}${RESET}`;
+        const action = step.action === 'rebuild' ? `${FG_YELLOW}rebuild${RESET}` : `${DIM}restart${RESET}`;
+        return truncateLine(`${action} ${BOLD}${step.service}${RESET}${why}`, columns - 4);
+      }));
+    }
+  } else if (state.paletteActive) {
+    const matches = paletteMatches(state);
+    bottomBuf.push(sep);
+    bottomBuf.push(` ${FG_CYAN}:${RESET}${state.paletteQuery}${BOLD}_${RESET}  ${DIM}${matches.length} match${matches.length !== 1 ? 'es' : ''}${RESET}`);
+    const labelWidth = Math.max(0, ...matches.map(m => m.item.text.length)) + 2;
+    const start = Math.max(0, state.paletteCursor - PALETTE_ROWS + 1);
+    for (let mi = start; mi < Math.min(matches.length, start + PALETTE_ROWS); mi++) {
+      const { item, positions } = matches[mi];
+      const isSelected = mi === state.paletteCursor;
+      const text = padVisible(highlightPositions(item.text, positions), labelWidth);
+      const group = item.file && state.groups.length > 1 ? state.groups.find(g => g.file === item.file) : undefined;
+      const groupTag = group ? `${DIM}${group.label}${RESET}  ` : '';
+      const line = `  ${text}${groupTag}${DIM}[${item.action.key}]${RESET}`;
+      bottomBuf.push(truncateLine(isSelected ? `${REVERSE}${line.replace(/\x1b\[0m/g, `${RESET}${REVERSE}`)}${RESET}` : line, columns));
+    }
+  } else if (state.worktreePickerActive) {
     const selEntry = state.flatList[state.cursor];
     if (selEntry) {
       bottomBuf.push(sep);
-      bottomBuf.push(` ${FG_CYAN}switch worktree ${BOLD}${selEntry.service}${RESET}`);
-      bottomBuf.push(`  ${DIM}j/k navigate  Enter confirm  Esc cancel${RESET}`);
-      for (let wi = 0; wi < state.worktreePickerEntries.length; wi++) {
-        const wt = state.worktreePickerEntries[wi];
-        const isSelected = wi === state.worktreePickerCursor;
-        const prefix = isSelected ? `${REVERSE}` : '';
-        const suffix = isSelected ? `${RESET}` : '';
-        const currentTag = (state.worktreePickerCurrentPath && state.worktreePickerCurrentPath === wt.path)
-          ? ` ${DIM}(current)${RESET}` : '';
-        bottomBuf.push(`  ${prefix}  ${wt.branch}  ${DIM}${wt.path}${RESET}${currentTag}${suffix}`);
+      const group = state.groups[selEntry.groupIdx];
+      const target = state.worktreePickerScope === 'marked'
+        ? `${state.marked.size} marked services`
+        : state.worktreePickerScope === 'group' ? `group ${group.label}` : selEntry.service;
+      bottomBuf.push(` ${FG_CYAN}switch worktree ${BOLD}${target}${RESET}`);
+      if (state.branchPromptActive) {
+        bottomBuf.push(`  ${FG_CYAN}new worktree from branch:${RESET} ${state.branchPromptQuery}${FG_CYAN}_${RESET}`);
+        const options = branchPromptOptions(state);
+        if (options.length === 0) bottomBuf.push(`  ${DIM}no matching branches — type a name for a new branch${RESET}`);
+        const maxRows = Math.max(1, (state.config.bottomLogCount || 10) - 1);
+        const start = Math.max(0, Math.min(state.branchPromptCursor - maxRows + 1, options.length - maxRows));
+        for (let oi = start; oi < Math.min(options.length, start + maxRows); oi++) {
+          const option = options[oi];
+          const label = option.startPoint
+            ? `${highlightPositions(option.startPoint, option.positions)}  ${DIM}remote${RESET}`
+            : option.create
+            ? `new branch ${BOLD}${option.branch}${RESET}  ${DIM}from HEAD${RESET}`
+            : highlightPositions(option.branch, option.positions);
+          const line = `    ${label}`;
+          bottomBuf.push(truncateLine(oi === state.branchPromptCursor ? `${REVERSE}${line.replace(/\x1b\[0m/g, `${RESET}${REVERSE}`)}${RESET}` : line, columns));
+        }
+      } else {
+        bottomBuf.push(`  ${DIM}j/k navigate  Enter confirm  Tab scope  d diff  x remove  Esc cancel${RESET}`);
+        const branchWidth = Math.max(0, ...state.worktreePickerEntries.map(w => w.branch.length)) + 2;
+        const pathWidth = Math.max(0, ...state.worktreePickerEntries.map(w => w.path.length + (w.path === state.worktreePickerCurrentPath ? 10 : 0))) + 2;
+        for (let wi = 0; wi < state.worktreePickerEntries.length; wi++) {
+          const wt = state.worktreePickerEntries[wi];
+          const currentTag = wt.path === state.worktreePickerCurrentPath ? ` ${DIM}(current)${RESET}` : '';
+          const line = `    ${padVisible(wt.branch, branchWidth)}${padVisible(`${DIM}${wt.path}${RESET}${currentTag}`, pathWidth)}${worktreeDetails(wt)}`;
+          bottomBuf.push(truncateLine(wi === state.worktreePickerCursor ? `${REVERSE}${line.replace(/\x1b\[0m/g, `${RESET}${REVERSE}`)}${RESET}` : line, columns));
+        }
+        const newRow = `    ${FG_CYAN}+ new worktree from branch\u2026${RESET}`;
+        bottomBuf.push(state.worktreePickerCursor === state.worktreePickerEntries.length ? `${REVERSE}${newRow.replace(/\x1b\[0m/g, `${RESET}${REVERSE}`)}${RESET}` : newRow);
+        if (state.worktreePreviewActive) bottomBuf.push(...worktreePreviewLines(state, selEntry.service, columns));
+      }
+      if (state.worktreePickerMessage) {
+        const color = state.worktreePickerBusy ? FG_YELLOW : DIM;
+        bottomBuf.push(truncateLine(`  ${color}${state.worktreePickerMessage}${RESET}`, columns));
+      }
+    }
+  } else if (state.profilePickerActive) {
+    bottomBuf.push(sep);
+    bottomBuf.push(` ${FG_CYAN}compose profiles${RESET}`);
+    if (state.profilePickerEntries.length === 0) {
+      bottomBuf.push(`  ${DIM}no profiles defined in the compose files${RESET}`);
+    }
+    for (let pi = 0; pi < state.profilePickerEntries.length; pi++) {
+      const profile = state.profilePickerEntries[pi];
+      const isSelected = pi === state.profilePickerCursor;
+      const active = state.activeProfiles.includes(profile);
+      const mark = active ? `${FG_GREEN}[x]${RESET}` : `${DIM}[ ]${RESET}`;
+      let count = 0;
+      for (const group of state.groups) {
+        for (const list of group.profiles?.values() || []) if (list.includes(profile)) count++;
       }
+      const line = `  ${mark} ${profile}  ${DIM}${count} service${count !== 1 ? 's' : ''}${RESET}`;
+      bottomBuf.push(isSelected ? `${REVERSE}${line.replace(/\x1b\[0m/g, `${RESET}${REVERSE}`)}${RESET}` : line);
     }
+  } else if (state.bulk && !state.execActive) {
+    const bulk = state.bulk;
+    const finished = !bulk.items.some(i => i.status === 'queued' || i.status === 'running');
+    bottomBuf.push(sep);
+    bottomBuf.push(` ${FG_YELLOW}bulk ${bulk.action.replace('_', ' ')}${RESET}  ${DIM}${progressSummary(bulk.items)}${finished ? '  Esc to dismiss' : ''}${RESET}`);
+    bottomBuf.push(...progressLines(state, bulk.items, columns));
+  } else if (state.stackSwitch && !state.execActive) {
+    const sw = state.stackSwitch;
+    const title = sw.rollback ? `roll back from worktree "${sw.branch}"` : `switch to worktree "${sw.branch}"`;
+    const hint = sw.running ? '' : sw.rollback ? '  Esc to dismiss' : '  R to roll back, Esc to dismiss';
+    bottomBuf.push(sep);
+    bottomBuf.push(` ${FG_YELLOW}${title}${RESET}  ${DIM}${progressSummary(sw.items)}${hint}${RESET}`);
+    bottomBuf.push(...progressLines(state, sw.items, columns));
   } else if (state.execActive && state.execService) {
     bottomBuf.push(sep);
     const runningIndicator = state.execChild ? `${FG_YELLOW}running${RESET}` : `${FG_GREEN}ready${RESET}`;
@@ -262,32 +552,40 @@ export function renderListView(state: AppState): string {
     if (selEntry) {
       const sk = statusKey(selEntry.file, selEntry.service);
 
-      // Check for cascade progress
-      const cascade = state.cascading.get(sk);
+      // Check for cascade progress, or where a failed cascade stopped
+      const cascade = state.cascading.get(sk) || failedCascade(state, sk);
       if (cascade) {
+        const color = state.cascading.has(sk) ? FG_YELLOW : FG_RED;
         bottomBuf.push(sep);
-        bottomBuf.push(` ${FG_YELLOW}cascading ${BOLD}${selEntry.service}${RESET}`);
-        for (let si = 0; si < cascade.steps.length; si++) {
-          const step = cascade.steps[si];
+        bottomBuf.push(cascade.direction === 'prerequisites'
+          ? ` ${color}starting ${BOLD}${selEntry.service}${RESET}${color} with prerequisites${RESET}`
+          : ` ${color}cascading ${BOLD}${selEntry.service}${RESET}`);
+        bottomBuf.push(...cascadeStepLines(cascade.steps, step => {
           let marker: string;
           switch (step.status) {
             case 'completed': marker = `${FG_GREEN}[done]${RESET}`; break;
             case 'in_progress': marker = `${FG_YELLOW}[>>> ]${RESET}`; break;
             case 'failed': marker = `${FG_RED}[FAIL]${RESET}`; break;
+            case 'skipped': marker = `${DIM}[skip]${RESET}`; break;
             default: marker = `${DIM}[    ]${RESET}`;
           }
-          bottomBuf.push(`  ${marker} ${step.action} ${BOLD}${step.service}${RESET}`);
-        }
+          if (step.action !== 'health') return `${marker} ${step.action} ${BOLD}${step.service}${RESET}`;
+          const waited = step.status === 'in_progress' && step.startedAt !== undefined
+            ? ` ${DIM}${Math.floor((Date.now() - step.startedAt) / 1000)}s/${Math.round(state.config.healthGateTimeout / 1000)}s${RESET}`
+            : '';
+          const error = step.error ? ` ${FG_RED}${step.error}${RESET}` : '';
+          return `${marker} wait for healthy ${BOLD}${step.service}${RESET}${waited}${error}`;
+        }));
       }
 
-      const info = state.bottomLogLines.get(sk);
+      const info = state.bottomLogLines.get(bottomPanelKey(state, selEntry));
       if (info) {
         if (!cascade) {
           bottomBuf.push(sep);
         }
-        const isFailed = info.action === 'build_failed' || info.action === 'restart_failed' || info.action === 'stop_failed' || info.action === 'start_failed' || info.action === 'switch_failed';
+        const isFailed = info.action === 'build_failed' || info.action === 'restart_failed' || info.action === 'stop_failed' || info.action === 'start_failed' || info.action === 'switch_failed' || info.action === 'scale_failed' || info.action === 'cascade_failed';
         const actionColor = isFailed ? FG_RED
-          : info.action === 'rebuilding' || info.action === 'restarting' || info.action === 'stopping' || info.action === 'starting' || info.action === 'cascading' || info.action === 'switching' ? FG_YELLOW
+          : info.action === 'rebuilding' || info.action === 'restarting' || info.action === 'stopping' || info.action === 'starting' || info.action === 'cascading' || info.action === 'switching' || info.action === 'scaling' ? FG_YELLOW
           : info.action === 'watching' ? FG_CYAN : FG_GREEN;
         const actionLabel = isFailed ? info.action.replace('_', ' ').toUpperCase() : info.action;
         let headerLine = ` ${actionColor}${actionLabel} ${BOLD}${info.service}${RESET}`;
@@ -343,18 +641,26 @@ export function renderListView(state: AppState): string {
   const bottomHeight = bottomBuf.length;
 
   // Pass 1: build lightweight stubs (type + index only, no text computation)
-  const stubs: Array<{ type: 'blank' | 'header' | 'service'; flatIdx: number; groupIdx: number }> = [];
+  const stubs: Array<{ type: 'blank' | 'header' | 'profile' | 'service'; flatIdx: number; groupIdx: number; profile?: string }> = [];
   let currentGroup = -1;
+  let currentProfile: string | null = null;
 
   for (let i = 0; i < state.flatList.length; i++) {
     const entry = state.flatList[i];
 
     if (entry.groupIdx !== currentGroup) {
       currentGroup = entry.groupIdx;
+      currentProfile = null;
       if (stubs.length > 0) stubs.push({ type: 'blank', flatIdx: -1, groupIdx: entry.groupIdx });
       stubs.push({ type: 'header', flatIdx: -1, groupIdx: entry.groupIdx });
     }
 
+    const profile = inactiveProfile(state.groups[entry.groupIdx], entry.service, state.activeProfiles);
+    if (profile && profile !== currentProfile) {
+      currentProfile = profile;
+      stubs.push({ type: 'profile', flatIdx: -1, groupIdx: entry.groupIdx, profile });
+    }
+
     stubs.push({ type: 'service', flatIdx: i, groupIdx: entry.groupIdx });
   }
 
@@ -380,100 +686,219 @@ export function renderListView(state: AppState): string {
         break;
       case 'header': {
         const group = state.groups[stub.groupIdx];
-        const label = ` ${BOLD}${group.label}${RESET}`;
+        let label = ` ${BOLD}${group.label}${RESET}`;
+        if (group.project && group.project.files.length > 1) {
+          label += `  ${DIM}${group.project.files.map(f => path.basename(f)).join(' + ')}${RESET}`;
+        }
         buf.push(group.error ? `${label}  ${FG_RED}(${group.error})${RESET}` : label);
         break;
       }
+      case 'profile':
+        buf.push(`   ${DIM}profile: ${stub.profile} (inactive)${RESET}`);
+        break;
       case 'service': {
         const i = stub.flatIdx;
         const entry = state.flatList[i];
         const sk = statusKey(entry.file, entry.service);
-        const st = state.statuses.get(sk);
+        const isReplica = entry.replica !== undefined;
+        const serviceStatus = state.statuses.get(sk);
+        const st = isReplica ? selectedReplica(state, entry) : serviceStatus;
+        // In-flight operations are per service, so replica rows show them too
         const rebuilding = state.rebuilding.has(sk);
         const restarting = state.restarting.has(sk);
         const stopping = state.stopping.has(sk);
         const starting = state.starting.has(sk);
-        const isWatching = state.watching.has(sk);
-        const isCascading = state.cascading.has(sk);
-        const icon = statusIcon(st, rebuilding || isCascading, restarting, stopping, starting);
-        const stext = statusText(st, rebuilding || isCascading, restarting, stopping, starting);
+        const scaling = state.scaling.has(sk);
+        const isWatching = !isReplica && state.watching.has(sk);
+        // An upstream cascade starts the service rather than rebuilding it
+        const cascade = state.cascading.get(sk);
+        const isCascading = cascade !== undefined && cascade.direction === 'dependents';
+        const startingUp = starting || (cascade !== undefined && cascade.direction === 'prerequisites');
+        const icon = statusIcon(st, rebuilding || isCascading, restarting, stopping, startingUp, scaling);
         const watchIndicator = isWatching ? `${FG_CYAN}W${RESET}` : ' ';
-        const wtBranch = st ? st.worktree : null;
-        const name = entry.service.padEnd(24);
-        const statusPadded = padVisible(stext, 22);
-
-        let cpuMemStr: string;
-        const stats = state.containerStats ? state.containerStats.get(sk) : null;
-        if (stats && st && st.state === 'running') {
-          const cpu = stats.cpuPercent;
-          const mem = stats.memUsageBytes;
-          const cpuWarn = state.config.cpuWarnThreshold || 50;
-          const cpuDanger = state.config.cpuDangerThreshold || 100;
-          const memWarn = (state.config.memWarnThreshold || 512) * 1024 * 1024;
-          const memDanger = (state.config.memDangerThreshold || 1024) * 1024 * 1024;
-          let color = DIM;
-          if (cpu > cpuDanger || mem > memDanger) color = FG_RED;
-          else if (cpu > cpuWarn || mem > memWarn) color = FG_YELLOW;
-          const cpuText = cpu.toFixed(1) + '%';
-          const memText = formatMem(mem);
-          cpuMemStr = padVisible(`${color}${cpuText} / ${memText}${RESET}`, 16);
-        } else {
-          cpuMemStr = padVisible(`${DIM}-${RESET}`, 16);
-        }
-
-        let portsStr: string;
-        if (st && st.ports && st.ports.length > 0) {
-          const portsText = st.ports.map(p => p.published).join(' ');
-          portsStr = padVisible(`${DIM}${portsText}${RESET}`, 14);
-        } else {
-          portsStr = padVisible(`${DIM}-${RESET}`, 14);
-        }
-
-        const built = padVisible(relativeTime(st ? st.createdAt : null), 12);
-        const restarted = padVisible(relativeTime(st ? st.startedAt : null), 12);
-        const isSelected = i === state.cursor;
-
-        let countsStr = '';
-        const logCounts = state.logCounts.get(sk);
-        for (let pi = 0; pi < patterns.length; pi++) {
-          const key = Array.isArray(patterns[pi]) ? (patterns[pi] as string[])[0] : patterns[pi] as string;
-          const count = logCounts ? (logCounts.get(key) || 0) : 0;
-          const color = count > 0 ? PATTERN_COLORS[pi % PATTERN_COLORS.length] : DIM;
-          const countText = count > 0 ? `${color}${count}${RESET}` : `${color}-${RESET}`;
-          countsStr += padVisibleStart(countText, 5) + ' ';
-        }
-
-        let worktreeCol = '';
-        if (state.showWorktreeColumn) {
-          const wtLabel = worktreeLabel(st ? st.worktree : null);
-          const wtColor = (wtBranch && wtBranch !== 'main') ? FG_YELLOW : DIM;
-          worktreeCol = ` ${wtColor}${wtLabel.padEnd(15)}${RESET}`;
-        }
+        const markIndicator = !isReplica && state.marked.has(sk) ? `${BOLD}${FG_YELLOW}*${RESET}` : ' ';
+        const gated = !isReplica && inactiveProfile(state.groups[entry.groupIdx], entry.service, state.activeProfiles) !== null;
+        const rowKey = entryKey(entry);
+
+        const cells = listColumns.map(({ id, width }) => {
+          switch (id) {
+            case 'service': {
+              if (isReplica) return fitCell(`${DIM}  #${entry.replica}${RESET}`, width);
+              const fold = state.expandedServices.has(sk) ? '\u25BE' : '\u25B8';
+              const suffix = serviceStatus && serviceStatus.replicas ? ` ${DIM}\u00D7${serviceStatus.replicas.length} ${fold}${RESET}` : '';
+              const room = Math.max(1, width - visLen(suffix));
+              const shown = entry.service.length > room ? `${entry.service.slice(0, room - 1)}\u2026` : entry.service;
+              return padVisible(`${gated ? FG_GRAY : FG_WHITE}${shown}${RESET}${suffix}`, width);
+            }
+            case 'status':
+              return fitCell(statusText(st, rebuilding || isCascading, restarting, stopping, startingUp, scaling), width);
+            case 'built':
+              return fitCell(relativeTime(st ? st.createdAt : null), width);
+            case 'restarted':
+              return fitCell(relativeTime(st ? st.startedAt : null), width);
+            case 'counts': {
+              const logCounts = state.logCounts.get(rowKey);
+              return patterns.map((p, pi) => {
+                const key = Array.isArray(p) ? p[0] : p;
+                const count = logCounts ? (logCounts.get(key) || 0) : 0;
+                const color = count > 0 ? PATTERN_COLORS[pi % PATTERN_COLORS.length] : DIM;
+                return padVisibleStart(`${color}${count > 0 ? count : '-'}${RESET}`, width);
+              }).join(' ');
+            }
+            case 'stats': {
+              const stats = state.containerStats ? state.containerStats.get(rowKey) : null;
+              if (!stats || !st || st.state !== 'running') return padVisible(`${DIM}-${RESET}`, width);
+              const cpu = stats.cpuPercent;
+              const mem = stats.memUsageBytes;
+              const cpuWarn = state.config.cpuWarnThreshold || 50;
+              const cpuDanger = state.config.cpuDangerThreshold || 100;
+              const memWarn = (state.config.memWarnThreshold || 512) * 1024 * 1024;
+              const memDanger = (state.config.memDangerThreshold || 1024) * 1024 * 1024;
+              let color = DIM;
+              if (cpu > cpuDanger || mem > memDanger) color = FG_RED;
+              else if (cpu > cpuWarn || mem > memWarn) color = FG_YELLOW;
+              return fitCell(`${color}${cpu.toFixed(1)}% / ${formatMem(mem)}${RESET}`, width);
+            }
+            case 'ports': {
+              if (!st || !st.ports || st.ports.length === 0) return padVisible(`${DIM}-${RESET}`, width);
+              return fitCell(`${DIM}${st.ports.map(p => p.published).join(' ')}${RESET}`, width);
+            }
+            case 'worktree': {
+              const wtBranch = serviceStatus ? serviceStatus.worktree : null;
+              const wtColor = (wtBranch && wtBranch !== 'main') ? FG_YELLOW : DIM;
+              if (isReplica) return fitCell('', width);
+              // Overrides read off the containers rather than picked with `t`; the branch
+              // is cut short before the marker is
+              const inferred = state.inferredOverrides.has(sk) ? ` ${DIM}(auto)${RESET}` : '';
+              const room = Math.max(1, width - visLen(inferred));
+              const label = worktreeLabel(wtBranch);
+              const shown = label.length > room ? `${label.slice(0, room - 1)}\u2026` : label;
+              return fitCell(`${wtColor}${shown}${RESET}${inferred}`, width);
+            }
+            case 'project': {
+              const project = state.serviceProjects.get(sk);
+              if (isReplica || !project) return fitCell('', width);
+              return fitCell(`${project.own ? DIM : FG_YELLOW}${project.name}${RESET}`, width);
+            }
+          }
+        });
 
-        let row = `  ${watchIndicator}${icon} ${FG_WHITE}${name}${RESET} ${statusPadded} ${built} ${restarted}${countsStr}  ${cpuMemStr} ${portsStr}${worktreeCol}`;
-        if (isSelected) {
-          // Re-apply BG after every RESET so highlight spans the full row;
-          // promote dim/gray text to white so it's readable on the highlight background
-          row = row.replace(/\x1b\[2m/g, FG_WHITE).replace(/\x1b\[90m/g, FG_WHITE);
-          row = `${BG_HIGHLIGHT}${row.replace(/\x1b\[0m/g, `${RESET}${BG_HIGHLIGHT}`)}${' '.repeat(Math.max(0, columns - visLen(row)))}${RESET}`;
-        }
-        buf.push(row);
+        const row = ` ${markIndicator}${watchIndicator}${icon} ${cells.join(' ')}`;
+        buf.push(i === state.cursor ? highlightRow(row, listWidth) : row);
         break;
       }
     }
   }
 
+  if (state.flatList.length === 0 && state.filterQuery) {
+    buf.push(`   ${DIM}no services match${RESET}`);
+  }
+
   const usedLines = buf.length + bottomHeight;
   const paddingNeeded = Math.max(0, rows - usedLines);
   for (let i = 0; i < paddingNeeded; i++) {
     buf.push('');
   }
 
+  if (panelWidth > 0) {
+    const panel = renderEnvPanel(state, panelWidth - 2, buf.length - headerHeight + 1);
+    for (let li = headerHeight - 1; li < buf.length; li++) {
+      const left = padVisible(truncateLine(buf[li], listWidth - 1), listWidth - 1);
+      buf[li] = `${left}${DIM}\u2502${RESET} ${panel[li - headerHeight + 1] || ''}`;
+    }
+  }
+
   buf.push(...bottomBuf);
 
   return buf.join(CLEAR_EOL + '\n');
 }
 
+function renderEnvPanel(state: AppState, width: number, height: number): string[] {
+  const entry = state.flatList[state.cursor];
+  if (!entry) return [];
+  const project = state.groups[entry.groupIdx].project;
+  const overrides = project ? project.environment : {};
+  const lines = [`${FG_CYAN}env ${BOLD}${entry.service}${RESET}`];
+  lines.push(project && project.envFiles.length > 0
+    ? `${DIM}env files: ${project.envFiles.map(f => path.basename(f)).join(', ')}${RESET}`
+    : `${DIM}no env files configured${RESET}`);
+  const overrideKeys = Object.keys(overrides);
+  if (overrideKeys.length > 0) lines.push(`${DIM}overrides: ${FG_YELLOW}${overrideKeys.join(', ')}${RESET}`);
+
+  if (state.envPanelError) {
+    lines.push(`${FG_RED}${state.envPanelError}${RESET}`);
+  } else if (!state.envPanelVars) {
+    lines.push(`${DIM}loading...${RESET}`);
+  } else if (state.envPanelVars.length === 0) {
+    lines.push(`${DIM}no environment variables${RESET}`);
+  } else {
+    const vars = state.envPanelVars;
+    const room = height - lines.length;
+    const shown = vars.length > room ? vars.slice(0, Math.max(0, room - 1)) : vars;
+    for (const v of shown) {
+      const keyColor = Object.prototype.hasOwnProperty.call(overrides, v.key) ? FG_YELLOW : FG_WHITE;
+      const value = v.value === null ? `${DIM}(unset)${RESET}` : v.value;
+      lines.push(`${keyColor}${v.key}${RESET}${DIM}=${RESET}${value}`);
+    }
+    if (shown.length < vars.length) lines.push(`${DIM}... ${vars.length - shown.length} more${RESET}`);
+  }
+  return lines.slice(0, height).map(l => truncateLine(l, width));
+}
+
+interface ProgressItem {
+  file: string;
+  service: string;
+  status: BulkItemStatus;
+}
+
+// Shared by bulk operations and stack worktree switches
+function progressSummary(items: ProgressItem[]): string {
+  const count = (status: BulkItemStatus): number => items.filter(i => i.status === status).length;
+  const finished = items.length - count('queued') - count('running');
+  const summary = [`${finished}/${items.length} done`];
+  if (count('running') > 0) summary.push(`${count('running')} running`);
+  if (count('queued') > 0) summary.push(`${count('queued')} queued`);
+  if (count('failed') > 0) summary.push(`${FG_RED}${count('failed')} failed${RESET}${DIM}`);
+  return summary.join(', ');
+}
+
+function progressLines(state: AppState, items: ProgressItem[], columns: number): string[] {
+  const lines: string[] = [];
+  const maxLines = state.config.bottomLogCount || 10;
+  // Keep the running items in view when the list is longer than the panel
+  const firstActive = items.findIndex(i => i.status === 'running' || i.status === 'queued');
+  const start = Math.max(0, Math.min(firstActive === -1 ? 0 : firstActive, items.length - maxLines));
+  for (const item of items.slice(start, start + maxLines)) {
+    let marker: string;
+    switch (item.status) {
+      case 'done': marker = `${FG_GREEN}[done]${RESET}`; break;
+      case 'running': marker = `${FG_YELLOW}[>>> ]${RESET}`; break;
+      case 'failed': marker = `${FG_RED}[FAIL]${RESET}`; break;
+      case 'skipped': marker = `${DIM}[skip]${RESET}`; break;
+      default: marker = `${DIM}[    ]${RESET}`;
+    }
+    let detail = '';
+    const info = state.bottomLogLines.get(statusKey(item.file, item.service));
+    // Skipped items say why when their operation refused to start
+    if (info && (item.status === 'running' || (item.status === 'skipped' && info.action.endsWith('_failed')))) {
+      const last = info.lines[info.lines.length - 1];
+      detail = `  ${DIM}${info.action}${last ? `: ${last}` : ''}${RESET}`;
+    }
+    lines.push(truncateLine(`  ${marker} ${BOLD}${item.service}${RESET}${detail}`, columns));
+  }
+  return lines;
+}
+
+function highlightPositions(text: string, positions: number[]): string {
+  if (positions.length === 0) return text;
+  const marked = new Set(positions);
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    out += marked.has(i) ? `${BOLD}${FG_YELLOW}${text[i]}${RESET}` : text[i];
+  }
+  return out;
+}
+
 export function truncateLine(str: string, maxWidth: number): string {
   let visPos = 0;
   let rawPos = 0;
@@ -665,3 +1090,62 @@ export function renderExecView(state: AppState): string {
 
   return buf.join(CLEAR_EOL + '\n');
 }
+
+// The `m` view: every group's dependency trees, each service colored by its status and
+// each edge labelled with its depends_on condition
+export function renderGraphView(state: AppState): string {
+  const columns = process.stdout.columns ?? 80;
+  const rows = process.stdout.rows ?? 24;
+  const buf: string[] = [];
+
+  for (const line of LOGO) {
+    buf.push(line);
+  }
+  buf.push(separatorLine(columns));
+  buf.push(` ${renderLegend({ graphMode: true })}`);
+  buf.push(` ${FG_CYAN}dependency graph${RESET}  ${DIM}services above what they depend on${RESET}`);
+
+  const headerHeight = buf.length;
+  const graph = graphRows(state);
+  const cursor = Math.min(state.graphCursor, graph.length - 1);
+  const lines: string[] = [];
+  let cursorLine = 0;
+  let currentGroup = -1;
+  graph.forEach((node, i) => {
+    if (node.groupIdx !== currentGroup) {
+      currentGroup = node.groupIdx;
+      if (lines.length > 0) lines.push('');
+      lines.push(` ${BOLD}${state.groups[node.groupIdx].label}${RESET}`);
+    }
+    const sk = statusKey(node.file, node.service);
+    const rebuilding = state.rebuilding.has(sk) || state.cascading.has(sk);
+    const restarting = state.restarting.has(sk);
+    const stopping = state.stopping.has(sk);
+    const starting = state.starting.has(sk);
+    const scaling = state.scaling.has(sk);
+    const st = state.statuses.get(sk);
+    const color = statusColor(st, rebuilding || restarting || stopping || starting || scaling);
+    const condition = node.condition ? `  ${DIM}${node.condition}${RESET}` : '';
+    const repeated = node.repeated && (state.depGraphs.get(node.file)?.dependsOn.get(node.service) || []).length > 0
+      ? `  ${DIM}(see above)${RESET}`
+      : '';
+    const line = `   ${FG_GRAY}${node.prefix}${RESET}${statusIcon(st, rebuilding, restarting, stopping, starting, scaling)} ${color}${node.service}${RESET}${condition}${repeated}`;
+    if (i === cursor) cursorLine = lines.length;
+    lines.push(i === cursor ? highlightRow(line, columns) : line);
+  });
+  if (graph.length === 0) lines.push(`   ${DIM}no services${RESET}`);
+
+  // Keep the cursor in the middle once the graph is taller than the screen
+  const availableRows = Math.max(1, rows - headerHeight);
+  const start = Math.max(0, Math.min(cursorLine - Math.floor(availableRows / 2), lines.length - availableRows));
+  for (const line of lines.slice(start, start + availableRows)) {
+    buf.push(truncateLine(line, columns));
+  }
+
+  const paddingNeeded = Math.max(0, rows - buf.length);
+  for (let i = 0; i < paddingNeeded; i++) {
+    buf.push('');
+  }
+
+  return buf.join(CLEAR_EOL + '\n');
+}
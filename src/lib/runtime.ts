@@ -0,0 +1,92 @@
+import path from 'path';
+import type { Runtime, RuntimeName, RuntimeCommand, ComposeCommandOptions } from './types';
+
+// Command-line shapes for the supported container runtimes. docker.ts asks these
+// builders for argv and never hardcodes a binary itself.
+
+export const RUNTIMES: Record<RuntimeName, Runtime> = {
+  docker: {
+    name: 'docker',
+    composeBin: 'docker',
+    composePrefix: ['compose'],
+    engineBin: 'docker',
+    statsFormat: '{{json .}}',
+    eventsFormat: '{{json .}}',
+    env: [],
+  },
+  'docker-compose': {
+    name: 'docker-compose',
+    composeBin: 'docker-compose',
+    composePrefix: [],
+    engineBin: 'docker',
+    statsFormat: '{{json .}}',
+    eventsFormat: '{{json .}}',
+    env: [],
+  },
+  podman: {
+    name: 'podman',
+    composeBin: 'podman',
+    composePrefix: ['compose'],
+    engineBin: 'podman',
+    // podman's `{{json .}}` dumps its internal stats struct; spell out the docker-shaped keys
+    statsFormat: '{"ID":"{{.ID}}","Name":"{{.Name}}","CPUPerc":"{{.CPUPerc}}","MemUsage":"{{.MemUsage}}"}',
+    eventsFormat: 'json',
+    env: ['CONTAINER_HOST', 'CONTAINER_CONNECTION', 'XDG_RUNTIME_DIR', 'PODMAN_COMPOSE_PROVIDER'],
+  },
+  nerdctl: {
+    name: 'nerdctl',
+    composeBin: 'nerdctl',
+    composePrefix: ['compose'],
+    engineBin: 'nerdctl',
+    statsFormat: '{{json .}}',
+    // nerdctl events can't filter on labels or type; status comes from polling only
+    eventsFormat: null,
+    env: ['CONTAINERD_ADDRESS', 'CONTAINERD_NAMESPACE', 'XDG_RUNTIME_DIR'],
+  },
+};
+
+// Auto-detection order: the first runtime whose compose answers `version` wins
+export const RUNTIME_ORDER: RuntimeName[] = ['docker', 'docker-compose', 'podman', 'nerdctl'];
+
+export function isRuntimeName(value: unknown): value is RuntimeName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RUNTIMES, value);
+}
+
+export function composeCommand(rt: Runtime, files: string | string[], args: string[], opts: ComposeCommandOptions = {}): RuntimeCommand {
+  const global = (Array.isArray(files) ? files : [files]).flatMap(f => ['-f', path.resolve(f)]);
+  if (opts.projectName) global.push('-p', opts.projectName);
+  if (opts.projectDirectory) global.push('--project-directory', path.resolve(opts.projectDirectory));
+  for (const f of opts.envFiles || []) global.push('--env-file', path.resolve(f));
+  for (const p of opts.profiles || []) global.push('--profile', p);
+  return { cmd: rt.composeBin, args: [...rt.composePrefix, ...global, ...args] };
+}
+
+export function composeVersionCommand(rt: Runtime): RuntimeCommand {
+  return { cmd: rt.composeBin, args: [...rt.composePrefix, 'version'] };
+}
+
+export function composeWatchProbeCommand(rt: Runtime): RuntimeCommand {
+  return { cmd: rt.composeBin, args: [...rt.composePrefix, 'watch', '--help'] };
+}
+
+export function engineCommand(rt: Runtime, args: string[]): RuntimeCommand {
+  return { cmd: rt.engineBin, args };
+}
+
+export function statsCommand(rt: Runtime, containerIds: string[]): RuntimeCommand {
+  return engineCommand(rt, ['stats', '--no-stream', '--format', rt.statsFormat, ...containerIds]);
+}
+
+export function eventsCommand(rt: Runtime): RuntimeCommand | null {
+  if (!rt.eventsFormat) return null;
+  // Repeated label filters are AND'ed by the daemon, so filter on the compose label's
+  // presence here and match individual projects on the receiving side
+  return engineCommand(rt, ['events', '--format', rt.eventsFormat, '--filter', 'type=container', '--filter', 'label=com.docker.compose.project']);
+}
+
+export function execCommand(rt: Runtime, containerId: string, command: string, cwd?: string): RuntimeCommand {
+  const args = ['exec'];
+  if (cwd) args.push('-w', cwd);
+  args.push(containerId, 'sh', '-c', command);
+  return engineCommand(rt, args);
+}
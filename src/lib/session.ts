@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { statusKey, selectedEntry } from './state';
+import type { AppState, Session, SessionWorktreeOverride, SortField } from './types';
+
+// UI state that survives restarts, kept per project next to recomposable.json. A missing
+// or unreadable file is an empty session: losing it must never keep the TUI from starting.
+
+export const SESSION_DIR = '.recomposable';
+
+export const SORT_FIELDS: SortField[] = ['default', 'name', 'cpu', 'mem', 'errors', 'uptime'];
+
+export const EXEC_HISTORY_LIMIT = 1000;
+
+export function sessionPath(dir: string = process.cwd()): string {
+  return path.join(dir, SESSION_DIR, 'session.json');
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function parseOverride(raw: unknown): SessionWorktreeOverride | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { file, service, override } = raw as Record<string, unknown>;
+  return isString(file) && isString(service) && isString(override) ? { file, service, override } : null;
+}
+
+export function parseSession(raw: unknown): Session {
+  const session: Session = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return session;
+  const obj = raw as Record<string, unknown>;
+  if (SORT_FIELDS.includes(obj.sortField as SortField)) session.sortField = obj.sortField as SortField;
+  for (const key of ['noCache', 'noDeps', 'showBottomLogs'] as const) {
+    if (typeof obj[key] === 'boolean') session[key] = obj[key] as boolean;
+  }
+  const selected = obj.selected as Record<string, unknown> | null | undefined;
+  if (selected && typeof selected === 'object' && isString(selected.file) && isString(selected.service)) {
+    session.selected = { file: selected.file, service: selected.service };
+  }
+  if (Array.isArray(obj.execHistory)) {
+    session.execHistory = obj.execHistory.filter(isString).slice(-EXEC_HISTORY_LIMIT);
+  }
+  if (Array.isArray(obj.worktreeOverrides)) {
+    session.worktreeOverrides = obj.worktreeOverrides.map(parseOverride).filter((o): o is SessionWorktreeOverride => o !== null);
+  }
+  return session;
+}
+
+// What cleanup writes back. Overrides are listed per group service so the file names
+// the compose file and service instead of the internal status key.
+export function sessionSnapshot(state: AppState): Session {
+  const sel = selectedEntry(state);
+  const worktreeOverrides: SessionWorktreeOverride[] = [];
+  for (const group of state.groups) {
+    for (const service of group.services) {
+      const sk = statusKey(group.file, service);
+      const override = state.worktreeOverrides.get(sk);
+      // Inferred overrides are read off the containers again on the next start
+      if (override && !state.inferredOverrides.has(sk)) worktreeOverrides.push({ file: group.file, service, override });
+    }
+  }
+  return {
+    sortField: state.sortField,
+    noCache: state.noCache,
+    noDeps: state.noDeps,
+    showBottomLogs: state.showBottomLogs,
+    ...(sel ? { selected: { file: sel.file, service: sel.service } } : {}),
+    execHistory: state.execHistory.slice(-EXEC_HISTORY_LIMIT),
+    worktreeOverrides,
+  };
+}
+
+export function loadSession(file: string = sessionPath()): Session {
+  try {
+    return parseSession(JSON.parse(fs.readFileSync(file, 'utf8')));
+  } catch {
+    return {};
+  }
+}
+
+// Merges into the saved session; write errors (read-only checkout, full disk) are ignored
+export function saveSession(update: Session, file: string = sessionPath()): void {
+  try {
+    const session = { ...loadSession(file), ...update };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write then rename, so a crash mid-write can't leave a truncated file behind
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(session, null, 2) + '\n');
+    fs.renameSync(tmp, file);
+  } catch {
+    // Persisting is best effort
+  }
+}
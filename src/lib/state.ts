@@ -1,4 +1,5 @@
-import { MODE, type Config, type AppState, type ServiceGroup, type FlatEntry } from './types';
+import { parseFilter, matchesFilter } from './filter';
+import { MODE, type Config, type AppState, type CascadeOperation, type ServiceGroup, type FlatEntry, type ContainerStatus, type ReplicaStatus, type PortMapping, type FilterSubject } from './types';
 
 export { MODE };
 
@@ -13,6 +14,7 @@ export function createState(config: Config): AppState {
     restarting: new Map(),
     stopping: new Map(),
     starting: new Map(),
+    scaling: new Map(),
     containerStats: new Map(),
     containerStatsHistory: new Map(),
     logChild: null,
@@ -49,24 +51,69 @@ export function createState(config: Config): AppState {
     // Dependency-aware rebuild
     depGraphs: new Map(),
     cascading: new Map(),
+    failedCascades: new Map(),
+    graphCursor: 0,
     // Exec
     execActive: false,
     execInput: '',
     execHistory: [],
     execHistoryIdx: -1,
     execContainerId: null,
+    execFile: null,
     execService: null,
     execChild: null,
     execOutputLines: [],
     execCwd: null,
     showWorktreeColumn: false,
+    serviceProjects: new Map(),
+    showProjectColumn: false,
     // Worktree switching
     worktreeOverrides: new Map(),
+    inferredOverrides: new Set(),
     // Worktree picker
     worktreePickerActive: false,
     worktreePickerEntries: [],
     worktreePickerCursor: 0,
     worktreePickerCurrentPath: null,
+    worktreePickerScope: 'service',
+    worktreePickerMessage: null,
+    worktreePickerBusy: false,
+    worktreeRemoveConfirm: null,
+    worktreePreviewActive: false,
+    worktreePreview: null,
+    branchPromptActive: false,
+    branchPromptQuery: '',
+    branchPromptCursor: 0,
+    branchPromptBranches: { local: [], remote: [] },
+    stackSwitch: null,
+    portConflict: null,
+    cascadePlan: null,
+    // Environment side panel
+    envPanelActive: false,
+    envPanelKey: null,
+    envPanelVars: null,
+    envPanelError: null,
+    // Compose profiles
+    activeProfiles: [...config.profiles],
+    profilePickerActive: false,
+    profilePickerEntries: [],
+    profilePickerCursor: 0,
+    // Replicas
+    expandedServices: new Set(),
+    // Multi-select and bulk operations
+    marked: new Set(),
+    bulk: null,
+    // List order
+    sortField: 'default',
+    // List filter
+    filterQuery: '',
+    filterActive: false,
+    // Command palette
+    paletteActive: false,
+    paletteQuery: '',
+    paletteCursor: 0,
+    // Status events
+    eventsChild: null,
     config,
   };
 }
@@ -75,17 +122,148 @@ export function statusKey(file: string, service: string): string {
   return `${file}::${service}`;
 }
 
-export function buildFlatList(groups: ServiceGroup[]): FlatEntry[] {
+export function replicaKey(file: string, service: string, replica: number): string {
+  return `${statusKey(file, service)}#${replica}`;
+}
+
+// Key for per-row data (stats, log counts, log tails): the replica's own key on sub-rows
+export function entryKey(entry: FlatEntry): string {
+  return entry.replica !== undefined ? replicaKey(entry.file, entry.service, entry.replica) : statusKey(entry.file, entry.service);
+}
+
+export function buildFlatList(
+  groups: ServiceGroup[],
+  expanded: Set<string> = new Set(),
+  statuses: Map<string, ContainerStatus> = new Map(),
+): FlatEntry[] {
   const list: FlatEntry[] = [];
   for (let gi = 0; gi < groups.length; gi++) {
     const g = groups[gi];
     for (let si = 0; si < g.services.length; si++) {
       list.push({ groupIdx: gi, serviceIdx: si, service: g.services[si], file: g.file });
+      const sk = statusKey(g.file, g.services[si]);
+      const replicas = statuses.get(sk)?.replicas;
+      if (!expanded.has(sk) || !replicas) continue;
+      for (const r of replicas) {
+        list.push({ groupIdx: gi, serviceIdx: si, service: g.services[si], file: g.file, replica: r.number });
+      }
     }
   }
   return list;
 }
 
+function filterSubject(state: AppState, entry: FlatEntry): FilterSubject {
+  const st = state.statuses.get(statusKey(entry.file, entry.service));
+  const key = entryKey(entry);
+  const metrics = new Map<string, number>();
+  const stats = state.containerStats.get(key);
+  if (stats) {
+    metrics.set('cpu', stats.cpuPercent);
+    metrics.set('mem', stats.memUsageBytes / (1024 * 1024));
+  }
+  const counts = state.logCounts.get(key);
+  for (const p of state.config.logScanPatterns) {
+    const pattern = Array.isArray(p) ? p[0] : p;
+    metrics.set(patternLabel(pattern).toLowerCase(), counts?.get(pattern) || 0);
+  }
+  return {
+    service: entry.service,
+    state: st ? st.state : 'stopped',
+    health: st ? st.health : '',
+    worktree: worktreeLabel(st ? st.worktree : null),
+    group: state.groups[entry.groupIdx].label,
+    metrics,
+  };
+}
+
+// Applies the list filter; replica rows stay with their service row
+export function filterFlatList(state: AppState, list: FlatEntry[]): FlatEntry[] {
+  if (!state.filterQuery.trim()) return list;
+  const filter = parseFilter(state.filterQuery);
+  let keep = false;
+  return list.filter(entry => {
+    if (entry.replica === undefined) keep = matchesFilter(filter, filterSubject(state, entry));
+    return keep;
+  });
+}
+
+function serviceUsage(state: AppState, entry: FlatEntry): { cpu: number; mem: number } | null {
+  const st = state.statuses.get(statusKey(entry.file, entry.service));
+  if (!st || st.state !== 'running') return null;
+  const keys = st.replicas
+    ? st.replicas.map(r => replicaKey(entry.file, entry.service, r.number))
+    : [statusKey(entry.file, entry.service)];
+  const samples = keys.map(key => state.containerStats.get(key)).filter(stats => stats !== undefined);
+  if (samples.length === 0) return null;
+  return {
+    cpu: samples.reduce((n, stats) => n + stats.cpuPercent, 0),
+    mem: samples.reduce((n, stats) => n + stats.memUsageBytes, 0),
+  };
+}
+
+function compareEntries(state: AppState, a: FlatEntry, b: FlatEntry): number {
+  switch (state.sortField) {
+    case 'name':
+      return a.service.localeCompare(b.service);
+    case 'cpu':
+    case 'mem': {
+      const field = state.sortField;
+      return (serviceUsage(state, b)?.[field] ?? -1) - (serviceUsage(state, a)?.[field] ?? -1);
+    }
+    case 'errors': {
+      const keys = errorPatternKeys(state.config.logScanPatterns);
+      const errors = (e: FlatEntry): number => {
+        const counts = state.logCounts.get(statusKey(e.file, e.service));
+        return keys.reduce((n, k) => n + (counts?.get(k) || 0), 0);
+      };
+      return errors(b) - errors(a);
+    }
+    case 'uptime': {
+      // Longest running first: earliest start among running services
+      const started = (e: FlatEntry): number => {
+        const st = state.statuses.get(statusKey(e.file, e.service));
+        const t = st && st.state === 'running' && st.startedAt ? Date.parse(st.startedAt) : NaN;
+        return isNaN(t) ? Infinity : t;
+      };
+      const ta = started(a);
+      const tb = started(b);
+      return ta === tb ? 0 : ta < tb ? -1 : 1;
+    }
+    default:
+      return 0;
+  }
+}
+
+// Sorts services within their group by state.sortField, keeping replica rows under their
+// service and services behind an inactive profile at the end of the group
+export function sortFlatList(state: AppState, list: FlatEntry[]): FlatEntry[] {
+  if (state.sortField === 'default') return list;
+  const blocks: FlatEntry[][] = [];
+  for (const entry of list) {
+    if (entry.replica === undefined || blocks.length === 0) blocks.push([entry]);
+    else blocks[blocks.length - 1].push(entry);
+  }
+  const gated = (e: FlatEntry): number => inactiveProfile(state.groups[e.groupIdx], e.service, state.activeProfiles) ? 1 : 0;
+  blocks.sort((x, y) => {
+    const a = x[0];
+    const b = y[0];
+    return a.groupIdx - b.groupIdx || gated(a) - gated(b) || (gated(a) ? 0 : compareEntries(state, a, b));
+  });
+  return blocks.flat();
+}
+
+// Rebuilds the list after replicas appear or disappear or the filter or sort order changes,
+// keeping the cursor on the same row (or on the parent service row when its replica row is gone)
+export function refreshFlatList(state: AppState): void {
+  const current = selectedEntry(state);
+  state.flatList = sortFlatList(state, filterFlatList(state, buildFlatList(state.groups, state.expandedServices, state.statuses)));
+  if (!current) return;
+  let idx = state.flatList.findIndex(e => e.file === current.file && e.service === current.service && e.replica === current.replica);
+  if (idx === -1) idx = state.flatList.findIndex(e => e.file === current.file && e.service === current.service && e.replica === undefined);
+  if (idx !== -1) state.cursor = idx;
+  state.cursor = Math.max(0, Math.min(state.flatList.length - 1, state.cursor));
+}
+
 export function moveCursor(state: AppState, delta: number): void {
   if (state.flatList.length === 0) return;
   state.cursor = Math.max(0, Math.min(state.flatList.length - 1, state.cursor + delta));
@@ -95,10 +273,84 @@ export function selectedEntry(state: AppState): FlatEntry | null {
   return state.flatList[state.cursor] || null;
 }
 
+// Operations run per service, so while one is running (or has failed) its output
+// takes over the replica rows' panel too
+export function bottomPanelKey(state: AppState, entry: FlatEntry): string {
+  const sk = statusKey(entry.file, entry.service);
+  if (entry.replica === undefined) return sk;
+  const serviceInfo = state.bottomLogLines.get(sk);
+  if (serviceInfo && serviceInfo.action !== 'logs' && serviceInfo.action !== 'started' && serviceInfo.action !== 'scaled') return sk;
+  return entryKey(entry);
+}
+
+// A failed cascade counts while its panel still shows the failure; another operation on
+// the service takes the panel over and leaves it behind
+export function failedCascade(state: AppState, sk: string): CascadeOperation | null {
+  const cascade = state.failedCascades.get(sk);
+  return cascade && state.bottomLogLines.get(sk)?.action === 'cascade_failed' ? cascade : null;
+}
+
+export function selectedReplica(state: AppState, entry: FlatEntry | null = selectedEntry(state)): ReplicaStatus | null {
+  if (!entry || entry.replica === undefined) return null;
+  const replicas = state.statuses.get(statusKey(entry.file, entry.service))?.replicas;
+  return replicas?.find(r => r.number === entry.replica) || null;
+}
+
+// Folds per-container statuses into the service row: the lowest-numbered running replica
+// is the representative, ports are merged, and any unhealthy replica marks the service unhealthy
+export function serviceStatusFromReplicas(
+  replicas: ReplicaStatus[], workingDir: string | null = null, worktree: string | null = null,
+): ContainerStatus {
+  const sorted = [...replicas].sort((a, b) => a.number - b.number);
+  const primary = sorted.find(r => r.state === 'running') || sorted[0];
+  const seen = new Set<number>();
+  const ports: PortMapping[] = [];
+  for (const r of sorted) {
+    for (const p of r.ports) {
+      if (seen.has(p.published)) continue;
+      seen.add(p.published);
+      ports.push(p);
+    }
+  }
+  const unhealthy = sorted.some(r => r.state === 'running' && r.health === 'unhealthy');
+  const status: ContainerStatus = {
+    state: primary.state,
+    health: unhealthy ? 'unhealthy' : primary.health,
+    createdAt: primary.createdAt,
+    startedAt: primary.startedAt,
+    id: primary.id,
+    ports,
+    workingDir,
+    worktree,
+  };
+  if (sorted.length > 1) status.replicas = sorted;
+  return status;
+}
+
+// The profile a service is listed under when none of its profiles are active, or null
+// when the service is part of the running configuration
+export function inactiveProfile(group: ServiceGroup, service: string, active: string[]): string | null {
+  const profiles = group.profiles?.get(service);
+  if (!profiles || profiles.some(p => active.includes(p))) return null;
+  return profiles[0] ?? null;
+}
+
 export function getEffectiveFile(state: AppState, file: string, service: string): string {
   return state.worktreeOverrides.get(statusKey(file, service)) || file;
 }
 
+// Column label of a log scan pattern: WRN] -> WRN
+export function patternLabel(pattern: string): string {
+  return pattern.replace(/^[\[\(\{<]/, '').replace(/[\]\)\}>]$/, '');
+}
+
+// The patterns the errors sort counts: those labelled like ERR, or all of them
+export function errorPatternKeys(patterns: (string | string[])[]): string[] {
+  const keys = patterns.map(p => Array.isArray(p) ? p[0] : p);
+  const errors = keys.filter(k => /err/i.test(patternLabel(k)));
+  return errors.length > 0 ? errors : keys;
+}
+
 export function worktreeLabel(worktree: string | null): string {
   return worktree || '';
 }
@@ -4,13 +4,13 @@ import type { PassThrough } from 'stream';
 
 // --- Mode ---
 
-export const MODE = { LIST: 'LIST', LOGS: 'LOGS', EXEC: 'EXEC' } as const;
+export const MODE = { LIST: 'LIST', LOGS: 'LOGS', EXEC: 'EXEC', GRAPH: 'GRAPH' } as const;
 export type Mode = typeof MODE[keyof typeof MODE];
 
 // --- Config ---
 
 export interface Config {
-  composeFiles: string[];
+  composeFiles: ComposeFileEntry[];
   pollInterval: number;
   logTailLines: number;
   logScanPatterns: (string | string[])[];
@@ -23,6 +23,74 @@ export interface Config {
   cpuDangerThreshold: number;
   memWarnThreshold: number;
   memDangerThreshold: number;
+  reconcileInterval: number;
+  dockerConcurrency: number;
+  bulkConcurrency: number;
+  cascadeConcurrency: number;
+  healthGateTimeout: number;
+  backend: Backend;
+  runtime: RuntimeName | 'auto';
+  profiles: string[];
+  columns: ColumnConfig[];
+  worktreeDir: string | null;  // where new worktrees go; next to the main worktree when null
+  worktreeIsolation: WorktreeIsolation;
+}
+
+export type Backend = 'cli' | 'api';
+
+// The compose project a service switched to another worktree runs in: whatever compose
+// derives from the worktree's directory, the group's own project, or one per branch
+export type WorktreeIsolation = 'directory' | 'shared' | 'branch';
+
+// A plain path is a group of its own; an object merges several -f files into one project
+export type ComposeFileEntry = string | ComposeProjectConfig;
+
+export interface ComposeProjectConfig {
+  files: string[];
+  projectName?: string;
+  envFile?: string;                     // shorthand for a single envFiles entry
+  envFiles?: string[];
+  environment?: Record<string, string>;
+}
+
+// Resolved form registered with docker.ts, keyed by its first (primary) file
+export interface ComposeProject {
+  files: string[];
+  projectName: string | null;
+  projectDirectory: string | null;      // --project-directory; compose uses the first file's directory when null
+  envFiles: string[];
+  environment: Record<string, string>;
+}
+
+// --- Container runtime ---
+
+export type RuntimeName = 'docker' | 'docker-compose' | 'podman' | 'nerdctl';
+
+export interface Runtime {
+  name: RuntimeName;
+  composeBin: string;
+  composePrefix: string[];
+  engineBin: string;
+  statsFormat: string;
+  eventsFormat: string | null;
+  env: string[];
+}
+
+export interface RuntimeCommand {
+  cmd: string;
+  args: string[];
+}
+
+export interface EnvVar {
+  key: string;
+  value: string | null;   // null when declared without a value and unset
+}
+
+export interface ComposeCommandOptions {
+  profiles?: string[];
+  projectName?: string | null;
+  projectDirectory?: string | null;
+  envFiles?: string[];
 }
 
 // --- Port / Status ---
@@ -32,6 +100,36 @@ export interface PortMapping {
   target: number;
 }
 
+// A host port from the compose config, before any container publishes it
+export interface PublishedPort {
+  published: number;
+  target: number;
+  protocol: string;         // tcp or udp
+  hostIp: string | null;    // null binds every interface
+}
+
+// A port the service would publish that is taken already: by another service in the list,
+// or (file and service null) by some other process on the host
+export interface PortConflict {
+  port: number;
+  file: string | null;
+  service: string | null;
+  wantedBy?: string;        // the service of a stack switch that would publish the port
+}
+
+export type PortPreflightAction =
+  | { kind: 'start' }
+  | { kind: 'switch'; newFile: string; where: string }
+  | { kind: 'stack'; stackSwitch: StackSwitch; where: string }
+  | { kind: 'prerequisites'; file: string; steps: CascadeStep[] };
+
+// Shown in the bottom panel instead of starting or switching the service (or the stack)
+export interface PortConflictPrompt {
+  entry: FlatEntry;
+  action: PortPreflightAction;
+  conflicts: PortConflict[];
+}
+
 export interface ContainerStatus {
   state: string;
   health: string;
@@ -41,6 +139,18 @@ export interface ContainerStatus {
   ports: PortMapping[];
   workingDir: string | null;
   worktree: string | null;
+  // Only set when the service runs more than one container (deploy.replicas / --scale)
+  replicas?: ReplicaStatus[];
+}
+
+export interface ReplicaStatus {
+  number: number;           // com.docker.compose.container-number
+  state: string;
+  health: string;
+  createdAt: string | null;
+  startedAt: string | null;
+  id: string | null;
+  ports: PortMapping[];
 }
 
 export interface ContainerStats {
@@ -55,6 +165,18 @@ export interface StatsHistory {
   count: number;
 }
 
+export interface ContainerEvent {
+  action: string;           // start, die, destroy, health_status, ...
+  id: string;
+  service: string | null;
+  project: string | null;
+  configFiles: string[];    // absolute compose file paths from the project labels
+  workingDir: string | null;
+  health: string | null;    // only set for health_status events
+  replica: number | null;   // compose container number
+  time: number | null;      // unix seconds
+}
+
 export interface ParsedStatsLine {
   id: string;
   name: string;
@@ -72,6 +194,9 @@ export interface RebuildEmitter extends EventEmitter {
 
 export type RebuildChild = ChildProcess | RebuildEmitter;
 
+// API-backed logs/exec/events streams use the same emitter shape as a child process
+export type OutputChild = ChildProcess | RebuildEmitter;
+
 // --- Killable (for state Maps) ---
 
 export interface Killable {
@@ -85,6 +210,8 @@ export interface ServiceGroup {
   label: string;
   services: string[];
   error: string | null;
+  profiles?: Map<string, string[]>;   // profile-gated services -> their profiles
+  project?: ComposeProject;           // set when the group is more than a single plain file
 }
 
 export interface FlatEntry {
@@ -92,36 +219,138 @@ export interface FlatEntry {
   serviceIdx: number;
   service: string;
   file: string;
+  replica?: number;         // set on the sub-rows of an expanded multi-replica service
 }
 
 // --- Git worktree ---
 
-export interface GitWorktree {
+export interface GitWorktreeStatus {
+  dirty: boolean;            // uncommitted changes, untracked files included
+  ahead: number | null;      // commits ahead of / behind the upstream; null without one
+  behind: number | null;
+  lastCommit: { subject: string; time: number } | null;  // time in unix seconds
+}
+
+// The picker fills in the status fields after it opens; they stay undefined until git answers
+export interface GitWorktree extends Partial<GitWorktreeStatus> {
   path: string;    // absolute worktree root
   branch: string;  // branch name (e.g., "main", "fix-bug")
+  composeChanged?: boolean;  // the selected service's compose files differ there from the ones in use
+}
+
+// One key of a service definition that differs between two compose files. Nested keys are
+// joined with dots (environment.TAG, volumes[1].source); null: the key is absent on that side.
+export interface DefinitionChange {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+// The picker's preview of what switching the selected service to a worktree changes
+export interface WorktreePreview {
+  path: string;                        // worktree the diff is against
+  changes: DefinitionChange[] | null;  // null while loading
+  error: string | null;
+}
+
+export interface GitBranches {
+  local: string[];
+  remote: string[];        // as remote/name, without the remotes' HEAD
+}
+
+// An entry of the picker's branch prompt: an existing local branch, a remote branch checked
+// out as a new local branch, or a new branch from HEAD
+export interface BranchOption {
+  branch: string;          // local branch the worktree gets
+  create: boolean;         // git worktree add -b
+  startPoint: string | null;  // remote branch the new branch starts from
+  positions: number[];     // matched characters, for highlighting
+}
+
+// What the worktree picker switches: the selected service, its whole group, or the marked services
+export type WorktreeSwitchScope = 'service' | 'group' | 'marked';
+
+export interface StackSwitchItem {
+  file: string;            // the group's compose file
+  service: string;
+  from: string;            // effective compose file before the switch
+  to: string;
+  status: BulkItemStatus;
+}
+
+export interface StackSwitch {
+  branch: string;
+  items: StackSwitchItem[];  // in dependency order
+  rollback: boolean;         // moving the items back to `from`
+  running: boolean;
 }
 
 // --- Bottom log panel ---
 
-export type BottomLogAction = 'logs' | 'rebuilding' | 'restarting' | 'stopping' | 'starting' | 'started' | 'watching' | 'cascading' | 'exec' | 'build_failed' | 'restart_failed' | 'stop_failed' | 'start_failed' | 'switching' | 'switch_failed';
+export type BottomLogAction = 'logs' | 'rebuilding' | 'restarting' | 'stopping' | 'starting' | 'started' | 'watching' | 'cascading' | 'cascade_failed' | 'exec' | 'build_failed' | 'restart_failed' | 'stop_failed' | 'start_failed' | 'switching' | 'switch_failed' | 'scaling' | 'scaled' | 'scale_failed';
 
 // --- Dependency graph ---
 
 export interface DependencyGraph {
   dependsOn: Map<string, string[]>;   // service -> its prerequisites
   dependedBy: Map<string, string[]>;  // service -> services depending on it
+  conditions: Map<string, Map<string, string>>; // service -> prerequisite -> its depends_on condition
 }
 
+// One line of the dependency graph view: a service under the one depending on it. A service
+// reached a second time is listed again without its prerequisites.
+export interface GraphRow {
+  groupIdx: number;
+  file: string;             // the group's compose file
+  service: string;
+  prefix: string;           // tree lines drawn before the service
+  condition: string | null; // depends_on condition of the edge to the parent
+  repeated: boolean;
+}
+
+// `health` waits for a prerequisite to report healthy, as compose does for service_healthy
 export interface CascadeStep {
-  action: 'rebuild' | 'restart';
+  action: 'rebuild' | 'restart' | 'start' | 'health';
   service: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  level: number;        // steps of a level run side by side once every lower level has completed
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
+  startedAt?: number;   // health gates: when the wait began
+  error?: string;       // health gates: why the wait failed
 }
 
+// `d`/`D` rebuild a service and go down to its dependents; `u` brings up its prerequisites first
+export type CascadeDirection = 'dependents' | 'prerequisites';
+
 export interface CascadeOperation {
+  direction: CascadeDirection;
   steps: CascadeStep[];
-  currentStepIdx: number;
-  child: ChildProcess | null;
+  level: number;                      // the level whose steps run now
+  children: Map<string, Killable>;    // service -> its running step (a process, or a health gate's timer)
+}
+
+// The build section of a service as `docker compose config --format json` prints it
+export interface ServiceBuild {
+  context?: string;                            // absolute for local contexts
+  dockerfile?: string;                         // relative to the context
+  dockerfile_inline?: string;
+  args?: Record<string, string | null>;
+  additional_contexts?: Record<string, string>;
+}
+
+// `D`: a cascade that rebuilds the dependents too, shown as a plan before it runs. `all`
+// rebuilds every dependent with a build section; `affected` only those built from the
+// rebuilt image. The rest restart.
+export type CascadeRebuildScope = 'all' | 'affected';
+
+export interface CascadePlan {
+  entry: FlatEntry;
+  file: string;             // the effective compose file the cascade runs on
+  levels: string[][];       // dependents by dependency level
+  scope: CascadeRebuildScope;
+  buildable: string[];      // dependents with a build section
+  affected: string[];       // dependents whose Dockerfile or build contexts use the rebuilt image
+  loading: boolean;         // reading the compose config and Dockerfiles
+  error: string | null;
 }
 
 export interface BottomLogInfo {
@@ -130,6 +359,112 @@ export interface BottomLogInfo {
   lines: string[];
 }
 
+// --- Bulk operations ---
+
+export type BulkAction = 'rebuild' | 'cascade' | 'start' | 'stop' | 'scale_up' | 'scale_down';
+
+// skipped: the action had nothing to do, e.g. stopping a stopped service
+export type BulkItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface BulkItem {
+  file: string;
+  service: string;
+  status: BulkItemStatus;
+  launched: boolean;   // the action has started; cascades load their graph first
+}
+
+export interface BulkOperation {
+  action: BulkAction;
+  items: BulkItem[];
+}
+
+// --- List columns and sorting ---
+
+export type ColumnId = 'service' | 'status' | 'built' | 'restarted' | 'counts' | 'stats' | 'ports' | 'worktree' | 'project';
+
+export interface ColumnConfig {
+  id: ColumnId;
+  width: number;   // for counts: the width of each pattern's count
+}
+
+export type SortField = 'default' | 'name' | 'cpu' | 'mem' | 'errors' | 'uptime';
+
+// --- Session ---
+
+// Written to .recomposable/session.json in the project directory
+export interface SessionWorktreeOverride {
+  file: string;             // the group's compose file
+  service: string;
+  override: string;         // the compose file in the other worktree
+}
+
+export interface Session {
+  sortField?: SortField;
+  noCache?: boolean;
+  noDeps?: boolean;
+  showBottomLogs?: boolean;
+  selected?: { file: string; service: string };
+  execHistory?: string[];
+  worktreeOverrides?: SessionWorktreeOverride[];
+}
+
+// --- List filter ---
+
+export type FilterField = 'state' | 'health' | 'worktree' | 'group';
+
+export interface FilterComparison {
+  metric: string;                  // cpu, mem or a log pattern label such as err
+  op: '>' | '<' | '>=' | '<=' | '=';
+  value: number;
+}
+
+export interface ServiceFilter {
+  text: string;                    // fuzzy-matched against the service name
+  fields: Array<{ field: FilterField; value: string }>;
+  comparisons: FilterComparison[];
+}
+
+// What a filter sees of one service row
+export interface FilterSubject {
+  service: string;
+  state: string;
+  health: string;
+  worktree: string;
+  group: string;
+  metrics: Map<string, number>;
+}
+
+// --- Command palette ---
+
+export interface FuzzyMatch {
+  score: number;
+  positions: number[];   // matched character indices, ascending
+}
+
+export type PaletteActionId =
+  | 'goto' | 'start' | 'restart' | 'stop' | 'rebuild' | 'cascade' | 'cascade_rebuild' | 'up_deps' | 'cascade_retry' | 'cascade_skip' | 'cascade_abort' | 'graph' | 'watch' | 'exec' | 'exec_full'
+  | 'logs' | 'worktree' | 'scale_up' | 'scale_down' | 'replicas'
+  | 'no_cache' | 'no_deps' | 'log_panel' | 'env_panel' | 'profiles' | 'filter' | 'sort' | 'rollback_switch' | 'quit';
+
+export interface PaletteAction {
+  id: PaletteActionId;
+  label: string;
+  key: string;         // keybinding hint shown next to the item
+  perService: boolean; // offered once per service rather than once globally
+}
+
+export interface PaletteItem {
+  action: PaletteAction;
+  file: string | null;     // group file of the target service (per-service actions)
+  service: string | null;
+  text: string;            // what the query is matched against
+}
+
+export interface PaletteMatch {
+  item: PaletteItem;
+  positions: number[];
+}
+
 // --- App state ---
 
 export interface AppState {
@@ -142,9 +477,10 @@ export interface AppState {
   restarting: Map<string, Killable>;
   stopping: Map<string, Killable>;
   starting: Map<string, Killable>;
+  scaling: Map<string, Killable>;
   containerStats: Map<string, ContainerStats>;
   containerStatsHistory: Map<string, StatsHistory>;
-  logChild: ChildProcess | null;
+  logChild: OutputChild | null;
   scrollOffset: number;
   noCache: boolean;
   noDeps: boolean;
@@ -165,11 +501,11 @@ export interface AppState {
   logHistoryLoading: boolean;
   logSearchPending: boolean;
   logBuildKey: string | null;
-  logHistoryChild: ChildProcess | null;
+  logHistoryChild: OutputChild | null;
   bottomSearchQuery: string;
   bottomSearchActive: boolean;
   bottomSearchLoading: boolean;
-  bottomSearchChild: ChildProcess | null;
+  bottomSearchChild: OutputChild | null;
   bottomSearchTotalMatches: number;
   bottomSearchSavedLines: Map<string, string[]>;
   // Watch
@@ -178,28 +514,74 @@ export interface AppState {
   // Dependency-aware rebuild
   depGraphs: Map<string, DependencyGraph>;
   cascading: Map<string, CascadeOperation>;
+  failedCascades: Map<string, CascadeOperation>; // stopped at a failed step, until retried, skipped past or aborted
+  graphCursor: number;                 // row of the dependency graph view
   // Exec
   execActive: boolean;
   execInput: string;
   execHistory: string[];
   execHistoryIdx: number;
   execContainerId: string | null;
+  execFile: string | null;
   execService: string | null;
-  execChild: ChildProcess | null;
+  execChild: OutputChild | null;
   execOutputLines: string[];
   execCwd: string | null;
   showWorktreeColumn: boolean;
+  serviceProjects: Map<string, { name: string; own: boolean }>;  // compose project of the effective file; own: the group's
+  showProjectColumn: boolean;            // some service runs outside its group's project
   // Worktree switching
   worktreeOverrides: Map<string, string>;  // statusKey(origFile, service) -> overrideFile
+  inferredOverrides: Set<string>;          // overrides read off running containers, not set by the user
   // Worktree picker
   worktreePickerActive: boolean;
   worktreePickerEntries: GitWorktree[];
   worktreePickerCursor: number;
   worktreePickerCurrentPath: string | null;
+  worktreePickerScope: WorktreeSwitchScope;
+  worktreePickerMessage: string | null;
+  worktreePickerBusy: boolean;           // git worktree add/remove is running
+  worktreeRemoveConfirm: string | null;  // path of the worktree `x` was pressed on once
+  worktreePreviewActive: boolean;        // `d`: diff the service definition against the highlighted worktree
+  worktreePreview: WorktreePreview | null;
+  branchPromptActive: boolean;
+  branchPromptQuery: string;
+  branchPromptCursor: number;
+  branchPromptBranches: GitBranches;
+  stackSwitch: StackSwitch | null;
+  portConflict: PortConflictPrompt | null;
+  cascadePlan: CascadePlan | null;
+  // Environment side panel
+  envPanelActive: boolean;
+  envPanelKey: string | null;
+  envPanelVars: EnvVar[] | null;      // null while loading
+  envPanelError: string | null;
+  // Compose profiles
+  activeProfiles: string[];
+  profilePickerActive: boolean;
+  profilePickerEntries: string[];
+  profilePickerCursor: number;
+  // Replicas
+  expandedServices: Set<string>;
+  // Multi-select and bulk operations
+  marked: Set<string>;                 // statusKeys of marked services
+  bulk: BulkOperation | null;
+  // List order
+  sortField: SortField;
+  // List filter
+  filterQuery: string;
+  filterActive: boolean;               // the filter input has focus
+  // Command palette
+  paletteActive: boolean;
+  paletteQuery: string;
+  paletteCursor: number;
+  // Status events
+  eventsChild: OutputChild | null;
   config: Config;
   pollTimer?: ReturnType<typeof setInterval>;
   logScanTimer?: ReturnType<typeof setInterval>;
   statsTimer?: ReturnType<typeof setInterval>;
+  bulkTimer?: ReturnType<typeof setInterval>;
 }
 
 // --- Renderer ---
@@ -215,6 +597,20 @@ export interface LegendOptions {
   execMode?: boolean;
   execInline?: boolean;
   worktreePickerActive?: boolean;
+  worktreePreviewActive?: boolean;
+  branchPromptActive?: boolean;
+  portConflictActive?: boolean;
+  portConflictStoppable?: boolean;
+  cascadePlanActive?: boolean;
+  cascadeFailedActive?: boolean;
+  graphMode?: boolean;
+  profilePickerActive?: boolean;
+  envPanelActive?: boolean;
+  paletteActive?: boolean;
+  markedCount?: number;
+  filterActive?: boolean;
+  filterApplied?: boolean;
+  sortField?: SortField;
 }
 
 export interface DisplayLine {
@@ -238,13 +634,23 @@ export interface DockerComposePsEntry {
   CreatedAt?: string;
   ID?: string;
   Publishers?: DockerPublisher[];
-  Ports?: string;
+  Ports?: string | PodmanPort[];
+  // podman ps shape (podman-compose)
+  Id?: string;
+  Names?: string[];
+  Labels?: string | Record<string, string>;
+}
+
+export interface PodmanPort {
+  host_port?: number;
+  container_port?: number;
 }
 
 export interface DockerInspectEntry {
   Id?: string;
   State?: {
     StartedAt?: string;
+    Health?: { Status?: string };
   };
   Config?: {
     Labels?: Record<string, string>;
@@ -258,6 +664,75 @@ export interface DockerStatsJson {
   MemUsage?: string;
 }
 
+export interface DockerEventJson {
+  status?: string;
+  id?: string;
+  Type?: string;
+  Action?: string;
+  Actor?: {
+    ID?: string;
+    Attributes?: Record<string, string>;
+  };
+  time?: number;
+  // podman events shape
+  ID?: string;
+  Status?: string;
+  HealthStatus?: string;
+  Attributes?: Record<string, string>;
+}
+
+// --- Docker Engine API ---
+
+export interface EngineEndpoint {
+  socketPath?: string;
+  host?: string;
+  port?: number;
+}
+
+export interface EngineContainerSummary {
+  Id: string;
+  Names?: string[];
+  State?: string;
+  Labels?: Record<string, string>;
+  Ports?: Array<{ PrivatePort: number; PublicPort?: number; Type?: string; IP?: string }>;
+}
+
+export interface EngineContainerInspect {
+  Id: string;
+  Created?: string;
+  State?: {
+    Status?: string;
+    StartedAt?: string;
+    Health?: { Status?: string };
+  };
+  Config?: {
+    Labels?: Record<string, string>;
+  };
+}
+
+export interface EngineStatsJson {
+  name?: string;
+  cpu_stats?: {
+    cpu_usage?: { total_usage?: number; percpu_usage?: number[] };
+    system_cpu_usage?: number;
+    online_cpus?: number;
+  };
+  precpu_stats?: {
+    cpu_usage?: { total_usage?: number };
+    system_cpu_usage?: number;
+  };
+  memory_stats?: {
+    usage?: number;
+    stats?: Record<string, number>;
+  };
+}
+
+// --- Async docker/git calls ---
+
+export interface AsyncExecOptions {
+  signal?: AbortSignal;
+}
+
 // --- Rebuild options ---
 
 export interface RebuildOptions {
@@ -0,0 +1,68 @@
+import path from 'path';
+import { fuzzyMatch } from './fuzzy';
+import { statusKey, getEffectiveFile } from './state';
+import type { AppState, BranchOption, Config, GitBranches, WorktreeIsolation } from './types';
+
+// Creating and removing git worktrees from the worktree picker. index.ts runs git; this
+// decides what the branch prompt offers, where a new worktree goes and who still uses one.
+
+// Branches git can check out into a new worktree, best match first. Branches that already
+// have a worktree are left out (git refuses them), and so are remote branches with a local
+// branch of the same name. A query that names no branch is offered as a new branch first.
+export function branchOptions(branches: GitBranches, checkedOut: string[], query: string): BranchOption[] {
+  const candidates: Array<{ name: string; branch: string; remote: boolean }> = [
+    ...branches.local.map(name => ({ name, branch: name, remote: false })),
+    ...branches.remote.map(name => ({ name, branch: name.slice(name.indexOf('/') + 1), remote: true })),
+  ];
+  const scored: Array<BranchOption & { score: number }> = [];
+  for (const { name, branch, remote } of candidates) {
+    if (checkedOut.includes(branch) || (remote && branches.local.includes(branch))) continue;
+    const m = fuzzyMatch(query, name);
+    if (!m) continue;
+    scored.push({ branch, create: remote, startPoint: remote ? name : null, positions: m.positions, score: m.score });
+  }
+  scored.sort((a, b) => b.score - a.score);
+  const options: BranchOption[] = scored.map(({ branch, create, startPoint, positions }) => ({ branch, create, startPoint, positions }));
+  const name = query.trim();
+  if (name && !/\s/.test(name) && !candidates.some(c => c.branch === name)) {
+    options.unshift({ branch: name, create: true, startPoint: null, positions: [] });
+  }
+  return options;
+}
+
+export function branchPromptOptions(state: AppState): BranchOption[] {
+  return branchOptions(state.branchPromptBranches, state.worktreePickerEntries.map(w => w.branch), state.branchPromptQuery);
+}
+
+// New worktrees go to worktreeDir/<branch>, or next to the main worktree as <repo>-<branch>
+export function worktreePathFor(config: Config, mainWorktree: string, branch: string): string {
+  const slug = branch.replace(/[^A-Za-z0-9._-]+/g, '-');
+  if (config.worktreeDir) return path.join(config.worktreeDir, slug);
+  return path.join(path.dirname(mainWorktree), `${path.basename(mainWorktree)}-${slug}`);
+}
+
+// The project name a switch passes with -p: none for `directory` (compose derives it from
+// the worktree's directory), the group's own for `shared`, <group>-<branch> for `branch`
+export function worktreeProjectName(isolation: WorktreeIsolation, groupProject: string, branch: string): string | null {
+  if (isolation === 'shared') return groupProject;
+  if (isolation === 'branch') return `${groupProject}-${branch.toLowerCase().replace(/[^a-z0-9_-]+/g, '-')}`;
+  return null;
+}
+
+// Services switched to the worktree or with a container created from it
+export function worktreeUsers(state: AppState, worktreePath: string): string[] {
+  const inside = (p: string): boolean => {
+    const rel = path.relative(worktreePath, path.resolve(p));
+    return !rel.startsWith('..') && !path.isAbsolute(rel);
+  };
+  const users: string[] = [];
+  for (const group of state.groups) {
+    for (const service of group.services) {
+      const st = state.statuses.get(statusKey(group.file, service));
+      if (inside(getEffectiveFile(state, group.file, service)) || (st && st.workingDir && inside(st.workingDir))) {
+        users.push(service);
+      }
+    }
+  }
+  return users;
+}
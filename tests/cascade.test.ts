@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { cascadeSteps, cascadePlanSteps, prerequisiteSteps, serviceImage, normalizeImage, dockerfileBaseImages, buildsFrom } from '../src/lib/cascade';
+import type { CascadePlan, DependencyGraph } from '../src/lib/types';
+
+describe('cascadeSteps', () => {
+  it('rebuilds the service, then rebuilds or restarts each level', () => {
+    expect(cascadeSteps('lib', [['api', 'worker'], ['gateway']], ['worker'])).toEqual([
+      { action: 'rebuild', service: 'lib', level: 0, status: 'pending' },
+      { action: 'restart', service: 'api', level: 1, status: 'pending' },
+      { action: 'rebuild', service: 'worker', level: 1, status: 'pending' },
+      { action: 'restart', service: 'gateway', level: 2, status: 'pending' },
+    ]);
+  });
+
+  it('follows the plan scope', () => {
+    const plan: CascadePlan = {
+      entry: { groupIdx: 0, file: '/app/compose.yml', service: 'lib' } as CascadePlan['entry'],
+      file: '/app/compose.yml', levels: [['api', 'worker', 'cache']], scope: 'all',
+      buildable: ['api', 'worker'], affected: ['worker'], loading: false, error: null,
+    };
+    expect(cascadePlanSteps(plan).map(s => s.action)).toEqual(['rebuild', 'rebuild', 'rebuild', 'restart']);
+    plan.scope = 'affected';
+    expect(cascadePlanSteps(plan).map(s => s.action)).toEqual(['rebuild', 'restart', 'rebuild', 'restart']);
+  });
+});
+
+describe('prerequisiteSteps', () => {
+  // api -> cache, db; db and cache are gated on health, worker -> db isn't
+  const graph: DependencyGraph = {
+    dependsOn: new Map([['api', ['db', 'cache']], ['cache', ['db']], ['worker', ['db']]]),
+    dependedBy: new Map([['db', ['api', 'cache', 'worker']], ['cache', ['api']]]),
+    conditions: new Map([
+      ['api', new Map([['cache', 'service_healthy'], ['db', 'service_started']])],
+      ['cache', new Map([['db', 'service_healthy']])],
+      ['worker', new Map([['db', 'service_started']])],
+    ]),
+  };
+
+  it('starts each level, then waits for the gated services to become healthy', () => {
+    const steps = prerequisiteSteps(graph, 'api', [['db'], ['cache']], () => ({ running: false, healthy: false }));
+    expect(steps.map(s => `${s.action} ${s.service}:${s.level}`)).toEqual([
+      'start db:0', 'health db:1', 'start cache:2', 'health cache:3', 'start api:4',
+    ]);
+  });
+
+  it('skips what already runs and the gates already passed', () => {
+    const steps = prerequisiteSteps(graph, 'api', [['db'], ['cache']], svc => ({ running: true, healthy: svc === 'db' }));
+    expect(steps.map(s => `${s.action} ${s.service}`)).toEqual(['health cache', 'start api']);
+  });
+
+  it('only gates prerequisites the chain waits for', () => {
+    const steps = prerequisiteSteps(graph, 'worker', [['db']], () => ({ running: false, healthy: false }));
+    expect(steps.map(s => `${s.action} ${s.service}`)).toEqual(['start db', 'start worker']);
+  });
+});
+
+describe('serviceImage', () => {
+  it('uses the image or the name compose gives the build', () => {
+    expect(serviceImage('shop', 'lib', { image: 'registry.local/lib:2' })).toBe('registry.local/lib:2');
+    expect(serviceImage('shop', 'lib', {})).toBe('shop-lib');
+  });
+});
+
+describe('normalizeImage', () => {
+  it('drops the default registry and adds the default tag', () => {
+    expect(normalizeImage('docker.io/library/node')).toBe('node:latest');
+    expect(normalizeImage('node:20@sha256:abc')).toBe('node:20');
+    expect(normalizeImage('localhost:5000/lib')).toBe('localhost:5000/lib:latest');
+  });
+});
+
+describe('dockerfileBaseImages', () => {
+  it('lists the images the stages build from, leaving out earlier stages', () => {
+    const dockerfile = [
+      'FROM --platform=$BUILDPLATFORM node:20 AS deps',
+      'RUN npm ci',
+      'FROM deps AS build',
+      'FROM scratch',
+      'from shop-lib',
+    ].join('\n');
+    expect(dockerfileBaseImages(dockerfile)).toEqual(['node:20', 'shop-lib']);
+  });
+
+  it('substitutes the build args declared before the first FROM', () => {
+    const dockerfile = 'ARG BASE=shop-lib\nARG TAG\nFROM ${BASE}:${TAG:-latest}\nARG LATE=x\nFROM $LATE';
+    expect(dockerfileBaseImages(dockerfile)).toEqual(['shop-lib:latest']);
+    expect(dockerfileBaseImages(dockerfile, { BASE: 'other', TAG: null })).toEqual(['other:latest']);
+  });
+});
+
+describe('buildsFrom', () => {
+  it('matches a FROM of the image or a service build context', () => {
+    expect(buildsFrom({ context: '/app/api' }, 'FROM shop-lib:latest\n', 'lib', 'shop-lib')).toBe(true);
+    expect(buildsFrom({ context: '/app/api' }, 'FROM node:20\n', 'lib', 'shop-lib')).toBe(false);
+    expect(buildsFrom({ context: '/app/api', additional_contexts: { base: 'service:lib' } }, null, 'lib', 'shop-lib')).toBe(true);
+    expect(buildsFrom({ context: '/app/api' }, null, 'lib', 'shop-lib')).toBe(false);
+  });
+});
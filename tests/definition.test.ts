@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeDefinition, flattenDefinition, diffDefinitions } from '../src/lib/definition';
+
+describe('normalizeDefinition', () => {
+  it('makes paths inside the worktree relative to it', () => {
+    expect(normalizeDefinition({
+      build: { context: '/wt/fix/services/api' },
+      volumes: [{ type: 'bind', source: '/wt/fix', target: '/app' }, { type: 'bind', source: '/wt/fixtures', target: '/data' }],
+      restart: 'always',
+      scale: 2,
+    }, '/wt/fix')).toEqual({
+      build: { context: 'services/api' },
+      volumes: [{ type: 'bind', source: '.', target: '/app' }, { type: 'bind', source: '/wt/fixtures', target: '/data' }],
+      restart: 'always',
+      scale: 2,
+    });
+  });
+});
+
+describe('flattenDefinition', () => {
+  it('joins nested keys and splits lists of objects per item', () => {
+    expect([...flattenDefinition({
+      image: 'api:1',
+      command: ['npm', 'start'],
+      environment: { TAG: 'dev', EMPTY: null },
+      ports: [{ target: 80, published: '8080' }],
+      labels: {},
+    })]).toEqual([
+      ['image', 'api:1'],
+      ['command', '["npm","start"]'],
+      ['environment.TAG', 'dev'],
+      ['environment.EMPTY', 'null'],
+      ['ports[0].target', '80'],
+      ['ports[0].published', '8080'],
+      ['labels', '{}'],
+    ]);
+  });
+});
+
+describe('diffDefinitions', () => {
+  it('lists added, removed and changed keys by path', () => {
+    const before = { image: 'api:1', environment: { TAG: 'dev', OLD: 'x' }, depends_on: { db: { condition: 'service_started' } } };
+    const after = { image: 'api:2', environment: { TAG: 'dev', NEW: 'y' }, depends_on: { db: { condition: 'service_healthy' } } };
+    expect(diffDefinitions(before, after)).toEqual([
+      { path: 'depends_on.db.condition', before: 'service_started', after: 'service_healthy' },
+      { path: 'environment.NEW', before: null, after: 'y' },
+      { path: 'environment.OLD', before: 'x', after: null },
+      { path: 'image', before: 'api:1', after: 'api:2' },
+    ]);
+  });
+
+  it('orders list items numerically and finds nothing in equal definitions', () => {
+    const ports = (n: number) => Array.from({ length: n }, (_, i) => ({ published: String(8000 + i) }));
+    expect(diffDefinitions({ ports: ports(2) }, { ports: ports(11) }).map(c => c.path).slice(0, 2)).toEqual(['ports[2].published', 'ports[3].published']);
+    expect(diffDefinitions({ ports: ports(11) }, { ports: ports(11) })).toEqual([]);
+  });
+});
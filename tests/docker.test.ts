@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { parseMemString, parseStatsLine } from '../src/lib/docker';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseMemString, parseStatsLine, parseContainerEvent, composeProjectName, parseServiceEnvironment, parseServicePorts, parseEnvFile } from '../src/lib/docker';
 
 // We test the pure functions directly. The functions that call child_process
 // are tested by mocking execFileSync/spawn.
@@ -113,15 +116,130 @@ describe('parseStatsLine', () => {
   });
 });
 
-describe('listServices (mocked)', () => {
-  let execFileSyncMock: ReturnType<typeof vi.fn>;
+describe('parseContainerEvent', () => {
+  const attrs = {
+    'com.docker.compose.service': 'web',
+    'com.docker.compose.project': 'myapp',
+    'com.docker.compose.project.config_files': '/srv/myapp/docker-compose.yml,/srv/myapp/docker-compose.override.yml',
+    'com.docker.compose.project.working_dir': '/srv/myapp',
+  };
+
+  it('parses a start event with compose labels', () => {
+    const ev = parseContainerEvent(JSON.stringify({ Type: 'container', Action: 'start', Actor: { ID: 'abc123full', Attributes: attrs }, time: 1700000000 }));
+    expect(ev).toEqual({
+      action: 'start',
+      id: 'abc123full',
+      service: 'web',
+      project: 'myapp',
+      configFiles: ['/srv/myapp/docker-compose.yml', '/srv/myapp/docker-compose.override.yml'],
+      workingDir: '/srv/myapp',
+      health: null,
+      replica: null,
+      time: 1700000000,
+    });
+  });
+
+  it('reads the replica number from the container-number label', () => {
+    const ev = parseContainerEvent(JSON.stringify({ Type: 'container', Action: 'start', Actor: { ID: 'abc', Attributes: { ...attrs, 'com.docker.compose.container-number': '3' } } }));
+    expect(ev!.replica).toBe(3);
+  });
+
+  it('splits health_status into action and health', () => {
+    const ev = parseContainerEvent(JSON.stringify({ Type: 'container', Action: 'health_status: unhealthy', Actor: { ID: 'abc', Attributes: attrs } }));
+    expect(ev!.action).toBe('health_status');
+    expect(ev!.health).toBe('unhealthy');
+  });
+
+  it('falls back to legacy status and id fields', () => {
+    const ev = parseContainerEvent(JSON.stringify({ status: 'die', id: 'def456' }));
+    expect(ev!.action).toBe('die');
+    expect(ev!.id).toBe('def456');
+    expect(ev!.service).toBeNull();
+    expect(ev!.configFiles).toEqual([]);
+  });
+
+  it('parses podman event JSON', () => {
+    const ev = parseContainerEvent(JSON.stringify({ ID: 'pod123', Status: 'health_status', HealthStatus: 'healthy', Type: 'container', Attributes: attrs, time: 1700000001 }));
+    expect(ev).toMatchObject({ action: 'health_status', id: 'pod123', service: 'web', project: 'myapp', health: 'healthy', time: 1700000001 });
+  });
+
+  it('ignores non-container events', () => {
+    expect(parseContainerEvent(JSON.stringify({ Type: 'network', Action: 'connect', Actor: { ID: 'n1' } }))).toBeNull();
+  });
+
+  it('returns null for malformed JSON', () => {
+    expect(parseContainerEvent('not json')).toBeNull();
+  });
+});
+
+describe('parseServiceEnvironment', () => {
+  it('accepts the list form', () => {
+    expect(parseServiceEnvironment(['B=2', 'A=x=y', 'C'])).toEqual([
+      { key: 'A', value: 'x=y' }, { key: 'B', value: '2' }, { key: 'C', value: null },
+    ]);
+  });
+
+  it('returns nothing for services without environment', () => {
+    expect(parseServiceEnvironment(undefined)).toEqual([]);
+  });
+});
+
+describe('parseServicePorts', () => {
+  it('expands ranges and keeps protocol and host address', () => {
+    expect(parseServicePorts([
+      { mode: 'ingress', target: 80, published: '8080', protocol: 'tcp' },
+      { target: 53, published: 5353, protocol: 'udp', host_ip: '127.0.0.1' },
+      { target: 9000, published: '9000-9001' },
+    ])).toEqual([
+      { published: 8080, target: 80, protocol: 'tcp', hostIp: null },
+      { published: 5353, target: 53, protocol: 'udp', hostIp: '127.0.0.1' },
+      { published: 9000, target: 9000, protocol: 'tcp', hostIp: null },
+      { published: 9001, target: 9001, protocol: 'tcp', hostIp: null },
+    ]);
+  });
+
+  it('leaves out ports docker assigns itself', () => {
+    expect(parseServicePorts([{ target: 80, protocol: 'tcp' }])).toEqual([]);
+    expect(parseServicePorts(undefined)).toEqual([]);
+  });
+});
+
+describe('parseEnvFile', () => {
+  it('reads KEY=VALUE lines, skipping comments and dropping quotes', () => {
+    expect(parseEnvFile('# db\nexport DB_HOST=db\n\nTAG="dev build"\nNAME=\'app\'\nPORT=8080 # http\nnot a line\n')).toEqual({
+      DB_HOST: 'db', TAG: 'dev build', NAME: 'app', PORT: '8080',
+    });
+  });
+});
+
+describe('composeProjectName', () => {
+  const origEnv = process.env.COMPOSE_PROJECT_NAME;
+
+  afterEach(() => {
+    if (origEnv === undefined) delete process.env.COMPOSE_PROJECT_NAME;
+    else process.env.COMPOSE_PROJECT_NAME = origEnv;
+  });
+
+  it('normalizes the compose file directory name', () => {
+    delete process.env.COMPOSE_PROJECT_NAME;
+    expect(composeProjectName('/home/user/My.Project/docker-compose.yml')).toBe('myproject');
+  });
+
+  it('prefers COMPOSE_PROJECT_NAME', () => {
+    process.env.COMPOSE_PROJECT_NAME = 'custom';
+    expect(composeProjectName('/home/user/app/docker-compose.yml')).toBe('custom');
+  });
+});
+
+describe('streamContainerEvents (mocked)', () => {
+  let spawnMock: ReturnType<typeof vi.fn>;
 
-  beforeEach(async () => {
+  beforeEach(() => {
     vi.resetModules();
-    execFileSyncMock = vi.fn();
+    spawnMock = vi.fn().mockReturnValue({ stdout: { on: vi.fn() }, stderr: { on: vi.fn() }, on: vi.fn(), kill: vi.fn() });
     vi.doMock('child_process', () => ({
-      execFileSync: execFileSyncMock,
-      spawn: vi.fn(),
+      execFileSync: vi.fn(),
+      spawn: spawnMock,
     }));
   });
 
@@ -129,40 +247,38 @@ describe('listServices (mocked)', () => {
     vi.restoreAllMocks();
   });
 
-  it('trims and splits output into service names', async () => {
-    execFileSyncMock.mockReturnValue('web\napi\nworker\n');
-    const { listServices } = await import('../src/lib/docker');
-    const result = listServices('/path/to/compose.yml');
-    expect(result).toEqual(['web', 'api', 'worker']);
+  it('returns null for runtimes without an events stream', async () => {
+    const { streamContainerEvents, useRuntime } = await import('../src/lib/docker');
+    useRuntime('nerdctl');
+    expect(streamContainerEvents()).toBeNull();
+    expect(spawnMock).not.toHaveBeenCalled();
   });
 
-  it('filters empty lines', async () => {
-    execFileSyncMock.mockReturnValue('web\n\napi\n');
-    const { listServices } = await import('../src/lib/docker');
-    const result = listServices('/path/to/compose.yml');
-    expect(result).toEqual(['web', 'api']);
-  });
-
-  it('passes correct args to docker', async () => {
-    execFileSyncMock.mockReturnValue('web\n');
-    const { listServices } = await import('../src/lib/docker');
-    listServices('/path/to/compose.yml');
-    expect(execFileSyncMock).toHaveBeenCalledWith(
+  it('filters container events to compose-managed containers', async () => {
+    const { streamContainerEvents } = await import('../src/lib/docker');
+    streamContainerEvents();
+    expect(spawnMock).toHaveBeenCalledWith(
       'docker',
-      expect.arrayContaining(['compose', '-f', expect.any(String), 'config', '--services']),
-      expect.objectContaining({ encoding: 'utf8', timeout: 10000 }),
+      ['events', '--format', '{{json .}}', '--filter', 'type=container', '--filter', 'label=com.docker.compose.project'],
+      expect.any(Object),
     );
   });
 });
 
-describe('getStatuses (mocked)', () => {
-  let execFileSyncMock: ReturnType<typeof vi.fn>;
+describe('getStatusesAsync (mocked)', () => {
+  let execFileMock: ReturnType<typeof vi.fn>;
+  type ExecCallback = (err: Error | null, stdout: string) => void;
+
+  // Answers the next execFile calls with the given outputs, in order
+  const reply = (...outs: string[]) => {
+    for (const out of outs) execFileMock.mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, out));
+  };
 
   beforeEach(() => {
     vi.resetModules();
-    execFileSyncMock = vi.fn();
+    execFileMock = vi.fn();
     vi.doMock('child_process', () => ({
-      execFileSync: execFileSyncMock,
+      execFile: execFileMock,
       spawn: vi.fn(),
     }));
   });
@@ -175,12 +291,13 @@ describe('getStatuses (mocked)', () => {
     const data = [
       { Service: 'web', State: 'running', Health: 'healthy', CreatedAt: '2024-01-01', ID: 'abc123', Publishers: [{ PublishedPort: 8080, TargetPort: 80 }] },
     ];
-    execFileSyncMock
-      .mockReturnValueOnce(JSON.stringify(data))
-      .mockReturnValueOnce(JSON.stringify([{ Id: 'abc123full', State: { StartedAt: '2024-01-01T10:00:00Z' } }]));
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([{ Id: 'abc123full', State: { StartedAt: '2024-01-01T10:00:00Z' } }]),
+    );
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.size).toBe(1);
     const status = result.get('web');
     expect(status).toBeDefined();
@@ -189,21 +306,66 @@ describe('getStatuses (mocked)', () => {
     expect(status!.ports).toEqual([{ published: 8080, target: 80 }]);
   });
 
+  it('parses podman ps entries and inspect health', async () => {
+    const data = [{
+      Id: 'pod123', Names: ['myapp_web_1'], State: 'running',
+      Labels: { 'com.docker.compose.service': 'web' },
+      Ports: [{ host_port: 8080, container_port: 80 }, { host_port: 0, container_port: 9000 }],
+    }];
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([{ Id: 'pod123full', State: { StartedAt: '2024-01-01T10:00:00Z', Health: { Status: 'Starting' } } }]),
+    );
+
+    const { getStatusesAsync, useRuntime } = await import('../src/lib/docker');
+    useRuntime('podman');
+    const result = await getStatusesAsync('/path/to/compose.yml');
+    expect(execFileMock.mock.calls[0][0]).toBe('podman');
+    expect(execFileMock.mock.calls[1].slice(0, 2)).toEqual(['podman', ['inspect', 'pod123']]);
+    expect(result.get('web')).toMatchObject({ state: 'running', health: 'starting', id: 'pod123', ports: [{ published: 8080, target: 80 }] });
+  });
+
+  it('keeps every replica of a scaled service', async () => {
+    const data = [
+      { Service: 'web', Name: 'app-web-2', State: 'running', Health: 'unhealthy', ID: 'bbb', Labels: 'com.docker.compose.container-number=2,com.docker.compose.service=web', Publishers: [{ PublishedPort: 8081, TargetPort: 80 }] },
+      { Service: 'web', Name: 'app-web-1', State: 'running', Health: 'healthy', ID: 'aaa', Labels: 'com.docker.compose.container-number=1,com.docker.compose.service=web', Publishers: [{ PublishedPort: 8080, TargetPort: 80 }] },
+      { Service: 'web', Name: 'app-web-3', State: 'exited', Health: '', ID: 'ccc', Publishers: [] },
+    ];
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([
+        { Id: 'aaafull', State: { StartedAt: '2024-01-01T10:00:00Z' } },
+        { Id: 'bbbfull', State: { StartedAt: '2024-01-02T10:00:00Z' } },
+      ]),
+    );
+
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const web = (await getStatusesAsync('/path/to/compose.yml')).get('web')!;
+    expect(web.replicas!.map(r => [r.number, r.id, r.state])).toEqual([[1, 'aaa', 'running'], [2, 'bbb', 'running'], [3, 'ccc', 'exited']]);
+    expect(web.replicas![1].startedAt).toBe('2024-01-02T10:00:00Z');
+    // Lowest running replica represents the service; one unhealthy replica marks it unhealthy
+    expect(web.id).toBe('aaa');
+    expect(web.startedAt).toBe('2024-01-01T10:00:00Z');
+    expect(web.health).toBe('unhealthy');
+    expect(web.ports).toEqual([{ published: 8080, target: 80 }, { published: 8081, target: 80 }]);
+  });
+
   it('extracts workingDir from inspect labels and resolves worktree', async () => {
     const data = [
       { Service: 'web', State: 'running', Health: '', ID: 'abc123', Publishers: [] },
     ];
-    execFileSyncMock
-      .mockReturnValueOnce(JSON.stringify(data))
-      .mockReturnValueOnce(JSON.stringify([{
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([{
         Id: 'abc123full',
         State: { StartedAt: '2024-01-01T10:00:00Z' },
         Config: { Labels: { 'com.docker.compose.project.working_dir': '/home/user/project' } },
-      }]))
-      .mockReturnValueOnce('main\n');
+      }]),
+      'main\n',
+    );
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.get('web')!.workingDir).toBe('/home/user/project');
     expect(result.get('web')!.worktree).toBe('main');
   });
@@ -212,15 +374,16 @@ describe('getStatuses (mocked)', () => {
     const data = [
       { Service: 'web', State: 'running', Health: '', ID: 'abc123', Publishers: [] },
     ];
-    execFileSyncMock
-      .mockReturnValueOnce(JSON.stringify(data))
-      .mockReturnValueOnce(JSON.stringify([{
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([{
         Id: 'abc123full',
         State: { StartedAt: '2024-01-01T10:00:00Z' },
-      }]));
+      }]),
+    );
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.get('web')!.workingDir).toBeNull();
     expect(result.get('web')!.worktree).toBeNull();
   });
@@ -228,12 +391,13 @@ describe('getStatuses (mocked)', () => {
   it('parses NDJSON format', async () => {
     const line1 = JSON.stringify({ Service: 'web', State: 'running', Health: '', ID: 'abc', Publishers: [] });
     const line2 = JSON.stringify({ Service: 'api', State: 'exited', Health: '', ID: 'def', Publishers: [] });
-    execFileSyncMock
-      .mockReturnValueOnce(`${line1}\n${line2}\n`)
-      .mockReturnValueOnce(JSON.stringify([]));
+    reply(
+      `${line1}\n${line2}\n`,
+      JSON.stringify([]),
+    );
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.size).toBe(2);
     expect(result.get('web')!.state).toBe('running');
     expect(result.get('api')!.state).toBe('exited');
@@ -243,12 +407,13 @@ describe('getStatuses (mocked)', () => {
     const data = [
       { Service: 'web', State: 'running', Health: '', ID: 'abc', Ports: '0.0.0.0:3000->3000/tcp, 0.0.0.0:3001->3001/tcp' },
     ];
-    execFileSyncMock
-      .mockReturnValueOnce(JSON.stringify(data))
-      .mockReturnValueOnce(JSON.stringify([]));
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([]),
+    );
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     const status = result.get('web')!;
     expect(status.ports).toEqual([
       { published: 3000, target: 3000 },
@@ -264,36 +429,37 @@ describe('getStatuses (mocked)', () => {
         { PublishedPort: 443, TargetPort: 443 },
       ] },
     ];
-    execFileSyncMock
-      .mockReturnValueOnce(JSON.stringify(data))
-      .mockReturnValueOnce(JSON.stringify([]));
+    reply(
+      JSON.stringify(data),
+      JSON.stringify([]),
+    );
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.get('web')!.ports).toHaveLength(2);
   });
 
   it('returns empty map on exec failure', async () => {
-    execFileSyncMock.mockImplementation(() => { throw new Error('fail'); });
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('fail'), ''));
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.size).toBe(0);
   });
 
   it('returns empty map on invalid JSON', async () => {
-    execFileSyncMock.mockReturnValue('not json at all');
+    reply('not json at all');
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.size).toBe(0);
   });
 
   it('returns empty map on empty output', async () => {
-    execFileSyncMock.mockReturnValue('');
+    reply('');
 
-    const { getStatuses } = await import('../src/lib/docker');
-    const result = getStatuses('/path/to/compose.yml');
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
     expect(result.size).toBe(0);
   });
 });
@@ -341,86 +507,33 @@ describe('rebuildService (mocked)', () => {
     expect(child.stdout).toBeDefined();
     expect(child.stderr).toBeDefined();
   });
-});
-
-describe('getContainerId (mocked)', () => {
-  let execFileSyncMock: ReturnType<typeof vi.fn>;
-
-  beforeEach(() => {
-    vi.resetModules();
-    execFileSyncMock = vi.fn();
-    vi.doMock('child_process', () => ({
-      execFileSync: execFileSyncMock,
-      spawn: vi.fn(),
-    }));
-  });
 
-  afterEach(() => {
-    vi.restoreAllMocks();
-  });
-
-  it('returns trimmed container ID on success', async () => {
-    execFileSyncMock.mockReturnValue('abc123def456\n');
-    const { getContainerId } = await import('../src/lib/docker');
-    expect(getContainerId('/path/to/compose.yml', 'web')).toBe('abc123def456');
-  });
-
-  it('returns null on empty output', async () => {
-    execFileSyncMock.mockReturnValue('');
-    const { getContainerId } = await import('../src/lib/docker');
-    expect(getContainerId('/path/to/compose.yml', 'web')).toBeNull();
-  });
-
-  it('returns null on error', async () => {
-    execFileSyncMock.mockImplementation(() => { throw new Error('fail'); });
-    const { getContainerId } = await import('../src/lib/docker');
-    expect(getContainerId('/path/to/compose.yml', 'web')).toBeNull();
+  it('builds with the passthrough variables plus the group environment only', async () => {
+    const { rebuildService, registerComposeProject } = await import('../src/lib/docker');
+    process.env.RECOMPOSABLE_TEST_SECRET = 'leak';
+    registerComposeProject({ files: ['/path/to/compose.yml'], projectName: null, projectDirectory: null, envFiles: [], environment: { TAG: 'dev' } });
+    rebuildService('/path/to/compose.yml', 'web');
+    const env = (spawnMock.mock.calls[0][2] as { env: NodeJS.ProcessEnv }).env;
+    expect(env).toMatchObject({ TAG: 'dev', PATH: process.env.PATH, BUILDKIT_PROGRESS: 'plain' });
+    expect(env.RECOMPOSABLE_TEST_SECRET).toBeUndefined();
+    delete process.env.RECOMPOSABLE_TEST_SECRET;
   });
 });
 
-describe('getGitRoot (mocked)', () => {
-  let execFileSyncMock: ReturnType<typeof vi.fn>;
+describe('listGitWorktreesAsync (mocked)', () => {
+  let execFileMock: ReturnType<typeof vi.fn>;
+  type ExecCallback = (err: Error | null, stdout: string) => void;
 
-  beforeEach(() => {
-    vi.resetModules();
-    execFileSyncMock = vi.fn();
-    vi.doMock('child_process', () => ({
-      execFileSync: execFileSyncMock,
-      spawn: vi.fn(),
-    }));
-  });
-
-  afterEach(() => {
-    vi.restoreAllMocks();
-  });
-
-  it('returns trimmed git root path', async () => {
-    execFileSyncMock.mockReturnValue('/home/user/project\n');
-    const { getGitRoot } = await import('../src/lib/docker');
-    expect(getGitRoot('/home/user/project/src')).toBe('/home/user/project');
-  });
-
-  it('returns null on error', async () => {
-    execFileSyncMock.mockImplementation(() => { throw new Error('not a git repo'); });
-    const { getGitRoot } = await import('../src/lib/docker');
-    expect(getGitRoot('/tmp/no-repo')).toBeNull();
-  });
-
-  it('returns null on empty output', async () => {
-    execFileSyncMock.mockReturnValue('');
-    const { getGitRoot } = await import('../src/lib/docker');
-    expect(getGitRoot('/tmp')).toBeNull();
-  });
-});
-
-describe('listGitWorktrees (mocked)', () => {
-  let execFileSyncMock: ReturnType<typeof vi.fn>;
+  // Answers the next execFile calls with the given outputs, in order
+  const reply = (...outs: string[]) => {
+    for (const out of outs) execFileMock.mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, out));
+  };
 
   beforeEach(() => {
     vi.resetModules();
-    execFileSyncMock = vi.fn();
+    execFileMock = vi.fn();
     vi.doMock('child_process', () => ({
-      execFileSync: execFileSyncMock,
+      execFile: execFileMock,
       spawn: vi.fn(),
     }));
   });
@@ -440,9 +553,9 @@ describe('listGitWorktrees (mocked)', () => {
       'branch refs/heads/fix-bug',
       '',
     ].join('\n');
-    execFileSyncMock.mockReturnValue(porcelain);
-    const { listGitWorktrees } = await import('../src/lib/docker');
-    const result = listGitWorktrees('/home/user/project');
+    reply(porcelain);
+    const { listGitWorktreesAsync } = await import('../src/lib/docker');
+    const result = await listGitWorktreesAsync('/home/user/project');
     expect(result).toEqual([
       { path: '/home/user/project', branch: 'main' },
       { path: '/home/user/project-fix', branch: 'fix-bug' },
@@ -460,24 +573,24 @@ describe('listGitWorktrees (mocked)', () => {
       'branch refs/heads/main',
       '',
     ].join('\n');
-    execFileSyncMock.mockReturnValue(porcelain);
-    const { listGitWorktrees } = await import('../src/lib/docker');
-    const result = listGitWorktrees('/home/user/project');
+    reply(porcelain);
+    const { listGitWorktreesAsync } = await import('../src/lib/docker');
+    const result = await listGitWorktreesAsync('/home/user/project');
     expect(result).toEqual([
       { path: '/home/user/project', branch: 'main' },
     ]);
   });
 
   it('returns empty array on error', async () => {
-    execFileSyncMock.mockImplementation(() => { throw new Error('fail'); });
-    const { listGitWorktrees } = await import('../src/lib/docker');
-    expect(listGitWorktrees('/tmp')).toEqual([]);
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('fail'), ''));
+    const { listGitWorktreesAsync } = await import('../src/lib/docker');
+    expect(await listGitWorktreesAsync('/tmp')).toEqual([]);
   });
 
   it('returns empty array for empty output', async () => {
-    execFileSyncMock.mockReturnValue('');
-    const { listGitWorktrees } = await import('../src/lib/docker');
-    expect(listGitWorktrees('/tmp')).toEqual([]);
+    reply('');
+    const { listGitWorktreesAsync } = await import('../src/lib/docker');
+    expect(await listGitWorktreesAsync('/tmp')).toEqual([]);
   });
 
   it('skips blocks without branch line', async () => {
@@ -490,23 +603,25 @@ describe('listGitWorktrees (mocked)', () => {
       'branch refs/heads/fix-bug',
       '',
     ].join('\n');
-    execFileSyncMock.mockReturnValue(porcelain);
-    const { listGitWorktrees } = await import('../src/lib/docker');
-    const result = listGitWorktrees('/home/user/project');
+    reply(porcelain);
+    const { listGitWorktreesAsync } = await import('../src/lib/docker');
+    const result = await listGitWorktreesAsync('/home/user/project');
     expect(result).toEqual([
       { path: '/home/user/project-fix', branch: 'fix-bug' },
     ]);
   });
 });
 
-describe('validateServiceInComposeFile (mocked)', () => {
-  let execFileSyncMock: ReturnType<typeof vi.fn>;
+describe('async docker/git layer (mocked)', () => {
+  let execFileMock: ReturnType<typeof vi.fn>;
+  type ExecCallback = (err: Error | null, stdout: string) => void;
 
   beforeEach(() => {
     vi.resetModules();
-    execFileSyncMock = vi.fn();
+    execFileMock = vi.fn();
     vi.doMock('child_process', () => ({
-      execFileSync: execFileSyncMock,
+      execFile: execFileMock,
+      execFileSync: vi.fn(),
       spawn: vi.fn(),
     }));
   });
@@ -515,21 +630,300 @@ describe('validateServiceInComposeFile (mocked)', () => {
     vi.restoreAllMocks();
   });
 
-  it('returns true when service exists', async () => {
-    execFileSyncMock.mockReturnValue('web\napi\nworker\n');
-    const { validateServiceInComposeFile } = await import('../src/lib/docker');
-    expect(validateServiceInComposeFile('/path/to/compose.yml', 'api')).toBe(true);
+  it('listServicesAsync resolves parsed service names', async () => {
+    execFileMock.mockImplementation((_cmd: string, _args: string[], _opts: object, cb: ExecCallback) => cb(null, 'web\napi\n'));
+    const { listServicesAsync } = await import('../src/lib/docker');
+    await expect(listServicesAsync('/path/to/compose.yml')).resolves.toEqual(['web', 'api']);
+    expect(execFileMock).toHaveBeenCalledWith(
+      'docker',
+      expect.arrayContaining(['compose', '-f', expect.any(String), 'config', '--services']),
+      expect.objectContaining({ timeout: 10000 }),
+      expect.any(Function),
+    );
+  });
+
+  it('listServiceProfilesAsync maps gated services to their profiles', async () => {
+    execFileMock
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, 'debug\ntools\n'))
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify({
+        services: { web: {}, adminer: { profiles: ['debug'] }, cli: { profiles: ['tools', 'debug'] } },
+      })));
+    const { listServiceProfilesAsync } = await import('../src/lib/docker');
+    const result = await listServiceProfilesAsync('/path/to/compose.yml');
+    expect([...result]).toEqual([['adminer', ['debug']], ['cli', ['tools', 'debug']]]);
+    expect(execFileMock.mock.calls[1][1]).toEqual(expect.arrayContaining(['--profile', 'debug', '--profile', 'tools', 'config', '--format', 'json']));
+  });
+
+  it('listServiceProfilesAsync reports nothing when the runtime cannot list profiles', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('unknown flag: --profiles'), ''));
+    const { listServiceProfilesAsync } = await import('../src/lib/docker');
+    expect((await listServiceProfilesAsync('/path/to/compose.yml')).size).toBe(0);
+    expect(execFileMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes active profiles to every compose command', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, 'web\n'));
+    const { listServicesAsync, useProfiles, activeProfiles } = await import('../src/lib/docker');
+    useProfiles(['debug']);
+    expect(activeProfiles()).toEqual(['debug']);
+    await listServicesAsync('/path/to/compose.yml');
+    const args = execFileMock.mock.calls[0][1] as string[];
+    expect(args.slice(3)).toEqual(['--profile', 'debug', 'config', '--services']);
+  });
+
+  it('sends every file of a registered project to compose', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, 'web\n'));
+    const { listServicesAsync, registerComposeProject, composeProjectFor, composeProjectName } = await import('../src/lib/docker');
+    registerComposeProject({
+      files: ['/srv/app/compose.yml', '/srv/app/compose.override.yml'], projectName: 'shop',
+      envFiles: ['/srv/app/.env.dev'], environment: { TAG: 'dev' },
+    });
+    await listServicesAsync('/srv/app/compose.yml');
+    expect(execFileMock.mock.calls[0][1]).toEqual([
+      'compose', '-f', '/srv/app/compose.yml', '-f', '/srv/app/compose.override.yml', '-p', 'shop', '--env-file', '/srv/app/.env.dev',
+      'config', '--services',
+    ]);
+    expect(composeProjectFor('/srv/app/compose.yml')!.files).toHaveLength(2);
+    expect(composeProjectFor('/srv/app/compose.override.yml')).toBeNull();
+    expect(composeProjectName('/srv/app/compose.yml')).toBe('shop');
+  });
+
+  it('runs compose with the shell environment, then the env files, then the group overrides', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, 'web\n'));
+    const { listServicesAsync, registerComposeProject, composeEnv } = await import('../src/lib/docker');
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recomposable-env-'));
+    const envFile = path.join(tmpDir, '.env');
+    fs.writeFileSync(envFile, 'DB_HOST=db\nTAG=from-file\n');
+    process.env.RECOMPOSABLE_TEST_SHELL = 'kept';
+    process.env.DB_HOST = 'localhost';
+    try {
+      await registerComposeProject({ files: ['/srv/app/compose.yml'], projectName: null, projectDirectory: null, envFiles: [envFile], environment: { TAG: 'dev', DOCKER_CONTEXT: 'staging' } });
+      await listServicesAsync('/srv/app/compose.yml');
+      const env = (execFileMock.mock.calls[0][2] as { env: NodeJS.ProcessEnv }).env;
+      expect(env).toMatchObject({ TAG: 'dev', DOCKER_CONTEXT: 'staging', DB_HOST: 'db', RECOMPOSABLE_TEST_SHELL: 'kept', PATH: process.env.PATH });
+      // The file is read once and again when it changes
+      fs.writeFileSync(envFile, 'DB_HOST=db2\n');
+      await vi.waitFor(() => expect(composeEnv('/srv/app/compose.yml').DB_HOST).toBe('db2'));
+      // Groups without env files or environment get the shell as it is
+      expect(composeEnv('/srv/other/compose.yml')).toMatchObject({ DB_HOST: 'localhost', RECOMPOSABLE_TEST_SHELL: 'kept' });
+      expect(composeEnv('/srv/other/compose.yml').TAG).toBeUndefined();
+    } finally {
+      delete process.env.RECOMPOSABLE_TEST_SHELL;
+      delete process.env.DB_HOST;
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('getServiceDefinitionAsync returns the service from the resolved config', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify({
+      name: 'app', services: { web: { image: 'nginx:1.27', networks: { default: null } } },
+    })));
+    const { getComposeConfigAsync, getServiceDefinitionAsync } = await import('../src/lib/docker');
+    await expect(getComposeConfigAsync('/srv/app/compose.yml')).resolves.toMatchObject({ name: 'app' });
+    await expect(getServiceDefinitionAsync('/srv/app/compose.yml', 'web')).resolves.toEqual({ image: 'nginx:1.27', networks: { default: null } });
+    expect(execFileMock.mock.calls[0][1]).toEqual(expect.arrayContaining(['config', '--format', 'json']));
+    await expect(getServiceDefinitionAsync('/srv/app/compose.yml', 'db')).rejects.toThrow('service "db" not found');
+  });
+
+  it('getServiceEnvironmentAsync returns the resolved service environment', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify({
+      services: { web: { environment: { TAG: 'dev', API_URL: 'http://api', EMPTY: null } } },
+    })));
+    const { getServiceEnvironmentAsync } = await import('../src/lib/docker');
+    await expect(getServiceEnvironmentAsync('/srv/app/compose.yml', 'web')).resolves.toEqual([
+      { key: 'API_URL', value: 'http://api' }, { key: 'EMPTY', value: null }, { key: 'TAG', value: 'dev' },
+    ]);
+    await expect(getServiceEnvironmentAsync('/srv/app/compose.yml', 'db')).rejects.toThrow('service "db" not found');
+  });
+
+  it('getServicePortsAsync reads the published ports from the resolved config', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify({
+      services: { web: { ports: [{ target: 80, published: '8080', protocol: 'tcp' }] }, worker: {} },
+    })));
+    const { getServicePortsAsync } = await import('../src/lib/docker');
+    await expect(getServicePortsAsync('/srv/app/compose.yml', 'web')).resolves.toEqual([{ published: 8080, target: 80, protocol: 'tcp', hostIp: null }]);
+    await expect(getServicePortsAsync('/srv/app/compose.yml', 'worker')).resolves.toEqual([]);
+    await expect(getServicePortsAsync('/srv/app/compose.yml', 'db')).rejects.toThrow('service "db" not found');
+  });
+
+  it('getStatusesAsync combines ps, inspect and worktree lookups', async () => {
+    execFileMock
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify([{ Service: 'web', State: 'running', ID: 'abc123', Publishers: [] }])))
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify([{
+        Id: 'abc123full', State: { StartedAt: '2024-01-01T10:00:00Z' },
+        Config: { Labels: { 'com.docker.compose.project.working_dir': '/srv/async-app' } },
+      }])))
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, 'feature\n'));
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    const result = await getStatusesAsync('/path/to/compose.yml');
+    expect(result.get('web')!.startedAt).toBe('2024-01-01T10:00:00Z');
+    expect(result.get('web')!.worktree).toBe('feature');
+  });
+
+  it('getStatusesAsync returns an empty map when docker fails', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('daemon down'), ''));
+    const { getStatusesAsync } = await import('../src/lib/docker');
+    expect((await getStatusesAsync('/path/to/compose.yml')).size).toBe(0);
+  });
+
+  it('detectRuntimeAsync picks the first runtime whose compose answers', async () => {
+    execFileMock.mockImplementation((cmd: string, _a: string[], _o: object, cb: ExecCallback) =>
+      cb(cmd === 'podman' ? null : new Error('not found'), 'podman-compose version 1.0.6\n'));
+    const { detectRuntimeAsync } = await import('../src/lib/docker');
+    await expect(detectRuntimeAsync()).resolves.toBe('podman');
+    expect(execFileMock.mock.calls.map(c => c[0])).toEqual(['docker', 'docker-compose', 'podman']);
+  });
+
+  it('detectRuntimeAsync returns null when nothing is installed', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('not found'), ''));
+    const { detectRuntimeAsync } = await import('../src/lib/docker');
+    await expect(detectRuntimeAsync()).resolves.toBeNull();
+  });
+
+  it('fetchContainerStatsAsync uses the selected runtime', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) =>
+      cb(null, '{"ID":"abc","Name":"web","CPUPerc":"12.5%","MemUsage":"64MiB / 1GiB"}\n'));
+    const { fetchContainerStatsAsync, useRuntime } = await import('../src/lib/docker');
+    useRuntime('nerdctl');
+    await expect(fetchContainerStatsAsync(['abc'])).resolves.toEqual([{ id: 'abc', name: 'web', cpuPercent: 12.5, memUsageBytes: 64 * 1024 * 1024 }]);
+    expect(execFileMock.mock.calls[0][0]).toBe('nerdctl');
+  });
+
+  it('validateServiceInComposeFileAsync checks the service list', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, 'web\napi\n'));
+    const { validateServiceInComposeFileAsync } = await import('../src/lib/docker');
+    await expect(validateServiceInComposeFileAsync('/path/to/compose.yml', 'api')).resolves.toBe(true);
+    await expect(validateServiceInComposeFileAsync('/path/to/compose.yml', 'missing')).resolves.toBe(false);
+  });
+
+  it('limits the number of concurrent calls', async () => {
+    const pending: ExecCallback[] = [];
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => { pending.push(cb); });
+    const { execFileAsync, setExecConcurrency } = await import('../src/lib/docker');
+    setExecConcurrency(2);
+    const calls = [execFileAsync('docker', ['a']), execFileAsync('docker', ['b']), execFileAsync('docker', ['c'])];
+    expect(execFileMock).toHaveBeenCalledTimes(2);
+    pending[0](null, 'a');
+    await calls[0];
+    expect(execFileMock).toHaveBeenCalledTimes(3);
+    pending[1](null, 'b');
+    pending[2](null, 'c');
+    await expect(Promise.all(calls)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects queued calls when cancelled before they start', async () => {
+    execFileMock.mockImplementation(() => {});
+    const { execFileAsync, setExecConcurrency } = await import('../src/lib/docker');
+    setExecConcurrency(1);
+    execFileAsync('docker', ['busy']);
+    const controller = new AbortController();
+    const queued = execFileAsync('docker', ['queued'], { signal: controller.signal });
+    controller.abort();
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(execFileMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('listGitBranchesAsync splits local and remote branches', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, [
+      'refs/heads/main', 'refs/heads/feature/login', 'refs/remotes/origin/HEAD', 'refs/remotes/origin/main', 'refs/remotes/origin/release',
+    ].join('\n') + '\n'));
+    const { listGitBranchesAsync } = await import('../src/lib/docker');
+    await expect(listGitBranchesAsync('/repo')).resolves.toEqual({
+      local: ['main', 'feature/login'],
+      remote: ['origin/main', 'origin/release'],
+    });
   });
 
-  it('returns false when service does not exist', async () => {
-    execFileSyncMock.mockReturnValue('web\napi\nworker\n');
-    const { validateServiceInComposeFile } = await import('../src/lib/docker');
-    expect(validateServiceInComposeFile('/path/to/compose.yml', 'missing')).toBe(false);
+  it('addGitWorktreeAsync checks out, creates or tracks a branch', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, ''));
+    const { addGitWorktreeAsync } = await import('../src/lib/docker');
+    await addGitWorktreeAsync('/repo', '/wt/fix', 'fix');
+    await addGitWorktreeAsync('/repo', '/wt/new', 'new', { create: true });
+    await addGitWorktreeAsync('/repo', '/wt/release', 'release', { create: true, startPoint: 'origin/release' });
+    expect(execFileMock.mock.calls.map(c => c[1])).toEqual([
+      ['-C', '/repo', 'worktree', 'add', '/wt/fix', 'fix'],
+      ['-C', '/repo', 'worktree', 'add', '-b', 'new', '/wt/new'],
+      ['-C', '/repo', 'worktree', 'add', '--track', '-b', 'release', '/wt/release', 'origin/release'],
+    ]);
   });
 
-  it('returns false on error', async () => {
-    execFileSyncMock.mockImplementation(() => { throw new Error('fail'); });
-    const { validateServiceInComposeFile } = await import('../src/lib/docker');
-    expect(validateServiceInComposeFile('/path/to/compose.yml', 'web')).toBe(false);
+  it('addGitWorktreeAsync and removeGitWorktreeAsync reject with the git error', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('Command failed\nfatal: contains modified files'), ''));
+    const { addGitWorktreeAsync, removeGitWorktreeAsync } = await import('../src/lib/docker');
+    await expect(addGitWorktreeAsync('/repo', '/wt/fix', 'fix')).rejects.toThrow('modified files');
+    await expect(removeGitWorktreeAsync('/repo', '/wt/fix')).rejects.toThrow('modified files');
+    expect(execFileMock.mock.calls[1][1]).toEqual(['-C', '/repo', 'worktree', 'remove', '/wt/fix']);
+  });
+
+  it('getGitWorktreeStatusAsync reads dirty state, upstream distance and the last commit', async () => {
+    execFileMock.mockImplementation((_c: string, args: string[], _o: object, cb: ExecCallback) => cb(null, args.includes('status')
+      ? '# branch.oid abc\n# branch.head fix\n# branch.upstream origin/fix\n# branch.ab +2 -1\n1 .M N... 100644 100644 100644 a b src/app.ts\n'
+      : '1760000000\tfix: handle empty\tcarts\n'));
+    const { getGitWorktreeStatusAsync } = await import('../src/lib/docker');
+    await expect(getGitWorktreeStatusAsync('/wt/fix')).resolves.toEqual({
+      dirty: true, ahead: 2, behind: 1, lastCommit: { subject: 'fix: handle empty\tcarts', time: 1760000000 },
+    });
+  });
+
+  it('getGitWorktreeStatusAsync handles a clean branch without upstream or commits', async () => {
+    execFileMock.mockImplementation((_c: string, args: string[], _o: object, cb: ExecCallback) => args.includes('status')
+      ? cb(null, '# branch.oid (initial)\n# branch.head new\n')
+      : cb(new Error("fatal: your current branch 'new' does not have any commits yet"), ''));
+    const { getGitWorktreeStatusAsync } = await import('../src/lib/docker');
+    await expect(getGitWorktreeStatusAsync('/wt/new')).resolves.toEqual({ dirty: false, ahead: null, behind: null, lastCommit: null });
+  });
+
+  it('getGitWorktreeStatusAsync returns null outside a repository', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('fatal: not a git repository'), ''));
+    const { getGitWorktreeStatusAsync } = await import('../src/lib/docker');
+    await expect(getGitWorktreeStatusAsync('/gone')).resolves.toBeNull();
+  });
+
+  it('propagates cancellation instead of returning a fallback', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { listGitWorktreesAsync } = await import('../src/lib/docker');
+    await expect(listGitWorktreesAsync('/tmp', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(execFileMock).not.toHaveBeenCalled();
+  });
+
+  it('parseDependencyGraphAsync records the depends_on conditions', async () => {
+    execFileMock.mockImplementation((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, JSON.stringify({
+      services: {
+        api: { depends_on: { db: { condition: 'service_healthy' }, cache: { condition: 'service_started' } } },
+        worker: { depends_on: ['db'] },
+        db: {},
+        cache: {},
+      },
+    })));
+    const { parseDependencyGraphAsync } = await import('../src/lib/docker');
+    const graph = await parseDependencyGraphAsync('/path/to/compose.yml');
+    expect(graph.dependsOn.get('api')).toEqual(['db', 'cache']);
+    expect(graph.conditions.get('api')).toEqual(new Map([['db', 'service_healthy'], ['cache', 'service_started']]));
+    expect(graph.conditions.has('worker')).toBe(false);
+  });
+
+  it('parseDependencyGraphAsync reads the conditions from the YAML fallback', async () => {
+    const yaml = [
+      'services:',
+      '  api:',
+      '    depends_on:',
+      '      cache:',
+      '        condition: service_started',
+      '      db:',
+      '        condition: service_healthy',
+      '        required: true',
+      '    image: api',
+      '  db:',
+      '    image: postgres',
+      '',
+    ].join('\n');
+    execFileMock
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(new Error('unknown flag: --format'), ''))
+      .mockImplementationOnce((_c: string, _a: string[], _o: object, cb: ExecCallback) => cb(null, yaml));
+    const { parseDependencyGraphAsync } = await import('../src/lib/docker');
+    const graph = await parseDependencyGraphAsync('/path/to/compose.yml');
+    expect(graph.dependsOn.get('api')).toEqual(['cache', 'db']);
+    expect(graph.conditions.get('api')).toEqual(new Map([['cache', 'service_started'], ['db', 'service_healthy']]));
   });
 });
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'http';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import {
+  resolveEngineEndpoint, pingEngine, engineComposeStatuses, parseEngineStats, engineContainerStats,
+  createDemuxer, engineLogs, engineExec, engineEvents,
+} from '../src/lib/engine';
+import type { EngineEndpoint, RebuildEmitter } from '../src/lib/types';
+
+// The HTTP-level functions run against a fake daemon listening on a temp unix socket.
+
+function frame(stream: number, text: string): Buffer {
+  const payload = Buffer.from(text);
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(payload.length, 4);
+  return Buffer.concat([header, payload]);
+}
+
+function collect(emitter: RebuildEmitter): Promise<{ stdout: string; stderr: string; code: number | null }> {
+  return new Promise(resolve => {
+    let stdout = '';
+    let stderr = '';
+    emitter.stdout.on('data', (d: Buffer) => { stdout += d.toString(); });
+    emitter.stderr.on('data', (d: Buffer) => { stderr += d.toString(); });
+    emitter.on('close', (code: number | null) => resolve({ stdout, stderr, code }));
+  });
+}
+
+describe('resolveEngineEndpoint', () => {
+  const origTls = process.env.DOCKER_TLS_VERIFY;
+
+  afterEach(() => {
+    if (origTls === undefined) delete process.env.DOCKER_TLS_VERIFY;
+    else process.env.DOCKER_TLS_VERIFY = origTls;
+  });
+
+  it('defaults to the standard socket', () => {
+    expect(resolveEngineEndpoint('')).toEqual({ socketPath: '/var/run/docker.sock' });
+  });
+
+  it('uses unix:// hosts as a socket path', () => {
+    expect(resolveEngineEndpoint('unix:///run/user/1000/docker.sock')).toEqual({ socketPath: '/run/user/1000/docker.sock' });
+  });
+
+  it('uses plain tcp:// hosts', () => {
+    delete process.env.DOCKER_TLS_VERIFY;
+    expect(resolveEngineEndpoint('tcp://10.0.0.5:2376')).toEqual({ host: '10.0.0.5', port: 2376 });
+  });
+
+  it('returns null for TLS and ssh hosts', () => {
+    process.env.DOCKER_TLS_VERIFY = '1';
+    expect(resolveEngineEndpoint('tcp://10.0.0.5:2376')).toBeNull();
+    expect(resolveEngineEndpoint('ssh://me@box')).toBeNull();
+  });
+});
+
+describe('parseEngineStats', () => {
+  it('computes CPU percent from the delta against the previous sample', () => {
+    const parsed = parseEngineStats('abc', {
+      name: '/web',
+      cpu_stats: { cpu_usage: { total_usage: 300 }, system_cpu_usage: 2000, online_cpus: 4 },
+      precpu_stats: { cpu_usage: { total_usage: 100 }, system_cpu_usage: 1000 },
+      memory_stats: { usage: 1000, stats: { inactive_file: 200 } },
+    });
+    expect(parsed).toEqual({ id: 'abc', name: 'web', cpuPercent: 80, memUsageBytes: 800 });
+  });
+
+  it('falls back to the cgroup v1 cache key and reports idle containers as 0%', () => {
+    const parsed = parseEngineStats('abc', {
+      cpu_stats: { cpu_usage: { total_usage: 300 }, system_cpu_usage: 2000 },
+      precpu_stats: { cpu_usage: { total_usage: 300 }, system_cpu_usage: 1000 },
+      memory_stats: { usage: 1000, stats: { total_inactive_file: 100 } },
+    });
+    expect(parsed.cpuPercent).toBe(0);
+    expect(parsed.memUsageBytes).toBe(900);
+  });
+});
+
+describe('createDemuxer', () => {
+  it('splits multiplexed frames across chunk boundaries', () => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    let out = '';
+    let err = '';
+    stdout.on('data', (d: Buffer) => { out += d.toString(); });
+    stderr.on('data', (d: Buffer) => { err += d.toString(); });
+    const demux = createDemuxer(stdout, stderr);
+    const data = Buffer.concat([frame(1, 'hello\n'), frame(2, 'oops\n'), frame(1, 'bye\n')]);
+    demux(data.subarray(0, 5));
+    demux(data.subarray(5, 20));
+    demux(data.subarray(20));
+    expect(out).toBe('hello\nbye\n');
+    expect(err).toBe('oops\n');
+  });
+
+  it('passes raw TTY output straight through', () => {
+    const stdout = new PassThrough();
+    let out = '';
+    stdout.on('data', (d: Buffer) => { out += d.toString(); });
+    const demux = createDemuxer(stdout, new PassThrough());
+    demux(Buffer.from('plain tty output\n'));
+    demux(Buffer.from('more\n'));
+    expect(out).toBe('plain tty output\nmore\n');
+  });
+});
+
+describe('engine API over a unix socket', () => {
+  let server: http.Server;
+  let tmpDir: string;
+  let endpoint: EngineEndpoint;
+  const requests: Array<{ method: string; url: string; body: string }> = [];
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recomposable-engine-'));
+    endpoint = { socketPath: path.join(tmpDir, 'docker.sock') };
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (d: Buffer) => { body += d.toString(); });
+      req.on('end', () => {
+        const url = req.url || '';
+        requests.push({ method: req.method || '', url, body });
+        const json = (status: number, obj: unknown): void => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(obj));
+        };
+        if (url === '/_ping') {
+          res.end('OK');
+        } else if (url.startsWith('/containers/json')) {
+          const labels = (project: string, service: string, oneoff = 'False') => ({
+            'com.docker.compose.project': project,
+            'com.docker.compose.project.config_files': `/srv/${project}/compose.yml`,
+            'com.docker.compose.project.working_dir': `/srv/${project}`,
+            'com.docker.compose.service': service,
+            'com.docker.compose.oneoff': oneoff,
+          });
+          json(200, [
+            { Id: 'web1', Names: ['/app-web-1'], State: 'running', Labels: labels('app', 'web'), Ports: [
+              { PrivatePort: 80, PublicPort: 8080, Type: 'tcp', IP: '0.0.0.0' },
+              { PrivatePort: 80, PublicPort: 8080, Type: 'tcp', IP: '::' },
+            ] },
+            { Id: 'run1', Names: ['/app-web-run'], State: 'running', Labels: labels('app', 'web', 'True') },
+            { Id: 'db1', Names: ['/other-db-1'], State: 'exited', Labels: labels('other', 'db') },
+          ]);
+        } else if (url === '/containers/web1/json') {
+          json(200, {
+            Id: 'web1', Created: '2026-01-01T00:00:00Z',
+            State: { Status: 'running', StartedAt: '2026-01-01T00:00:05Z', Health: { Status: 'healthy' } },
+            Config: { Labels: { 'com.docker.compose.service': 'web', 'com.docker.compose.project.working_dir': '/srv/app' } },
+          });
+        } else if (url.startsWith('/containers/web1/stats')) {
+          json(200, {
+            name: '/app-web-1',
+            cpu_stats: { cpu_usage: { total_usage: 200 }, system_cpu_usage: 2000, online_cpus: 2 },
+            precpu_stats: { cpu_usage: { total_usage: 100 }, system_cpu_usage: 1000 },
+            memory_stats: { usage: 4096, stats: { inactive_file: 1024 } },
+          });
+        } else if (url.startsWith('/containers/web1/logs')) {
+          res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+          res.end(Buffer.concat([frame(1, 'line one\n'), frame(2, 'warn two\n')]));
+        } else if (url === '/containers/web1/exec') {
+          json(201, { Id: 'exec1' });
+        } else if (url === '/exec/exec1/start') {
+          res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+          res.end(frame(1, '/app\n'));
+        } else if (url === '/exec/exec1/json') {
+          json(200, { ExitCode: 3 });
+        } else if (url === '/containers/web2/exec') {
+          json(201, { Id: 'gone' });
+        } else if (url === '/exec/gone/start') {
+          res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+          res.end();
+        } else if (url.startsWith('/events')) {
+          json(500, { message: 'events unavailable' });
+        } else {
+          json(404, { message: 'No such container: missing' });
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(endpoint.socketPath, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('pings the daemon', async () => {
+    expect(await pingEngine(endpoint)).toBe(true);
+    expect(await pingEngine({ socketPath: path.join(tmpDir, 'nope.sock') })).toBe(false);
+  });
+
+  it('builds compose statuses for the matching project only', async () => {
+    const statuses = await engineComposeStatuses(endpoint, 'app');
+    expect([...statuses.keys()]).toEqual(['web']);
+    expect(statuses.get('web')).toEqual({
+      state: 'running',
+      health: 'healthy',
+      createdAt: '2026-01-01T00:00:00Z',
+      startedAt: '2026-01-01T00:00:05Z',
+      id: 'web1',
+      ports: [{ published: 8080, target: 80 }],
+      workingDir: '/srv/app',
+      worktree: null,
+    });
+  });
+
+  it('fetches one-shot container stats', async () => {
+    const stats = await engineContainerStats(endpoint, 'web1');
+    expect(stats).toEqual({ id: 'web1', name: 'app-web-1', cpuPercent: 20, memUsageBytes: 3072 });
+    expect(requests.some(r => r.url === '/containers/web1/stats?stream=false')).toBe(true);
+  });
+
+  it('rejects with the daemon message on errors', async () => {
+    await expect(engineContainerStats(endpoint, 'missing')).rejects.toThrow('No such container: missing');
+  });
+
+  it('streams demultiplexed logs', async () => {
+    const result = await collect(engineLogs(endpoint, 'web1', { follow: false, tail: 5 }));
+    expect(result).toEqual({ stdout: 'line one\n', stderr: 'warn two\n', code: 0 });
+    expect(requests.some(r => r.url === '/containers/web1/logs?stdout=1&stderr=1&follow=0&tail=5')).toBe(true);
+  });
+
+  it('runs exec and reports the exit code', async () => {
+    const result = await collect(engineExec(endpoint, 'web1', ['sh', '-c', 'pwd'], '/app'));
+    expect(result.stdout).toBe('/app\n');
+    expect(result.code).toBe(3);
+    const create = requests.find(r => r.url === '/containers/web1/exec')!;
+    expect(JSON.parse(create.body)).toMatchObject({ Cmd: ['sh', '-c', 'pwd'], WorkingDir: '/app' });
+  });
+
+  it('fails exec when its exit code cannot be read', async () => {
+    const result = await collect(engineExec(endpoint, 'web2', ['true']));
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('No such container: missing');
+  });
+
+  it('fails the event stream when the daemon refuses it', async () => {
+    const result = await collect(engineEvents(endpoint));
+    expect(result.code).toBe(1);
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toContain('events unavailable');
+  });
+
+  it('aborts in-flight requests', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(engineComposeStatuses(endpoint, 'app', { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseFilter, matchesFilter } from '../src/lib/filter';
+import type { FilterSubject } from '../src/lib/types';
+
+function subject(overrides: Partial<FilterSubject> = {}): FilterSubject {
+  return {
+    service: 'auth-service',
+    state: 'running',
+    health: 'healthy',
+    worktree: 'main',
+    group: 'services',
+    metrics: new Map([['err', 0], ['wrn', 3], ['cpu', 12.5], ['mem', 300]]),
+    ...overrides,
+  };
+}
+
+describe('parseFilter', () => {
+  it('splits fields, comparisons and free text', () => {
+    expect(parseFilter('State:Exited auth err>0 svc mem<=512')).toEqual({
+      text: 'auth svc',
+      fields: [{ field: 'state', value: 'exited' }],
+      comparisons: [{ metric: 'err', op: '>', value: 0 }, { metric: 'mem', op: '<=', value: 512 }],
+    });
+  });
+
+  it('treats unknown fields and empty values as text', () => {
+    expect(parseFilter('image:nginx state:').text).toBe('image:nginx state:');
+  });
+});
+
+describe('matchesFilter', () => {
+  it('fuzzy-matches the service name', () => {
+    expect(matchesFilter(parseFilter('ausv'), subject())).toBe(true);
+    expect(matchesFilter(parseFilter('gateway'), subject())).toBe(false);
+  });
+
+  it('matches state and health by prefix, worktree and group by substring', () => {
+    expect(matchesFilter(parseFilter('state:run health:health'), subject())).toBe(true);
+    expect(matchesFilter(parseFilter('health:unhealthy'), subject())).toBe(false);
+    expect(matchesFilter(parseFilter('worktree:feature-x'), subject({ worktree: 'feature-x-login' }))).toBe(true);
+    expect(matchesFilter(parseFilter('group:serv'), subject())).toBe(true);
+    expect(matchesFilter(parseFilter('group:infra'), subject())).toBe(false);
+  });
+
+  it('compares metrics', () => {
+    expect(matchesFilter(parseFilter('wrn>0'), subject())).toBe(true);
+    expect(matchesFilter(parseFilter('err>0'), subject())).toBe(false);
+    expect(matchesFilter(parseFilter('err=0 cpu>=12.5'), subject())).toBe(true);
+  });
+
+  it('matches nothing on a metric the service does not have', () => {
+    expect(matchesFilter(parseFilter('cpu<50'), subject({ metrics: new Map() }))).toBe(false);
+    expect(matchesFilter(parseFilter('fatal>0'), subject())).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyMatch } from '../src/lib/fuzzy';
+
+describe('fuzzyMatch', () => {
+  it('matches characters in order, case-insensitively', () => {
+    expect(fuzzyMatch('RBapi', 'rebuild api-gateway')).not.toBeNull();
+    expect(fuzzyMatch('ipa', 'api')).toBeNull();
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(fuzzyMatch('', 'stop redis')).toEqual({ score: 0, positions: [] });
+    expect(fuzzyMatch('   ', 'stop redis')).toEqual({ score: 0, positions: [] });
+  });
+
+  it('requires every whitespace-separated term to match', () => {
+    expect(fuzzyMatch('stop red', 'stop redis')!.positions).toEqual([0, 1, 2, 3, 5, 6, 7]);
+    expect(fuzzyMatch('stop pg', 'stop redis')).toBeNull();
+  });
+
+  it('prefers the tightest run over the first occurrence', () => {
+    expect(fuzzyMatch('api', 'rapid api')!.positions).toEqual([6, 7, 8]);
+  });
+
+  it('scores word starts and consecutive runs above scattered matches', () => {
+    const start = fuzzyMatch('auth', 'restart auth-service')!.score;
+    const scattered = fuzzyMatch('auth', 'restart abutment-house')!.score;
+    expect(start).toBeGreaterThan(scattered);
+    expect(fuzzyMatch('us', 'go to user-service')!.score).toBeGreaterThan(fuzzyMatch('us', 'go to auth-service')!.score);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createTestState } from './helpers';
+import { graphRows } from '../src/lib/graph';
+import type { AppState } from '../src/lib/types';
+
+const infra = '/path/to/infra/docker-compose.yml';
+const services = '/path/to/services/docker-compose.yml';
+
+function graphState(): AppState {
+  const state = createTestState();
+  // api-gateway -> auth-service, user-service; auth-service -> user-service
+  state.depGraphs.set(services, {
+    dependsOn: new Map([['api-gateway', ['auth-service', 'user-service']], ['auth-service', ['user-service']], ['user-service', []]]),
+    dependedBy: new Map([['auth-service', ['api-gateway']], ['user-service', ['api-gateway', 'auth-service']]]),
+    conditions: new Map([['api-gateway', new Map([['user-service', 'service_healthy']])]]),
+  });
+  return state;
+}
+
+function draw(state: AppState): string[] {
+  return graphRows(state).map(r => `${r.prefix}${r.service}${r.condition ? ` ${r.condition}` : ''}${r.repeated ? ' *' : ''}`);
+}
+
+describe('graphRows', () => {
+  it('draws each group as trees from the services nothing depends on', () => {
+    expect(draw(graphState())).toEqual([
+      'postgres',
+      'redis',
+      'api-gateway',
+      '├─ auth-service',
+      '│  └─ user-service',
+      '└─ user-service service_healthy *',
+    ]);
+  });
+
+  it('tags rows with their group and compose file', () => {
+    const rows = graphRows(graphState());
+    expect(rows[0]).toMatchObject({ groupIdx: 0, file: infra, service: 'postgres' });
+    expect(rows[4]).toMatchObject({ groupIdx: 1, file: services, service: 'user-service', repeated: false });
+  });
+
+  it('cuts dependency cycles where they close', () => {
+    const state = createTestState();
+    state.groups[1].services = ['auth-service', 'user-service'];
+    state.depGraphs.set(services, {
+      dependsOn: new Map([['auth-service', ['user-service']], ['user-service', ['auth-service']]]),
+      dependedBy: new Map([['auth-service', ['user-service']], ['user-service', ['auth-service']]]),
+      conditions: new Map(),
+    });
+    expect(draw(state).slice(2)).toEqual([
+      'auth-service',
+      '└─ user-service',
+      '   └─ auth-service *',
+    ]);
+  });
+
+  it('skips groups that failed to load', () => {
+    const state = graphState();
+    state.groups[0].error = 'invalid compose file';
+    expect(graphRows(state).every(r => r.groupIdx === 1)).toBe(true);
+  });
+});
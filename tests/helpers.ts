@@ -1,4 +1,5 @@
 import { createState, buildFlatList, statusKey } from '../src/lib/state';
+import { DEFAULT_COLUMNS } from '../src/lib/renderer';
 import type { Config, AppState, ServiceGroup, ContainerStatus, Killable } from '../src/lib/types';
 
 export function createTestConfig(overrides: Partial<Config> = {}): Config {
@@ -16,6 +17,17 @@ export function createTestConfig(overrides: Partial<Config> = {}): Config {
     cpuDangerThreshold: 100,
     memWarnThreshold: 512,
     memDangerThreshold: 1024,
+    reconcileInterval: 30000,
+    dockerConcurrency: 4,
+    bulkConcurrency: 2,
+  cascadeConcurrency: 4,
+  healthGateTimeout: 120000,
+    backend: 'cli',
+    runtime: 'auto',
+    profiles: [],
+    columns: DEFAULT_COLUMNS,
+    worktreeDir: null,
+    worktreeIsolation: 'directory',
     ...overrides,
   };
 }
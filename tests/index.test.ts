@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createTestState, createTestConfig, createMockKillable } from './helpers';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestState, createTestConfig, createMockKillable, createMockStatus } from './helpers';
 import { createState, statusKey, buildFlatList, moveCursor, selectedEntry, MODE } from '../src/lib/state';
 import type { AppState, Config } from '../src/lib/types';
 
@@ -15,27 +18,55 @@ const mockChildProcess = () => ({
 });
 
 vi.mock('../src/lib/docker', () => ({
-  listServices: vi.fn(),
-  getStatuses: vi.fn(() => new Map()),
+  listServicesAsync: vi.fn(async () => []),
+  getStatusesAsync: vi.fn(async () => new Map()),
   rebuildService: vi.fn(() => mockChildProcess()),
   restartService: vi.fn(() => mockChildProcess()),
   stopService: vi.fn(() => mockChildProcess()),
   startService: vi.fn(() => mockChildProcess()),
   tailLogs: vi.fn(() => mockChildProcess()),
   fetchServiceLogs: vi.fn(() => mockChildProcess()),
-  getContainerId: vi.fn(() => null),
+  getContainerIdAsync: vi.fn(async () => null),
   tailContainerLogs: vi.fn(() => mockChildProcess()),
   fetchContainerLogs: vi.fn(() => mockChildProcess()),
-  fetchContainerStats: vi.fn(() => mockChildProcess()),
-  parseStatsLine: vi.fn(),
+  fetchContainerStatsAsync: vi.fn(async () => []),
   parseMemString: vi.fn(),
-  isWatchAvailable: vi.fn(() => true),
+  isWatchAvailableAsync: vi.fn(async () => true),
   watchService: vi.fn(() => mockChildProcess()),
-  parseDependencyGraph: vi.fn(() => ({ dependsOn: new Map(), dependedBy: new Map() })),
+  parseDependencyGraphAsync: vi.fn(async () => ({ dependsOn: new Map(), dependedBy: new Map(), conditions: new Map() })),
   execInContainer: vi.fn(() => mockChildProcess()),
-  getGitRoot: vi.fn(() => '/mock/git/root'),
-  listGitWorktrees: vi.fn(() => []),
-  validateServiceInComposeFile: vi.fn(() => true),
+  getGitRootAsync: vi.fn(async () => '/mock/git/root'),
+  resolveGitWorktreeAsync: vi.fn(async () => null),
+  listGitWorktreesAsync: vi.fn(async () => []),
+  listGitBranchesAsync: vi.fn(async () => ({ local: [], remote: [] })),
+  addGitWorktreeAsync: vi.fn(async () => undefined),
+  removeGitWorktreeAsync: vi.fn(async () => undefined),
+  getGitWorktreeStatusAsync: vi.fn(async () => null),
+  validateServiceInComposeFileAsync: vi.fn(async () => true),
+  scaleService: vi.fn(() => mockChildProcess()),
+  upServices: vi.fn(() => mockChildProcess()),
+  listServiceProfilesAsync: vi.fn(async () => new Map()),
+  useProfiles: vi.fn(),
+  registerComposeProject: vi.fn(),
+  composeProjectFor: vi.fn(() => null),
+  getServiceEnvironmentAsync: vi.fn(async () => []),
+  getServiceDefinitionAsync: vi.fn(async () => ({})),
+  getComposeConfigAsync: vi.fn(async () => ({})),
+  getServicePortsAsync: vi.fn(async () => []),
+  setExecConcurrency: vi.fn(),
+  composeProjectName: vi.fn((file: string) => file.split('/').slice(-2, -1)[0]),
+  streamContainerEvents: vi.fn(() => mockChildProcess()),
+  parseContainerEvent: vi.fn(),
+  useEngineApi: vi.fn(),
+  useRuntime: vi.fn(),
+  detectRuntimeAsync: vi.fn(async () => 'docker'),
+}));
+
+// Keep tests from writing .recomposable/ into the working directory
+vi.mock('../src/lib/session', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../src/lib/session')>(),
+  loadSession: vi.fn(() => ({})),
+  saveSession: vi.fn(),
 }));
 
 // Mock process.stdout.write to avoid terminal output during tests
@@ -178,6 +209,145 @@ describe('loadConfig validation', () => {
     readFileSyncSpy.mockRestore();
   });
 
+  it('accepts only known backend values', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], backend: 'api' }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], backend: 'grpc' }));
+
+    expect(loadConfig().backend).toBe('api');
+    expect(loadConfig().backend).toBe('cli');
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('accepts only known runtime values', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], runtime: 'podman' }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], runtime: 'lxc' }));
+
+    expect(loadConfig().runtime).toBe('podman');
+    expect(loadConfig().runtime).toBe('auto');
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('accepts profiles as a list of names', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], profiles: ['debug', 'tools'] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], profiles: 'debug' }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], profiles: ['debug', ''] }));
+
+    expect(loadConfig().profiles).toEqual(['debug', 'tools']);
+    expect(loadConfig().profiles).toEqual([]);
+    expect(loadConfig().profiles).toEqual([]);
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('accepts columns as ids or { id, width } and rejects invalid lists', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], columns: [{ id: 'service', width: 40 }, 'status', 'stats'] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], columns: ['status', 'ports'] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], columns: ['service', 'service'] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], columns: ['service', { id: 'ports', width: 0 }] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], columns: ['service', 'image'] }));
+
+    expect(loadConfig().columns).toEqual([{ id: 'service', width: 40 }, { id: 'status', width: 22 }, { id: 'stats', width: 16 }]);
+    for (let i = 0; i < 4; i++) expect(loadConfig().columns.map(c => c.id)).toHaveLength(9);
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('accepts the worktreeIsolation modes only', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], worktreeIsolation: 'branch' }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], worktreeIsolation: 'isolated' }));
+
+    expect(loadConfig().worktreeIsolation).toBe('branch');
+    expect(loadConfig().worktreeIsolation).toBe('directory');
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('resolves worktreeDir against the working directory', async () => {
+    const fs = await import('fs');
+    const path = await import('path');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], worktreeDir: '../trees' }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['test.yml'], worktreeDir: '' }));
+
+    expect(loadConfig().worktreeDir).toBe(path.resolve('../trees'));
+    expect(loadConfig().worktreeDir).toBeNull();
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('accepts multi-file groups with a project name and env file', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: [
+        'infra.yml',
+        ['docker-compose.yml', 'docker-compose.override.yml'],
+        { files: ['app.yml', 'app.dev.yml'], projectName: 'app-dev', envFile: '.env.dev' },
+      ] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: [{ files: ['app.yml'], projectName: 'Not Valid' }] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: ['infra.yml', []] }));
+
+    expect(loadConfig().composeFiles).toEqual([
+      'infra.yml',
+      { files: ['docker-compose.yml', 'docker-compose.override.yml'] },
+      { files: ['app.yml', 'app.dev.yml'], projectName: 'app-dev', envFile: '.env.dev' },
+    ]);
+    // Invalid entries leave composeFiles empty, so loadConfig bails out
+    processExit.mockClear();
+    loadConfig();
+    expect(processExit).toHaveBeenCalledWith(1);
+    processExit.mockClear();
+    loadConfig();
+    expect(processExit).toHaveBeenCalledWith(1);
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
+  it('validates envFiles and environment of a group', async () => {
+    const fs = await import('fs');
+    const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
+    const readFileSyncSpy = vi.spyOn(fs.default, 'readFileSync')
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: [{ files: ['app.yml'], envFiles: ['.env', '.env.local'], environment: { TAG: 'dev', REPLICAS: 2 } }] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: [{ files: ['app.yml'], environment: { 'BAD-KEY': 'x' } }] }))
+      .mockReturnValueOnce(JSON.stringify({ composeFiles: [{ files: ['app.yml'], envFiles: '.env' }] }));
+
+    expect(loadConfig().composeFiles).toEqual([
+      { files: ['app.yml'], envFiles: ['.env', '.env.local'], environment: { TAG: 'dev', REPLICAS: '2' } },
+    ]);
+    processExit.mockClear();
+    loadConfig();
+    loadConfig();
+    expect(processExit).toHaveBeenCalledTimes(2);
+
+    existsSyncSpy.mockRestore();
+    readFileSyncSpy.mockRestore();
+  });
+
   it('rejects __proto__ and non-object config', async () => {
     const fs = await import('fs');
     const existsSyncSpy = vi.spyOn(fs.default, 'existsSync').mockReturnValue(true);
@@ -526,7 +696,7 @@ describe('enterLogs - build log detection', () => {
   it('populates logLines from build output when service is cascading', () => {
     const state = createTestState();
     const sk = statusKey(state.groups[0].file, 'postgres');
-    state.cascading.set(sk, { steps: [], currentStepIdx: 0, child: null });
+    state.cascading.set(sk, { direction: 'dependents', steps: [], level: 0, children: new Map() });
     state.bottomLogLines.set(sk, {
       action: 'cascading',
       service: 'postgres',
@@ -975,7 +1145,7 @@ describe('throttledRender', () => {
 });
 
 describe('discoverServices', () => {
-  let discoverServices: (config: Config) => any[];
+  let discoverServices: (config: Config) => Promise<any[]>;
 
   beforeEach(async () => {
     const mod = await import('../src/index');
@@ -983,22 +1153,52 @@ describe('discoverServices', () => {
   });
 
   it('calls listServices for each compose file', async () => {
-    const { listServices } = await import('../src/lib/docker');
-    (listServices as any).mockReturnValue(['web', 'api']);
+    const { listServicesAsync } = await import('../src/lib/docker');
+    (listServicesAsync as any).mockResolvedValue(['web', 'api']);
 
     const config = createTestConfig({ composeFiles: ['/a.yml'] });
-    const groups = discoverServices(config);
+    const groups = await discoverServices(config);
     expect(groups).toHaveLength(1);
     expect(groups[0].services).toEqual(['web', 'api']);
     expect(groups[0].error).toBeNull();
   });
 
+  it('lists services behind inactive profiles last, grouped by profile', async () => {
+    const { listServicesAsync, listServiceProfilesAsync } = await import('../src/lib/docker');
+    (listServicesAsync as any).mockResolvedValue(['web', 'adminer']);
+    (listServiceProfilesAsync as any).mockResolvedValueOnce(new Map([
+      ['seed', ['tools']], ['adminer', ['debug']], ['mailhog', ['debug']],
+    ]));
+
+    const groups = await discoverServices(createTestConfig({ composeFiles: ['/a.yml'] }));
+    expect(groups[0].services).toEqual(['web', 'adminer', 'mailhog', 'seed']);
+    expect(groups[0].profiles.get('seed')).toEqual(['tools']);
+  });
+
+  it('registers multi-file groups under their primary file', async () => {
+    const docker = await import('../src/lib/docker');
+    (docker.listServicesAsync as any).mockResolvedValue(['web']);
+    (docker.registerComposeProject as any).mockClear();
+
+    const groups = await discoverServices(createTestConfig({ composeFiles: [
+      { files: ['/srv/app/docker-compose.yml', '/srv/app/docker-compose.override.yml'], envFile: '/srv/app/.env', envFiles: ['/srv/app/.env.local'], environment: { TAG: 'dev' } },
+    ] }));
+    const project = {
+      files: ['/srv/app/docker-compose.yml', '/srv/app/docker-compose.override.yml'], projectName: null, projectDirectory: null,
+      envFiles: ['/srv/app/.env', '/srv/app/.env.local'], environment: { TAG: 'dev' },
+    };
+    expect(docker.registerComposeProject).toHaveBeenCalledWith(project);
+    expect(groups[0].file).toBe('/srv/app/docker-compose.yml');
+    expect(groups[0].project).toEqual(project);
+    expect(groups[0].label).toBe('docker-compose.yml');
+  });
+
   it('captures errors in group.error', async () => {
-    const { listServices } = await import('../src/lib/docker');
-    (listServices as any).mockImplementation(() => { throw new Error('docker not found'); });
+    const { listServicesAsync } = await import('../src/lib/docker');
+    (listServicesAsync as any).mockRejectedValue(new Error('docker not found'));
 
     const config = createTestConfig({ composeFiles: ['/a.yml'] });
-    const groups = discoverServices(config);
+    const groups = await discoverServices(config);
     expect(groups[0].error).toBe('docker not found');
     expect(groups[0].services).toEqual([]);
   });
@@ -1012,12 +1212,13 @@ describe('handleKeypress - watch keybinding', () => {
     handleKeypress = mod.handleKeypress;
   });
 
-  it('w activates watch on running service', () => {
+  it('w activates watch on running service once the probe answers', async () => {
     const state = createTestState();
     // w should call doWatch which interacts with docker
     handleKeypress(state, 'w');
     // Watch was initiated (watching map should have an entry)
-    expect(state.watching.size).toBe(1);
+    await vi.waitFor(() => expect(state.watching.size).toBe(1));
+    expect(state.watchAvailable).toBe(true);
   });
 
   it('w toggles watch off when already watching', () => {
@@ -1175,11 +1376,11 @@ describe('handleKeypress - dep rebuild keybinding', () => {
     handleKeypress = mod.handleKeypress;
   });
 
-  it('d falls back to regular rebuild when no dependents', () => {
+  it('d falls back to regular rebuild when no dependents', async () => {
     const state = createTestState();
     // depGraphs is empty, so doCascadeRebuild falls back to doRebuild
     handleKeypress(state, 'd');
-    expect(state.rebuilding.size).toBe(1);
+    await vi.waitFor(() => expect(state.rebuilding.size).toBe(1));
   });
 });
 
@@ -1204,11 +1405,13 @@ describe('cleanup - new features', () => {
     const state = createTestState();
     const kill = vi.fn();
     state.cascading.set('a', {
+      direction: 'dependents',
       steps: [],
-      currentStepIdx: 0,
-      child: { kill } as any,
+      level: 1,
+      children: new Map([['b', { kill } as any], ['c', { kill } as any]]),
     });
     cleanup(state);
+    expect(kill).toHaveBeenCalledTimes(2);
     expect(kill).toHaveBeenCalledWith('SIGTERM');
     expect(state.cascading.size).toBe(0);
   });
@@ -1270,43 +1473,82 @@ describe('handleKeypress - worktree picker', () => {
     const mod = await import('../src/index');
     handleKeypress = mod.handleKeypress;
     const docker = await import('../src/lib/docker');
-    listGitWorktreesMock = docker.listGitWorktrees as ReturnType<typeof vi.fn>;
+    listGitWorktreesMock = docker.listGitWorktreesAsync as ReturnType<typeof vi.fn>;
   });
 
-  it('t opens worktree picker when worktrees exist', () => {
+  it('t opens worktree picker when worktrees exist', async () => {
     const state = createTestState();
-    listGitWorktreesMock.mockReturnValue([
+    listGitWorktreesMock.mockResolvedValue([
       { path: '/path/to/main', branch: 'main' },
       { path: '/path/to/fix', branch: 'fix-bug' },
     ]);
     handleKeypress(state, 't');
-    expect(state.worktreePickerActive).toBe(true);
+    await vi.waitFor(() => expect(state.worktreePickerActive).toBe(true));
     expect(state.worktreePickerEntries).toHaveLength(2);
   });
 
-  it('t shows message when only one worktree', () => {
+  it('t offers a new worktree when there is only one', async () => {
     const state = createTestState();
-    listGitWorktreesMock.mockReturnValue([
-      { path: '/path/to/main', branch: 'main' },
+    listGitWorktreesMock.mockResolvedValue([
+      { path: '/mock/git/root', branch: 'main' },
     ]);
     handleKeypress(state, 't');
-    expect(state.worktreePickerActive).toBe(false);
+    await vi.waitFor(() => expect(state.worktreePickerActive).toBe(true));
+    // The cursor is on the "new worktree from branch" row
+    expect(state.worktreePickerCursor).toBe(1);
+    expect(state.worktreePickerMessage).toContain('no other worktrees');
+  });
+
+  it('t loads git status and compares compose files per worktree', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recomposable-picker-'));
+    for (const [wt, content] of [['main', 'services: {}\n'], ['same', 'services: {}\n'], ['fix', 'services: { redis: {} }\n']]) {
+      fs.mkdirSync(path.join(tmpDir, wt, 'infra'), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, wt, 'infra', 'docker-compose.yml'), content);
+    }
+    fs.mkdirSync(path.join(tmpDir, 'bare'));
+    const docker = await import('../src/lib/docker');
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockResolvedValue('/path/to');
+    (docker.getGitWorktreeStatusAsync as ReturnType<typeof vi.fn>).mockImplementation(async (p: string) =>
+      p.endsWith('fix') ? { dirty: true, ahead: 1, behind: 0, lastCommit: { subject: 'wip', time: 1760000000 } } : null);
+    try {
+      const state = createTestState();
+      const entry = state.flatList[state.cursor];
+      state.worktreeOverrides.set(statusKey(entry.file, entry.service), path.join(tmpDir, 'main', 'infra', 'docker-compose.yml'));
+      listGitWorktreesMock.mockResolvedValue(['main', 'same', 'fix', 'bare'].map(b => ({ path: path.join(tmpDir, b), branch: b })));
+      handleKeypress(state, 't');
+      await vi.waitFor(() => expect(state.worktreePickerEntries.filter(w => 'composeChanged' in w)).toHaveLength(4));
+      expect(state.worktreePickerEntries.map(w => w.composeChanged)).toEqual([false, false, true, true]);
+      expect(state.worktreePickerEntries[2]).toMatchObject({ dirty: true, ahead: 1, lastCommit: { subject: 'wip' } });
+      expect(state.worktreePickerEntries[0].dirty).toBeUndefined();
+    } finally {
+      (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockResolvedValue('/mock/git/root');
+      (docker.getGitWorktreeStatusAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => null);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('t shows message outside a git repository', async () => {
+    const state = createTestState();
+    listGitWorktreesMock.mockResolvedValue([]);
+    handleKeypress(state, 't');
     const sk = statusKey(state.flatList[state.cursor].file, state.flatList[state.cursor].service);
+    await vi.waitFor(() => expect(state.bottomLogLines.get(sk)).toBeDefined());
+    expect(state.worktreePickerActive).toBe(false);
     const info = state.bottomLogLines.get(sk);
-    expect(info).toBeDefined();
     expect(info!.action).toBe('switch_failed');
   });
 
-  it('t does nothing when service is rebuilding', () => {
+  it('t does nothing when service is rebuilding', async () => {
     const state = createTestState();
     const entry = state.flatList[state.cursor];
     const sk = statusKey(entry.file, entry.service);
     state.rebuilding.set(sk, createMockKillable());
-    listGitWorktreesMock.mockReturnValue([
+    listGitWorktreesMock.mockResolvedValue([
       { path: '/path/to/main', branch: 'main' },
       { path: '/path/to/fix', branch: 'fix-bug' },
     ]);
     handleKeypress(state, 't');
+    await Promise.resolve();
     expect(state.worktreePickerActive).toBe(false);
   });
 
@@ -1356,9 +1598,10 @@ describe('handleKeypress - worktree picker', () => {
       { path: '/a', branch: 'main' },
       { path: '/b', branch: 'fix' },
     ];
-    state.worktreePickerCursor = 1;
+    state.worktreePickerCursor = 2;
     handleKeypress(state, 'j');
-    expect(state.worktreePickerCursor).toBe(1);
+    // Stops on the "new worktree from branch" row after the worktrees
+    expect(state.worktreePickerCursor).toBe(2);
   });
 
   it('k clamps at start of list', () => {
@@ -1372,7 +1615,7 @@ describe('handleKeypress - worktree picker', () => {
     expect(state.worktreePickerCursor).toBe(0);
   });
 
-  it('G jumps to last entry', () => {
+  it('G jumps to the new worktree row', () => {
     const state = createTestState();
     state.worktreePickerActive = true;
     state.worktreePickerEntries = [
@@ -1382,7 +1625,7 @@ describe('handleKeypress - worktree picker', () => {
     ];
     state.worktreePickerCursor = 0;
     handleKeypress(state, 'G');
-    expect(state.worktreePickerCursor).toBe(2);
+    expect(state.worktreePickerCursor).toBe(3);
   });
 
   it('picker does not pass keys to list mode', () => {
@@ -1399,25 +1642,53 @@ describe('handleKeypress - worktree picker', () => {
 });
 
 describe('mapComposeFileToWorktree', () => {
-  let mapComposeFileToWorktree: (composeFile: string, targetPath: string) => string | null;
+  let mapComposeFileToWorktree: (composeFile: string, targetPath: string) => Promise<string | null>;
   let getGitRootMock: ReturnType<typeof vi.fn>;
 
   beforeEach(async () => {
     const mod = await import('../src/index');
     mapComposeFileToWorktree = mod.mapComposeFileToWorktree;
     const docker = await import('../src/lib/docker');
-    getGitRootMock = docker.getGitRoot as ReturnType<typeof vi.fn>;
+    getGitRootMock = docker.getGitRootAsync as ReturnType<typeof vi.fn>;
+  });
+
+  it('returns null when getGitRootAsync returns null', async () => {
+    getGitRootMock.mockResolvedValue(null);
+    expect(await mapComposeFileToWorktree('/some/file.yml', '/target')).toBeNull();
   });
 
-  it('returns null when getGitRoot returns null', () => {
-    getGitRootMock.mockReturnValue(null);
-    expect(mapComposeFileToWorktree('/some/file.yml', '/target')).toBeNull();
+  it('returns null when target file does not exist', async () => {
+    getGitRootMock.mockResolvedValue('/git/root');
+    // fs.promises.access will reject for non-existent files
+    expect(await mapComposeFileToWorktree('/git/root/services/docker-compose.yml', '/target/worktree')).toBeNull();
   });
+});
+
+describe('mapComposeProjectToWorktree', () => {
+  it('maps every file and keeps env files outside the repository', async () => {
+    const { mapComposeProjectToWorktree } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async (dir: string) => dir.startsWith('/git/root') ? '/git/root' : null);
+    const fs = await import('fs');
+    const accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+
+    expect(await mapComposeProjectToWorktree({
+      files: ['/git/root/compose.yml', '/git/root/ops/compose.override.yml'], projectName: 'shop', projectDirectory: null,
+      envFiles: ['/secrets/.env', '/git/root/.env'], environment: { TAG: 'dev' },
+    }, '/wt/feature')).toEqual({
+      files: ['/wt/feature/compose.yml', '/wt/feature/ops/compose.override.yml'], projectName: 'shop', projectDirectory: null,
+      envFiles: ['/secrets/.env', '/wt/feature/.env'], environment: { TAG: 'dev' },
+    });
+
+    accessSpy.mockImplementation(async (p: unknown) => {
+      if (String(p).includes('override')) throw new Error('ENOENT');
+    });
+    expect(await mapComposeProjectToWorktree({
+      files: ['/git/root/compose.yml', '/git/root/ops/compose.override.yml'], projectName: null, projectDirectory: null, envFiles: [], environment: {},
+    }, '/wt/feature')).toBeNull();
 
-  it('returns null when target file does not exist', () => {
-    getGitRootMock.mockReturnValue('/git/root');
-    // fs.accessSync will throw for non-existent files
-    expect(mapComposeFileToWorktree('/git/root/services/docker-compose.yml', '/target/worktree')).toBeNull();
+    accessSpy.mockRestore();
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
   });
 });
 
@@ -1446,7 +1717,7 @@ describe('createInputHandler - worktree picker guard', () => {
 });
 
 describe('doWorktreeSwitch - groups not modified', () => {
-  let doWorktreeSwitch: (state: AppState, target: import('../src/lib/types').GitWorktree) => void;
+  let doWorktreeSwitch: (state: AppState, target: import('../src/lib/types').GitWorktree) => Promise<void>;
   let validateMock: ReturnType<typeof vi.fn>;
   let getGitRootMock: ReturnType<typeof vi.fn>;
   let mapMock: (composeFile: string, targetPath: string) => string | null;
@@ -1455,63 +1726,1759 @@ describe('doWorktreeSwitch - groups not modified', () => {
     const mod = await import('../src/index');
     doWorktreeSwitch = mod.doWorktreeSwitch;
     const docker = await import('../src/lib/docker');
-    validateMock = docker.validateServiceInComposeFile as ReturnType<typeof vi.fn>;
-    getGitRootMock = docker.getGitRoot as ReturnType<typeof vi.fn>;
+    validateMock = docker.validateServiceInComposeFileAsync as ReturnType<typeof vi.fn>;
+    getGitRootMock = docker.getGitRootAsync as ReturnType<typeof vi.fn>;
   });
 
-  it('does not modify groups when switching worktree', () => {
+  it('does not modify groups when switching worktree', async () => {
     const state = createTestState();
     const originalGroups = JSON.stringify(state.groups.map(g => ({ file: g.file, label: g.label, services: [...g.services] })));
-    getGitRootMock.mockReturnValue('/mock/git/root');
-    validateMock.mockReturnValue(true);
+    getGitRootMock.mockResolvedValue('/mock/git/root');
+    validateMock.mockResolvedValue(true);
 
     // doWorktreeSwitch will fail at mapComposeFileToWorktree (file not found)
     // but that's ok — we just verify groups aren't touched
-    doWorktreeSwitch(state, { path: '/nonexistent', branch: 'fix-bug' });
+    await doWorktreeSwitch(state, { path: '/nonexistent', branch: 'fix-bug' });
     const afterGroups = JSON.stringify(state.groups.map(g => ({ file: g.file, label: g.label, services: [...g.services] })));
     expect(afterGroups).toBe(originalGroups);
   });
 
-  it('sets worktreeOverrides on switch_failed (file not found)', () => {
+  it('sets worktreeOverrides on switch_failed (file not found)', async () => {
     const state = createTestState();
-    getGitRootMock.mockReturnValue('/mock/git/root');
-    doWorktreeSwitch(state, { path: '/nonexistent', branch: 'fix-bug' });
+    getGitRootMock.mockResolvedValue('/mock/git/root');
+    await doWorktreeSwitch(state, { path: '/nonexistent', branch: 'fix-bug' });
     // Override should NOT be set on failure
     expect(state.worktreeOverrides.size).toBe(0);
   });
 
-  it('preserves flatList structure after switch attempt', () => {
+  it('preserves flatList structure after switch attempt', async () => {
     const state = createTestState();
     const originalLen = state.flatList.length;
-    getGitRootMock.mockReturnValue('/mock/git/root');
-    doWorktreeSwitch(state, { path: '/nonexistent', branch: 'fix-bug' });
+    getGitRootMock.mockResolvedValue('/mock/git/root');
+    await doWorktreeSwitch(state, { path: '/nonexistent', branch: 'fix-bug' });
     expect(state.flatList.length).toBe(originalLen);
   });
 });
 
 describe('pollStatuses with worktree overrides', () => {
-  let pollStatuses: (state: AppState) => void;
+  let pollStatuses: (state: AppState) => Promise<void>;
   let getStatusesMock: ReturnType<typeof vi.fn>;
 
   beforeEach(async () => {
     const mod = await import('../src/index');
     pollStatuses = mod.pollStatuses;
     const docker = await import('../src/lib/docker');
-    getStatusesMock = docker.getStatuses as ReturnType<typeof vi.fn>;
+    getStatusesMock = docker.getStatusesAsync as ReturnType<typeof vi.fn>;
   });
 
-  it('polls override file for services with worktree overrides', () => {
+  it('polls override file for services with worktree overrides', async () => {
     const state = createTestState();
     const entry = state.flatList[0];
     const sk = statusKey(entry.file, entry.service);
     const overrideFile = '/override/docker-compose.yml';
     state.worktreeOverrides.set(sk, overrideFile);
 
-    getStatusesMock.mockReturnValue(new Map());
-    pollStatuses(state);
+    getStatusesMock.mockClear();
+    getStatusesMock.mockResolvedValue(new Map());
+    await pollStatuses(state);
 
     // Should have been called with both the original file and the override file
     const calledFiles = getStatusesMock.mock.calls.map((c: unknown[]) => c[0]);
     expect(calledFiles).toContain(overrideFile);
   });
+
+  it('drops containers the listing no longer has, in case a destroy event was missed', async () => {
+    const state = createTestState();
+    const infra = state.groups[0].file;
+    const { createMockStatus } = await import('./helpers');
+    getStatusesMock.mockImplementation(async (file: string) => file === infra ? new Map([['redis', createMockStatus({ id: 'redis1' })]]) : new Map());
+    await pollStatuses(state);
+    expect(state.statuses.get(statusKey(infra, 'redis'))!.id).toBe('redis1');
+    expect(state.statuses.has(statusKey(infra, 'postgres'))).toBe(false);
+    getStatusesMock.mockImplementation(async () => new Map());
+  });
+});
+
+describe('applyContainerEvent', () => {
+  let applyContainerEvent: (state: AppState, ev: import('../src/lib/types').ContainerEvent) => boolean;
+
+  const event = (overrides: Partial<import('../src/lib/types').ContainerEvent> = {}) => ({
+    action: 'start',
+    id: 'abc123full',
+    service: 'postgres',
+    project: 'infra',
+    configFiles: ['/path/to/infra/docker-compose.yml'],
+    workingDir: '/path/to/infra',
+    health: null,
+    replica: null,
+    time: 1700000000,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const mod = await import('../src/index');
+    applyContainerEvent = mod.applyContainerEvent;
+  });
+
+  it('marks a known container exited on die', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.containerStats.set(sk, { cpuPercent: 1, memUsageBytes: 1 });
+    expect(applyContainerEvent(state, event({ action: 'die' }))).toBe(true);
+    expect(state.statuses.get(sk)!.state).toBe('exited');
+    expect(state.containerStats.has(sk)).toBe(false);
+  });
+
+  it('updates health on health_status', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    applyContainerEvent(state, event({ action: 'health_status', health: 'unhealthy' }));
+    expect(state.statuses.get(sk)!.health).toBe('unhealthy');
+  });
+
+  it('restarts a known container with fresh startedAt', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.statuses.get(sk)!.state = 'exited';
+    applyContainerEvent(state, event({ action: 'start' }));
+    const st = state.statuses.get(sk)!;
+    expect(st.state).toBe('running');
+    expect(st.health).toBe('starting');
+    expect(st.startedAt).toBe(new Date(1700000000 * 1000).toISOString());
+  });
+
+  it('records a new container on start and requests a reconcile', async () => {
+    const mod = await import('../src/index');
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.statuses.delete(sk);
+    mod._getModuleState().lastReconcileTime = Date.now();
+    applyContainerEvent(state, event({ id: 'new999' }));
+    expect(state.statuses.get(sk)!.id).toBe('new999');
+    expect(mod._getModuleState().lastReconcileTime).toBe(0);
+  });
+
+  it('removes the status on destroy', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    applyContainerEvent(state, event({ action: 'destroy' }));
+    expect(state.statuses.has(sk)).toBe(false);
+  });
+
+  it('ignores events for a different container of the same service', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    expect(applyContainerEvent(state, event({ action: 'die', id: 'zzz' }))).toBe(false);
+    expect(state.statuses.get(sk)!.state).toBe('running');
+  });
+
+  it('matches the worktree override file', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.worktreeOverrides.set(sk, '/wt/fix/infra/docker-compose.yml');
+    applyContainerEvent(state, event({ action: 'die', configFiles: ['/wt/fix/infra/docker-compose.yml'], project: 'other' }));
+    expect(state.statuses.get(sk)!.state).toBe('exited');
+  });
+
+  it('ignores unknown services', () => {
+    const state = createTestState();
+    expect(applyContainerEvent(state, event({ service: 'nope' }))).toBe(false);
+  });
+});
+
+describe('syncEventStream', () => {
+  let syncEventStream: (state: AppState) => void;
+  let needsReconcile: (state: AppState) => boolean;
+  let streamMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    const mod = await import('../src/index');
+    syncEventStream = mod.syncEventStream;
+    needsReconcile = mod.needsReconcile;
+    const docker = await import('../src/lib/docker');
+    streamMock = docker.streamContainerEvents as ReturnType<typeof vi.fn>;
+    streamMock.mockClear();
+  });
+
+  it('spawns a single events stream', () => {
+    const state = createTestState();
+    syncEventStream(state);
+    syncEventStream(state);
+    expect(streamMock).toHaveBeenCalledTimes(1);
+    expect(state.eventsChild).not.toBeNull();
+  });
+
+  it('respawns the stream after it exits', () => {
+    const state = createTestState();
+    syncEventStream(state);
+    const child = state.eventsChild as unknown as { on: ReturnType<typeof vi.fn> };
+    const onClose = child.on.mock.calls.find((c: unknown[]) => c[0] === 'close')![1];
+    onClose();
+    expect(state.eventsChild).toBeNull();
+    syncEventStream(state);
+    expect(streamMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps polling when the runtime has no events stream', () => {
+    streamMock.mockReturnValueOnce(null);
+    const state = createTestState();
+    syncEventStream(state);
+    expect(state.eventsChild).toBeNull();
+    expect(needsReconcile(state)).toBe(true);
+  });
+
+  it('requires a full poll when no stream is running', () => {
+    const state = createTestState();
+    expect(needsReconcile(state)).toBe(true);
+  });
+
+  it('skips the full poll while the stream is live', async () => {
+    const mod = await import('../src/index');
+    const state = createTestState();
+    syncEventStream(state);
+    mod._getModuleState().lastReconcileTime = Date.now();
+    expect(needsReconcile(state)).toBe(false);
+  });
+});
+
+describe('replicas', () => {
+  const file = '/path/to/infra/docker-compose.yml';
+  const replica = (number: number, state = 'running') => ({
+    number, state, health: '', createdAt: null, startedAt: null, id: `rep${number}`, ports: [],
+  });
+
+  async function stateWithReplicas() {
+    const { serviceStatusFromReplicas } = await import('../src/lib/state');
+    const state = createTestState();
+    state.statuses.set(statusKey(file, 'postgres'), serviceStatusFromReplicas([replica(1), replica(2)]));
+    return state;
+  }
+
+  it('toggleReplicas expands and collapses sub-rows', async () => {
+    const { toggleReplicas } = await import('../src/index');
+    const state = await stateWithReplicas();
+    toggleReplicas(state);
+    expect(state.flatList.slice(0, 3).map(e => e.replica)).toEqual([undefined, 1, 2]);
+    state.cursor = 2;
+    toggleReplicas(state);
+    expect(state.flatList).toHaveLength(5);
+    expect(state.cursor).toBe(0);
+  });
+
+  it('toggleReplicas ignores single-container services', async () => {
+    const { toggleReplicas } = await import('../src/index');
+    const state = createTestState();
+    toggleReplicas(state);
+    expect(state.expandedServices.size).toBe(0);
+  });
+
+  it('doScale asks compose for one more replica', async () => {
+    const { doScale } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const scaleMock = docker.scaleService as ReturnType<typeof vi.fn>;
+    scaleMock.mockClear();
+    const state = await stateWithReplicas();
+    doScale(state, 1);
+    expect(scaleMock).toHaveBeenCalledWith(file, 'postgres', 3);
+    expect(state.scaling.has(statusKey(file, 'postgres'))).toBe(true);
+    // Ignored while a scale is in flight
+    doScale(state, 1);
+    expect(scaleMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('doScale reports failures in the bottom panel', async () => {
+    const { doScale } = await import('../src/index');
+    const state = createTestState();
+    state.cursor = 1;
+    doScale(state, -1);
+    const sk = statusKey(file, 'redis');
+    const child = state.scaling.get(sk) as unknown as { on: ReturnType<typeof vi.fn>; stderr: { on: ReturnType<typeof vi.fn> } };
+    child.stderr.on.mock.calls[0][1](Buffer.from('no such service\n'));
+    child.on.mock.calls.find((c: unknown[]) => c[0] === 'close')![1](1);
+    expect(state.scaling.has(sk)).toBe(false);
+    expect(state.bottomLogLines.get(sk)).toMatchObject({ action: 'scale_failed', lines: ['no such service'] });
+  });
+
+  it('applies events to the matching replica and re-aggregates', async () => {
+    const { applyContainerEvent } = await import('../src/index');
+    const state = await stateWithReplicas();
+    const ev = {
+      action: 'die', id: 'rep1', service: 'postgres', project: 'infra', configFiles: [file],
+      workingDir: null, health: null, replica: 1, time: null,
+    };
+    expect(applyContainerEvent(state, ev)).toBe(true);
+    const st = state.statuses.get(statusKey(file, 'postgres'))!;
+    expect(st.replicas![0].state).toBe('exited');
+    // Replica 2 is now the representative container
+    expect(st.id).toBe('rep2');
+    expect(applyContainerEvent(state, { ...ev, action: 'destroy' })).toBe(true);
+    expect(state.statuses.get(statusKey(file, 'postgres'))!.replicas).toBeUndefined();
+  });
+
+  it('leaves unknown replicas to the next reconcile', async () => {
+    const { applyContainerEvent } = await import('../src/index');
+    const state = await stateWithReplicas();
+    const ev = {
+      action: 'start', id: 'rep3', service: 'postgres', project: 'infra', configFiles: [file],
+      workingDir: null, health: null, replica: 3, time: null,
+    };
+    expect(applyContainerEvent(state, ev)).toBe(false);
+    expect(state.statuses.get(statusKey(file, 'postgres'))!.replicas).toHaveLength(2);
+  });
+
+  it('pollContainerStats tracks replicas and sums them on the service row', async () => {
+    const { pollContainerStats } = await import('../src/index');
+    const { replicaKey } = await import('../src/lib/state');
+    const docker = await import('../src/lib/docker');
+    (docker.fetchContainerStatsAsync as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+      { id: 'rep1', name: 'a', cpuPercent: 10, memUsageBytes: 100 },
+      { id: 'rep2', name: 'b', cpuPercent: 5, memUsageBytes: 50 },
+    ]);
+    const state = await stateWithReplicas();
+    pollContainerStats(state);
+    await vi.waitFor(() => expect(state.containerStats.get(statusKey(file, 'postgres'))).toEqual({ cpuPercent: 15, memUsageBytes: 150 }));
+    expect(state.containerStats.get(replicaKey(file, 'postgres', 2))).toEqual({ cpuPercent: 5, memUsageBytes: 50 });
+  });
+});
+
+describe('compose profiles', () => {
+  const file = '/path/to/infra/docker-compose.yml';
+
+  function stateWithProfiles(): AppState {
+    const state = createTestState();
+    state.groups[0].services.push('adminer');
+    state.groups[0].profiles = new Map([['adminer', ['debug']]]);
+    state.flatList = buildFlatList(state.groups);
+    return state;
+  }
+
+  it('P opens the picker with every known profile', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = stateWithProfiles();
+    state.activeProfiles = ['extra'];
+    handleKeypress(state, 'P');
+    expect(state.profilePickerActive).toBe(true);
+    expect(state.profilePickerEntries).toEqual(['debug', 'extra']);
+    handleKeypress(state, '\x1b');
+    expect(state.profilePickerActive).toBe(false);
+  });
+
+  it('toggling a profile re-runs discovery with the new profile set', async () => {
+    const { handleKeypress, _getModuleState } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.listServicesAsync as any).mockResolvedValue(['postgres', 'redis', 'adminer']);
+    (docker.listServiceProfilesAsync as any).mockResolvedValue(new Map([['adminer', ['debug']]]));
+    const state = stateWithProfiles();
+    state.config.composeFiles = [file];
+    handleKeypress(state, 'P');
+    handleKeypress(state, ' ');
+    expect(state.activeProfiles).toEqual(['debug']);
+    expect(docker.useProfiles).toHaveBeenLastCalledWith(['debug']);
+    await vi.waitFor(() => expect(state.groups).toHaveLength(1));
+    expect(state.groups[0].services).toEqual(['postgres', 'redis', 'adminer']);
+    expect(state.flatList.map(e => e.service)).toEqual(['postgres', 'redis', 'adminer']);
+    expect(_getModuleState().discoveryGeneration).toBeGreaterThan(0);
+
+    handleKeypress(state, '\r');
+    expect(state.activeProfiles).toEqual([]);
+  });
+
+  it('s in the picker brings up the services of the selected profile', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const upMock = docker.upServices as ReturnType<typeof vi.fn>;
+    upMock.mockClear();
+    const state = stateWithProfiles();
+    handleKeypress(state, 'P');
+    handleKeypress(state, 's');
+    expect(upMock).toHaveBeenCalledWith(file, ['adminer']);
+    expect(state.starting.has(statusKey(file, 'adminer'))).toBe(true);
+  });
+
+  it('starting a service without a container uses up', async () => {
+    const { doStart } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const upMock = docker.upServices as ReturnType<typeof vi.fn>;
+    upMock.mockClear();
+    const state = stateWithProfiles();
+    state.cursor = 2;
+    doStart(state);
+    expect(upMock).toHaveBeenCalledWith(file, ['adminer']);
+  });
+});
+
+describe('environment panel', () => {
+  it('E toggles the panel and loads the selected service environment', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const envMock = docker.getServiceEnvironmentAsync as ReturnType<typeof vi.fn>;
+    envMock.mockClear();
+    envMock.mockResolvedValueOnce([{ key: 'TAG', value: 'dev' }]);
+    const state = createTestState();
+    handleKeypress(state, 'E');
+    expect(state.envPanelActive).toBe(true);
+    expect(envMock).toHaveBeenCalledWith('/path/to/infra/docker-compose.yml', 'postgres', expect.anything());
+    await vi.waitFor(() => expect(state.envPanelVars).toEqual([{ key: 'TAG', value: 'dev' }]));
+
+    // Follows the cursor
+    envMock.mockRejectedValueOnce(new Error('service "redis" not found\nmore'));
+    handleKeypress(state, 'j');
+    expect(state.envPanelVars).toBeNull();
+    await vi.waitFor(() => expect(state.envPanelError).toBe('service "redis" not found'));
+
+    handleKeypress(state, 'E');
+    expect(state.envPanelActive).toBe(false);
+    expect(state.envPanelKey).toBeNull();
+  });
+
+  it('runs exec with the selected group file so its environment applies', async () => {
+    const { enterExecInline, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const execMock = docker.execInContainer as ReturnType<typeof vi.fn>;
+    execMock.mockClear();
+    const state = createTestState();
+    enterExecInline(state);
+    expect(state.execFile).toBe('/path/to/infra/docker-compose.yml');
+    state.execInput = 'ls';
+    handleKeypress(state, '\r');
+    expect(execMock).toHaveBeenCalledWith('abc123', 'ls', undefined, '/path/to/infra/docker-compose.yml');
+  });
+});
+
+describe('command palette', () => {
+  function type(handleKeypress: (state: AppState, key: string) => void, state: AppState, text: string): void {
+    for (const ch of text) handleKeypress(state, ch);
+  }
+
+  it(': opens the palette and Esc closes it', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    handleKeypress(state, ':');
+    expect(state.paletteActive).toBe(true);
+    type(handleKeypress, state, 'jk');
+    expect(state.paletteQuery).toBe('jk');
+    expect(state.cursor).toBe(0);
+    handleKeypress(state, '\x1b');
+    expect(state.paletteActive).toBe(false);
+    expect(state.paletteQuery).toBe('');
+  });
+
+  it('runs the matched action on the matched service without moving the cursor', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const rebuildMock = docker.rebuildService as ReturnType<typeof vi.fn>;
+    rebuildMock.mockClear();
+    const state = createTestState();
+    handleKeypress(state, ':');
+    type(handleKeypress, state, 'rebuild user');
+    handleKeypress(state, '\r');
+    expect(state.paletteActive).toBe(false);
+    expect(rebuildMock).toHaveBeenCalledWith('/path/to/services/docker-compose.yml', 'user-service', expect.anything());
+    expect(state.rebuilding.has(statusKey('/path/to/services/docker-compose.yml', 'user-service'))).toBe(true);
+    expect(state.cursor).toBe(0);
+  });
+
+  it('go to moves the cursor onto the service', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    handleKeypress(state, ':');
+    type(handleKeypress, state, 'auth');
+    handleKeypress(state, '\r');
+    expect(selectedEntry(state)!.service).toBe('auth-service');
+  });
+
+  it('navigates matches with the arrow keys and runs global toggles', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    handleKeypress(state, ':');
+    type(handleKeypress, state, 'toggle no');
+    handleKeypress(state, '\x1b[B');
+    expect(state.paletteCursor).toBe(1);
+    handleKeypress(state, '\x1b[A');
+    handleKeypress(state, '\x1b[A');
+    expect(state.paletteCursor).toBe(0);
+    handleKeypress(state, '\r');
+    expect(state.noCache).toBe(true);
+  });
+
+  it('backspace on an empty query closes the palette', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    handleKeypress(state, ':');
+    handleKeypress(state, 'x');
+    handleKeypress(state, '\x7f');
+    expect(state.paletteActive).toBe(true);
+    handleKeypress(state, '\x7f');
+    expect(state.paletteActive).toBe(false);
+  });
+
+  it('passes g and other keys through the input handler while open', async () => {
+    const { createInputHandler } = await import('../src/index');
+    const state = createTestState();
+    state.paletteActive = true;
+    const onData = createInputHandler(state);
+    onData('gg');
+    expect(state.paletteQuery).toBe('gg');
+  });
+});
+
+describe('multi-select and bulk operations', () => {
+  const services = '/path/to/services/docker-compose.yml';
+
+  function closeChild(child: { on: ReturnType<typeof vi.fn> }, code: number): void {
+    const call = child.on.mock.calls.find((c: unknown[]) => c[0] === 'close');
+    (call![1] as (code: number) => void)(code);
+  }
+
+  it('v and space mark the selected service and move down, V marks the group', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    handleKeypress(state, 'v');
+    handleKeypress(state, ' ');
+    expect([...state.marked]).toEqual([statusKey('/path/to/infra/docker-compose.yml', 'postgres'), statusKey('/path/to/infra/docker-compose.yml', 'redis')]);
+    expect(state.cursor).toBe(2);
+
+    handleKeypress(state, 'V');
+    expect(state.marked.size).toBe(5);
+    handleKeypress(state, 'V');
+    expect(state.marked.size).toBe(2);
+
+    handleKeypress(state, '\x1b');
+    expect(state.marked.size).toBe(0);
+  });
+
+  it('runs a bulk rebuild with bounded concurrency and reports each service', async () => {
+    const { handleKeypress, pumpBulk } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const rebuildMock = docker.rebuildService as ReturnType<typeof vi.fn>;
+    rebuildMock.mockClear();
+    const state = createTestState();
+    state.cursor = 2;
+    handleKeypress(state, 'V');
+    handleKeypress(state, 'b');
+    try {
+      expect(rebuildMock).toHaveBeenCalledTimes(2);
+      expect(rebuildMock.mock.calls.map(c => c[1])).toEqual(['api-gateway', 'auth-service']);
+      expect(state.bulk!.items.map(i => i.status)).toEqual(['running', 'running', 'queued']);
+      // The cursor stays where it was
+      expect(state.cursor).toBe(2);
+
+      await vi.waitFor(() => expect(state.bulk!.items.every(i => i.status === 'queued' || i.launched)).toBe(true));
+      closeChild(rebuildMock.mock.results[0].value, 0);
+      closeChild(rebuildMock.mock.results[1].value, 1);
+      pumpBulk(state);
+      expect(state.bulk!.items.map(i => i.status)).toEqual(['done', 'failed', 'running']);
+      expect(rebuildMock).toHaveBeenLastCalledWith(services, 'user-service', expect.anything());
+    } finally {
+      clearInterval(state.bulkTimer);
+    }
+  });
+
+  it('skips services the action does not apply to', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    state.statuses.set(statusKey(services, 'api-gateway'), { ...state.statuses.get(statusKey(services, 'api-gateway'))!, state: 'exited' });
+    state.marked.add(statusKey(services, 'api-gateway'));
+    handleKeypress(state, 'p');
+    try {
+      await vi.waitFor(() => expect(state.bulk!.items[0].status).toBe('skipped'));
+      expect(state.bulkTimer).toBeUndefined();
+    } finally {
+      clearInterval(state.bulkTimer);
+    }
+  });
+
+  it('toggles watch on every marked service', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    state.watchAvailable = true;
+    state.marked.add(statusKey(services, 'api-gateway'));
+    state.marked.add(statusKey(services, 'user-service'));
+    handleKeypress(state, 'w');
+    expect(state.watching.size).toBe(2);
+    handleKeypress(state, 'w');
+    expect(state.watching.size).toBe(0);
+  });
+});
+
+describe('list filter', () => {
+  it('\\ narrows the list while typing and actions use the filtered selection', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const restartMock = docker.restartService as ReturnType<typeof vi.fn>;
+    restartMock.mockClear();
+    const state = createTestState();
+    handleKeypress(state, '\\');
+    expect(state.filterActive).toBe(true);
+    for (const ch of 'gate') handleKeypress(state, ch);
+    expect(state.flatList.map(e => e.service)).toEqual(['api-gateway']);
+    handleKeypress(state, '\r');
+    expect(state.filterActive).toBe(false);
+    expect(state.filterQuery).toBe('gate');
+
+    handleKeypress(state, 's');
+    expect(restartMock).toHaveBeenCalledWith('/path/to/services/docker-compose.yml', 'api-gateway');
+  });
+
+  it('Esc in the filter input clears the filter', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = createTestState();
+    handleKeypress(state, '\\');
+    for (const ch of 'state:exited') handleKeypress(state, ch);
+    expect(state.flatList).toEqual([]);
+    handleKeypress(state, '\x1b');
+    expect(state.filterQuery).toBe('');
+    expect(state.flatList).toHaveLength(5);
+  });
+
+  it('re-applies structured filters when statuses change', async () => {
+    const { render } = await import('../src/index');
+    const state = createTestState();
+    state.filterQuery = 'state:exited';
+    render(state);
+    expect(state.flatList).toEqual([]);
+    state.statuses.get(statusKey('/path/to/infra/docker-compose.yml', 'redis'))!.state = 'exited';
+    render(state);
+    expect(state.flatList.map(e => e.service)).toEqual(['redis']);
+    expect(selectedEntry(state)!.service).toBe('redis');
+  });
+
+  it('V marks only the visible services of the group', async () => {
+    const { handleKeypress, applyFilterAndSort } = await import('../src/index');
+    const state = createTestState();
+    state.filterQuery = 'service';
+    applyFilterAndSort(state);
+    handleKeypress(state, 'V');
+    expect([...state.marked].map(k => k.split('::')[1])).toEqual(['auth-service', 'user-service']);
+  });
+});
+
+describe('list sorting', () => {
+  it('S cycles the sort field, sorts within each group and saves the choice', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const session = await import('../src/lib/session');
+    const state = createTestState();
+    const services = '/path/to/services/docker-compose.yml';
+    state.containerStats.set(statusKey(services, 'user-service'), { cpuPercent: 80, memUsageBytes: 10 });
+    state.containerStats.set(statusKey(services, 'auth-service'), { cpuPercent: 20, memUsageBytes: 500 });
+    state.cursor = 2; // api-gateway
+
+    handleKeypress(state, 'S');
+    expect(state.sortField).toBe('name');
+    expect(session.saveSession).toHaveBeenLastCalledWith({ sortField: 'name' });
+
+    handleKeypress(state, 'S');
+    expect(state.sortField).toBe('cpu');
+    expect(state.flatList.map(e => e.service)).toEqual(['postgres', 'redis', 'user-service', 'auth-service', 'api-gateway']);
+    // The cursor stays on the same service
+    expect(selectedEntry(state)!.service).toBe('api-gateway');
+
+    handleKeypress(state, 'S');
+    expect(state.flatList.map(e => e.service).slice(2)).toEqual(['auth-service', 'user-service', 'api-gateway']);
+
+    for (let i = 0; i < 3; i++) handleKeypress(state, 'S');
+    expect(state.sortField).toBe('default');
+    expect(state.flatList.map(e => e.service)).toEqual(['postgres', 'redis', 'api-gateway', 'auth-service', 'user-service']);
+  });
+});
+
+describe('session restore', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  const feature = '/wt/feature/services/docker-compose.yml';
+
+  it('restores toggles, the exec history and the selected service', async () => {
+    const { restoreSession } = await import('../src/index');
+    const state = createTestState();
+    await restoreSession(state, {
+      sortField: 'mem', noCache: true, noDeps: true, showBottomLogs: false,
+      selected: { file: services, service: 'auth-service' }, execHistory: ['ls', 'env'],
+    });
+    expect(state.sortField).toBe('mem');
+    expect(state.noCache).toBe(true);
+    expect(state.noDeps).toBe(true);
+    expect(state.showBottomLogs).toBe(false);
+    expect(state.execHistory).toEqual(['ls', 'env']);
+    expect(selectedEntry(state)!.service).toBe('auth-service');
+
+    await restoreSession(state, { selected: { file: services, service: 'removed' } });
+    expect(selectedEntry(state)!.service).toBe('auth-service');
+  });
+
+  it('keeps only worktree overrides confirmed by the containers working_dir', async () => {
+    const { restoreSession } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const { createMockStatus } = await import('./helpers');
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async (dir: string) => dir.startsWith('/wt/feature') ? '/wt/feature' : '/path/to');
+    const fs = await import('fs');
+    const accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+    (docker.getStatusesAsync as ReturnType<typeof vi.fn>).mockImplementation(async (file: string) => file === feature
+      ? new Map([
+        ['api-gateway', createMockStatus({ workingDir: '/wt/feature/services', worktree: 'feature' })],
+        ['auth-service', createMockStatus({ workingDir: '/path/to/services' })],
+      ])
+      : new Map());
+
+    const state = createTestState();
+    await restoreSession(state, {
+      worktreeOverrides: [
+        { file: services, service: 'api-gateway', override: feature },
+        { file: services, service: 'auth-service', override: feature },
+        { file: services, service: 'user-service', override: feature },
+        { file: services, service: 'removed', override: feature },
+      ],
+    });
+    expect([...state.worktreeOverrides]).toEqual([[statusKey(services, 'api-gateway'), feature]]);
+    expect(state.statuses.get(statusKey(services, 'api-gateway'))!.worktree).toBe('feature');
+    expect(state.statuses.has(statusKey(services, 'auth-service'))).toBe(false);
+
+    accessSpy.mockRestore();
+    (docker.getStatusesAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => new Map());
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
+  });
+
+  it('cleanup saves the session', async () => {
+    const { cleanup } = await import('../src/index');
+    const session = await import('../src/lib/session');
+    const state = createTestState();
+    state.cursor = 3;
+    state.noCache = true;
+    state.execHistory = ['ls'];
+    state.worktreeOverrides.set(statusKey(services, 'api-gateway'), feature);
+    cleanup(state);
+    expect(session.saveSession).toHaveBeenLastCalledWith(expect.objectContaining({
+      noCache: true, selected: { file: services, service: 'auth-service' }, execHistory: ['ls'],
+      worktreeOverrides: [{ file: services, service: 'api-gateway', override: feature }],
+    }));
+  });
+});
+
+describe('inferred worktree overrides', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  const feature = '/wt/feature/services/docker-compose.yml';
+
+  it('follows containers running from another worktree and leaves user overrides alone', async () => {
+    const { pollStatuses } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const { createMockStatus } = await import('./helpers');
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async (dir: string) =>
+      dir.startsWith('/wt/feature') ? '/wt/feature' : dir.startsWith('/path/to') ? '/path/to' : null);
+    const fs = await import('fs');
+    const accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+    let apiDir = '/wt/feature/services';
+    (docker.getStatusesAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => new Map([
+      ['api-gateway', createMockStatus({ workingDir: apiDir, worktree: 'feature' })],
+      ['auth-service', createMockStatus({ workingDir: '/wt/feature/services' })],
+      ['user-service', createMockStatus({ workingDir: '/elsewhere/services' })],
+    ]));
+
+    const state = createTestState();
+    const userSet = '/wt/other/services/docker-compose.yml';
+    state.worktreeOverrides.set(statusKey(services, 'auth-service'), userSet);
+    await pollStatuses(state);
+    expect(state.worktreeOverrides.get(statusKey(services, 'api-gateway'))).toBe(feature);
+    expect([...state.inferredOverrides]).toEqual([statusKey(services, 'api-gateway')]);
+    expect(state.worktreeOverrides.get(statusKey(services, 'auth-service'))).toBe(userSet);
+    expect(state.worktreeOverrides.has(statusKey(services, 'user-service'))).toBe(false);
+    expect(state.showWorktreeColumn).toBe(true);
+
+    // Rebuilt from the group's own directory: the inferred override goes away
+    apiDir = '/path/to/services';
+    await pollStatuses(state);
+    expect(state.worktreeOverrides.has(statusKey(services, 'api-gateway'))).toBe(false);
+    expect(state.inferredOverrides.size).toBe(0);
+
+    accessSpy.mockRestore();
+    (docker.getStatusesAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => new Map());
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
+  });
+
+  it('does not save inferred overrides in the session', async () => {
+    const { sessionSnapshot } = await import('../src/lib/session');
+    const state = createTestState();
+    state.worktreeOverrides.set(statusKey(services, 'api-gateway'), feature);
+    state.inferredOverrides.add(statusKey(services, 'api-gateway'));
+    expect(sessionSnapshot(state).worktreeOverrides).toEqual([]);
+  });
+});
+
+describe('stack worktree switch', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  const feature = '/wt/feature/services/docker-compose.yml';
+  const target = { path: '/wt/feature', branch: 'feature' };
+  let accessSpy: ReturnType<typeof vi.spyOn>;
+  let failing: Set<string>;
+
+  // Children that exit on their own, failing for the services in `failing`
+  const exitingChild = (service: string) => ({
+    ...mockChildProcess(),
+    on: vi.fn((event: string, cb: (code: number) => void) => {
+      if (event === 'close') setTimeout(() => cb(failing.has(service) ? 1 : 0), 0);
+    }),
+  });
+
+  beforeEach(async () => {
+    const docker = await import('../src/lib/docker');
+    const fs = await import('fs');
+    failing = new Set();
+    accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async (dir: string) => dir.startsWith('/wt/feature') ? '/wt/feature' : '/path/to');
+    (docker.rebuildService as ReturnType<typeof vi.fn>).mockClear().mockImplementation((_file: string, service: string) => exitingChild(service));
+    (docker.stopService as ReturnType<typeof vi.fn>).mockImplementation((_file: string, service: string) => exitingChild(service));
+    (docker.parseDependencyGraphAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => ({
+      dependsOn: new Map([['api-gateway', ['auth-service', 'user-service']], ['auth-service', ['user-service']]]),
+      dependedBy: new Map(),
+      conditions: new Map(),
+    }));
+  });
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    accessSpy.mockRestore();
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
+    (docker.rebuildService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+    (docker.stopService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+    (docker.parseDependencyGraphAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => ({ dependsOn: new Map(), dependedBy: new Map(), conditions: new Map() }));
+    (docker.validateServiceInComposeFileAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => true);
+  });
+
+  it('Tab cycles the picker scope, offering marked services only when there are marks', async () => {
+    const { handleKeypress, worktreeSwitchEntries } = await import('../src/index');
+    const state = createTestState();
+    state.cursor = 2;
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [target];
+    handleKeypress(state, '\t');
+    expect(state.worktreePickerScope).toBe('group');
+    expect(worktreeSwitchEntries(state).map(e => e.service)).toEqual(['api-gateway', 'auth-service', 'user-service']);
+    handleKeypress(state, '\t');
+    expect(state.worktreePickerScope).toBe('service');
+
+    state.marked.add(statusKey('/path/to/infra/docker-compose.yml', 'redis'));
+    handleKeypress(state, '\t');
+    handleKeypress(state, '\t');
+    expect(state.worktreePickerScope).toBe('marked');
+    expect(worktreeSwitchEntries(state).map(e => e.service)).toEqual(['redis']);
+  });
+
+  it('switches nothing when any service is missing from the target', async () => {
+    const { doStackWorktreeSwitch } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.validateServiceInComposeFileAsync as ReturnType<typeof vi.fn>).mockImplementation(async (_file: string, service: string) => service !== 'user-service');
+    const state = createTestState();
+    state.cursor = 2;
+    await doStackWorktreeSwitch(state, target, ['api-gateway', 'user-service'].map(service => ({ file: services, service })));
+    expect(docker.rebuildService).not.toHaveBeenCalled();
+    expect(state.worktreeOverrides.size).toBe(0);
+    expect(state.stackSwitch).toBeNull();
+    expect(state.bottomLogLines.get(statusKey(services, 'api-gateway'))!.lines).toEqual([
+      'nothing was switched', 'user-service: not found in docker-compose.yml on branch "feature"',
+    ]);
+  });
+
+  it('switches in dependency order and rolls everything back with R', async () => {
+    const { doStackWorktreeSwitch, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const rebuildMock = docker.rebuildService as ReturnType<typeof vi.fn>;
+    const state = createTestState();
+    state.cursor = 2;
+    const entries = ['api-gateway', 'auth-service', 'user-service'].map(service => ({ file: services, service }));
+    await doStackWorktreeSwitch(state, target, entries);
+
+    expect(rebuildMock.mock.calls.map(c => c[1])).toEqual(['user-service', 'auth-service', 'api-gateway']);
+    expect(rebuildMock.mock.calls.every(c => c[0] === feature)).toBe(true);
+    expect(state.stackSwitch!.items.map(i => i.status)).toEqual(['done', 'done', 'done']);
+    expect(state.stackSwitch!.running).toBe(false);
+    expect(state.worktreeOverrides.get(statusKey(services, 'api-gateway'))).toBe(feature);
+
+    rebuildMock.mockClear();
+    handleKeypress(state, 'R');
+    await vi.waitFor(() => expect(state.stackSwitch!.running).toBe(false));
+    expect(state.stackSwitch!.rollback).toBe(true);
+    expect(rebuildMock.mock.calls.map(c => [c[0], c[1]])).toEqual([
+      [services, 'user-service'], [services, 'auth-service'], [services, 'api-gateway'],
+    ]);
+    expect(state.worktreeOverrides.size).toBe(0);
+
+    handleKeypress(state, '\x1b');
+    expect(state.stackSwitch).toBeNull();
+  });
+
+  it('holds the whole switch on a port conflict outside the stack', async () => {
+    const { doStackWorktreeSwitch, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const infra = '/path/to/infra/docker-compose.yml';
+    (docker.getServicePortsAsync as ReturnType<typeof vi.fn>).mockImplementation(async (_file: string, service: string) =>
+      service === 'api-gateway' ? [{ published: 8080, target: 80, protocol: 'tcp', hostIp: '127.0.0.1' }] : []);
+    try {
+      const state = createTestState();
+      for (const [sk, st] of state.statuses) if (sk.startsWith(infra)) state.statuses.set(sk, { ...st, ports: [] });
+      state.statuses.get(statusKey(infra, 'redis'))!.ports = [{ published: 8080, target: 6379 }];
+      state.cursor = 2;
+      // The other services of the stack publish 8080 too, but they are switched along
+      await doStackWorktreeSwitch(state, target, ['api-gateway', 'auth-service', 'user-service'].map(service => ({ file: services, service })));
+      expect(state.portConflict!.conflicts).toEqual([{ port: 8080, file: infra, service: 'redis', wantedBy: 'api-gateway' }]);
+      expect(state.portConflict!.action).toMatchObject({ kind: 'stack', where: 'worktree "feature"' });
+      expect(docker.rebuildService).not.toHaveBeenCalled();
+      expect(state.stackSwitch).toBeNull();
+
+      handleKeypress(state, 'y');
+      await vi.waitFor(() => expect(state.stackSwitch && !state.stackSwitch.running).toBe(true));
+      expect(docker.stopService).toHaveBeenCalledWith(infra, 'redis');
+      expect(state.stackSwitch!.items.map(i => i.status)).toEqual(['done', 'done', 'done']);
+    } finally {
+      (docker.getServicePortsAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => []);
+    }
+  });
+
+  it('stops at the first failed rebuild and skips the rest', async () => {
+    const { doStackWorktreeSwitch } = await import('../src/index');
+    failing.add('auth-service');
+    const state = createTestState();
+    state.cursor = 2;
+    await doStackWorktreeSwitch(state, target, ['api-gateway', 'auth-service', 'user-service'].map(service => ({ file: services, service })));
+    expect(state.stackSwitch!.items.map(i => [i.service, i.status])).toEqual([
+      ['user-service', 'done'], ['auth-service', 'failed'], ['api-gateway', 'skipped'],
+    ]);
+    expect(state.worktreeOverrides.has(statusKey(services, 'api-gateway'))).toBe(false);
+  });
+});
+
+describe('worktree management', () => {
+  const main = { path: '/src/shop', branch: 'main' };
+  const fix = { path: '/src/shop-fix', branch: 'fix' };
+
+  function openPicker(state: AppState): void {
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [main, fix];
+  }
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    (docker.listGitWorktreesAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => []);
+    (docker.listGitBranchesAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => ({ local: [], remote: [] }));
+    (docker.addGitWorktreeAsync as ReturnType<typeof vi.fn>).mockReset().mockImplementation(async () => undefined);
+    (docker.removeGitWorktreeAsync as ReturnType<typeof vi.fn>).mockReset().mockImplementation(async () => undefined);
+  });
+
+  it('creates a worktree from the branch prompt and selects it', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.listGitBranchesAsync as ReturnType<typeof vi.fn>).mockResolvedValue({ local: ['main', 'fix'], remote: ['origin/release'] });
+    const state = createTestState();
+    openPicker(state);
+    handleKeypress(state, 'G');
+    handleKeypress(state, '\r');
+    expect(state.branchPromptActive).toBe(true);
+    await vi.waitFor(() => expect(state.branchPromptBranches.remote).toEqual(['origin/release']));
+
+    for (const ch of 'rel') handleKeypress(state, ch);
+    (docker.listGitWorktreesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([main, fix, { path: '/src/shop-release', branch: 'release' }]);
+    // The first entry offers "rel" as a new branch; the remote branch is below it
+    handleKeypress(state, '\x1b[B');
+    handleKeypress(state, '\r');
+    expect(state.worktreePickerBusy).toBe(true);
+    await vi.waitFor(() => expect(state.worktreePickerBusy).toBe(false));
+    expect(docker.addGitWorktreeAsync).toHaveBeenCalledWith('/path/to/infra', '/src/shop-release', 'release', expect.objectContaining({ create: true, startPoint: 'origin/release' }));
+    expect(state.worktreePickerCursor).toBe(2);
+    expect(state.worktreePickerMessage).toContain('Enter switches to it');
+  });
+
+  it('shows git errors from worktree add', async () => {
+    const { createWorktree } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.addGitWorktreeAsync as ReturnType<typeof vi.fn>).mockRejectedValue(new Error("Command failed: git worktree add\nfatal: invalid reference: nope"));
+    const state = createTestState();
+    openPicker(state);
+    await createWorktree(state, { branch: 'nope', create: false, startPoint: null, positions: [] });
+    expect(state.worktreePickerMessage).toBe('git worktree add failed: invalid reference: nope');
+    expect(state.worktreePickerBusy).toBe(false);
+  });
+
+  it('removes an unused worktree on the second x only', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = createTestState();
+    openPicker(state);
+    state.worktreePickerCursor = 1;
+    handleKeypress(state, 'x');
+    expect(state.worktreePickerMessage).toBe('press x again to remove /src/shop-fix');
+    handleKeypress(state, 'k');
+    handleKeypress(state, 'j');
+    handleKeypress(state, 'x');
+    expect(docker.removeGitWorktreeAsync).not.toHaveBeenCalled();
+
+    (docker.listGitWorktreesAsync as ReturnType<typeof vi.fn>).mockResolvedValue([main]);
+    handleKeypress(state, 'x');
+    await vi.waitFor(() => expect(state.worktreePickerMessage).toBe('removed worktree "fix"'));
+    expect(docker.removeGitWorktreeAsync).toHaveBeenCalledWith('/path/to/infra', '/src/shop-fix', expect.anything());
+    expect(state.worktreePickerEntries).toEqual([main]);
+  });
+
+  it('refuses to remove the main worktree or one a service uses', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = createTestState();
+    openPicker(state);
+    handleKeypress(state, 'x');
+    expect(state.worktreePickerMessage).toBe('the main worktree can\'t be removed');
+    state.worktreeOverrides.set(statusKey('/path/to/infra/docker-compose.yml', 'redis'), '/src/shop-fix/infra/docker-compose.yml');
+    handleKeypress(state, 'j');
+    handleKeypress(state, 'x');
+    handleKeypress(state, 'x');
+    expect(state.worktreePickerMessage).toBe('"fix" is in use by redis');
+    expect(docker.removeGitWorktreeAsync).not.toHaveBeenCalled();
+  });
+});
+
+describe('port preflight', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  const published = (port: number) => ({ published: port, target: port, protocol: 'tcp', hostIp: '127.0.0.1' });
+
+  // Children that exit on their own
+  const exitingChild = () => ({
+    ...mockChildProcess(),
+    on: vi.fn((event: string, cb: (code: number) => void) => {
+      if (event === 'close') setTimeout(() => cb(0), 0);
+    }),
+  });
+
+  // user-service is stopped, api-gateway publishes 8080
+  function stateWithConflict(): AppState {
+    const state = createTestState();
+    for (const [sk, st] of state.statuses) state.statuses.set(sk, { ...st, ports: [] });
+    state.statuses.get(statusKey(services, 'api-gateway'))!.ports = [{ published: 8080, target: 80 }];
+    state.statuses.get(statusKey(services, 'user-service'))!.state = 'exited';
+    state.cursor = state.flatList.findIndex(e => e.service === 'user-service');
+    return state;
+  }
+
+  beforeEach(async () => {
+    const docker = await import('../src/lib/docker');
+    (docker.getServicePortsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([published(8080)]);
+    (docker.startService as ReturnType<typeof vi.fn>).mockClear();
+    (docker.stopService as ReturnType<typeof vi.fn>).mockClear().mockImplementation(() => exitingChild());
+  });
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    (docker.getServicePortsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    (docker.stopService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+    (docker.rebuildService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+  });
+
+  it('asks before starting a service whose port another service publishes, y stops that one first', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = stateWithConflict();
+    handleKeypress(state, 's');
+    await vi.waitFor(() => expect(state.portConflict).not.toBeNull());
+    expect(state.portConflict!.conflicts).toEqual([{ port: 8080, file: services, service: 'api-gateway' }]);
+    expect(docker.startService).not.toHaveBeenCalled();
+
+    handleKeypress(state, 'y');
+    expect(state.portConflict).toBeNull();
+    expect(docker.stopService).toHaveBeenCalledWith(services, 'api-gateway');
+    expect(docker.startService).not.toHaveBeenCalled();
+    await vi.waitFor(() => expect(docker.startService).toHaveBeenCalledWith(services, 'user-service'));
+  });
+
+  it('Esc cancels the start and c starts anyway', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = stateWithConflict();
+    handleKeypress(state, 's');
+    await vi.waitFor(() => expect(state.portConflict).not.toBeNull());
+    handleKeypress(state, '\x1b');
+    expect(state.portConflict).toBeNull();
+
+    handleKeypress(state, 's');
+    await vi.waitFor(() => expect(state.portConflict).not.toBeNull());
+    handleKeypress(state, 'c');
+    await vi.waitFor(() => expect(docker.startService).toHaveBeenCalledTimes(1));
+    expect(docker.stopService).not.toHaveBeenCalled();
+  });
+
+  it('starts right away when the ports are free', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.getServicePortsAsync as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+    const state = stateWithConflict();
+    handleKeypress(state, 's');
+    await vi.waitFor(() => expect(docker.startService).toHaveBeenCalledWith(services, 'user-service'));
+    expect(state.portConflict).toBeNull();
+  });
+
+  it('holds a worktree switch until the conflict is resolved', async () => {
+    const { doWorktreeSwitch, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const fs = await import('fs');
+    const accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/path/to');
+    const rebuildMock = (docker.rebuildService as ReturnType<typeof vi.fn>).mockClear();
+    try {
+      const state = stateWithConflict();
+      await doWorktreeSwitch(state, { path: '/wt/fix', branch: 'fix' });
+      expect(state.portConflict!.action).toEqual({ kind: 'switch', newFile: '/wt/fix/services/docker-compose.yml', where: 'worktree "fix"' });
+      expect(docker.getServicePortsAsync).toHaveBeenCalledWith('/wt/fix/services/docker-compose.yml', 'user-service', expect.anything());
+      expect(rebuildMock).not.toHaveBeenCalled();
+
+      handleKeypress(state, 'c');
+      expect(rebuildMock).toHaveBeenCalledWith('/wt/fix/services/docker-compose.yml', 'user-service', expect.anything());
+    } finally {
+      accessSpy.mockRestore();
+      (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
+    }
+  });
+
+  it('skips bulk starts whose ports are taken and says which', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = stateWithConflict();
+    state.marked.add(statusKey(services, 'user-service'));
+    handleKeypress(state, 's');
+    try {
+      await vi.waitFor(() => expect(state.bulk!.items[0].status).toBe('skipped'));
+      expect(state.portConflict).toBeNull();
+      expect(docker.startService).not.toHaveBeenCalled();
+      expect(state.bottomLogLines.get(statusKey(services, 'user-service'))).toEqual({
+        action: 'start_failed', service: 'user-service', lines: ['port 8080 is published by api-gateway'],
+      });
+    } finally {
+      clearInterval(state.bulkTimer);
+    }
+  });
+});
+
+describe('worktree isolation', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  const fixFile = '/wt/fix/services/docker-compose.yml';
+  let accessSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    const docker = await import('../src/lib/docker');
+    const fs = await import('fs');
+    accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/path/to');
+    (docker.registerComposeProject as ReturnType<typeof vi.fn>).mockClear();
+  });
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    accessSpy.mockRestore();
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
+    (docker.rebuildService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+  });
+
+  function switchState(isolation: 'directory' | 'shared' | 'branch'): AppState {
+    const state = createTestState({ config: createTestConfig({ worktreeIsolation: isolation }) });
+    state.statuses.get(statusKey(services, 'auth-service'))!.state = 'exited';
+    state.cursor = state.flatList.findIndex(e => e.service === 'auth-service');
+    return state;
+  }
+
+  it('lets compose name the project after the worktree directory by default', async () => {
+    const { doWorktreeSwitch } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = switchState('directory');
+    await doWorktreeSwitch(state, { path: '/wt/fix', branch: 'fix' });
+    expect(state.worktreeOverrides.get(statusKey(services, 'auth-service'))).toBe(fixFile);
+    expect(docker.registerComposeProject).not.toHaveBeenCalled();
+  });
+
+  it('runs the switched service in the group project or one named after the branch', async () => {
+    const { doWorktreeSwitch } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    await doWorktreeSwitch(switchState('shared'), { path: '/wt/fix', branch: 'fix' });
+    expect(docker.registerComposeProject).toHaveBeenLastCalledWith({
+      files: [fixFile], projectName: 'services', projectDirectory: '/wt/fix/services', envFiles: [], environment: {},
+    });
+    await doWorktreeSwitch(switchState('branch'), { path: '/wt/fix', branch: 'Fix/Carts' });
+    expect(docker.registerComposeProject).toHaveBeenLastCalledWith(expect.objectContaining({ projectName: 'services-fix-carts' }));
+  });
+
+  it('shows the project column once a service runs outside its group project', async () => {
+    const { detectProjects } = await import('../src/index');
+    const state = createTestState();
+    detectProjects(state);
+    expect(state.showProjectColumn).toBe(false);
+    expect(state.serviceProjects.get(statusKey(services, 'auth-service'))).toEqual({ name: 'services', own: true });
+
+    // The mocked composeProjectName goes by the compose file's directory
+    state.worktreeOverrides.set(statusKey(services, 'auth-service'), '/wt/fix/services-fix/docker-compose.yml');
+    detectProjects(state);
+    expect(state.showProjectColumn).toBe(true);
+    expect(state.serviceProjects.get(statusKey(services, 'auth-service'))).toEqual({ name: 'services-fix', own: false });
+  });
+});
+
+describe('worktree preview', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  const main = { path: '/path/to', branch: 'main' };
+  const fix = { path: '/wt/fix', branch: 'fix' };
+  let accessSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    const docker = await import('../src/lib/docker');
+    const fs = await import('fs');
+    accessSpy = vi.spyOn(fs.default.promises, 'access').mockResolvedValue(undefined);
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/path/to');
+    (docker.getServiceDefinitionAsync as ReturnType<typeof vi.fn>).mockImplementation(async (file: string) => file.startsWith('/wt/fix')
+      ? { image: 'auth:2', build: { context: '/wt/fix/services/auth' }, environment: { TAG: 'fix', DEBUG: '1' } }
+      : { image: 'auth:1', build: { context: '/path/to/services/auth' }, environment: { TAG: 'dev' } });
+  });
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    accessSpy.mockRestore();
+    (docker.getGitRootAsync as ReturnType<typeof vi.fn>).mockImplementation(async () => '/mock/git/root');
+    (docker.getServiceDefinitionAsync as ReturnType<typeof vi.fn>).mockReset().mockImplementation(async () => ({}));
+  });
+
+  function pickerState(): AppState {
+    const state = createTestState();
+    state.cursor = state.flatList.findIndex(e => e.service === 'auth-service');
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [main, fix];
+    state.worktreePickerCursor = 1;
+    return state;
+  }
+
+  it('d diffs the service definition against the highlighted worktree', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = pickerState();
+    handleKeypress(state, 'd');
+    expect(state.worktreePreviewActive).toBe(true);
+    await vi.waitFor(() => expect(state.worktreePreview?.changes).not.toBeNull());
+    expect(docker.getServiceDefinitionAsync).toHaveBeenCalledWith(services, 'auth-service', expect.anything());
+    expect(docker.getServiceDefinitionAsync).toHaveBeenCalledWith('/wt/fix/services/docker-compose.yml', 'auth-service', expect.anything());
+    // Build contexts are compared relative to their worktree
+    expect(state.worktreePreview!.changes).toEqual([
+      { path: 'environment.DEBUG', before: null, after: '1' },
+      { path: 'environment.TAG', before: 'dev', after: 'fix' },
+      { path: 'image', before: 'auth:1', after: 'auth:2' },
+    ]);
+  });
+
+  it('follows the cursor and closes before the picker does', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = pickerState();
+    handleKeypress(state, 'd');
+    handleKeypress(state, 'k');
+    expect(state.worktreePreview!.path).toBe('/path/to');
+    await vi.waitFor(() => expect(state.worktreePreview?.changes).toEqual([]));
+    handleKeypress(state, 'G');
+    expect(state.worktreePreview).toBeNull();
+
+    handleKeypress(state, '\x1b');
+    expect(state.worktreePreviewActive).toBe(false);
+    expect(state.worktreePickerActive).toBe(true);
+    handleKeypress(state, '\x1b');
+    expect(state.worktreePickerActive).toBe(false);
+  });
+
+  it('shows why the definition could not be read', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.getServiceDefinitionAsync as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('service "auth-service" not found\nmore'));
+    const state = pickerState();
+    handleKeypress(state, 'd');
+    await vi.waitFor(() => expect(state.worktreePreview?.error).toBe('service "auth-service" not found'));
+  });
+
+  it('Enter still switches with the preview open', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = pickerState();
+    handleKeypress(state, 'd');
+    handleKeypress(state, '\r');
+    expect(state.worktreePickerActive).toBe(false);
+    expect(state.worktreePreviewActive).toBe(false);
+  });
+});
+
+describe('cascade rebuild', () => {
+  const infra = '/path/to/infra/docker-compose.yml';
+  let running: Map<string, { close: (code: number) => void; data: (text: string) => void }>;
+
+  // Children that run until the test closes them
+  const controlledChild = (_file: string, service: string) => {
+    const child = { ...mockChildProcess() };
+    const handlers = { close: (_code: number) => {}, data: (_text: string) => {} };
+    child.stdout.on = vi.fn((_event: string, cb: (data: Buffer) => void) => { handlers.data = text => cb(Buffer.from(text)); });
+    child.on = vi.fn((event: string, cb: (code: number) => void) => { if (event === 'close') handlers.close = cb; });
+    running.set(service, handlers);
+    return child;
+  };
+
+  beforeEach(async () => {
+    const docker = await import('../src/lib/docker');
+    running = new Map();
+    (docker.rebuildService as ReturnType<typeof vi.fn>).mockImplementation(controlledChild);
+    (docker.restartService as ReturnType<typeof vi.fn>).mockImplementation(controlledChild);
+  });
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    (docker.rebuildService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+    (docker.restartService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+  });
+
+  // postgres <- a, b, c; d depends on a and b
+  function cascadeState(): AppState {
+    const state = createTestState({ config: createTestConfig({ cascadeConcurrency: 2 }) });
+    state.depGraphs.set(infra, {
+      dependsOn: new Map([['a', ['postgres']], ['b', ['postgres']], ['c', ['postgres']], ['d', ['a', 'b']]]),
+      dependedBy: new Map([['postgres', ['a', 'b', 'c']], ['a', ['d']], ['b', ['d']]]),
+      conditions: new Map(),
+    });
+    return state;
+  }
+
+  function finish(service: string, code = 0): void {
+    const child = running.get(service)!;
+    running.delete(service);
+    child.close(code);
+  }
+
+  it('restarts each dependency level in parallel, up to cascadeConcurrency at a time', async () => {
+    const { doCascadeRebuild } = await import('../src/index');
+    const state = cascadeState();
+    await doCascadeRebuild(state, state.flatList.find(e => e.service === 'postgres')!);
+    const sk = statusKey(infra, 'postgres');
+    const cascade = state.cascading.get(sk)!;
+    expect(cascade.steps.map(s => `${s.service}:${s.level}`)).toEqual(['postgres:0', 'a:1', 'b:1', 'c:1', 'd:2']);
+    expect([...running.keys()]).toEqual(['postgres']);
+
+    finish('postgres');
+    expect([...running.keys()]).toEqual(['a', 'b']);
+    expect(cascade.steps.filter(s => s.status === 'in_progress').map(s => s.service)).toEqual(['a', 'b']);
+    running.get('a')!.data('Container a  Started\n');
+    expect(state.bottomLogLines.get(sk)!.lines).toEqual(['a | Container a  Started']);
+
+    finish('a');
+    expect([...running.keys()]).toEqual(['b', 'c']);
+    finish('b');
+    // d waits for the whole level, c included
+    expect([...running.keys()]).toEqual(['c']);
+    finish('c');
+    expect([...running.keys()]).toEqual(['d']);
+    finish('d');
+    expect(state.cascading.has(sk)).toBe(false);
+    expect(state.bottomLogLines.get(sk)!.action).toBe('started');
+  });
+
+  it('starts nothing new after a failure and stops once the running steps finish', async () => {
+    const { doCascadeRebuild } = await import('../src/index');
+    const state = cascadeState();
+    await doCascadeRebuild(state, state.flatList.find(e => e.service === 'postgres')!);
+    const sk = statusKey(infra, 'postgres');
+    const cascade = state.cascading.get(sk)!;
+    finish('postgres');
+    finish('a', 1);
+    expect([...running.keys()]).toEqual(['b']);
+    expect(state.cascading.has(sk)).toBe(true);
+
+    finish('b');
+    expect(running.size).toBe(0);
+    expect(state.cascading.has(sk)).toBe(false);
+    expect(cascade.steps.map(s => s.status)).toEqual(['completed', 'failed', 'completed', 'pending', 'pending']);
+    expect(state.failedCascades.get(sk)).toBe(cascade);
+    expect(state.bottomLogLines.get(sk)!.action).toBe('cascade_failed');
+  });
+
+  // Stops the cascade at a's failure, with b done and c, d pending
+  async function failedCascadeState(): Promise<AppState> {
+    const { doCascadeRebuild } = await import('../src/index');
+    const state = cascadeState();
+    const entry = state.flatList.find(e => e.service === 'postgres')!;
+    state.cursor = state.flatList.indexOf(entry);
+    await doCascadeRebuild(state, entry);
+    finish('postgres');
+    running.get('a')!.data('a: exit 1\n');
+    finish('a', 1);
+    finish('b');
+    return state;
+  }
+
+  it('r runs the failed step again and goes on with the rest', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = await failedCascadeState();
+    const sk = statusKey(infra, 'postgres');
+    const cascade = state.failedCascades.get(sk)!;
+    handleKeypress(state, 'r');
+    expect(state.failedCascades.has(sk)).toBe(false);
+    expect(state.cascading.get(sk)).toBe(cascade);
+    expect(state.bottomLogLines.get(sk)!.action).toBe('cascading');
+    expect([...running.keys()]).toEqual(['a', 'c']);
+    expect(docker.restartService).toHaveBeenLastCalledWith(infra, 'c');
+    finish('a');
+    finish('c');
+    finish('d');
+    expect(state.cascading.has(sk)).toBe(false);
+    expect(cascade.steps.every(s => s.status === 'completed')).toBe(true);
+  });
+
+  it('c skips the failed step and continues', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = await failedCascadeState();
+    const sk = statusKey(infra, 'postgres');
+    const cascade = state.failedCascades.get(sk)!;
+    handleKeypress(state, 'c');
+    expect([...running.keys()]).toEqual(['c']);
+    finish('c');
+    finish('d');
+    expect(cascade.steps.map(s => s.status)).toEqual(['completed', 'skipped', 'completed', 'completed', 'completed']);
+    expect(state.bottomLogLines.get(sk)!.action).toBe('started');
+  });
+
+  it('a drops the remaining steps and keeps the failure output', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = await failedCascadeState();
+    const sk = statusKey(infra, 'postgres');
+    handleKeypress(state, 'a');
+    expect(state.failedCascades.size).toBe(0);
+    expect(running.size).toBe(0);
+    expect(state.bottomLogLines.get(sk)).toMatchObject({ action: 'cascade_failed', lines: ['a | a: exit 1'] });
+    // Nothing left to retry
+    handleKeypress(state, 'r');
+    expect(running.size).toBe(0);
+  });
+
+  it('shows the failed cascade output in the full log view', async () => {
+    const { enterLogs } = await import('../src/index');
+    const state = await failedCascadeState();
+    enterLogs(state);
+    expect(state.logBuildKey).toBe(statusKey(infra, 'postgres'));
+    expect(state.logLines).toEqual(['a | a: exit 1']);
+  });
+
+  it('leaves a failed cascade behind once another operation takes over the panel', async () => {
+    const { handleKeypress, doRebuild } = await import('../src/index');
+    const state = await failedCascadeState();
+    doRebuild(state);
+    finish('postgres');
+    handleKeypress(state, 'r');
+    expect(running.size).toBe(0);
+    expect(state.cascading.size).toBe(0);
+  });
+
+  it('D previews a plan that rebuilds the dependents built from the image', async () => {
+    const { openCascadePlan, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recomposable-cascade-'));
+    for (const [dir, file, content] of [['a', 'Dockerfile', 'FROM infra-postgres\n'], ['b', 'Dockerfile.dev', 'FROM node:20\n']]) {
+      fs.mkdirSync(path.join(tmpDir, dir));
+      fs.writeFileSync(path.join(tmpDir, dir, file), content);
+    }
+    (docker.getComposeConfigAsync as ReturnType<typeof vi.fn>).mockResolvedValue({
+      name: 'infra',
+      services: {
+        postgres: { build: { context: path.join(tmpDir, 'lib') } },
+        a: { build: { context: path.join(tmpDir, 'a') } },
+        b: { build: { context: path.join(tmpDir, 'b'), dockerfile: 'Dockerfile.dev' } },
+        c: { image: 'redis:7' },
+        d: { build: { context: path.join(tmpDir, 'd'), additional_contexts: { base: 'service:postgres' } } },
+      },
+    });
+    try {
+      const state = cascadeState();
+      const entry = state.flatList.find(e => e.service === 'postgres')!;
+      await openCascadePlan(state, entry);
+      const plan = state.cascadePlan!;
+      expect(plan.loading).toBe(false);
+      expect(plan.buildable).toEqual(['a', 'b', 'd']);
+      expect(plan.affected).toEqual(['a', 'd']);
+      expect(running.size).toBe(0);
+
+      handleKeypress(state, 'a');
+      expect(plan.scope).toBe('affected');
+      handleKeypress(state, '\r');
+      expect(state.cascadePlan).toBeNull();
+      const cascade = state.cascading.get(statusKey(infra, 'postgres'))!;
+      expect(cascade.steps.map(s => `${s.action} ${s.service}`)).toEqual(['rebuild postgres', 'rebuild a', 'restart b', 'restart c', 'rebuild d']);
+      finish('postgres');
+      // Dependents are rebuilt without their prerequisites, which the cascade handles itself
+      expect(docker.rebuildService).toHaveBeenLastCalledWith(infra, 'a', expect.objectContaining({ noDeps: true }));
+      expect(docker.restartService).toHaveBeenLastCalledWith(infra, 'b');
+    } finally {
+      (docker.getComposeConfigAsync as ReturnType<typeof vi.fn>).mockReset().mockImplementation(async () => ({}));
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('D shows why the plan could not be made and runs nothing', async () => {
+    const { openCascadePlan, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    (docker.getComposeConfigAsync as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('invalid compose file\nline 3'));
+    const state = cascadeState();
+    await openCascadePlan(state, state.flatList.find(e => e.service === 'postgres')!);
+    expect(state.cascadePlan!.error).toBe('invalid compose file');
+    handleKeypress(state, '\r');
+    expect(state.cascading.size).toBe(0);
+    handleKeypress(state, '\x1b');
+    expect(state.cascadePlan).toBeNull();
+  });
+});
+
+describe('up with prerequisites', () => {
+  const services = '/path/to/services/docker-compose.yml';
+  let running: Map<string, (code: number) => void>;
+
+  const controlledChild = (_file: string, svc: string | string[]) => {
+    const child = { ...mockChildProcess() };
+    child.on = vi.fn((event: string, cb: (code: number) => void) => { if (event === 'close') running.set([svc].flat()[0], cb); });
+    return child;
+  };
+
+  beforeEach(async () => {
+    const docker = await import('../src/lib/docker');
+    running = new Map();
+    vi.useFakeTimers();
+    (docker.startService as ReturnType<typeof vi.fn>).mockClear().mockImplementation(controlledChild);
+    (docker.upServices as ReturnType<typeof vi.fn>).mockClear().mockImplementation(controlledChild);
+  });
+
+  afterEach(async () => {
+    const docker = await import('../src/lib/docker');
+    vi.useRealTimers();
+    (docker.startService as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+    (docker.upServices as ReturnType<typeof vi.fn>).mockImplementation(() => mockChildProcess());
+  });
+
+  // api-gateway needs auth-service, and user-service healthy; auth-service needs user-service
+  function upState(config: Partial<Config> = {}): AppState {
+    const state = createTestState({ config: createTestConfig(config) });
+    state.depGraphs.set(services, {
+      dependsOn: new Map([['api-gateway', ['auth-service', 'user-service']], ['auth-service', ['user-service']]]),
+      dependedBy: new Map([['user-service', ['api-gateway', 'auth-service']], ['auth-service', ['api-gateway']]]),
+      conditions: new Map([['api-gateway', new Map([['user-service', 'service_healthy']])]]),
+    });
+    for (const svc of ['api-gateway', 'auth-service']) {
+      state.statuses.set(statusKey(services, svc), createMockStatus({ state: 'exited', health: '' }));
+    }
+    // Never created: needs `up`
+    state.statuses.delete(statusKey(services, 'user-service'));
+    return state;
+  }
+
+  function finish(service: string): void {
+    const close = running.get(service)!;
+    running.delete(service);
+    close(0);
+  }
+
+  function setHealth(state: AppState, service: string, health: string): void {
+    state.statuses.set(statusKey(services, service), createMockStatus({ health }));
+  }
+
+  it('starts the prerequisites in order and waits for the gated ones to become healthy', async () => {
+    const { doUpWithPrerequisites } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = upState();
+    await doUpWithPrerequisites(state, state.flatList.find(e => e.service === 'api-gateway')!);
+    const sk = statusKey(services, 'api-gateway');
+    const cascade = state.cascading.get(sk)!;
+    expect(cascade.direction).toBe('prerequisites');
+    expect(cascade.steps.map(s => `${s.action} ${s.service}`)).toEqual([
+      'start user-service', 'health user-service', 'start auth-service', 'start api-gateway',
+    ]);
+    expect(docker.upServices).toHaveBeenCalledWith(services, ['user-service']);
+
+    setHealth(state, 'user-service', 'starting');
+    finish('user-service');
+    expect(cascade.steps[1].status).toBe('in_progress');
+    vi.advanceTimersByTime(1000);
+    expect(docker.startService).not.toHaveBeenCalled();
+
+    setHealth(state, 'user-service', 'healthy');
+    vi.advanceTimersByTime(1000);
+    expect(cascade.steps[1].status).toBe('completed');
+    expect(docker.startService).toHaveBeenLastCalledWith(services, 'auth-service');
+    finish('auth-service');
+    expect(docker.startService).toHaveBeenLastCalledWith(services, 'api-gateway');
+    finish('api-gateway');
+    expect(state.cascading.has(sk)).toBe(false);
+    expect(state.bottomLogLines.get(sk)!.action).toBe('started');
+  });
+
+  it('fails the gate after healthGateTimeout and starts nothing further', async () => {
+    const { doUpWithPrerequisites } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = upState({ healthGateTimeout: 3000 });
+    await doUpWithPrerequisites(state, state.flatList.find(e => e.service === 'api-gateway')!);
+    const cascade = state.cascading.get(statusKey(services, 'api-gateway'))!;
+    setHealth(state, 'user-service', 'starting');
+    finish('user-service');
+    vi.advanceTimersByTime(3000);
+    expect(cascade.steps[1]).toMatchObject({ status: 'failed', error: 'not healthy after 3s' });
+    expect(state.cascading.size).toBe(0);
+    expect(docker.startService).not.toHaveBeenCalled();
+  });
+
+  it('fails the gate once a status poll confirms the prerequisite has no healthcheck', async () => {
+    const { doUpWithPrerequisites } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const statusesMock = docker.getStatusesAsync as ReturnType<typeof vi.fn>;
+    try {
+      const state = upState();
+      await doUpWithPrerequisites(state, state.flatList.find(e => e.service === 'api-gateway')!);
+      const cascade = state.cascading.get(statusKey(services, 'api-gateway'))!;
+      setHealth(state, 'user-service', '');
+      statusesMock.mockImplementation(async () => new Map([['user-service', createMockStatus({ health: '' })]]));
+      finish('user-service');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(cascade.steps[1]).toMatchObject({ status: 'failed', error: 'no healthcheck' });
+    } finally {
+      statusesMock.mockImplementation(async () => new Map());
+    }
+  });
+
+  it('keeps waiting while a prerequisite with a healthcheck has not reported yet', async () => {
+    const { doUpWithPrerequisites, applyContainerEvent } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const configMock = docker.getComposeConfigAsync as ReturnType<typeof vi.fn>;
+    const statusesMock = docker.getStatusesAsync as ReturnType<typeof vi.fn>;
+    configMock.mockResolvedValue({ services: { 'user-service': { healthcheck: { test: ['CMD', 'true'] } } } });
+    statusesMock.mockImplementation(async () => new Map([['user-service', createMockStatus({ id: 'fresh1', health: '' })]]));
+    try {
+      const state = upState();
+      await doUpWithPrerequisites(state, state.flatList.find(e => e.service === 'api-gateway')!);
+      const cascade = state.cascading.get(statusKey(services, 'api-gateway'))!;
+      // The recreated container starts with no health reported
+      const event = {
+        id: 'fresh1', service: 'user-service', project: 'services', configFiles: [services],
+        workingDir: '/path/to/services', health: null, replica: null, time: 1700000000,
+      };
+      applyContainerEvent(state, { ...event, action: 'create' });
+      applyContainerEvent(state, { ...event, action: 'start' });
+      expect(state.statuses.get(statusKey(services, 'user-service'))).toMatchObject({ state: 'running', health: '' });
+      finish('user-service');
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(cascade.steps[1].status).toBe('in_progress');
+      expect(docker.startService).not.toHaveBeenCalled();
+
+      applyContainerEvent(state, { ...event, action: 'health_status', health: 'healthy' });
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(cascade.steps[1].status).toBe('completed');
+    } finally {
+      configMock.mockImplementation(async () => ({}));
+      statusesMock.mockImplementation(async () => new Map());
+    }
+  });
+
+  it('checks the ports of every service it would start before starting any', async () => {
+    const { doUpWithPrerequisites, handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const portsMock = docker.getServicePortsAsync as ReturnType<typeof vi.fn>;
+    portsMock.mockImplementation(async (_file: string, svc: string) => svc === 'user-service' ? [{ published: 5432, target: 5432, protocol: 'tcp', hostIp: '' }] : []);
+    try {
+      const state = upState();
+      for (const [sk, st] of state.statuses) state.statuses.set(sk, { ...st, ports: [] });
+      state.statuses.get(statusKey('/path/to/infra/docker-compose.yml', 'postgres'))!.ports = [{ published: 5432, target: 5432 }];
+      portsMock.mockClear();
+      await doUpWithPrerequisites(state, state.flatList.find(e => e.service === 'api-gateway')!);
+      expect(portsMock.mock.calls.map(c => c[1])).toEqual(['user-service', 'auth-service', 'api-gateway']);
+      expect(state.portConflict!.action.kind).toBe('prerequisites');
+      expect(state.portConflict!.conflicts).toEqual([
+        { port: 5432, file: '/path/to/infra/docker-compose.yml', service: 'postgres', wantedBy: 'user-service' },
+      ]);
+      expect(state.cascading.size).toBe(0);
+      expect(docker.upServices).not.toHaveBeenCalled();
+
+      handleKeypress(state, 'c');
+      expect(state.portConflict).toBeNull();
+      expect(state.cascading.get(statusKey(services, 'api-gateway'))!.direction).toBe('prerequisites');
+      expect(docker.upServices).toHaveBeenCalledWith(services, ['user-service']);
+    } finally {
+      portsMock.mockResolvedValue([]);
+    }
+  });
+
+  it('stops waiting on cleanup', async () => {
+    const { doUpWithPrerequisites, cleanup } = await import('../src/index');
+    const state = upState();
+    await doUpWithPrerequisites(state, state.flatList.find(e => e.service === 'api-gateway')!);
+    finish('user-service');
+    expect(vi.getTimerCount()).toBeGreaterThan(0);
+    const gate = state.cascading.get(statusKey(services, 'api-gateway'))!.steps[1];
+    cleanup(state);
+    expect(state.cascading.size).toBe(0);
+    setHealth(state, 'user-service', 'healthy');
+    vi.advanceTimersByTime(5000);
+    expect(gate.status).toBe('in_progress');
+  });
+
+  it('u is a plain start when every prerequisite is up', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = upState();
+    setHealth(state, 'user-service', 'healthy');
+    setHealth(state, 'auth-service', 'healthy');
+    state.cursor = state.flatList.findIndex(e => e.service === 'api-gateway');
+    handleKeypress(state, 'u');
+    await vi.waitFor(() => expect(state.starting.has(statusKey(services, 'api-gateway'))).toBe(true));
+    expect(state.cascading.size).toBe(0);
+  });
+});
+
+describe('dependency graph view', () => {
+  const services = '/path/to/services/docker-compose.yml';
+
+  function graphState(): AppState {
+    const state = createTestState();
+    state.depGraphs.set(services, {
+      dependsOn: new Map([['api-gateway', ['auth-service', 'user-service']], ['auth-service', ['user-service']]]),
+      dependedBy: new Map([['auth-service', ['api-gateway']], ['user-service', ['api-gateway', 'auth-service']]]),
+      conditions: new Map(),
+    });
+    state.cursor = state.flatList.findIndex(e => e.service === 'auth-service');
+    return state;
+  }
+
+  it('m opens the graph on the selected service and Esc goes back to the list', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = graphState();
+    handleKeypress(state, 'm');
+    expect(state.mode).toBe(MODE.GRAPH);
+    // postgres, redis, api-gateway, then auth-service under it
+    expect(state.graphCursor).toBe(3);
+    handleKeypress(state, '\x1b');
+    expect(state.mode).toBe(MODE.LIST);
+    expect(selectedEntry(state)!.service).toBe('auth-service');
+  });
+
+  it('moves the list cursor along with the graph cursor', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = graphState();
+    handleKeypress(state, 'm');
+    handleKeypress(state, 'k');
+    expect(selectedEntry(state)!.service).toBe('api-gateway');
+    handleKeypress(state, 'k');
+    handleKeypress(state, 'k');
+    handleKeypress(state, 'k');
+    expect(state.graphCursor).toBe(0);
+    expect(selectedEntry(state)!.service).toBe('postgres');
+  });
+
+  it('rebuilds and cascades the service under the cursor', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const docker = await import('../src/lib/docker');
+    const state = graphState();
+    handleKeypress(state, 'm');
+    handleKeypress(state, 'j');
+    handleKeypress(state, 'b');
+    expect(docker.rebuildService).toHaveBeenLastCalledWith(services, 'user-service', expect.anything());
+    expect(state.rebuilding.has(statusKey(services, 'user-service'))).toBe(true);
+    expect(state.mode).toBe(MODE.GRAPH);
+  });
+
+  it('does nothing for a service the filter hides', async () => {
+    const { handleKeypress } = await import('../src/index');
+    const state = graphState();
+    handleKeypress(state, 'm');
+    state.flatList = state.flatList.filter(e => e.service !== 'user-service');
+    handleKeypress(state, 'j');
+    handleKeypress(state, 'p');
+    expect(state.stopping.size).toBe(0);
+  });
 });
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createTestState } from './helpers';
+import { PALETTE_ACTIONS, paletteItems, paletteMatches } from '../src/lib/palette';
+
+describe('paletteItems', () => {
+  it('lists the selected service first, then the global actions, then every other service', () => {
+    const state = createTestState();
+    state.cursor = 3; // auth-service
+    const items = paletteItems(state);
+    const perService = PALETTE_ACTIONS.filter(a => a.perService).length;
+    const global = PALETTE_ACTIONS.length - perService;
+    expect(items).toHaveLength(5 * perService + global);
+    expect(items.slice(0, perService).every(i => i.service === 'auth-service')).toBe(true);
+    expect(items.slice(perService, perService + global).every(i => i.service === null)).toBe(true);
+    expect(items[perService + global].text).toBe('go to postgres');
+  });
+});
+
+describe('paletteMatches', () => {
+  it('matches action and service together', () => {
+    const state = createTestState();
+    state.paletteQuery = 'rebuild user';
+    const [best] = paletteMatches(state);
+    expect(best.item.action.id).toBe('rebuild');
+    expect(best.item.service).toBe('user-service');
+    expect(best.item.file).toBe('/path/to/services/docker-compose.yml');
+  });
+
+  it('ranks a plain service name on go to first', () => {
+    const state = createTestState();
+    state.paletteQuery = 'redis';
+    const [best] = paletteMatches(state);
+    expect(best.item.text).toBe('go to redis');
+  });
+
+  it('finds global toggles', () => {
+    const state = createTestState();
+    state.paletteQuery = 'no deps';
+    expect(paletteMatches(state)[0].item.action.id).toBe('no_deps');
+  });
+
+  it('returns nothing when no item matches', () => {
+    const state = createTestState();
+    state.paletteQuery = 'zzz';
+    expect(paletteMatches(state)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'net';
+import { createTestState, createMockStatus } from './helpers';
+import { statusKey } from '../src/lib/state';
+import { serviceConflicts, hostPortInUse, findPortConflicts } from '../src/lib/ports';
+import type { AppState, PublishedPort } from '../src/lib/types';
+
+const infra = '/path/to/infra/docker-compose.yml';
+const services = '/path/to/services/docker-compose.yml';
+
+function port(published: number, protocol = 'tcp'): PublishedPort {
+  return { published, target: published, protocol, hostIp: '127.0.0.1' };
+}
+
+function stateWithPorts(): AppState {
+  const state = createTestState();
+  for (const [sk, st] of state.statuses) state.statuses.set(sk, { ...st, ports: [] });
+  state.statuses.set(statusKey(infra, 'postgres'), createMockStatus({ ports: [{ published: 5432, target: 5432 }] }));
+  state.statuses.set(statusKey(services, 'api-gateway'), createMockStatus({ ports: [{ published: 8080, target: 80 }] }));
+  state.statuses.set(statusKey(services, 'auth-service'), createMockStatus({ state: 'exited', ports: [{ published: 9000, target: 9000 }] }));
+  return state;
+}
+
+// A port nothing listens on: bind an ephemeral one and let it go again
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port: p } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return p;
+}
+
+describe('serviceConflicts', () => {
+  it('finds running services that publish the same host port', () => {
+    const state = stateWithPorts();
+    expect(serviceConflicts(state, services, 'user-service', [port(8080), port(5432), port(9000)])).toEqual([
+      { port: 8080, file: services, service: 'api-gateway' },
+      { port: 5432, file: infra, service: 'postgres' },
+    ]);
+  });
+
+  it('ignores the service itself', () => {
+    const state = stateWithPorts();
+    expect(serviceConflicts(state, services, 'api-gateway', [port(8080)])).toEqual([]);
+  });
+});
+
+describe('hostPortInUse', () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    if (server) await new Promise(resolve => server!.close(resolve));
+    server = null;
+  });
+
+  it('reports a port something listens on', async () => {
+    server = net.createServer();
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const { port: busy } = server.address() as net.AddressInfo;
+    await expect(hostPortInUse(busy, '127.0.0.1')).resolves.toBe(true);
+    await expect(hostPortInUse(await freePort(), '127.0.0.1')).resolves.toBe(false);
+  });
+
+  it('leaves addresses the host does not have to docker', async () => {
+    await expect(hostPortInUse(await freePort(), '203.0.113.7')).resolves.toBe(false);
+  });
+});
+
+describe('findPortConflicts', () => {
+  it('checks the host only for ports no service in the list holds', async () => {
+    const state = stateWithPorts();
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port: busy } = server.address() as net.AddressInfo;
+    try {
+      const conflicts = await findPortConflicts(state, services, 'user-service', [port(8080), port(8080, 'udp'), port(busy), port(busy, 'udp')]);
+      expect(conflicts).toEqual([
+        { port: 8080, file: services, service: 'api-gateway' },
+        { port: busy, file: null, service: null },
+      ]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('skips ports the running service holds itself', async () => {
+    const state = stateWithPorts();
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port: own } = server.address() as net.AddressInfo;
+    state.statuses.set(statusKey(services, 'user-service'), createMockStatus({ ports: [{ published: own, target: 80 }] }));
+    try {
+      await expect(findPortConflicts(state, services, 'user-service', [port(own)])).resolves.toEqual([]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -12,12 +12,13 @@ import {
   renderLegend,
   renderListView,
   renderLogView,
+  renderGraphView,
   truncateLine,
   highlightSearchInLine,
   wrapPlainLine,
 } from '../src/lib/renderer';
-import { createTestState, createMockStatus, createMockKillable } from './helpers';
-import { statusKey } from '../src/lib/state';
+import { createTestState, createTestConfig, createMockStatus, createMockKillable } from './helpers';
+import { statusKey, buildFlatList } from '../src/lib/state';
 
 // Strip ANSI helper for test assertions
 function strip(str: string): string {
@@ -423,6 +424,20 @@ describe('renderListView', () => {
     expect(text).not.toContain('WORKTREE');
   });
 
+  it('shows the PROJECT column once a service runs outside its group project', () => {
+    const state = createTestState();
+    state.config = { ...state.config, columns: [{ id: 'service', width: 24 }, { id: 'project', width: 16 }] };
+    state.serviceProjects.set(statusKey(state.groups[0].file, 'postgres'), { name: 'infra-fix-bug', own: false });
+    state.serviceProjects.set(statusKey(state.groups[0].file, 'redis'), { name: 'infra', own: true });
+    expect(strip(renderListView(state))).not.toContain('PROJECT');
+
+    state.showProjectColumn = true;
+    const lines = strip(renderListView(state)).split('\n');
+    expect(lines.some(l => l.includes('PROJECT'))).toBe(true);
+    expect(lines.find(l => l.includes('postgres'))).toContain('infra-fix-bug');
+    expect(lines.find(l => l.includes('redis'))).toMatch(/redis\s+infra\s*$/);
+  });
+
   it('shows rebuilding status for service', () => {
     const state = createTestState();
     const sk = statusKey(state.groups[0].file, 'postgres');
@@ -524,6 +539,18 @@ describe('renderListView', () => {
     expect(output).toContain('\x1b[33mfix-bug');
   });
 
+  it('marks inferred worktree overrides and keeps the marker when the branch is cut', () => {
+    const state = createTestState();
+    state.showWorktreeColumn = true;
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.statuses.set(sk, createMockStatus({ worktree: 'feature/long-branch-name' }));
+    state.inferredOverrides.add(sk);
+    const lines = strip(renderListView(state)).split('\n');
+    const row = lines.find(l => l.includes('postgres'))!;
+    expect(row).toContain('feature\u2026 (auto)');
+    expect(lines.find(l => l.includes('redis'))).not.toContain('(auto)');
+  });
+
   it('shows worktree column dimmed when worktree is main', () => {
     const state = createTestState();
     state.showWorktreeColumn = true;
@@ -548,6 +575,166 @@ describe('renderListView', () => {
     const bgCount = (pgLine!.match(/\x1b\[48;5;237m/g) || []).length;
     expect(bgCount).toBeGreaterThan(1);
   });
+
+  it('lists services of inactive profiles under a dimmed profile line', () => {
+    const state = createTestState();
+    state.groups[0].services.push('adminer');
+    state.groups[0].profiles = new Map([['adminer', ['debug']]]);
+    state.flatList = buildFlatList(state.groups);
+    const lines = strip(renderListView(state)).split('\n');
+    const header = lines.findIndex(l => l.includes('profile: debug (inactive)'));
+    expect(header).toBeGreaterThan(-1);
+    expect(lines[header + 1]).toContain('adminer');
+
+    state.activeProfiles = ['debug'];
+    expect(strip(renderListView(state))).not.toContain('profile: debug');
+  });
+
+  it('renders the profile picker with active markers', () => {
+    const state = createTestState();
+    state.groups[0].profiles = new Map([['adminer', ['debug']]]);
+    state.profilePickerActive = true;
+    state.profilePickerEntries = ['debug', 'tools'];
+    state.activeProfiles = ['tools'];
+    const text = strip(renderListView(state));
+    expect(text).toContain('[ ] debug  1 service');
+    expect(text).toContain('[x] tools  0 services');
+    expect(text).toContain('[Space/Enter] toggle');
+  });
+
+  it('renders the command palette with matches and key hints', () => {
+    const state = createTestState();
+    state.paletteActive = true;
+    state.paletteQuery = 'rebuild auth';
+    const text = strip(renderListView(state));
+    expect(text).toContain(':rebuild auth_');
+    expect(text).toMatch(/rebuild auth-service\s+services\s+\[b\]/);
+    expect(text).toContain('[Enter] run');
+  });
+
+  it('marks selected services and counts them in the legend', () => {
+    const state = createTestState();
+    state.marked.add(statusKey(state.groups[0].file, 'redis'));
+    const lines = strip(renderListView(state)).split('\n');
+    expect(lines.find(l => l.includes('redis'))).toMatch(/^ \*/);
+    expect(lines.find(l => l.includes('postgres'))).toMatch(/^ {2}/);
+    expect(lines.join('\n')).toContain('[v] 1 marked');
+  });
+
+  it('shows bulk progress for every service in the bottom panel', () => {
+    const state = createTestState();
+    const file = state.groups[1].file;
+    state.bulk = {
+      action: 'rebuild',
+      items: [
+        { file, service: 'api-gateway', status: 'done', launched: true },
+        { file, service: 'auth-service', status: 'running', launched: true },
+        { file, service: 'user-service', status: 'queued', launched: false },
+      ],
+    };
+    state.bottomLogLines.set(statusKey(file, 'auth-service'), { action: 'rebuilding', service: 'auth-service', lines: ['#5 building'] });
+    const text = strip(renderListView(state));
+    expect(text).toContain('bulk rebuild  1/3 done, 1 running, 1 queued');
+    expect(text).toContain('[done] api-gateway');
+    expect(text).toContain('[>>> ] auth-service  rebuilding: #5 building');
+    expect(text).toContain('[    ] user-service');
+  });
+
+  it('shows stack worktree switch progress with the rollback hint once finished', () => {
+    const state = createTestState();
+    const file = state.groups[1].file;
+    const item = (service: string, status: 'done' | 'failed' | 'skipped') => ({ file, service, from: file, to: `/wt${file}`, status });
+    state.stackSwitch = {
+      branch: 'feature', rollback: false, running: false,
+      items: [item('user-service', 'done'), item('auth-service', 'failed'), item('api-gateway', 'skipped')],
+    };
+    const text = strip(renderListView(state));
+    expect(text).toContain('switch to worktree "feature"  3/3 done, 1 failed  R to roll back, Esc to dismiss');
+    expect(text).toContain('[FAIL] auth-service');
+    expect(text).toContain('[skip] api-gateway');
+
+    state.stackSwitch.rollback = true;
+    expect(strip(renderListView(state))).toContain('roll back from worktree "feature"  3/3 done, 1 failed  Esc to dismiss');
+  });
+
+  it('shows the filter bar and only the groups with matching services', () => {
+    const state = createTestState();
+    state.filterQuery = 'redis';
+    state.flatList = state.flatList.filter(e => e.service === 'redis');
+    const text = strip(renderListView(state));
+    expect(text).toContain('\\redis  1 of 5 services');
+    expect(text).toContain(' infra');
+    expect(text).not.toMatch(/^ services$/m);
+    expect(text).not.toContain('postgres');
+    expect(text).toContain('[\\] filter');
+
+    state.flatList = [];
+    expect(strip(renderListView(state))).toContain('no services match');
+  });
+
+  it('renders the configured columns in order with their widths', () => {
+    const state = createTestState();
+    state.config.columns = [{ id: 'ports', width: 6 }, { id: 'service', width: 10 }, { id: 'status', width: 8 }];
+    state.groups[1].services[0] = 'api-gateway-with-a-long-name';
+    state.flatList = buildFlatList(state.groups);
+    const lines = strip(renderListView(state)).split('\n');
+    const header = lines.find(l => l.includes('SERVICE'))!;
+    expect(header.trim()).toBe('PORTS  SERVICE    STATUS');
+    expect(header).not.toContain('BUILT');
+    const row = lines.find(l => l.includes('api-gate'))!;
+    expect(row).toContain('api-gatew\u2026 stopped');
+  });
+
+  it('marks the sort column in the header', () => {
+    const state = createTestState();
+    state.sortField = 'mem';
+    let text = strip(renderListView(state));
+    expect(text).toContain('CPU/MEM\u2193');
+    expect(text).toContain('[S]ort: mem');
+    state.sortField = 'errors';
+    text = strip(renderListView(state));
+    expect(text).toMatch(/WRN +ERR\u2193/);
+  });
+
+  it('lists the merged files of a multi-file group in its header', () => {
+    const state = createTestState();
+    state.groups[0].project = { files: ['/srv/compose.yml', '/srv/compose.override.yml'], projectName: null, projectDirectory: null, envFiles: [], environment: {} };
+    expect(strip(renderListView(state))).toContain('infra  compose.yml + compose.override.yml');
+  });
+
+  it('shows the env side panel next to the service rows', () => {
+    const state = createTestState();
+    state.groups[0].project = { files: ['/srv/compose.yml'], projectName: null, projectDirectory: null, envFiles: ['/srv/.env.dev'], environment: { TAG: 'dev' } };
+    state.envPanelActive = true;
+    state.envPanelVars = [{ key: 'DB_HOST', value: 'db' }, { key: 'TAG', value: 'dev' }, { key: 'EMPTY', value: null }];
+    const lines = strip(renderListView(state)).split('\n');
+    expect(lines.some(l => l.includes('\u2502 env postgres'))).toBe(true);
+    expect(lines.some(l => l.includes('\u2502 env files: .env.dev'))).toBe(true);
+    expect(lines.some(l => l.includes('\u2502 overrides: TAG'))).toBe(true);
+    expect(lines.some(l => l.includes('\u2502 DB_HOST=db'))).toBe(true);
+    expect(lines.some(l => l.includes('\u2502 EMPTY=(unset)'))).toBe(true);
+    // Panel rows stay within the terminal width
+    expect(Math.max(...lines.filter(l => l.includes('\u2502')).map(l => l.length))).toBeLessThanOrEqual(120);
+  });
+
+  it('marks scaled services and lists replicas when expanded', () => {
+    const state = createTestState();
+    const file = state.groups[0].file;
+    const replica = (number: number, state: string) => ({
+      number, state, health: '', createdAt: null, startedAt: null, id: `rep${number}`,
+      ports: [{ published: 5000 + number, target: 80 }],
+    });
+    state.statuses.set(statusKey(file, 'postgres'), createMockStatus({ replicas: [replica(1, 'running'), replica(2, 'exited')] }));
+    expect(strip(renderListView(state))).toContain('postgres ×2');
+
+    state.expandedServices.add(statusKey(file, 'postgres'));
+    state.flatList = buildFlatList(state.groups, state.expandedServices, state.statuses);
+    const lines = strip(renderListView(state)).split('\n');
+    const rep2 = lines.find(l => /#2\b/.test(l));
+    expect(rep2).toBeDefined();
+    expect(rep2).toContain('exited');
+    expect(rep2).toContain('5002');
+  });
 });
 
 describe('bottom panel shows limited lines', () => {
@@ -583,6 +770,120 @@ describe('bottom panel shows limited lines', () => {
     expect(text).toContain('build line 16');
     expect(text).not.toContain('build line 15');
   });
+
+  it('shows the plan of a cascade that rebuilds dependents', () => {
+    const state = createTestState();
+    const entry = state.flatList.find(e => e.service === 'postgres')!;
+    state.cascadePlan = {
+      entry, file: entry.file, levels: [['api', 'cache', 'worker']], scope: 'affected',
+      buildable: ['api', 'worker'], affected: ['worker'], loading: true, error: null,
+    };
+    expect(strip(renderListView(state))).toContain('reading the compose config and Dockerfiles');
+
+    state.cascadePlan.loading = false;
+    const output = strip(renderListView(state));
+    const lines = output.split('\n').map(l => l.trimEnd());
+    const start = lines.findIndex(l => l.includes('rebuild postgres and dependents built from postgres\'s image'));
+    expect(start).toBeGreaterThan(-1);
+    expect(lines.slice(start + 1, start + 6)).toEqual([
+      '  rebuild postgres',
+      '  3 in parallel',
+      '    restart api  not built from postgres',
+      '    restart cache  no build section',
+      '    rebuild worker',
+    ]);
+    expect(output).toContain('[a] all/affected dependents');
+  });
+
+  it('groups the cascade steps that run in parallel', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.showBottomLogs = true;
+    state.cascading.set(sk, {
+      direction: 'dependents',
+      level: 1,
+      children: new Map(),
+      steps: [
+        { action: 'rebuild', service: 'postgres', level: 0, status: 'completed' },
+        { action: 'restart', service: 'api', level: 1, status: 'in_progress' },
+        { action: 'restart', service: 'worker', level: 1, status: 'in_progress' },
+        { action: 'restart', service: 'gateway', level: 2, status: 'pending' },
+      ],
+    });
+    const lines = strip(renderListView(state)).split('\n');
+    const start = lines.findIndex(l => l.includes('cascading postgres'));
+    expect(lines.slice(start + 1, start + 6).map(l => l.trimEnd())).toEqual([
+      '  [done] rebuild postgres',
+      '  2 in parallel',
+      '    [>>> ] restart api',
+      '    [>>> ] restart worker',
+      '  [    ] restart gateway',
+    ]);
+  });
+
+  it('keeps a failed cascade on screen with the keys to go on', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[0].file, 'postgres');
+    state.showBottomLogs = true;
+    state.bottomLogLines.set(sk, { action: 'cascade_failed', service: 'postgres', lines: ['api | exit 1'] });
+    state.failedCascades.set(sk, {
+      direction: 'dependents',
+      level: 1,
+      children: new Map(),
+      steps: [
+        { action: 'rebuild', service: 'postgres', level: 0, status: 'completed' },
+        { action: 'restart', service: 'api', level: 1, status: 'failed' },
+        { action: 'restart', service: 'worker', level: 1, status: 'skipped' },
+        { action: 'restart', service: 'gateway', level: 2, status: 'pending' },
+      ],
+    });
+    const output = strip(renderListView(state));
+    expect(output).toContain('[r]etry step');
+    expect(output).toContain('[a]bort cascade');
+    const lines = output.split('\n');
+    const start = lines.findIndex(l => l.includes('cascading postgres'));
+    expect(lines.slice(start + 1, start + 6).map(l => l.trimEnd())).toEqual([
+      '  [done] rebuild postgres',
+      '  2 in parallel',
+      '    [FAIL] restart api',
+      '    [skip] restart worker',
+      '  [    ] restart gateway',
+    ]);
+    expect(output).toContain('CASCADE FAILED postgres');
+
+    // Another operation took the panel over
+    state.bottomLogLines.set(sk, { action: 'rebuilding', service: 'postgres', lines: [] });
+    expect(strip(renderListView(state))).not.toContain('[r]etry step');
+  });
+
+  it('shows the health gates of an upstream cascade with their wait', () => {
+    const state = createTestState();
+    const sk = statusKey(state.groups[1].file, 'api-gateway');
+    state.cursor = state.flatList.findIndex(e => e.service === 'api-gateway');
+    state.showBottomLogs = true;
+    state.cascading.set(sk, {
+      direction: 'prerequisites',
+      level: 1,
+      children: new Map(),
+      steps: [
+        { action: 'start', service: 'user-service', level: 0, status: 'completed' },
+        { action: 'health', service: 'user-service', level: 1, status: 'in_progress', startedAt: Date.now() - 5000 },
+        { action: 'health', service: 'auth-service', level: 1, status: 'failed', error: 'no healthcheck' },
+        { action: 'start', service: 'api-gateway', level: 2, status: 'pending' },
+      ],
+    });
+    const lines = strip(renderListView(state)).split('\n');
+    const start = lines.findIndex(l => l.includes('starting api-gateway with prerequisites'));
+    expect(start).toBeGreaterThan(-1);
+    expect(lines.slice(start + 1, start + 6).map(l => l.trimEnd())).toEqual([
+      '  [done] start user-service',
+      '  2 in parallel',
+      '    [>>> ] wait for healthy user-service 5s/120s',
+      '    [FAIL] wait for healthy auth-service no healthcheck',
+      '  [    ] start api-gateway',
+    ]);
+    expect(lines.find(l => l.includes('api-gateway') && l.includes('STARTING'))).toBeDefined();
+  });
 });
 
 describe('renderLogView build status header', () => {
@@ -882,12 +1183,74 @@ describe('renderLogView', () => {
   });
 });
 
+describe('renderGraphView', () => {
+  let originalColumns: number | undefined;
+  let originalRows: number | undefined;
+  const services = '/path/to/services/docker-compose.yml';
+
+  beforeEach(() => {
+    originalColumns = process.stdout.columns;
+    originalRows = process.stdout.rows;
+    process.stdout.columns = 100;
+    process.stdout.rows = 30;
+  });
+
+  afterEach(() => {
+    process.stdout.columns = originalColumns!;
+    process.stdout.rows = originalRows!;
+  });
+
+  function graphState() {
+    const state = createTestState();
+    state.mode = 'GRAPH';
+    state.depGraphs.set(services, {
+      dependsOn: new Map([['api-gateway', ['auth-service', 'user-service']], ['auth-service', ['user-service']], ['user-service', ['cache']]]),
+      dependedBy: new Map([['auth-service', ['api-gateway']], ['user-service', ['api-gateway', 'auth-service']]]),
+      conditions: new Map([['api-gateway', new Map([['user-service', 'service_healthy']])]]),
+    });
+    return state;
+  }
+
+  it('draws the trees per group with the edge conditions', () => {
+    const lines = strip(renderGraphView(graphState())).split('\n').map(l => l.trimEnd());
+    const start = lines.indexOf(' services');
+    expect(lines.slice(start, start + 7)).toEqual([
+      ' services',
+      '   \u25CF api-gateway',
+      '   \u251C\u2500 \u25CF auth-service',
+      '   \u2502  \u2514\u2500 \u25CF user-service',
+      '   \u2502     \u2514\u2500 \u25CB cache',
+      '   \u2514\u2500 \u25CF user-service  service_healthy  (see above)',
+      '',
+    ]);
+    expect(strip(renderGraphView(graphState()))).toContain('[D]ep rebuild');
+  });
+
+  it('colors each service by its status', () => {
+    const state = graphState();
+    state.statuses.set(statusKey(services, 'auth-service'), createMockStatus({ health: 'unhealthy' }));
+    state.rebuilding.set(statusKey(services, 'api-gateway'), createMockKillable());
+    const output = renderGraphView(state);
+    expect(output).toContain('\x1b[31mauth-service');
+    expect(output).toContain('\x1b[33mapi-gateway');
+    expect(output).toContain('\x1b[90mcache');
+  });
+
+  it('highlights the row under the cursor', () => {
+    const state = graphState();
+    state.graphCursor = 3;
+    const row = renderGraphView(state).split('\n').find(l => strip(l).includes('auth-service'))!;
+    expect(row).toContain('\x1b[48;5;237m');
+  });
+});
+
 describe('renderLegend - worktree picker', () => {
   it('shows picker keys when worktreePickerActive', () => {
     const result = strip(renderLegend({ worktreePickerActive: true }));
     expect(result).toContain('[Esc] cancel');
     expect(result).toContain('[Enter] switch');
     expect(result).toContain('[j/k] navigate');
+    expect(result).toContain('[d] diff');
     expect(result).not.toContain('Re[B]uild');
   });
 
@@ -933,6 +1296,44 @@ describe('renderListView - worktree picker overlay', () => {
     expect(output).toContain('(current)');
   });
 
+  it('shows git status, last commit and a compose warning per worktree', () => {
+    const state = createTestState();
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [
+      { path: '/home/user/main', branch: 'main', dirty: false, ahead: 0, behind: 0, lastCommit: { subject: 'release 1.4', time: Math.floor(Date.now() / 1000) - 7200 }, composeChanged: false },
+      { path: '/home/user/fix', branch: 'fix-bug', dirty: true, ahead: 2, behind: 1, lastCommit: { subject: 'fix empty carts', time: Math.floor(Date.now() / 1000) - 300 }, composeChanged: true },
+      { path: '/home/user/new', branch: 'new' },
+    ];
+    state.worktreePickerCursor = 1;
+    state.worktreePickerCurrentPath = '/home/user/main';
+    const lines = strip(renderListView(state)).split('\n');
+    const main = lines.find(l => l.includes('/home/user/main'))!;
+    expect(main).toContain('clean  up to date  release 1.4 2h ago');
+    expect(main).not.toContain('compose');
+    const fix = lines.find(l => l.includes('/home/user/fix'))!;
+    expect(fix).toContain('* dirty  \u21912 \u21931  fix empty carts 5m ago  \u26a0 compose file differs');
+    // Status not in yet
+    expect(lines.find(l => l.includes('/home/user/new'))!.trim()).toBe('new      /home/user/new');
+  });
+
+  it('shows port conflicts instead of the picker once a switch is held', () => {
+    const state = createTestState();
+    const entry = state.flatList.find(e => e.service === 'user-service')!;
+    state.portConflict = {
+      entry,
+      action: { kind: 'switch', newFile: '/wt/fix/services/docker-compose.yml', where: 'worktree "fix"' },
+      conflicts: [{ port: 8080, file: '/path/to/services/docker-compose.yml', service: 'api-gateway' }, { port: 5432, file: null, service: null }],
+    };
+    const output = strip(renderListView(state));
+    expect(output).toContain('ports in use \u2014 user-service is not switching to worktree "fix" yet');
+    expect(output).toContain(' 8080  published by api-gateway  services');
+    expect(output).toContain(' 5432  in use by another process on this host');
+    expect(output).toContain('[y] stop them and continue');
+
+    state.portConflict.conflicts = [{ port: 5432, file: null, service: null }];
+    expect(strip(renderListView(state))).not.toContain('[y]');
+  });
+
   it('shows picker legend when picker is active', () => {
     const state = createTestState();
     state.worktreePickerActive = true;
@@ -945,6 +1346,40 @@ describe('renderListView - worktree picker overlay', () => {
     expect(output).toContain('[Enter] switch');
   });
 
+  it('offers a new worktree row and shows the branch prompt', () => {
+    const state = createTestState();
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [{ path: '/src/shop', branch: 'main' }];
+    state.worktreePickerCursor = 1;
+    state.worktreePickerMessage = 'no other worktrees yet';
+    let output = strip(renderListView(state));
+    expect(output).toContain('+ new worktree from branch\u2026');
+    expect(output).toContain('no other worktrees yet');
+    expect(output).toContain('[x] remove');
+
+    state.branchPromptActive = true;
+    state.branchPromptQuery = 'rel';
+    state.branchPromptBranches = { local: ['main'], remote: ['origin/release'] };
+    output = strip(renderListView(state));
+    expect(output).toContain('new worktree from branch: rel_');
+    expect(output).toContain('new branch rel  from HEAD');
+    expect(output).toContain('origin/release  remote');
+    expect(output).toContain('[Enter] create worktree');
+  });
+
+  it('names the group or the marked services in the picker header', () => {
+    const state = createTestState();
+    state.cursor = 2;
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [{ path: '/a', branch: 'main' }];
+    state.worktreePickerScope = 'group';
+    expect(strip(renderListView(state))).toContain('switch worktree group services');
+    state.worktreePickerScope = 'marked';
+    state.marked.add(statusKey(state.groups[1].file, 'api-gateway'));
+    state.marked.add(statusKey(state.groups[1].file, 'user-service'));
+    expect(strip(renderListView(state))).toContain('switch worktree 2 marked services');
+  });
+
   it('shows service name in picker header', () => {
     const state = createTestState();
     state.cursor = 2; // 'api-gateway'
@@ -970,6 +1405,41 @@ describe('renderListView - worktree picker overlay', () => {
     expect(output).toContain('(current)');
   });
 
+  it('shows the changes to the service definition under the picker', () => {
+    const state = createTestState({ config: createTestConfig({ bottomLogCount: 4 }) });
+    const service = state.flatList[state.cursor].service;
+    state.worktreePickerActive = true;
+    state.worktreePickerEntries = [
+      { path: '/home/user/main', branch: 'main' },
+      { path: '/home/user/fix', branch: 'fix-bug' },
+    ];
+    state.worktreePickerCursor = 1;
+    state.worktreePreviewActive = true;
+    state.worktreePreview = { path: '/home/user/fix', changes: null, error: null };
+    expect(strip(renderListView(state))).toContain('loading compose config');
+
+    state.worktreePreview.changes = [
+      { path: 'environment.DEBUG', before: null, after: '1' },
+      { path: 'image', before: 'api:1', after: 'api:2' },
+      { path: 'volumes[0].source', before: './data', after: null },
+      { path: 'working_dir', before: '/app', after: '/srv' },
+      { path: 'user', before: 'node', after: 'root' },
+    ];
+    const raw = renderListView(state);
+    const lines = strip(raw).split('\n');
+    expect(lines).toContainEqual(expect.stringContaining(`${service} in worktree fix-bug`));
+    expect(lines.find(l => l.includes('+ environment.DEBUG'))).toMatch(/\+ environment\.DEBUG\s+1$/);
+    expect(lines.find(l => l.includes('~ image'))).toMatch(/api:1 \u2192 api:2/);
+    expect(lines).toContainEqual(expect.stringContaining('- volumes[0].source'));
+    expect(lines).toContainEqual(expect.stringContaining('\u2026 2 more changes'));
+    expect(raw).toContain('\x1b[33m~ image');
+
+    state.worktreePreview.changes = [];
+    expect(strip(renderListView(state))).toContain('same definition');
+    state.worktreePreview.error = 'service "api" not found';
+    expect(strip(renderListView(state))).toContain('service "api" not found');
+  });
+
   it('does not mark non-current worktree as current', () => {
     const state = createTestState();
     state.worktreePickerActive = true;
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RUNTIMES, RUNTIME_ORDER, isRuntimeName, composeCommand, composeVersionCommand, composeWatchProbeCommand,
+  engineCommand, statsCommand, eventsCommand, execCommand,
+} from '../src/lib/runtime';
+
+describe('isRuntimeName', () => {
+  it('accepts the supported runtimes only', () => {
+    for (const name of RUNTIME_ORDER) expect(isRuntimeName(name)).toBe(true);
+    expect(isRuntimeName('auto')).toBe(false);
+    expect(isRuntimeName('toString')).toBe(false);
+    expect(isRuntimeName(42)).toBe(false);
+  });
+});
+
+describe('composeCommand', () => {
+  it('uses the docker compose plugin', () => {
+    expect(composeCommand(RUNTIMES.docker, '/p/compose.yml', ['up', '-d', 'web'])).toEqual({
+      cmd: 'docker', args: ['compose', '-f', '/p/compose.yml', 'up', '-d', 'web'],
+    });
+  });
+
+  it('uses the standalone docker-compose binary', () => {
+    expect(composeCommand(RUNTIMES['docker-compose'], '/p/compose.yml', ['ps', '-q', 'web'])).toEqual({
+      cmd: 'docker-compose', args: ['-f', '/p/compose.yml', 'ps', '-q', 'web'],
+    });
+  });
+
+  it('uses podman compose', () => {
+    expect(composeCommand(RUNTIMES.podman, '/p/compose.yml', ['logs', '-f', '--tail', '10', 'web'])).toEqual({
+      cmd: 'podman', args: ['compose', '-f', '/p/compose.yml', 'logs', '-f', '--tail', '10', 'web'],
+    });
+  });
+
+  it('uses nerdctl compose', () => {
+    expect(composeCommand(RUNTIMES.nerdctl, '/p/compose.yml', ['config', '--services'])).toEqual({
+      cmd: 'nerdctl', args: ['compose', '-f', '/p/compose.yml', 'config', '--services'],
+    });
+  });
+
+  it('places --profile flags before the subcommand', () => {
+    expect(composeCommand(RUNTIMES.docker, '/p/compose.yml', ['up', '-d'], { profiles: ['debug', 'tools'] }).args).toEqual([
+      'compose', '-f', '/p/compose.yml', '--profile', 'debug', '--profile', 'tools', 'up', '-d',
+    ]);
+  });
+
+  it('merges several files with a project name and env file', () => {
+    const { args } = composeCommand(RUNTIMES['docker-compose'], ['/p/compose.yml', '/p/compose.override.yml'], ['ps'], {
+      projectName: 'shop', envFiles: ['/p/.env', '/p/.env.local'],
+    });
+    expect(args).toEqual(['-f', '/p/compose.yml', '-f', '/p/compose.override.yml', '-p', 'shop', '--env-file', '/p/.env', '--env-file', '/p/.env.local', 'ps']);
+  });
+
+  it('passes an explicit project directory', () => {
+    const { args } = composeCommand(RUNTIMES.docker, '/wt/fix/compose.yml', ['up', '-d'], { projectName: 'shop', projectDirectory: '/wt/fix' });
+    expect(args).toEqual(['compose', '-f', '/wt/fix/compose.yml', '-p', 'shop', '--project-directory', '/wt/fix', 'up', '-d']);
+  });
+
+  it('resolves relative compose files', () => {
+    const { args } = composeCommand(RUNTIMES.docker, 'compose.yml', ['ps']);
+    expect(args[2]).toBe(`${process.cwd()}/compose.yml`);
+  });
+});
+
+describe('probe commands', () => {
+  it('builds version probes per runtime', () => {
+    expect(composeVersionCommand(RUNTIMES.docker)).toEqual({ cmd: 'docker', args: ['compose', 'version'] });
+    expect(composeVersionCommand(RUNTIMES['docker-compose'])).toEqual({ cmd: 'docker-compose', args: ['version'] });
+    expect(composeVersionCommand(RUNTIMES.podman)).toEqual({ cmd: 'podman', args: ['compose', 'version'] });
+    expect(composeVersionCommand(RUNTIMES.nerdctl)).toEqual({ cmd: 'nerdctl', args: ['compose', 'version'] });
+  });
+
+  it('builds watch probes per runtime', () => {
+    expect(composeWatchProbeCommand(RUNTIMES['docker-compose'])).toEqual({ cmd: 'docker-compose', args: ['watch', '--help'] });
+    expect(composeWatchProbeCommand(RUNTIMES.podman)).toEqual({ cmd: 'podman', args: ['compose', 'watch', '--help'] });
+  });
+});
+
+describe('container-level commands', () => {
+  it('sends docker-compose container commands to the docker CLI', () => {
+    expect(engineCommand(RUNTIMES['docker-compose'], ['inspect', 'abc'])).toEqual({ cmd: 'docker', args: ['inspect', 'abc'] });
+  });
+
+  it('uses the runtime binary for podman and nerdctl', () => {
+    expect(engineCommand(RUNTIMES.podman, ['logs', 'abc'])).toEqual({ cmd: 'podman', args: ['logs', 'abc'] });
+    expect(engineCommand(RUNTIMES.nerdctl, ['logs', 'abc'])).toEqual({ cmd: 'nerdctl', args: ['logs', 'abc'] });
+  });
+
+  it('builds exec with an optional working directory', () => {
+    expect(execCommand(RUNTIMES.podman, 'abc', 'ls', '/app')).toEqual({
+      cmd: 'podman', args: ['exec', '-w', '/app', 'abc', 'sh', '-c', 'ls'],
+    });
+    expect(execCommand(RUNTIMES.nerdctl, 'abc', 'ls')).toEqual({
+      cmd: 'nerdctl', args: ['exec', 'abc', 'sh', '-c', 'ls'],
+    });
+  });
+});
+
+describe('statsCommand', () => {
+  it('uses docker JSON output for docker and nerdctl', () => {
+    expect(statsCommand(RUNTIMES.docker, ['a', 'b'])).toEqual({
+      cmd: 'docker', args: ['stats', '--no-stream', '--format', '{{json .}}', 'a', 'b'],
+    });
+    expect(statsCommand(RUNTIMES.nerdctl, ['a']).args).toEqual(['stats', '--no-stream', '--format', '{{json .}}', 'a']);
+  });
+
+  it('spells out docker-shaped keys for podman', () => {
+    const { cmd, args } = statsCommand(RUNTIMES.podman, ['a']);
+    expect(cmd).toBe('podman');
+    expect(args.slice(0, 3)).toEqual(['stats', '--no-stream', '--format']);
+    expect(args[3]).toBe('{"ID":"{{.ID}}","Name":"{{.Name}}","CPUPerc":"{{.CPUPerc}}","MemUsage":"{{.MemUsage}}"}');
+    expect(args[4]).toBe('a');
+  });
+});
+
+describe('eventsCommand', () => {
+  it('filters on the compose label for docker and podman', () => {
+    expect(eventsCommand(RUNTIMES.docker)).toEqual({
+      cmd: 'docker',
+      args: ['events', '--format', '{{json .}}', '--filter', 'type=container', '--filter', 'label=com.docker.compose.project'],
+    });
+    expect(eventsCommand(RUNTIMES.podman)).toEqual({
+      cmd: 'podman',
+      args: ['events', '--format', 'json', '--filter', 'type=container', '--filter', 'label=com.docker.compose.project'],
+    });
+  });
+
+  it('has no events stream for nerdctl', () => {
+    expect(eventsCommand(RUNTIMES.nerdctl)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { sessionPath, parseSession, loadSession, saveSession, sessionSnapshot } from '../src/lib/session';
+import { statusKey } from '../src/lib/state';
+import { createTestState } from './helpers';
+
+describe('session file', () => {
+  let tmpDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recomposable-session-'));
+    file = sessionPath(tmpDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('lives under .recomposable in the project directory', () => {
+    expect(file).toBe(path.join(tmpDir, '.recomposable', 'session.json'));
+  });
+
+  it('is empty when missing or unreadable', () => {
+    expect(loadSession(file)).toEqual({});
+    fs.mkdirSync(path.dirname(file));
+    fs.writeFileSync(file, '{ not json');
+    expect(loadSession(file)).toEqual({});
+  });
+
+  it('merges saved values into the existing file', () => {
+    saveSession({ sortField: 'cpu' }, file);
+    expect(loadSession(file)).toEqual({ sortField: 'cpu' });
+    saveSession({}, file);
+    expect(loadSession(file)).toEqual({ sortField: 'cpu' });
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['session.json']);
+  });
+
+  it('drops unknown or invalid values', () => {
+    expect(parseSession({ sortField: 'size', extra: 1 })).toEqual({});
+    expect(parseSession([])).toEqual({});
+    expect(parseSession({ sortField: 'uptime' })).toEqual({ sortField: 'uptime' });
+  });
+
+  it('keeps well-formed UI state and overrides', () => {
+    expect(parseSession({
+      noCache: true, noDeps: 'yes', showBottomLogs: false,
+      selected: { file: 'a.yml', service: 'web' },
+      execHistory: ['ls', 3, ''],
+      worktreeOverrides: [{ file: 'a.yml', service: 'web', override: '/wt/a.yml' }, { file: 'a.yml' }, null],
+    })).toEqual({
+      noCache: true, showBottomLogs: false,
+      selected: { file: 'a.yml', service: 'web' },
+      execHistory: ['ls'],
+      worktreeOverrides: [{ file: 'a.yml', service: 'web', override: '/wt/a.yml' }],
+    });
+    expect(parseSession({ selected: { file: 'a.yml' } })).toEqual({});
+  });
+});
+
+describe('sessionSnapshot', () => {
+  it('captures toggles, selection, exec history and overrides by file and service', () => {
+    const state = createTestState();
+    const services = '/path/to/services/docker-compose.yml';
+    state.cursor = 2;
+    state.noDeps = true;
+    state.execHistory = ['ls'];
+    state.worktreeOverrides.set(statusKey(services, 'user-service'), '/wt/services/docker-compose.yml');
+    expect(sessionSnapshot(state)).toEqual({
+      sortField: 'default', noCache: false, noDeps: true, showBottomLogs: state.showBottomLogs,
+      selected: { file: services, service: 'api-gateway' },
+      execHistory: ['ls'],
+      worktreeOverrides: [{ file: services, service: 'user-service', override: '/wt/services/docker-compose.yml' }],
+    });
+  });
+
+  it('round-trips through the session file', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recomposable-session-'));
+    const file = sessionPath(tmpDir);
+    const snapshot = sessionSnapshot(createTestState());
+    saveSession(snapshot, file);
+    expect(loadSession(file)).toEqual(snapshot);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+});
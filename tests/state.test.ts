@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { createState, statusKey, buildFlatList, moveCursor, selectedEntry, MODE, worktreeLabel, getEffectiveFile } from '../src/lib/state';
+import { createState, statusKey, replicaKey, entryKey, buildFlatList, refreshFlatList, moveCursor, selectedEntry, selectedReplica, serviceStatusFromReplicas, bottomPanelKey, inactiveProfile, filterFlatList, patternLabel, MODE, worktreeLabel, getEffectiveFile } from '../src/lib/state';
 import { createTestConfig, createMockGroups } from './helpers';
 
 describe('MODE', () => {
@@ -224,3 +224,136 @@ describe('getEffectiveFile', () => {
     expect(getEffectiveFile(state, '/path/to/compose.yml', 'api')).toBe('/path/to/compose.yml');
   });
 });
+
+describe('replica rows', () => {
+  const file = '/path/to/infra/docker-compose.yml';
+  const replica = (number: number, state = 'running', health = '') => ({
+    number, state, health, createdAt: null, startedAt: null, id: `id${number}`, ports: [{ published: 8080 + number, target: 80 }],
+  });
+
+  function stateWithReplicas() {
+    const state = createState(createTestConfig());
+    state.groups = createMockGroups();
+    state.statuses.set(statusKey(file, 'postgres'), serviceStatusFromReplicas([replica(1), replica(2), replica(3)]));
+    state.flatList = buildFlatList(state.groups);
+    return state;
+  }
+
+  it('serviceStatusFromReplicas picks the lowest running replica and merges ports', () => {
+    const st = serviceStatusFromReplicas([replica(2), replica(1, 'exited'), replica(3, 'running', 'unhealthy')], '/srv', 'main');
+    expect(st.id).toBe('id2');
+    expect(st.state).toBe('running');
+    expect(st.health).toBe('unhealthy');
+    expect(st.ports.map(p => p.published)).toEqual([8081, 8082, 8083]);
+    expect(st.replicas!.map(r => r.number)).toEqual([1, 2, 3]);
+    expect(st.workingDir).toBe('/srv');
+    expect(st.worktree).toBe('main');
+  });
+
+  it('serviceStatusFromReplicas omits replicas for a single container', () => {
+    expect(serviceStatusFromReplicas([replica(1)]).replicas).toBeUndefined();
+  });
+
+  it('buildFlatList adds sub-rows only for expanded services', () => {
+    const state = stateWithReplicas();
+    expect(buildFlatList(state.groups, new Set(), state.statuses)).toHaveLength(5);
+    const list = buildFlatList(state.groups, new Set([statusKey(file, 'postgres')]), state.statuses);
+    expect(list.slice(0, 4).map(e => [e.service, e.replica])).toEqual([
+      ['postgres', undefined], ['postgres', 1], ['postgres', 2], ['postgres', 3],
+    ]);
+    expect(entryKey(list[2])).toBe(replicaKey(file, 'postgres', 2));
+    expect(entryKey(list[0])).toBe(statusKey(file, 'postgres'));
+  });
+
+  it('refreshFlatList falls back to the service row when a replica disappears', () => {
+    const state = stateWithReplicas();
+    state.expandedServices.add(statusKey(file, 'postgres'));
+    refreshFlatList(state);
+    state.cursor = 3;
+    expect(selectedReplica(state)!.number).toBe(3);
+    state.statuses.set(statusKey(file, 'postgres'), serviceStatusFromReplicas([replica(1), replica(2)]));
+    refreshFlatList(state);
+    expect(selectedEntry(state)!.service).toBe('postgres');
+    expect(selectedEntry(state)!.replica).toBeUndefined();
+  });
+
+  it('bottomPanelKey shows service operations on replica rows', () => {
+    const state = stateWithReplicas();
+    const entry = { groupIdx: 0, serviceIdx: 0, service: 'postgres', file, replica: 2 };
+    expect(bottomPanelKey(state, entry)).toBe(replicaKey(file, 'postgres', 2));
+    state.bottomLogLines.set(statusKey(file, 'postgres'), { action: 'restarting', service: 'postgres', lines: [] });
+    expect(bottomPanelKey(state, entry)).toBe(statusKey(file, 'postgres'));
+  });
+});
+
+describe('inactiveProfile', () => {
+  const group = {
+    file: '/a.yml', label: 'a', services: ['web', 'adminer', 'cli'], error: null,
+    profiles: new Map([['adminer', ['debug']], ['cli', ['tools', 'debug']]]),
+  };
+
+  it('returns null for services outside any profile', () => {
+    expect(inactiveProfile(group, 'web', [])).toBeNull();
+  });
+
+  it('returns the first profile when none of the service profiles is active', () => {
+    expect(inactiveProfile(group, 'cli', [])).toBe('tools');
+    expect(inactiveProfile(group, 'cli', ['debug'])).toBeNull();
+    expect(inactiveProfile(group, 'adminer', ['tools'])).toBe('debug');
+  });
+});
+
+describe('filterFlatList', () => {
+  function filteredState(query: string) {
+    const state = createState(createTestConfig());
+    state.groups = createMockGroups();
+    state.filterQuery = query;
+    return state;
+  }
+
+  it('returns the list unchanged without a query', () => {
+    const state = filteredState('  ');
+    const list = buildFlatList(state.groups);
+    expect(filterFlatList(state, list)).toBe(list);
+  });
+
+  it('treats services without a container as stopped', () => {
+    const state = filteredState('state:stopped');
+    state.statuses.set(statusKey('/path/to/infra/docker-compose.yml', 'redis'), {
+      state: 'running', health: '', createdAt: null, startedAt: null, id: 'r1', ports: [], workingDir: null, worktree: null,
+    });
+    expect(filterFlatList(state, buildFlatList(state.groups)).map(e => e.service)).toEqual(['postgres', 'api-gateway', 'auth-service', 'user-service']);
+  });
+
+  it('counts log patterns by their label', () => {
+    const state = filteredState('err>0');
+    state.logCounts.set(statusKey('/path/to/services/docker-compose.yml', 'api-gateway'), new Map([['ERR]', 2]]));
+    expect(filterFlatList(state, buildFlatList(state.groups)).map(e => e.service)).toEqual(['api-gateway']);
+  });
+
+  it('keeps replica rows with their service and refreshes the cursor', () => {
+    const state = filteredState('');
+    const file = '/path/to/infra/docker-compose.yml';
+    const sk = statusKey(file, 'postgres');
+    const replica = (number: number) => ({ number, state: 'running', health: '', createdAt: null, startedAt: null, id: `p${number}`, ports: [] });
+    state.statuses.set(sk, { ...serviceStatusFromReplicas([replica(1), replica(2)], null, null) });
+    state.expandedServices.add(sk);
+    state.flatList = buildFlatList(state.groups, state.expandedServices, state.statuses);
+    state.cursor = 4; // redis
+    state.filterQuery = 'redis postgres';
+    refreshFlatList(state);
+    expect(state.flatList).toEqual([]);
+    state.filterQuery = 'pgres';
+    refreshFlatList(state);
+    expect(state.flatList.map(e => e.replica)).toEqual([undefined, 1, 2]);
+    expect(state.cursor).toBe(0);
+  });
+});
+
+describe('patternLabel', () => {
+  it('strips surrounding brackets', () => {
+    expect(patternLabel('WRN]')).toBe('WRN');
+    expect(patternLabel('[ERROR]')).toBe('ERROR');
+    expect(patternLabel('panic')).toBe('panic');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createTestState, createTestConfig, createMockStatus } from './helpers';
+import { statusKey } from '../src/lib/state';
+import { branchOptions, worktreePathFor, worktreeUsers, worktreeProjectName } from '../src/lib/worktree';
+
+describe('branchOptions', () => {
+  const branches = { local: ['main', 'feature/login', 'fix-bug'], remote: ['origin/main', 'origin/release'] };
+
+  it('leaves out checked out branches and remotes with a local branch', () => {
+    const options = branchOptions(branches, ['main'], '');
+    expect(options.map(o => [o.branch, o.create, o.startPoint])).toEqual([
+      ['feature/login', false, null],
+      ['fix-bug', false, null],
+      ['release', true, 'origin/release'],
+    ]);
+  });
+
+  it('fuzzy-matches the query and offers an unknown name as a new branch first', () => {
+    const options = branchOptions(branches, ['main'], 'fix');
+    expect(options[0]).toEqual({ branch: 'fix', create: true, startPoint: null, positions: [] });
+    expect(options[1].branch).toBe('fix-bug');
+    expect(options[1].positions).toEqual([0, 1, 2]);
+  });
+
+  it('does not offer an existing branch name or a name with spaces as new', () => {
+    expect(branchOptions(branches, [], 'release').every(o => o.startPoint === 'origin/release')).toBe(true);
+    expect(branchOptions(branches, [], 'fix bug').some(o => o.create && !o.startPoint)).toBe(false);
+  });
+});
+
+describe('worktreePathFor', () => {
+  it('puts worktrees next to the main one unless worktreeDir is set', () => {
+    expect(worktreePathFor(createTestConfig(), '/src/shop', 'feature/login')).toBe('/src/shop-feature-login');
+    expect(worktreePathFor(createTestConfig({ worktreeDir: '/tmp/trees' }), '/src/shop', 'fix')).toBe('/tmp/trees/fix');
+  });
+});
+
+describe('worktreeProjectName', () => {
+  it('names the project after the group or the branch', () => {
+    expect(worktreeProjectName('directory', 'shop', 'main')).toBeNull();
+    expect(worktreeProjectName('shared', 'shop', 'feature/Login')).toBe('shop');
+    expect(worktreeProjectName('branch', 'shop', 'feature/Login')).toBe('shop-feature-login');
+  });
+});
+
+describe('worktreeUsers', () => {
+  it('lists services switched to the worktree or with containers created from it', () => {
+    const state = createTestState();
+    const services = '/path/to/services/docker-compose.yml';
+    state.worktreeOverrides.set(statusKey(services, 'api-gateway'), '/wt/fix/services/docker-compose.yml');
+    state.statuses.set(statusKey(services, 'user-service'), createMockStatus({ workingDir: '/wt/fix/services' }));
+    expect(worktreeUsers(state, '/wt/fix')).toEqual(['api-gateway', 'user-service']);
+    expect(worktreeUsers(state, '/wt/fi')).toEqual([]);
+  });
+});